@@ -0,0 +1,69 @@
+/**
+ * Batch Results API Route
+ * GET /api/batches/:id/results - Download all job results of a batch in one response
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import {
+  withErrorHandling,
+  successResponse,
+  ApiError,
+} from "@/lib/api-helpers";
+import { requireAuthOrApiKey } from "@/lib/auth-unified";
+import * as batchService from "@/services/batchService";
+import { logger } from "@/lib/logger";
+
+export const GET = withErrorHandling(
+  async (
+    request: NextRequest,
+    context?: { params: Promise<Record<string, string>> }
+  ) => {
+    if (!context) throw new ApiError("Missing params", 400);
+    const authContext = await requireAuthOrApiKey(request, "jobs:read");
+    const { id } = await context.params;
+
+    if (!id) throw new ApiError("Missing batch ID", 400);
+
+    // ?format=json (default) wraps results in the standard envelope,
+    // ?format=ndjson streams one job per line for large batches
+    const url = new URL(request.url);
+    const format = url.searchParams.get("format") || "json";
+    if (format !== "json" && format !== "ndjson") {
+      throw new ApiError("Invalid format. Use 'json' or 'ndjson'", 400);
+    }
+
+    const batch = await batchService.getBatch(id, authContext.userId);
+    if (!batch) {
+      throw new ApiError("Batch not found", 404, "NOT_FOUND");
+    }
+
+    const jobs = await batchService.listBatchJobs(batch.id);
+
+    logger.info("Returning batch results", {
+      batch_id: batch.id,
+      user_id: authContext.userId,
+      format,
+      jobs: jobs.length,
+    });
+
+    if (format === "ndjson") {
+      const body = jobs.map((job) => JSON.stringify(job)).join("\n");
+      return new NextResponse(body ? `${body}\n` : "", {
+        status: 200,
+        headers: {
+          "Content-Type": "application/x-ndjson",
+          "Content-Disposition": `attachment; filename="batch-${batch.id}.ndjson"`,
+          "X-Batch-Id": batch.id,
+          "X-Batch-Status": batch.status,
+        },
+      });
+    }
+
+    return successResponse({
+      batch_id: batch.id,
+      status: batch.status,
+      counts: batch.counts,
+      results: jobs,
+    });
+  }
+);
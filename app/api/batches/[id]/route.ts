@@ -0,0 +1,40 @@
+/**
+ * Batch Detail API Route
+ * GET /api/batches/:id - Get batch status and aggregate job counts
+ */
+
+import { NextRequest } from "next/server";
+import {
+  withErrorHandling,
+  successResponse,
+  ApiError,
+} from "@/lib/api-helpers";
+import { requireAuthOrApiKey } from "@/lib/auth-unified";
+import * as batchService from "@/services/batchService";
+import { logger } from "@/lib/logger";
+
+export const GET = withErrorHandling(
+  async (
+    request: NextRequest,
+    context?: { params: Promise<Record<string, string>> }
+  ) => {
+    if (!context) throw new ApiError("Missing params", 400);
+    const authContext = await requireAuthOrApiKey(request, "jobs:read");
+    const { id } = await context.params;
+
+    if (!id) throw new ApiError("Missing batch ID", 400);
+
+    logger.info("Getting batch via API", {
+      batch_id: id,
+      user_id: authContext.userId,
+    });
+
+    const batch = await batchService.getBatch(id, authContext.userId);
+
+    if (!batch) {
+      throw new ApiError("Batch not found", 404, "NOT_FOUND");
+    }
+
+    return successResponse(batch);
+  }
+);
@@ -8,6 +8,7 @@
 import { NextRequest, NextResponse } from "next/server";
 import { supabaseServer } from "@/lib/supabase-server";
 import { logger } from "@/lib/logger";
+import { enqueueJob } from "@/queues/pgmq";
 import { v4 as uuidv4 } from "uuid";
 
 // Demo pattern IDs (read-only patterns for public demo)
@@ -19,8 +20,6 @@ const DEMO_PATTERN_IDS = [
   "00000000-0000-0000-0000-000000000005",
 ];
 
-const QUEUE_NAME = process.env.SUPABASE_PGMQ_QUEUE || "ingest_jobs";
-
 export async function POST(request: NextRequest) {
   try {
     const body = await request.json();
@@ -99,7 +98,7 @@ export async function POST(request: NextRequest) {
       );
     }
 
-    // Enqueue to PGMQ
+    // Enqueue to the default lane
     const payload = {
       job_id: jobId,
       pattern_id: pattern_id,
@@ -110,12 +109,11 @@ export async function POST(request: NextRequest) {
       },
     };
 
-    const { error: queueError } = await supabaseServer.rpc("pgmq_send", {
-      queue_name: QUEUE_NAME,
-      msg: payload,
-    });
+    const enqueued = await enqueueJob(payload);
+
+    if (!enqueued.success) {
+      const queueError = { message: enqueued.error ?? "Unknown error" };
 
-    if (queueError) {
       logger.error("Failed to enqueue demo job", {
         job_id: jobId,
         error: queueError.message,
@@ -0,0 +1,40 @@
+/**
+ * Export Detail API Route
+ * GET /api/exports/:id - Get export status and, once succeeded, a signed download URL
+ */
+
+import { NextRequest } from "next/server";
+import {
+  withErrorHandling,
+  successResponse,
+  ApiError,
+} from "@/lib/api-helpers";
+import { requireAuthOrApiKey } from "@/lib/auth-unified";
+import * as exportService from "@/services/exportService";
+import { logger } from "@/lib/logger";
+
+export const GET = withErrorHandling(
+  async (
+    request: NextRequest,
+    context?: { params: Promise<Record<string, string>> }
+  ) => {
+    if (!context) throw new ApiError("Missing params", 400);
+    const authContext = await requireAuthOrApiKey(request, "jobs:read");
+    const { id } = await context.params;
+
+    if (!id) throw new ApiError("Missing export ID", 400);
+
+    logger.info("Getting export via API", {
+      export_id: id,
+      user_id: authContext.userId,
+    });
+
+    const exportInfo = await exportService.getExport(id, authContext.userId);
+
+    if (!exportInfo) {
+      throw new ApiError("Export not found", 404, "NOT_FOUND");
+    }
+
+    return successResponse(exportInfo);
+  }
+);
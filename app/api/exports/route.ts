@@ -0,0 +1,65 @@
+/**
+ * Exports API Route
+ * POST /api/exports - Export the job results of a pattern as one file (ndjson, csv, xlsx or zip)
+ * The file is built after the response; poll GET /api/exports/:id or subscribe to export.ready
+ */
+
+import { NextRequest, after } from "next/server";
+import {
+  withErrorHandling,
+  parseBody,
+  successResponse,
+  ApiError,
+} from "@/lib/api-helpers";
+import { requireAuthOrApiKey } from "@/lib/auth-unified";
+import {
+  ExportCreateRequestSchema,
+  MAX_EXPORT_JOBS,
+  resolveExportFilters,
+} from "@/schemas/manifest";
+import * as patternService from "@/services/patternService";
+import * as exportService from "@/services/exportService";
+import { logger } from "@/lib/logger";
+
+// The export is built within this function's lifetime (after the response is sent);
+// exports still unfinished after 10 minutes are failed by fail_stale_exports (054)
+export const maxDuration = 300;
+
+export const POST = withErrorHandling(async (request: NextRequest) => {
+  const authContext = await requireAuthOrApiKey(request, "jobs:read");
+  const body = await parseBody(request, ExportCreateRequestSchema);
+  const filters = resolveExportFilters(body.filters);
+
+  const pattern = await patternService.getPattern(body.pattern_id, authContext.userId);
+  if (!pattern) {
+    throw new ApiError("Pattern not found", 404, "NOT_FOUND");
+  }
+
+  const jobCount = await exportService.countExportJobs(pattern.id, filters);
+  if (jobCount > MAX_EXPORT_JOBS) {
+    throw new ApiError(
+      `Export would contain ${jobCount} jobs (max ${MAX_EXPORT_JOBS}). Narrow the time range.`,
+      400,
+      "EXPORT_TOO_LARGE"
+    );
+  }
+
+  const created = await exportService.createExport({
+    userId: authContext.userId,
+    patternId: pattern.id,
+    format: body.format,
+    filters,
+  });
+
+  logger.info("Export requested", {
+    export_id: created.id,
+    pattern_id: pattern.id,
+    user_id: authContext.userId,
+    format: body.format,
+    jobs: jobCount,
+  });
+
+  after(() => exportService.runExport(created.id));
+
+  return successResponse(created, 202);
+});
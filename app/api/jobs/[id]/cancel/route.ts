@@ -0,0 +1,68 @@
+/**
+ * Job Cancel API Route
+ * POST /api/jobs/:id/cancel - Cancel a queued or running job
+ */
+
+import { NextRequest } from "next/server";
+import {
+  withErrorHandling,
+  successResponse,
+  ApiError,
+} from "@/lib/api-helpers";
+import { requireAuthOrApiKey } from "@/lib/auth-unified";
+import * as jobService from "@/services/jobService";
+import { sendWebhook } from "@/services/webhookService";
+import { completeBatchForJob } from "@/services/batchService";
+import { logger } from "@/lib/logger";
+
+export const POST = withErrorHandling(
+  async (
+    request: NextRequest,
+    context?: { params: Promise<Record<string, string>> }
+  ) => {
+    if (!context) throw new ApiError("Missing params", 400);
+
+    // Cancelling is part of submitting work, so it shares the ingest scope
+    const authContext = await requireAuthOrApiKey(request, "patterns:ingest");
+    const { id } = await context.params;
+
+    if (!id) throw new ApiError("Missing job ID", 400);
+
+    logger.info("Cancelling job via API", {
+      job_id: id,
+      user_id: authContext.userId,
+    });
+
+    const result = await jobService.cancelJob(id, authContext.userId);
+
+    if (!result) {
+      throw new ApiError("Job not found", 404, "NOT_FOUND");
+    }
+
+    if (!result.cancelled) {
+      throw new ApiError(
+        `Job is already ${result.previousStatus} and cannot be cancelled`,
+        409,
+        "JOB_NOT_CANCELLABLE",
+        { status: result.previousStatus }
+      );
+    }
+
+    await sendWebhook({
+      userId: authContext.userId,
+      event: "job.cancelled",
+      jobId: result.job.id,
+      patternId: result.job.pattern_id,
+      error: "Cancelled by user",
+    });
+
+    // A cancelled job may be the last open job of its batch
+    await completeBatchForJob(result.job.id);
+
+    return successResponse({
+      job_id: result.job.id,
+      status: "cancelled",
+      previous_status: result.previousStatus,
+    });
+  }
+);
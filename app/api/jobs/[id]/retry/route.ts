@@ -0,0 +1,90 @@
+/**
+ * Job Retry API Route
+ * POST /api/jobs/:id/retry - Re-enqueue a failed job as a new attempt
+ */
+
+import { NextRequest } from "next/server";
+import {
+  withErrorHandling,
+  successResponse,
+  ApiError,
+} from "@/lib/api-helpers";
+import { requireAuthOrApiKey, getRequestIp } from "@/lib/auth-unified";
+import {
+  enforceRateLimit,
+  checkRateLimit,
+  getRateLimitHeaders,
+  RateLimitStatus,
+} from "@/middleware/rateLimitParametric";
+import * as jobService from "@/services/jobService";
+import { logger } from "@/lib/logger";
+
+export const POST = withErrorHandling(
+  async (
+    request: NextRequest,
+    context?: { params: Promise<Record<string, string>> }
+  ) => {
+    if (!context) throw new ApiError("Missing params", 400);
+
+    // Retrying re-processes the image, so it needs the ingest scope and counts against quota
+    const authContext = await requireAuthOrApiKey(request, "patterns:ingest");
+
+    const requestIp = getRequestIp(request);
+    const endpoint = "/api/jobs/[id]/retry";
+    const rateLimitStatusRef: { current?: RateLimitStatus } = {};
+    const rateLimitResponse = await enforceRateLimit(
+      authContext.userId,
+      authContext,
+      endpoint,
+      requestIp,
+      { statusRef: rateLimitStatusRef }
+    );
+    if (rateLimitResponse) return rateLimitResponse;
+
+    const rateLimitStatus =
+      rateLimitStatusRef.current ??
+      (await checkRateLimit(authContext.userId, authContext));
+
+    const { id } = await context.params;
+    if (!id) throw new ApiError("Missing job ID", 400);
+
+    logger.info("Retrying job via API", {
+      job_id: id,
+      user_id: authContext.userId,
+    });
+
+    const result = await jobService.retryJob(id, authContext.userId);
+
+    if (!result) {
+      throw new ApiError("Job not found", 404, "NOT_FOUND");
+    }
+
+    if (!result.retried) {
+      throw new ApiError(
+        `Only failed jobs can be retried (job is ${result.status})`,
+        409,
+        "JOB_NOT_RETRYABLE",
+        { status: result.status }
+      );
+    }
+
+    // ⚡ INSTANT: Trigger worker immediately (non-blocking, cron is backup)
+    jobService.triggerWorker({ job_id: id });
+
+    const response = successResponse(
+      {
+        job_id: id,
+        status: result.status,
+        attempt: result.attemptNumber,
+        message: "Job re-queued for processing",
+      },
+      202
+    );
+
+    Object.entries(getRateLimitHeaders(rateLimitStatus)).forEach(([key, value]) => {
+      response.headers.set(key, value);
+    });
+
+    return response;
+  }
+);
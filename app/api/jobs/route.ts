@@ -1,6 +1,6 @@
 /**
  * Jobs API Routes
- * GET /api/jobs - List user's jobs
+ * GET /api/jobs - List user's jobs (optionally filtered by manifest content, see lib/manifestFilters)
  */
 
 import { NextRequest } from "next/server";
@@ -9,16 +9,22 @@ import {
   requireAuth,
   parseQuery,
   successResponse,
+  ApiError,
 } from "@/lib/api-helpers";
-import { supabaseServer } from "@/lib/supabase-server";
 import { logger } from "@/lib/logger";
+import { parseManifestFilters, buildManifestPath } from "@/lib/manifestFilters";
+import { selectJobs } from "@/services/jobService";
 import { z } from "zod";
 
 const ListJobsQuerySchema = z.object({
   page: z.coerce.number().int().positive().optional().default(1),
   per_page: z.coerce.number().int().positive().max(100).optional().default(15),
   pattern_id: z.string().uuid().optional(),
-  status: z.enum(["queued", "running", "succeeded", "failed"]).optional(),
+  status: z.enum(["scheduled", "queued", "running", "succeeded", "failed", "cancelled", "expired"]).optional(),
+  created_after: z.string().datetime({ offset: true }).optional(),
+  created_before: z.string().datetime({ offset: true }).optional(),
+  pattern_version: z.coerce.number().int().min(0).optional(),
+  reprocess_of: z.string().uuid().optional(),
 });
 
 export const GET = withErrorHandling(async (request: NextRequest) => {
@@ -29,19 +35,34 @@ export const GET = withErrorHandling(async (request: NextRequest) => {
     user_id: user.userId,
   });
 
-  const { page = 1, per_page = 15, pattern_id, status } = query;
+  const {
+    page = 1,
+    per_page = 15,
+    pattern_id,
+    status,
+    created_after,
+    created_before,
+    pattern_version,
+    reprocess_of,
+  } = query;
   const offset = (page - 1) * per_page;
 
+  // manifest.brand=Logitech, manifest.price>=10, exists:manifest.barcode
+  const manifestFilters = parseManifestFilters(request.nextUrl.search);
+  if (manifestFilters.error !== null) {
+    throw new ApiError(manifestFilters.error, 400, "INVALID_MANIFEST_FILTER");
+  }
+  const manifestPath =
+    manifestFilters.filters.length > 0 ? buildManifestPath(manifestFilters.filters) : null;
+
   // Build query with pattern ownership check
-  let jobsQuery = supabaseServer
-    .from("jobs")
-    .select(
-      `
+  let jobsQuery = selectJobs(
+    `
       *,
       patterns!inner(id, name, user_id, format)
     `,
-      { count: "exact" }
-    )
+    manifestPath
+  )
     .eq("patterns.user_id", user.userId)
     .order("created_at", { ascending: false });
 
@@ -53,13 +74,34 @@ export const GET = withErrorHandling(async (request: NextRequest) => {
     jobsQuery = jobsQuery.eq("status", status);
   }
 
+  if (created_after) {
+    jobsQuery = jobsQuery.gte("created_at", created_after);
+  }
+
+  if (created_before) {
+    jobsQuery = jobsQuery.lt("created_at", created_before);
+  }
+
+  if (pattern_version !== undefined) {
+    jobsQuery = jobsQuery.eq("pattern_version", pattern_version);
+  }
+
+  // Reprocessed results of one original job
+  if (reprocess_of) {
+    jobsQuery = jobsQuery.eq("reprocess_of", reprocess_of);
+  }
+
   const { data, error, count } = await jobsQuery.range(
     offset,
     offset + per_page - 1
   );
 
   if (error) {
-    logger.error("Failed to list jobs", error, { user_id: user.userId });
+    // Malformed jsonpath only happens for filters the parser let through; report it as a bad request
+    if (manifestPath && error.code === "42601") {
+      throw new ApiError("Invalid manifest filter", 400, "INVALID_MANIFEST_FILTER");
+    }
+    logger.error("Failed to list jobs", error, { user_id: user.userId, manifest_path: manifestPath });
     throw error;
   }
 
@@ -1,6 +1,6 @@
 /**
  * Logs API
- * GET /api/logs - Get all jobs with filtering (time_range, pattern_id, status)
+ * GET /api/logs - Get all jobs with filtering (time_range, pattern_id, status, manifest.* filters)
  */
 
 import { NextRequest } from "next/server";
@@ -10,13 +10,15 @@ import {
   parseQuery,
   successResponse,
   withErrorHandling,
+  ApiError,
 } from "@/lib/api-helpers";
-import { supabaseServer } from "@/lib/supabase-server";
+import { parseManifestFilters, buildManifestPath } from "@/lib/manifestFilters";
+import { selectJobs } from "@/services/jobService";
 
 const LogsQuerySchema = z.object({
-  time_range: z.enum(["1m", "15m", "1h", "6h", "12h", "24h", "all"]).default("24h"),
+  time_range: z.enum(["1m", "15m", "1h", "6h", "12h", "24h", "7d", "30d", "all"]).default("24h"),
   pattern_id: z.string().uuid().optional(),
-  status: z.enum(["queued", "running", "succeeded", "failed"]).optional(),
+  status: z.enum(["scheduled", "queued", "running", "succeeded", "failed", "cancelled", "expired"]).optional(),
   page: z.coerce.number().int().positive().default(1),
   per_page: z.coerce.number().int().min(1).max(100).default(50),
 });
@@ -29,6 +31,8 @@ const TIME_RANGE_MS: Record<string, number> = {
   "6h": 6 * 60 * 60 * 1000,
   "12h": 12 * 60 * 60 * 1000,
   "24h": 24 * 60 * 60 * 1000,
+  "7d": 7 * 24 * 60 * 60 * 1000,
+  "30d": 30 * 24 * 60 * 60 * 1000,
   "all": 100 * 365 * 24 * 60 * 60 * 1000, // Effectively all records
 };
 
@@ -42,11 +46,17 @@ export const GET = withErrorHandling(async (request: NextRequest) => {
   const timeRange = query.time_range ?? "24h";
   const offset = (page - 1) * perPage;
 
+  // manifest.price_tag_visible=false, manifest.price>=10, exists:manifest.barcode
+  const manifestFilters = parseManifestFilters(request.nextUrl.search);
+  if (manifestFilters.error !== null) {
+    throw new ApiError(manifestFilters.error, 400, "INVALID_MANIFEST_FILTER");
+  }
+  const manifestPath =
+    manifestFilters.filters.length > 0 ? buildManifestPath(manifestFilters.filters) : null;
+
   // Build base query
-  let queryBuilder = supabaseServer
-    .from("jobs")
-    .select(
-      `
+  let queryBuilder = selectJobs(
+    `
       id,
       pattern_id,
       image_url,
@@ -64,8 +74,8 @@ export const GET = withErrorHandling(async (request: NextRequest) => {
         user_id
       )
     `,
-      { count: "exact" }
-    )
+    manifestPath
+  )
     .eq("patterns.user_id", user.userId);
 
   // Apply time range filter
@@ -93,6 +103,9 @@ export const GET = withErrorHandling(async (request: NextRequest) => {
   const { data: jobs, error, count } = await queryBuilder;
 
   if (error) {
+    if (manifestPath && error.code === "42601") {
+      throw new ApiError("Invalid manifest filter", 400, "INVALID_MANIFEST_FILTER");
+    }
     throw error;
   }
 
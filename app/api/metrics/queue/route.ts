@@ -9,11 +9,14 @@ import {
   requireAuth,
   successResponse,
 } from "@/lib/api-helpers";
-import { getQueueMetrics } from "@/queues/pgmq";
+import { getQueueMetrics, getQueueName, getActiveLanes, DEAD_LETTER_QUEUE } from "@/queues/pgmq";
+import { getQueueBackend, type QueueBackendKind } from "@/queues/backend";
+import type { JobPriority } from "@/schemas/manifest";
 import { supabaseServer } from "@/lib/supabase-server";
 import { logger } from "@/lib/logger";
 
 interface QueueHealthMetrics {
+  backend: QueueBackendKind;
   queue: {
     name: string;
     length: number;
@@ -21,6 +24,16 @@ interface QueueHealthMetrics {
     newest_msg_age_sec: number | null;
     total_messages: number;
   };
+  lanes: {
+    priority: JobPriority;
+    name: string;
+    length: number;
+    oldest_msg_age_sec: number | null;
+  }[];
+  dead_letter: {
+    name: string;
+    length: number;
+  };
   jobs: {
     queued: number;
     running: number;
@@ -193,7 +206,7 @@ export const GET = withErrorHandling(async (request: NextRequest) => {
     user_id: user.userId,
   });
 
-  // Get PGMQ metrics
+  // Get queue metrics (pgmq or in-memory backend)
   const queueMetrics = await getQueueMetrics();
 
   if (!queueMetrics) {
@@ -201,6 +214,22 @@ export const GET = withErrorHandling(async (request: NextRequest) => {
     throw new Error("Failed to retrieve queue metrics");
   }
 
+  // Per-lane backlog (a lane whose metrics are unavailable is reported empty)
+  const lanes = await Promise.all(
+    getActiveLanes().map(async (priority) => {
+      const laneMetrics = priority === "default" ? queueMetrics : await getQueueMetrics(priority);
+      return {
+        priority,
+        name: getQueueName(priority),
+        length: laneMetrics?.queue_length ?? 0,
+        oldest_msg_age_sec: laneMetrics?.oldest_msg_age_sec ?? null,
+      };
+    })
+  );
+
+  // Poison messages are parked here instead of aging in the main queue
+  const deadLetterMetrics = await getQueueMetrics("dead_letter");
+
   // Get job counts for this user (last hour)
   const oneHourAgo = new Date(Date.now() - 60 * 60 * 1000).toISOString();
 
@@ -228,13 +257,19 @@ export const GET = withErrorHandling(async (request: NextRequest) => {
   const health = calculateHealth(queueMetrics, counts);
 
   const metrics: QueueHealthMetrics = {
+    backend: getQueueBackend().kind,
     queue: {
-      name: process.env.SUPABASE_PGMQ_QUEUE || "ingest_jobs",
+      name: getQueueName("default"),
       length: queueMetrics.queue_length,
       oldest_msg_age_sec: queueMetrics.oldest_msg_age_sec,
       newest_msg_age_sec: queueMetrics.newest_msg_age_sec,
       total_messages: queueMetrics.total_messages,
     },
+    lanes,
+    dead_letter: {
+      name: DEAD_LETTER_QUEUE,
+      length: deadLetterMetrics?.queue_length ?? 0,
+    },
     jobs: counts,
     health,
     timestamp: new Date().toISOString(),
@@ -0,0 +1,93 @@
+/**
+ * Custom Model Profile Detail API Routes
+ * PATCH /api/model-profiles/:id - Update endpoint settings (api_key null removes the key)
+ * DELETE /api/model-profiles/:id - Delete a profile no pattern uses
+ */
+
+import { NextRequest } from "next/server";
+import {
+  withErrorHandling,
+  parseBody,
+  successResponse,
+  ApiError,
+} from "@/lib/api-helpers";
+import { requireAuthOrApiKey } from "@/lib/auth-unified";
+import { CustomModelProfileUpdateSchema } from "@/schemas/pattern";
+import * as modelProfileService from "@/services/modelProfileService";
+import { logger } from "@/lib/logger";
+
+export const PATCH = withErrorHandling(
+  async (
+    request: NextRequest,
+    context?: { params: Promise<Record<string, string>> }
+  ) => {
+    if (!context) throw new ApiError("Missing params", 400);
+    const authContext = await requireAuthOrApiKey(request, "patterns:write");
+    const { id } = await context.params;
+    if (!id) throw new ApiError("Missing model profile ID", 400);
+
+    const input = await parseBody(request, CustomModelProfileUpdateSchema);
+
+    if (input.base_url && !(await modelProfileService.isAllowedBaseUrl(input.base_url))) {
+      throw new ApiError(
+        "Base URL host is not allowed (internal address or not in CUSTOM_MODEL_ALLOWED_HOSTS)",
+        400,
+        "BASE_URL_NOT_ALLOWED"
+      );
+    }
+
+    const existing = await modelProfileService.getCustomModelProfile(id, authContext.userId);
+    if (!existing) {
+      throw new ApiError("Model profile not found", 404, "NOT_FOUND");
+    }
+
+    logger.info("Updating custom model profile via API", {
+      model_profile_id: id,
+      user_id: authContext.userId,
+    });
+
+    const profile = await modelProfileService.updateCustomModelProfile(id, authContext.userId, input);
+
+    return successResponse(profile);
+  }
+);
+
+export const DELETE = withErrorHandling(
+  async (
+    request: NextRequest,
+    context?: { params: Promise<Record<string, string>> }
+  ) => {
+    if (!context) throw new ApiError("Missing params", 400);
+    const authContext = await requireAuthOrApiKey(request, "patterns:delete");
+    const { id } = await context.params;
+    if (!id) throw new ApiError("Missing model profile ID", 400);
+
+    const existing = await modelProfileService.getCustomModelProfile(id, authContext.userId);
+    if (!existing) {
+      throw new ApiError("Model profile not found", 404, "NOT_FOUND");
+    }
+
+    // Jobs of these patterns would fail: move them to another profile first
+    const patterns = await modelProfileService.listPatternsUsingModelProfile(
+      authContext.userId,
+      `custom:${existing.name}`
+    );
+    if (patterns.length > 0) {
+      throw new ApiError(
+        `Model profile ${existing.model_profile} is used by ${patterns.length} pattern(s)`,
+        409,
+        "MODEL_PROFILE_IN_USE",
+        { patterns }
+      );
+    }
+
+    logger.info("Deleting custom model profile via API", {
+      model_profile_id: id,
+      user_id: authContext.userId,
+    });
+
+    await modelProfileService.deleteCustomModelProfile(id, authContext.userId);
+
+    return successResponse({ message: "Model profile deleted successfully" });
+  }
+);
@@ -0,0 +1,63 @@
+/**
+ * Custom Model Profiles API Routes
+ * POST /api/model-profiles - Register an OpenAI-compatible endpoint (vLLM, Ollama, LM Studio)
+ * GET /api/model-profiles - List custom model profiles
+ * Patterns use a profile as model_profile "custom:<name>"
+ */
+
+import { NextRequest } from "next/server";
+import {
+  withErrorHandling,
+  parseBody,
+  successResponse,
+  ApiError,
+} from "@/lib/api-helpers";
+import { requireAuthOrApiKey } from "@/lib/auth-unified";
+import { CustomModelProfileCreateSchema } from "@/schemas/pattern";
+import * as modelProfileService from "@/services/modelProfileService";
+import { logger } from "@/lib/logger";
+
+export const POST = withErrorHandling(async (request: NextRequest) => {
+  // Model profiles decide where pattern images are sent: same scope as pattern changes
+  const authContext = await requireAuthOrApiKey(request, "patterns:write");
+  const userId = authContext.userId;
+
+  const input = await parseBody(request, CustomModelProfileCreateSchema);
+
+  if (!(await modelProfileService.isAllowedBaseUrl(input.base_url))) {
+    throw new ApiError(
+      "Base URL host is not allowed (internal address or not in CUSTOM_MODEL_ALLOWED_HOSTS)",
+      400,
+      "BASE_URL_NOT_ALLOWED"
+    );
+  }
+
+  const existing = await modelProfileService.listCustomModelProfiles(userId);
+  if (existing.some((profile) => profile.name === input.name)) {
+    throw new ApiError(
+      `A model profile named "${input.name}" already exists`,
+      409,
+      "MODEL_PROFILE_EXISTS"
+    );
+  }
+
+  logger.info("Creating custom model profile via API", {
+    user_id: userId,
+    name: input.name,
+    base_url: input.base_url,
+  });
+
+  const profile = await modelProfileService.createCustomModelProfile(userId, input);
+
+  return successResponse(profile, 201);
+});
+
+export const GET = withErrorHandling(async (request: NextRequest) => {
+  const authContext = await requireAuthOrApiKey(request, "patterns:read");
+
+  const profiles = await modelProfileService.listCustomModelProfiles(authContext.userId);
+
+  return successResponse({
+    data: profiles,
+  });
+});
@@ -0,0 +1,336 @@
+/**
+ * Pattern Batch Ingest API Route
+ * POST /api/patterns/:id/ingest/batch - Enqueue many images as one trackable batch
+ * Optional `priority` picks the queue lane; use "bulk" for backfills so interactive jobs are not delayed
+ * Optional `process_at` / `delay_seconds` defer the whole batch (e.g. to an overnight import window)
+ * Optional `expires_in_seconds` (default: pattern job_ttl_seconds) expires jobs that wait too long
+ */
+
+import { NextRequest } from "next/server";
+import {
+  withErrorHandling,
+  parseBody,
+  successResponse,
+  ApiError,
+} from "@/lib/api-helpers";
+import {
+  BatchIngestRequestSchema,
+  JobPrioritySchema,
+  JobPriority,
+  JobScheduleSchema,
+  JobSchedule,
+  JobTtlSchema,
+  MAX_BATCH_SIZE,
+  capJobPriority,
+  resolveJobSchedule,
+} from "@/schemas/manifest";
+import * as patternService from "@/services/patternService";
+import * as jobService from "@/services/jobService";
+import * as batchService from "@/services/batchService";
+import { getMaxJobPriority } from "@/services/planService";
+import { logger } from "@/lib/logger";
+import { requireAuthOrApiKey, getRequestIp } from "@/lib/auth-unified";
+import {
+  enforceRateLimit,
+  checkRateLimit,
+  getRateLimitHeaders,
+  incrementRequestCountBy,
+  RateLimitStatus,
+} from "@/middleware/rateLimitParametric";
+import { uploadToSupabaseStorage, validateImageFile } from "@/services/storageService";
+import { preprocessImage } from "@/services/imagePreprocessingService";
+import type { PreprocessingConfig } from "@/schemas/pattern";
+
+// Configure Vercel function timeout (Pro: 30s max)
+export const maxDuration = 30;
+
+// Number of jobs created/enqueued concurrently
+const ENQUEUE_CONCURRENCY = 10;
+
+export const POST = withErrorHandling(
+  async (
+    request: NextRequest,
+    context?: { params: Promise<Record<string, string>> }
+  ) => {
+    if (!context) throw new ApiError("Missing params", 400);
+
+    // Dual authentication: API Key or Session
+    const authContext = await requireAuthOrApiKey(request, "patterns:ingest");
+
+    const requestIp = getRequestIp(request);
+
+    // Parametric rate limiting (counts the first image; the rest are charged below)
+    const endpoint = "/api/patterns/[id]/ingest/batch";
+    const rateLimitStatusRef: { current?: RateLimitStatus } = {};
+    const rateLimitResponse = await enforceRateLimit(
+      authContext.userId,
+      authContext,
+      endpoint,
+      requestIp,
+      { statusRef: rateLimitStatusRef }
+    );
+    if (rateLimitResponse) return rateLimitResponse;
+
+    const rateLimitStatus =
+      rateLimitStatusRef.current ??
+      (await checkRateLimit(authContext.userId, authContext));
+
+    const { id: patternId } = await context.params;
+    if (!patternId) throw new ApiError("Missing pattern ID", 400);
+
+    // Verify pattern exists and user owns it (before uploading anything)
+    const pattern = await patternService.getPattern(patternId, authContext.userId);
+    if (!pattern) {
+      throw new ApiError("Pattern not found", 404, "NOT_FOUND");
+    }
+
+    if (!pattern.is_active) {
+      throw new ApiError("Pattern is not active", 400, "PATTERN_INACTIVE");
+    }
+
+    const contentType = request.headers.get("content-type") || "";
+    const isMultipart = contentType.includes("multipart/form-data");
+    let imageFiles: File[] = [];
+    let imageUrls: string[] = [];
+    let extras: Record<string, unknown> | undefined;
+    let requestedPriority: JobPriority | undefined;
+    let requestedSchedule: JobSchedule = {};
+    let expiresInSeconds: number | undefined;
+
+    if (isMultipart) {
+      // 📤 MULTIPART: one 'image' part per file
+      const formData = await request.formData();
+      imageFiles = formData.getAll("image").filter((part): part is File => part instanceof File);
+      const extrasString = formData.get("extras") as string | null;
+      const priorityString = formData.get("priority") as string | null;
+      const processAtString = formData.get("process_at") as string | null;
+      const delaySecondsString = formData.get("delay_seconds") as string | null;
+      const expiresInString = formData.get("expires_in_seconds") as string | null;
+
+      if (extrasString) {
+        try {
+          extras = JSON.parse(extrasString);
+        } catch {
+          throw new ApiError("Invalid extras JSON", 400);
+        }
+      }
+
+      if (priorityString) {
+        const parsedPriority = JobPrioritySchema.safeParse(priorityString);
+        if (!parsedPriority.success) {
+          throw new ApiError("Invalid priority. Use interactive, default or bulk", 400, "VALIDATION_ERROR");
+        }
+        requestedPriority = parsedPriority.data;
+      }
+
+      if (processAtString || delaySecondsString) {
+        const parsedSchedule = JobScheduleSchema.safeParse({
+          process_at: processAtString || undefined,
+          delay_seconds: delaySecondsString ? Number(delaySecondsString) : undefined,
+        });
+        if (!parsedSchedule.success) {
+          throw new ApiError("Invalid schedule", 400, "VALIDATION_ERROR", parsedSchedule.error.flatten().fieldErrors);
+        }
+        requestedSchedule = parsedSchedule.data;
+      }
+
+      if (expiresInString) {
+        const parsedTtl = JobTtlSchema.safeParse(Number(expiresInString));
+        if (!parsedTtl.success) {
+          throw new ApiError("Invalid expires_in_seconds", 400, "VALIDATION_ERROR");
+        }
+        expiresInSeconds = parsedTtl.data;
+      }
+
+      if (imageFiles.length === 0) {
+        throw new ApiError("Missing 'image' fields in form data", 400);
+      }
+
+      if (imageFiles.length > MAX_BATCH_SIZE) {
+        throw new ApiError(`A batch cannot contain more than ${MAX_BATCH_SIZE} images`, 400);
+      }
+
+      imageFiles.forEach((file, index) => {
+        const validationError = validateImageFile(file);
+        if (validationError) {
+          throw new ApiError(`Image ${index} (${file.name}): ${validationError}`, 400);
+        }
+      });
+    } else {
+      // 🔗 JSON: list of image URLs
+      const input = await parseBody(request, BatchIngestRequestSchema);
+      imageUrls = input.image_urls;
+      extras = input.extras;
+      requestedPriority = input.priority;
+      requestedSchedule = { process_at: input.process_at, delay_seconds: input.delay_seconds };
+      expiresInSeconds = input.expires_in_seconds;
+    }
+
+    // All jobs of the batch share one release time
+    const resolvedSchedule = resolveJobSchedule(requestedSchedule);
+    if (resolvedSchedule.error !== null) {
+      throw new ApiError(resolvedSchedule.error, 400, "VALIDATION_ERROR");
+    }
+    const schedule = resolvedSchedule.schedule;
+
+    // TTL counts from when the jobs become due, so scheduled batches get their full window
+    const ttlSeconds = expiresInSeconds ?? pattern.job_ttl_seconds ?? undefined;
+    const expiresAt = ttlSeconds
+      ? new Date((schedule?.scheduledFor.getTime() ?? Date.now()) + ttlSeconds * 1000)
+      : undefined;
+
+    const imageCount = isMultipart ? imageFiles.length : imageUrls.length;
+
+    // Every image consumes one request from the monthly quota
+    if (
+      rateLimitStatus.monthly_remaining !== -1 &&
+      imageCount - 1 > rateLimitStatus.monthly_remaining
+    ) {
+      throw new ApiError(
+        `Batch of ${imageCount} images exceeds your remaining monthly quota (${rateLimitStatus.monthly_remaining + 1} requests)`,
+        429,
+        "QUOTA_EXCEEDED",
+        { images: imageCount, remaining: rateLimitStatus.monthly_remaining + 1 }
+      );
+    }
+
+    // Requests above the plan's lane run at the plan's lane (not an error)
+    const priority: JobPriority =
+      requestedPriority && requestedPriority !== "bulk"
+        ? capJobPriority(requestedPriority, await getMaxJobPriority(authContext.userId))
+        : requestedPriority ?? "default";
+
+    logger.info("Ingesting batch via API", {
+      pattern_id: patternId,
+      user_id: authContext.userId,
+      auth_type: authContext.authType,
+      images: imageCount,
+      priority,
+      ...(schedule && { scheduled_for: schedule.scheduledFor.toISOString() }),
+      upload_method: isMultipart ? "multipart" : "json",
+    });
+
+    const { batchId } = await batchService.createBatch({
+      userId: authContext.userId,
+      patternId: pattern.id,
+      totalJobs: imageCount,
+      extras,
+    });
+
+    // Create + enqueue one job per image, in small concurrent chunks
+    const jobs: Array<{ index: number; job_id: string; image_url: string }> = [];
+    const rejected: Array<{ index: number; error: string }> = [];
+    const indexes = Array.from({ length: imageCount }, (_, i) => i);
+
+    for (let i = 0; i < indexes.length; i += ENQUEUE_CONCURRENCY) {
+      const chunk = indexes.slice(i, i + ENQUEUE_CONCURRENCY);
+
+      await Promise.all(
+        chunk.map(async (index) => {
+          try {
+            let imageUrl: string;
+            if (isMultipart) {
+              const processed = await preprocessImage(
+                imageFiles[index]!,
+                pattern.preprocessing as PreprocessingConfig | null | undefined
+              );
+              if (processed.error !== null) {
+                throw new Error(processed.error);
+              }
+
+              const uploadResult = await uploadToSupabaseStorage({
+                file: processed.file,
+                userId: authContext.userId,
+                patternId,
+              });
+              imageUrl = uploadResult.publicUrl;
+            } else {
+              imageUrl = imageUrls[index]!;
+            }
+
+            const { jobId } = await jobService.createJobRecord({
+              patternId: pattern.id,
+              imageUrl,
+              userId: authContext.userId,
+              extras,
+              batchId,
+              priority,
+              scheduledFor: schedule?.scheduledFor,
+              expiresAt,
+            });
+
+            jobs.push({ index, job_id: jobId, image_url: imageUrl });
+
+            // Enqueue failures mark the job failed, so it still counts towards the batch
+            await jobService.enqueueExistingJob(jobId, {
+              job_id: jobId,
+              pattern_id: pattern.id,
+              image_url: imageUrl,
+              extras,
+            }, priority, schedule?.delaySeconds ?? 0);
+          } catch (error) {
+            const message = error instanceof Error ? error.message : String(error);
+            if (!jobs.some((job) => job.index === index)) {
+              rejected.push({ index, error: message });
+            }
+            logger.warn("Batch item could not be queued", {
+              batch_id: batchId,
+              index,
+              error: message,
+            });
+          }
+        })
+      );
+    }
+
+    if (jobs.length === 0) {
+      throw new ApiError("No jobs could be created for this batch", 500, "BATCH_FAILED", {
+        batch_id: batchId,
+      });
+    }
+
+    // Jobs that were never created must not hold the batch open
+    if (jobs.length !== imageCount) {
+      await batchService.setBatchTotalJobs(batchId, jobs.length);
+      await batchService.completeBatchIfDone(batchId);
+    }
+
+    // First image was charged by enforceRateLimit
+    await incrementRequestCountBy(authContext.userId, jobs.length - 1);
+
+    if (!schedule) {
+      jobService.triggerWorker({ batch_id: batchId });
+    }
+
+    jobs.sort((a, b) => a.index - b.index);
+    rejected.sort((a, b) => a.index - b.index);
+
+    const response = successResponse(
+      {
+        batch_id: batchId,
+        status: "processing",
+        total_jobs: jobs.length,
+        priority,
+        ...(schedule && { scheduled_for: schedule.scheduledFor.toISOString() }),
+        jobs,
+        rejected,
+        message: schedule
+          ? "Batch scheduled for deferred processing"
+          : "Batch queued for background processing",
+      },
+      202
+    );
+
+    const remaining =
+      rateLimitStatus.monthly_remaining === -1
+        ? -1
+        : Math.max(0, rateLimitStatus.monthly_remaining - (jobs.length - 1));
+    Object.entries(
+      getRateLimitHeaders({ ...rateLimitStatus, monthly_remaining: remaining })
+    ).forEach(([key, value]) => {
+      response.headers.set(key, value);
+    });
+
+    return response;
+  }
+);
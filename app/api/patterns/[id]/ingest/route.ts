@@ -1,6 +1,12 @@
 /**
  * Pattern Ingest API Route
  * POST /api/patterns/:id/ingest - Enqueue image processing job
+ * Supports ?wait=N (or `Prefer: wait=N`) to hold the connection until the job finishes
+ * A single PDF upload is rasterized per page into one multi-page job (extras.pdf_pages selects pages)
+ * Uploaded images are preprocessed per the pattern's config before storage (optional `crop`)
+ * Optional `priority` picks the queue lane (interactive/default/bulk), capped by the user's plan
+ * Optional `process_at` / `delay_seconds` defer processing; such jobs stay 'scheduled' until released
+ * Optional `expires_in_seconds` (default: pattern job_ttl_seconds) expires jobs that wait too long
  */
 
 import { NextRequest } from "next/server";
@@ -11,9 +17,24 @@ import {
   ApiError,
   handleIdempotency,
 } from "@/lib/api-helpers";
-import { IngestRequestSchema } from "@/schemas/manifest";
+import {
+  IngestRequestSchema,
+  CropRegionSchema,
+  CropRegion,
+  JobPrioritySchema,
+  JobPriority,
+  JobScheduleSchema,
+  JobSchedule,
+  JobTtlSchema,
+  MAX_IMAGES_PER_JOB,
+  capJobPriority,
+  isTerminalJobStatus,
+  resolveJobSchedule,
+} from "@/schemas/manifest";
+import type { PreprocessingConfig } from "@/schemas/pattern";
 import * as patternService from "@/services/patternService";
 import * as jobService from "@/services/jobService";
+import { getMaxJobPriority } from "@/services/planService";
 import { logger } from "@/lib/logger";
 import { requireAuthOrApiKey, getRequestIp } from "@/lib/auth-unified";
 import {
@@ -22,11 +43,56 @@ import {
   getRateLimitHeaders,
   RateLimitStatus,
 } from "@/middleware/rateLimitParametric";
-import { uploadToSupabaseStorage } from "@/services/storageService";
+import {
+  uploadToSupabaseStorage,
+  validateImageFile,
+  decodeBase64Image,
+} from "@/services/storageService";
+import { isPdfFile, rasterizePdf } from "@/services/pdfService";
+import { preprocessImage } from "@/services/imagePreprocessingService";
+import { ManifestFormat } from "@/lib/formatConverter";
+import { buildJobResponse } from "@/lib/jobResponse";
+import { usesNodeWorker } from "@/queues/backend";
 
 // Configure Vercel function timeout (Pro: 30s max)
 export const maxDuration = 30;
 
+// Longest synchronous wait, leaving headroom below maxDuration for upload + enqueue
+const MAX_WAIT_SECONDS = 25;
+
+/**
+ * Jobs with several images (multi-image uploads, PDF pages) are only handled by the Node worker
+ */
+function requireNodeWorker(feature: string): void {
+  if (!usesNodeWorker()) {
+    throw new ApiError(`${feature} require the Node worker (WORKER_RUNTIME=node)`, 501, "NODE_WORKER_REQUIRED");
+  }
+}
+
+/**
+ * Parse requested wait time from ?wait=N or `Prefer: wait=N` (RFC 7240)
+ * Returns 0 when the client did not ask to wait
+ */
+function parseWaitSeconds(request: NextRequest): number {
+  const url = new URL(request.url);
+  let raw = url.searchParams.get("wait");
+
+  if (raw === null) {
+    const prefer = request.headers.get("prefer") || "";
+    const match = prefer.match(/(?:^|[,;\s])wait=(\d+)/i);
+    raw = match?.[1] ?? null;
+  }
+
+  if (raw === null) return 0;
+
+  const seconds = Number(raw);
+  if (!Number.isInteger(seconds) || seconds < 0) {
+    throw new ApiError("Invalid wait value. Use a whole number of seconds", 400);
+  }
+
+  return Math.min(seconds, MAX_WAIT_SECONDS);
+}
+
 export const POST = withErrorHandling(
   async (
     request: NextRequest,
@@ -65,24 +131,49 @@ export const POST = withErrorHandling(
     const { id: patternId } = await context.params;
     if (!patternId) throw new ApiError("Missing pattern ID", 400);
 
+    const waitSeconds = parseWaitSeconds(request);
+
+    // Verify pattern exists and user owns it (before storing anything)
+    const pattern = await patternService.getPattern(patternId, authContext.userId);
+    if (!pattern) {
+      throw new ApiError("Pattern not found", 404, "NOT_FOUND");
+    }
+
+    if (!pattern.is_active) {
+      throw new ApiError("Pattern is not active", 400, "PATTERN_INACTIVE");
+    }
+    const preprocessing = pattern.preprocessing as PreprocessingConfig | null | undefined;
+
     // Check content type: JSON or multipart/form-data
     const contentType = request.headers.get("content-type") || "";
     const isMultipart = contentType.includes("multipart/form-data");
-    let imageUrl: string;
+    let imageUrls: string[];
+    let sourcePages: number[] | undefined;
+    let crop: CropRegion | undefined;
+    let requestedPriority: JobPriority | undefined;
+    let requestedSchedule: JobSchedule = {};
+    let expiresInSeconds: number | undefined;
     let idempotencyKey: string | undefined;
     let extras: Record<string, unknown> | undefined;
 
     if (isMultipart) {
-      // 📤 MULTIPART: Direct file upload
+      // 📤 MULTIPART: Direct file upload (repeat 'image' for multi-image jobs, in order)
       logger.info("Processing multipart/form-data upload", {
         pattern_id: patternId,
         user_id: authContext.userId,
       });
 
       const formData = await request.formData();
-      const imageFile = formData.get("image") as File | null;
+      let imageFiles = formData
+        .getAll("image")
+        .filter((part): part is File => part instanceof File);
       idempotencyKey = (formData.get("idempotency_key") as string) || undefined;
       const extrasString = formData.get("extras") as string | null;
+      const cropString = formData.get("crop") as string | null;
+      const priorityString = formData.get("priority") as string | null;
+      const processAtString = formData.get("process_at") as string | null;
+      const delaySecondsString = formData.get("delay_seconds") as string | null;
+      const expiresInString = formData.get("expires_in_seconds") as string | null;
 
       if (extrasString) {
         try {
@@ -92,78 +183,201 @@ export const POST = withErrorHandling(
         }
       }
 
-      if (!imageFile) {
-        throw new ApiError("Missing 'image' field in form data", 400);
+      if (cropString) {
+        let cropInput: unknown;
+        try {
+          cropInput = JSON.parse(cropString);
+        } catch {
+          throw new ApiError("Invalid crop JSON", 400);
+        }
+        const parsedCrop = CropRegionSchema.safeParse(cropInput);
+        if (!parsedCrop.success) {
+          throw new ApiError("Invalid crop region", 400, "VALIDATION_ERROR", parsedCrop.error.flatten().fieldErrors);
+        }
+        crop = parsedCrop.data;
       }
 
-      // Validate file type (MIME)
-      if (!imageFile.type.startsWith("image/")) {
-        throw new ApiError("File must be an image", 400);
+      if (priorityString) {
+        const parsedPriority = JobPrioritySchema.safeParse(priorityString);
+        if (!parsedPriority.success) {
+          throw new ApiError("Invalid priority. Use interactive, default or bulk", 400, "VALIDATION_ERROR");
+        }
+        requestedPriority = parsedPriority.data;
       }
 
-      // Validate file extension (defense in depth)
-      const allowedExtensions = [".jpg", ".jpeg", ".png", ".gif", ".webp", ".bmp"];
-      const filename = imageFile.name.toLowerCase();
-      const hasValidExtension = allowedExtensions.some((ext) => filename.endsWith(ext));
+      if (processAtString || delaySecondsString) {
+        const parsedSchedule = JobScheduleSchema.safeParse({
+          process_at: processAtString || undefined,
+          delay_seconds: delaySecondsString ? Number(delaySecondsString) : undefined,
+        });
+        if (!parsedSchedule.success) {
+          throw new ApiError("Invalid schedule", 400, "VALIDATION_ERROR", parsedSchedule.error.flatten().fieldErrors);
+        }
+        requestedSchedule = parsedSchedule.data;
+      }
 
-      if (!hasValidExtension) {
-        throw new ApiError(
-          `Invalid file extension. Allowed: ${allowedExtensions.join(", ")}`,
-          400
-        );
+      if (expiresInString) {
+        const parsedTtl = JobTtlSchema.safeParse(Number(expiresInString));
+        if (!parsedTtl.success) {
+          throw new ApiError("Invalid expires_in_seconds", 400, "VALIDATION_ERROR");
+        }
+        expiresInSeconds = parsedTtl.data;
       }
 
-      // Validate file size (max 10MB)
-      const maxSize = 10 * 1024 * 1024;
-      if (imageFile.size > maxSize) {
-        throw new ApiError("Image too large (max 10MB)", 400);
+      if (imageFiles.length === 0) {
+        throw new ApiError("Missing 'image' field in form data", 400);
       }
 
-      logger.info("Uploading image to storage", {
-        filename: imageFile.name,
-        size: imageFile.size,
-        type: imageFile.type,
-      });
+      // 📄 PDF: render the selected pages and process them as one multi-page job
+      if (imageFiles.some(isPdfFile)) {
+        if (imageFiles.length > 1) {
+          throw new ApiError("Upload a single PDF per job (PDFs cannot be combined with other files)", 400);
+        }
+        requireNodeWorker("PDF uploads");
 
-      // Upload to Supabase Storage
-      const uploadResult = await uploadToSupabaseStorage({
-        file: imageFile,
-        userId: authContext.userId,
-        patternId,
-      });
+        const rasterized = await rasterizePdf(imageFiles[0]!, extras?.pdf_pages);
+        if (rasterized.error !== null) {
+          throw new ApiError(rasterized.error, 400, "INVALID_PDF");
+        }
 
-      imageUrl = uploadResult.publicUrl;
+        imageFiles = rasterized.pages.map((rendered) => rendered.file);
+        sourcePages = rasterized.pages.map((rendered) => rendered.page);
+      } else if (imageFiles.length > 1) {
+        requireNodeWorker("Jobs with several images");
+      }
+
+      if (imageFiles.length > MAX_IMAGES_PER_JOB) {
+        throw new ApiError(`A job cannot contain more than ${MAX_IMAGES_PER_JOB} images`, 400);
+      }
 
-      logger.info("Image uploaded successfully", {
-        image_url: imageUrl,
-        path: uploadResult.path,
+      // Validate MIME type, extension and size (max 10MB) before uploading anything
+      imageFiles.forEach((imageFile, index) => {
+        const validationError = validateImageFile(imageFile);
+        if (validationError) {
+          throw new ApiError(
+            imageFiles.length > 1 ? `Image ${index} (${imageFile.name}): ${validationError}` : validationError,
+            400
+          );
+        }
       });
+
+      // Normalize before storage: rotate, strip EXIF/GPS, downscale, convert HEIC/BMP, crop
+      const processedFiles: File[] = [];
+      for (const [index, imageFile] of imageFiles.entries()) {
+        const processed = await preprocessImage(imageFile, preprocessing, crop);
+        if (processed.error !== null) {
+          throw new ApiError(
+            imageFiles.length > 1 ? `Image ${index} (${imageFile.name}): ${processed.error}` : processed.error,
+            400
+          );
+        }
+        processedFiles.push(processed.file);
+      }
+
+      imageUrls = [];
+      for (const imageFile of processedFiles) {
+        logger.info("Uploading image to storage", {
+          filename: imageFile.name,
+          size: imageFile.size,
+          type: imageFile.type,
+        });
+
+        // Upload to Supabase Storage
+        const uploadResult = await uploadToSupabaseStorage({
+          file: imageFile,
+          userId: authContext.userId,
+          patternId,
+        });
+
+        imageUrls.push(uploadResult.publicUrl);
+
+        logger.info("Image uploaded successfully", {
+          image_url: uploadResult.publicUrl,
+          path: uploadResult.path,
+        });
+      }
     } else {
-      // 🔗 JSON: Image URL provided
+      // 🔗 JSON: Image URL(s) or inline base64 provided
       const input = await parseBody(request, IngestRequestSchema);
-      imageUrl = input.image_url;
       idempotencyKey = input.idempotency_key;
       extras = input.extras;
+      crop = input.crop;
+      requestedPriority = input.priority;
+      requestedSchedule = { process_at: input.process_at, delay_seconds: input.delay_seconds };
+      expiresInSeconds = input.expires_in_seconds;
+
+      const sources = input.image_base64
+        ? [input.image_base64]
+        : input.image_urls ?? [input.image_url!];
+
+      if (sources.length > 1) {
+        requireNodeWorker("Jobs with several images");
+      }
+
+      // Inline images (base64 / data: URI) are stored first so the worker gets a URL
+      const inlineFiles = sources.map((source, index) => {
+        const isInline = Boolean(input.image_base64) || source.startsWith("data:");
+        if (!isInline) {
+          return null;
+        }
+        const decoded = decodeBase64Image(source);
+        if (decoded.error !== null) {
+          throw new ApiError(
+            sources.length > 1 ? `Image ${index}: ${decoded.error}` : decoded.error,
+            400
+          );
+        }
+        return decoded.file;
+      });
+
+      if (crop && inlineFiles.every((file) => file === null)) {
+        throw new ApiError("crop is only supported for uploaded or inline (base64) images", 400);
+      }
+
+      imageUrls = [];
+      for (const [index, source] of sources.entries()) {
+        const inlineFile = inlineFiles[index];
+        if (!inlineFile) {
+          imageUrls.push(source);
+          continue;
+        }
+
+        const processed = await preprocessImage(inlineFile, preprocessing, crop);
+        if (processed.error !== null) {
+          throw new ApiError(
+            sources.length > 1 ? `Image ${index}: ${processed.error}` : processed.error,
+            400
+          );
+        }
+
+        const uploadResult = await uploadToSupabaseStorage({
+          file: processed.file,
+          userId: authContext.userId,
+          patternId,
+        });
+        imageUrls.push(uploadResult.publicUrl);
+
+        logger.info("Inline image stored", {
+          image_url: uploadResult.publicUrl,
+          path: uploadResult.path,
+          size: processed.file.size,
+          type: processed.file.type,
+        });
+      }
     }
 
+    const imageUrl = imageUrls[0]!;
+
     logger.info("Ingesting image via API", {
       pattern_id: patternId,
       user_id: authContext.userId,
       auth_type: authContext.authType,
       idempotency_key: idempotencyKey,
       upload_method: isMultipart ? "multipart" : "json",
+      image_count: imageUrls.length,
+      ...(sourcePages && { source_pages: sourcePages }),
     });
 
-    // Verify pattern exists and user owns it
-    const pattern = await patternService.getPattern(patternId, authContext.userId);
-    if (!pattern) {
-      throw new ApiError("Pattern not found", 404, "NOT_FOUND");
-    }
-
-    if (!pattern.is_active) {
-      throw new ApiError("Pattern is not active", 400, "PATTERN_INACTIVE");
-    }
-
     // Handle idempotency
     if (idempotencyKey) {
       const idempotencyCheck = await handleIdempotency(idempotencyKey);
@@ -177,18 +391,51 @@ export const POST = withErrorHandling(
       }
     }
 
-    // Create job record first (status: 'queued')
+    // Requests above the plan's lane run at the plan's lane (not an error)
+    let priority: JobPriority = requestedPriority ?? "default";
+    if (requestedPriority && requestedPriority !== "bulk") {
+      const maxPriority = await getMaxJobPriority(authContext.userId);
+      priority = capJobPriority(requestedPriority, maxPriority);
+      if (priority !== requestedPriority) {
+        logger.info("Requested priority lowered to plan maximum", {
+          user_id: authContext.userId,
+          requested_priority: requestedPriority,
+          priority,
+        });
+      }
+    }
+
+    // Deferred jobs are enqueued with a pgmq delay and stay 'scheduled' until released
+    const resolvedSchedule = resolveJobSchedule(requestedSchedule);
+    if (resolvedSchedule.error !== null) {
+      throw new ApiError(resolvedSchedule.error, 400, "VALIDATION_ERROR");
+    }
+    const schedule = resolvedSchedule.schedule;
+
+    // TTL counts from when the job becomes due, so scheduled jobs get their full window
+    const ttlSeconds = expiresInSeconds ?? pattern.job_ttl_seconds ?? undefined;
+    const expiresAt = ttlSeconds
+      ? new Date((schedule?.scheduledFor.getTime() ?? Date.now()) + ttlSeconds * 1000)
+      : undefined;
+
+    // Create job record first (status: 'queued', or 'scheduled' when deferred)
     const { jobId } = await jobService.createJobRecord({
       patternId: pattern.id,
       imageUrl: imageUrl,
+      imageUrls: imageUrls,
+      sourcePages: sourcePages,
       userId: authContext.userId,
       idempotencyKey: idempotencyKey,
       extras: extras,
+      priority,
+      scheduledFor: schedule?.scheduledFor,
+      expiresAt,
     });
 
     logger.info("Job created, enqueuing for worker processing", {
       job_id: jobId,
       pattern_id: pattern.id,
+      priority,
     });
 
     // 🚀 QUEUE-FIRST: All jobs processed by Supabase worker (reliable, uses Supabase secrets)
@@ -196,42 +443,62 @@ export const POST = withErrorHandling(
       job_id: jobId,
       pattern_id: pattern.id,
       image_url: imageUrl,
+      ...(imageUrls.length > 1 && { image_urls: imageUrls }),
+      ...(sourcePages && { source_pages: sourcePages }),
       extras: extras,
-    });
+    }, priority, schedule?.delaySeconds ?? 0);
+
+    // ⏰ SCHEDULED: nothing to process yet, the cron-driven worker picks it up once visible
+    if (schedule) {
+      const response = successResponse(
+        {
+          job_id: jobId,
+          status: "scheduled",
+          priority,
+          scheduled_for: schedule.scheduledFor.toISOString(),
+          message: "Job scheduled for deferred processing",
+          approach: "scheduled",
+        },
+        202
+      );
+
+      Object.entries(rateLimitHeaders).forEach(([key, value]) => {
+        response.headers.set(key, value);
+      });
+
+      return response;
+    }
 
     // ⚡ INSTANT: Trigger worker immediately (non-blocking, cron is backup)
-    const supabaseUrl = process.env.NEXT_PUBLIC_SUPABASE_URL;
-    const serviceRoleKey = process.env.SUPABASE_SERVICE_ROLE_KEY;
+    jobService.triggerWorker({ job_id: jobId });
 
-    if (supabaseUrl && serviceRoleKey) {
-      logger.info("⚡ Triggering worker immediately (non-blocking)", {
-        job_id: jobId,
-        worker_url: `${supabaseUrl}/functions/v1/worker`,
-      });
+    // ⏳ SYNC MODE: Hold the connection until the job is done (falls back to 202 on timeout)
+    if (waitSeconds > 0) {
+      const job = await jobService.waitForJob(jobId, authContext.userId, waitSeconds * 1000);
 
-      fetch(`${supabaseUrl}/functions/v1/worker`, {
-        method: "POST",
-        headers: {
-          "Authorization": `Bearer ${serviceRoleKey}`,
-          "Content-Type": "application/json",
-        },
-        body: "{}",
-      })
-        .then(() => {
-          logger.info("⚡ Worker triggered successfully", { job_id: jobId });
-        })
-        .catch((error) => {
-          // Log but don't block - cron will pick it up within 5 seconds
-          logger.warn("Immediate worker trigger failed, cron will handle", {
-            job_id: jobId,
-            error: error instanceof Error ? error.message : String(error),
-          });
+      if (job && isTerminalJobStatus(job.status)) {
+        const formatParam = new URL(request.url).searchParams.get("format") as ManifestFormat | null;
+        const desiredFormat = (formatParam || pattern.format) as ManifestFormat;
+
+        logger.info("Returning job result inline", {
+          job_id: jobId,
+          status: job.status,
+          wait_seconds: waitSeconds,
+          format: desiredFormat,
         });
-    } else {
-      logger.warn("Cannot trigger worker immediately - missing env variables", {
+
+        const syncResponse = buildJobResponse(job, pattern, desiredFormat);
+        syncResponse.headers.set("Preference-Applied", `wait=${waitSeconds}`);
+        Object.entries(rateLimitHeaders).forEach(([key, value]) => {
+          syncResponse.headers.set(key, value);
+        });
+
+        return syncResponse;
+      }
+
+      logger.info("Wait timed out, falling back to polling", {
         job_id: jobId,
-        has_url: !!supabaseUrl,
-        has_key: !!serviceRoleKey,
+        wait_seconds: waitSeconds,
       });
     }
 
@@ -240,6 +507,7 @@ export const POST = withErrorHandling(
       {
         job_id: jobId,
         status: "queued",
+        priority,
         message: "Job queued for background processing",
         approach: "queued",
       },
@@ -0,0 +1,296 @@
+/**
+ * Pattern Reprocess API Route
+ * POST /api/patterns/:id/reprocess - Re-run historical jobs against a chosen pattern version
+ * Each original job gets a new job (reprocess_of → original) pinned to that version; the
+ * original manifests are left untouched. The new jobs form one batch, so progress, the
+ * batch.completed webhook and GET /api/batches/:id/results work as for batch ingest.
+ * Only jobs whose images are still stored can be reprocessed (pattern retain_images).
+ * Pinned versions are applied by the Node worker only, so this needs WORKER_RUNTIME=node.
+ */
+
+import { NextRequest } from "next/server";
+import {
+  withErrorHandling,
+  parseBody,
+  successResponse,
+  ApiError,
+} from "@/lib/api-helpers";
+import {
+  ReprocessRequestSchema,
+  JobPriority,
+  MAX_REPROCESS_JOBS,
+  capJobPriority,
+  resolveReprocessFilters,
+} from "@/schemas/manifest";
+import * as patternService from "@/services/patternService";
+import * as jobService from "@/services/jobService";
+import * as batchService from "@/services/batchService";
+import { getMaxJobPriority } from "@/services/planService";
+import { usesNodeWorker } from "@/queues/backend";
+import { logger } from "@/lib/logger";
+import { requireAuthOrApiKey, getRequestIp } from "@/lib/auth-unified";
+import {
+  enforceRateLimit,
+  checkRateLimit,
+  getRateLimitHeaders,
+  incrementRequestCountBy,
+  refundRequestCount,
+  RateLimitStatus,
+} from "@/middleware/rateLimitParametric";
+
+// Configure Vercel function timeout
+export const maxDuration = 60;
+
+// Number of jobs created/enqueued concurrently
+const ENQUEUE_CONCURRENCY = 10;
+
+/**
+ * Validate the request and load the jobs to reprocess.
+ * Throws before anything is queued, so the caller can give back the charged request.
+ */
+async function resolveReprocess(
+  request: NextRequest,
+  patternId: string,
+  userId: string,
+  rateLimitStatus: RateLimitStatus
+) {
+  const input = await parseBody(request, ReprocessRequestSchema);
+  const filters = resolveReprocessFilters(input.filters);
+
+  // Verify pattern exists and user owns it
+  const pattern = await patternService.getPattern(patternId, userId);
+  if (!pattern) {
+    throw new ApiError("Pattern not found", 404, "NOT_FOUND");
+  }
+
+  if (!pattern.is_active) {
+    throw new ApiError("Pattern is not active", 400, "PATTERN_INACTIVE");
+  }
+
+  // The active version may not be published yet, every other one must be
+  const version = input.version ?? pattern.version;
+  if (version !== pattern.version) {
+    const versions = await patternService.getPatternVersions(patternId, userId);
+    if (!versions.some((v) => v.version === version)) {
+      throw new ApiError(`Pattern version ${version} does not exist`, 400, "VERSION_NOT_FOUND");
+    }
+  }
+
+  const { jobs: sourceJobs, imagesDeleted } = await jobService.listReprocessableJobs(
+    patternId,
+    filters,
+    MAX_REPROCESS_JOBS
+  );
+
+  if (sourceJobs.length > MAX_REPROCESS_JOBS) {
+    throw new ApiError(
+      `More than ${MAX_REPROCESS_JOBS} jobs match, narrow the filters`,
+      400,
+      "REPROCESS_TOO_LARGE",
+      { max_jobs: MAX_REPROCESS_JOBS }
+    );
+  }
+
+  if (sourceJobs.length === 0) {
+    throw new ApiError(
+      imagesDeleted > 0
+        ? "No matching jobs still have their images; enable retain_images on the pattern to reprocess future jobs"
+        : "No jobs match the filters",
+      400,
+      "NO_JOBS_TO_REPROCESS",
+      { skipped_images_deleted: imagesDeleted }
+    );
+  }
+
+  // Every job consumes one request from the monthly quota
+  if (
+    rateLimitStatus.monthly_remaining !== -1 &&
+    sourceJobs.length - 1 > rateLimitStatus.monthly_remaining
+  ) {
+    throw new ApiError(
+      `Reprocessing ${sourceJobs.length} jobs exceeds your remaining monthly quota (${rateLimitStatus.monthly_remaining + 1} requests)`,
+      429,
+      "QUOTA_EXCEEDED",
+      { jobs: sourceJobs.length, remaining: rateLimitStatus.monthly_remaining + 1 }
+    );
+  }
+
+  return { input, pattern, version, sourceJobs, imagesDeleted };
+}
+
+export const POST = withErrorHandling(
+  async (
+    request: NextRequest,
+    context?: { params: Promise<Record<string, string>> }
+  ) => {
+    if (!context) throw new ApiError("Missing params", 400);
+
+    // Dual authentication: API Key or Session
+    const authContext = await requireAuthOrApiKey(request, "patterns:ingest");
+
+    // The Edge Function processes with the active version, which would mislabel the manifests
+    if (!usesNodeWorker()) {
+      throw new ApiError(
+        "Reprocessing requires the Node worker (WORKER_RUNTIME=node)",
+        501,
+        "NODE_WORKER_REQUIRED"
+      );
+    }
+
+    const { id: patternId } = await context.params;
+    if (!patternId) throw new ApiError("Missing pattern ID", 400);
+
+    const requestIp = getRequestIp(request);
+
+    // Parametric rate limiting (counts the first job; the rest are charged below)
+    const endpoint = "/api/patterns/[id]/reprocess";
+    const rateLimitStatusRef: { current?: RateLimitStatus } = {};
+    const rateLimitResponse = await enforceRateLimit(
+      authContext.userId,
+      authContext,
+      endpoint,
+      requestIp,
+      { statusRef: rateLimitStatusRef }
+    );
+    if (rateLimitResponse) return rateLimitResponse;
+
+    const rateLimitStatus =
+      rateLimitStatusRef.current ??
+      (await checkRateLimit(authContext.userId, authContext));
+
+    // Nothing is queued yet, so any rejection gives back the request charged by enforceRateLimit
+    let resolved: Awaited<ReturnType<typeof resolveReprocess>>;
+    try {
+      resolved = await resolveReprocess(request, patternId, authContext.userId, rateLimitStatus);
+    } catch (error) {
+      await refundRequestCount(authContext.userId, 1);
+      throw error;
+    }
+    const { input, pattern, version, sourceJobs, imagesDeleted } = resolved;
+
+    // Reprocessing is a backfill, so it runs in the bulk lane unless asked otherwise
+    const priority: JobPriority =
+      input.priority && input.priority !== "bulk"
+        ? capJobPriority(input.priority, await getMaxJobPriority(authContext.userId))
+        : "bulk";
+
+    logger.info("Reprocessing jobs via API", {
+      pattern_id: patternId,
+      user_id: authContext.userId,
+      auth_type: authContext.authType,
+      pattern_version: version,
+      jobs: sourceJobs.length,
+      skipped_images_deleted: imagesDeleted,
+      priority,
+    });
+
+    const { batchId } = await batchService.createBatch({
+      userId: authContext.userId,
+      patternId: pattern.id,
+      totalJobs: sourceJobs.length,
+      extras: { reprocess: { pattern_version: version } },
+    });
+
+    // Create + enqueue one job per original, in small concurrent chunks
+    const jobs: Array<{ source_job_id: string; job_id: string }> = [];
+    const rejected: Array<{ source_job_id: string; error: string }> = [];
+
+    for (let i = 0; i < sourceJobs.length; i += ENQUEUE_CONCURRENCY) {
+      const chunk = sourceJobs.slice(i, i + ENQUEUE_CONCURRENCY);
+
+      await Promise.all(
+        chunk.map(async (source) => {
+          let jobId: string | undefined;
+          try {
+            const imageUrls = source.image_urls ?? [source.image_url];
+            const extras = source.extras ?? undefined;
+
+            ({ jobId } = await jobService.createJobRecord({
+              patternId: pattern.id,
+              imageUrl: source.image_url,
+              imageUrls,
+              sourcePages: source.source_pages ?? undefined,
+              userId: authContext.userId,
+              extras,
+              batchId,
+              priority,
+              reprocess: { sourceJobId: source.id, patternVersion: version },
+            }));
+
+            jobs.push({ source_job_id: source.id, job_id: jobId });
+
+            // Enqueue failures mark the job failed, so it still counts towards the batch
+            await jobService.enqueueExistingJob(jobId, {
+              job_id: jobId,
+              pattern_id: pattern.id,
+              image_url: source.image_url,
+              ...(imageUrls.length > 1 && { image_urls: imageUrls }),
+              ...(source.source_pages && { source_pages: source.source_pages }),
+              extras,
+            }, priority);
+          } catch (error) {
+            const message = error instanceof Error ? error.message : String(error);
+            if (!jobId) {
+              rejected.push({ source_job_id: source.id, error: message });
+            }
+            logger.warn("Reprocess job could not be queued", {
+              batch_id: batchId,
+              source_job_id: source.id,
+              error: message,
+            });
+          }
+        })
+      );
+    }
+
+    if (jobs.length === 0) {
+      await refundRequestCount(authContext.userId, 1);
+      throw new ApiError("No jobs could be created for this reprocess", 500, "BATCH_FAILED", {
+        batch_id: batchId,
+      });
+    }
+
+    // Jobs that were never created must not hold the batch open
+    if (jobs.length !== sourceJobs.length) {
+      await batchService.setBatchTotalJobs(batchId, jobs.length);
+      await batchService.completeBatchIfDone(batchId);
+    }
+
+    // First job was charged by enforceRateLimit
+    await incrementRequestCountBy(authContext.userId, jobs.length - 1);
+
+    jobService.triggerWorker({ batch_id: batchId });
+
+    // Keep the order of the originals (oldest first)
+    const order = new Map(sourceJobs.map((source, index) => [source.id, index]));
+    jobs.sort((a, b) => order.get(a.source_job_id)! - order.get(b.source_job_id)!);
+    rejected.sort((a, b) => order.get(a.source_job_id)! - order.get(b.source_job_id)!);
+
+    const response = successResponse(
+      {
+        batch_id: batchId,
+        status: "processing",
+        pattern_version: version,
+        total_jobs: jobs.length,
+        skipped_images_deleted: imagesDeleted,
+        priority,
+        jobs,
+        rejected,
+        message: "Reprocess queued for background processing",
+      },
+      202
+    );
+
+    const remaining =
+      rateLimitStatus.monthly_remaining === -1
+        ? -1
+        : Math.max(0, rateLimitStatus.monthly_remaining - (jobs.length - 1));
+    Object.entries(
+      getRateLimitHeaders({ ...rateLimitStatus, monthly_remaining: remaining })
+    ).forEach(([key, value]) => {
+      response.headers.set(key, value);
+    });
+
+    return response;
+  }
+);
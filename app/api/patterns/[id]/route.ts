@@ -16,6 +16,7 @@ import {
 import { requireAuthOrApiKey } from "@/lib/auth-unified";
 import { UpdatePatternSchema } from "@/schemas/pattern";
 import * as patternService from "@/services/patternService";
+import { findUnknownCustomModelProfiles } from "@/services/modelProfileService";
 import { getUserPlan } from "@/services/planService";
 import { logger } from "@/lib/logger";
 
@@ -70,6 +71,20 @@ export const PATCH = withErrorHandling(
       publish_new_version: input.publish_new_version,
     });
 
+    // Custom model profiles must be registered by this user (POST /api/model-profiles)
+    const unknownProfiles = await findUnknownCustomModelProfiles(user.userId, [
+      ...(input.model_profile ? [input.model_profile] : []),
+      ...(input.fallback_model_profiles ?? []),
+    ]);
+    if (unknownProfiles.length > 0) {
+      throw new ApiError(
+        `Model profile ${unknownProfiles[0]} is not registered`,
+        400,
+        "MODEL_PROFILE_NOT_FOUND",
+        { model_profiles: unknownProfiles }
+      );
+    }
+
     let pattern;
     let newVersion: number | null = null;
 
@@ -1,8 +1,10 @@
 import { NextRequest, NextResponse } from "next/server";
-import { generateTemplate } from "@/llm/providers/openai";
+import { generateTemplate } from "@/llm/orchestrator";
+import { ModelProfileSchema } from "@/schemas/pattern";
 import { logger } from "@/lib/logger";
 import { requireAuth } from "@/lib/api-helpers";
 import { getUserPlan } from "@/services/planService";
+import { getCustomModelEndpoints } from "@/services/modelProfileService";
 
 export async function POST(request: NextRequest) {
   try {
@@ -22,7 +24,8 @@ export async function POST(request: NextRequest) {
       jsonSchema,
       original_instructions,
       current_template,
-      follow_up_prompt
+      follow_up_prompt,
+      modelProfile
     } = body;
 
     // Check if this is a follow-up request
@@ -35,6 +38,25 @@ export async function POST(request: NextRequest) {
       );
     }
 
+    // Same provider the pattern will run on (default: managed-default)
+    const parsedModelProfile = ModelProfileSchema.optional().safeParse(modelProfile);
+    if (!parsedModelProfile.success) {
+      return NextResponse.json(
+        { error: "Invalid model profile specified" },
+        { status: 400 }
+      );
+    }
+
+    const customEndpoints = parsedModelProfile.data
+      ? await getCustomModelEndpoints(user.userId, [parsedModelProfile.data])
+      : [];
+    if (parsedModelProfile.data?.startsWith("custom:") && customEndpoints.length === 0) {
+      return NextResponse.json(
+        { error: `Model profile ${parsedModelProfile.data} is not registered` },
+        { status: 400 }
+      );
+    }
+
     // Validate input size against plan limits
     const instructionsLength = instructions?.length || 0;
     const schemaLength = jsonSchema ? JSON.stringify(jsonSchema).length : 0;
@@ -103,12 +125,14 @@ Please modify the current template according to the follow-up request while main
         : `${instructions}\n\nIMPORTANT: Generate a template that does not exceed ${maxTemplateChars} characters.`;
     }
 
-    // Call OpenAI to generate template
+    // Call the pattern's provider to generate template
     const template = await generateTemplate(
       promptToUse,
       format as "json" | "yaml" | "xml" | "csv" | "text",
       jsonSchema,
-      csvDelimiter as "comma" | "semicolon" | undefined
+      csvDelimiter as "comma" | "semicolon" | undefined,
+      parsedModelProfile.data,
+      customEndpoints
     );
 
     logger.info("Template generated successfully", {
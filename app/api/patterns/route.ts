@@ -13,9 +13,10 @@ import {
   ApiError,
 } from "@/lib/api-helpers";
 import { requireAuthOrApiKey } from "@/lib/auth-unified";
-import { CreatePatternSchema } from "@/schemas/pattern";
+import { CreatePatternSchema, ModelProfile } from "@/schemas/pattern";
 import { ListPatternsQuerySchema } from "@/schemas/api";
 import * as patternService from "@/services/patternService";
+import { findUnknownCustomModelProfiles } from "@/services/modelProfileService";
 import { getUserPlan, checkFeatureLimit } from "@/services/planService";
 import { logger } from "@/lib/logger";
 import {
@@ -117,6 +118,20 @@ export const POST = withErrorHandling(async (request: NextRequest) => {
     }
   }
 
+  // Custom model profiles must be registered by this user (POST /api/model-profiles)
+  const unknownProfiles = await findUnknownCustomModelProfiles(userId, [
+    input.model_profile as ModelProfile,
+    ...(input.fallback_model_profiles ?? []),
+  ]);
+  if (unknownProfiles.length > 0) {
+    throw new ApiError(
+      `Model profile ${unknownProfiles[0]} is not registered`,
+      400,
+      "MODEL_PROFILE_NOT_FOUND",
+      { model_profiles: unknownProfiles }
+    );
+  }
+
   // 🔒 SECURITY: Check pattern creation limit
   const currentPatternCount = await patternService.countUserPatterns(userId);
   const limitCheck = await checkFeatureLimit(userId, 'patterns', currentPatternCount);
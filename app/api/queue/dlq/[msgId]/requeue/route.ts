@@ -0,0 +1,59 @@
+/**
+ * Dead-Letter Requeue API Route (operators only)
+ * POST /api/queue/dlq/:msgId/requeue - Put a dead-lettered job back into its queue lane
+ */
+
+import { NextRequest } from "next/server";
+import {
+  withErrorHandling,
+  successResponse,
+  ApiError,
+} from "@/lib/api-helpers";
+import { requireOperator } from "@/lib/auth-unified";
+import * as deadLetterService from "@/services/deadLetterService";
+import { triggerWorker } from "@/services/jobService";
+import { logger } from "@/lib/logger";
+
+export const POST = withErrorHandling(
+  async (
+    request: NextRequest,
+    context?: { params: Promise<Record<string, string>> }
+  ) => {
+    if (!context) throw new ApiError("Missing params", 400);
+    const authContext = await requireOperator(request);
+
+    const { msgId } = await context.params;
+    const id = Number(msgId);
+    if (!Number.isInteger(id) || id <= 0) {
+      throw new ApiError("Invalid message ID", 400);
+    }
+
+    logger.info("Requeueing dead-letter entry via API", {
+      msg_id: id,
+      user_id: authContext.userId,
+    });
+
+    const result = await deadLetterService.requeueDeadLetter(id);
+
+    if (!result) {
+      throw new ApiError("Dead-letter entry not found", 404, "NOT_FOUND");
+    }
+
+    if (!result.requeued) {
+      throw new ApiError(
+        `Job is ${result.status ?? "missing"} and no longer waiting in the dead-letter queue`,
+        409,
+        "JOB_NOT_REQUEUEABLE",
+        { job_id: result.jobId, status: result.status ?? null }
+      );
+    }
+
+    triggerWorker({ job_id: result.jobId });
+
+    return successResponse({
+      msg_id: id,
+      job_id: result.jobId,
+      status: result.status,
+    });
+  }
+);
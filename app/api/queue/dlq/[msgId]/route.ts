@@ -0,0 +1,66 @@
+/**
+ * Dead-Letter Entry API Routes (operators only)
+ * GET /api/queue/dlq/:msgId - Inspect a dead-lettered message and its job
+ * DELETE /api/queue/dlq/:msgId - Purge a dead-lettered message (the job stays failed)
+ */
+
+import { NextRequest } from "next/server";
+import {
+  withErrorHandling,
+  successResponse,
+  ApiError,
+} from "@/lib/api-helpers";
+import { requireOperator } from "@/lib/auth-unified";
+import * as deadLetterService from "@/services/deadLetterService";
+import { logger } from "@/lib/logger";
+
+async function parseMsgId(context?: { params: Promise<Record<string, string>> }): Promise<number> {
+  if (!context) throw new ApiError("Missing params", 400);
+  const { msgId } = await context.params;
+
+  const id = Number(msgId);
+  if (!Number.isInteger(id) || id <= 0) {
+    throw new ApiError("Invalid message ID", 400);
+  }
+
+  return id;
+}
+
+export const GET = withErrorHandling(
+  async (
+    request: NextRequest,
+    context?: { params: Promise<Record<string, string>> }
+  ) => {
+    await requireOperator(request);
+    const msgId = await parseMsgId(context);
+
+    const result = await deadLetterService.inspectDeadLetter(msgId);
+    if (!result) {
+      throw new ApiError("Dead-letter entry not found", 404, "NOT_FOUND");
+    }
+
+    return successResponse(result);
+  }
+);
+
+export const DELETE = withErrorHandling(
+  async (
+    request: NextRequest,
+    context?: { params: Promise<Record<string, string>> }
+  ) => {
+    const authContext = await requireOperator(request);
+    const msgId = await parseMsgId(context);
+
+    const deleted = await deadLetterService.purgeDeadLetter(msgId);
+    if (!deleted) {
+      throw new ApiError("Dead-letter entry not found", 404, "NOT_FOUND");
+    }
+
+    logger.info("Dead-letter entry purged via API", {
+      msg_id: msgId,
+      user_id: authContext.userId,
+    });
+
+    return successResponse({ msg_id: msgId, purged: true });
+  }
+);
@@ -0,0 +1,60 @@
+/**
+ * Dead-Letter Queue API Routes (operators only)
+ * GET /api/queue/dlq - List dead-lettered messages
+ * DELETE /api/queue/dlq - Purge the dead-letter queue
+ */
+
+import { NextRequest } from "next/server";
+import { z } from "zod";
+import {
+  withErrorHandling,
+  parseQuery,
+  successResponse,
+} from "@/lib/api-helpers";
+import { requireOperator } from "@/lib/auth-unified";
+import * as deadLetterService from "@/services/deadLetterService";
+import { getQueueMetrics } from "@/queues/pgmq";
+import { logger } from "@/lib/logger";
+
+const ListDeadLettersQuerySchema = z.object({
+  page: z.coerce.number().int().positive().optional().default(1),
+  per_page: z.coerce.number().int().positive().max(100).optional().default(50),
+});
+
+export const GET = withErrorHandling(async (request: NextRequest) => {
+  const authContext = await requireOperator(request);
+  const { page = 1, per_page = 50 } = parseQuery(request, ListDeadLettersQuerySchema);
+
+  logger.info("Listing dead-letter queue", {
+    user_id: authContext.userId,
+    page,
+  });
+
+  const [entries, metrics] = await Promise.all([
+    deadLetterService.listDeadLetters({ limit: per_page, offset: (page - 1) * per_page }),
+    getQueueMetrics("dead_letter"),
+  ]);
+
+  return successResponse({
+    data: entries,
+    max_deliveries: deadLetterService.MAX_DELIVERIES,
+    pagination: {
+      page,
+      per_page,
+      total: metrics?.queue_length ?? entries.length,
+    },
+  });
+});
+
+export const DELETE = withErrorHandling(async (request: NextRequest) => {
+  const authContext = await requireOperator(request);
+
+  const purged = await deadLetterService.purgeAllDeadLetters();
+
+  logger.warn("Dead-letter queue purged via API", {
+    user_id: authContext.userId,
+    purged,
+  });
+
+  return successResponse({ purged });
+});
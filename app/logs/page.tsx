@@ -30,7 +30,7 @@ interface Job {
   id: string;
   pattern_id: string;
   image_url: string;
-  status: "queued" | "running" | "succeeded" | "failed";
+  status: "scheduled" | "queued" | "running" | "succeeded" | "failed" | "cancelled" | "expired";
   manifest: Record<string, unknown> | null;
   error: string | null;
   latency_ms: number | null;
@@ -180,6 +180,11 @@ export default function LogsPage() {
         return "text-blue-600 bg-blue-500/10";
       case "queued":
         return "text-yellow-600 bg-yellow-500/10";
+      case "scheduled":
+        return "text-purple-600 bg-purple-500/10";
+      case "cancelled":
+      case "expired":
+        return "text-muted-foreground bg-muted";
       default:
         return "text-muted-foreground bg-muted";
     }
@@ -193,8 +198,12 @@ export default function LogsPage() {
         return <XCircle className="w-3 h-3" />;
       case "running":
         return <Loader2 className="w-3 h-3 animate-spin" />;
+      case "scheduled":
       case "queued":
         return <Clock className="w-3 h-3" />;
+      case "cancelled":
+      case "expired":
+        return <XCircle className="w-3 h-3" />;
       default:
         return null;
     }
@@ -293,6 +302,9 @@ export default function LogsPage() {
                   <option value="failed">Failed</option>
                   <option value="running">Running</option>
                   <option value="queued">Queued</option>
+                  <option value="scheduled">Scheduled</option>
+                  <option value="cancelled">Cancelled</option>
+                  <option value="expired">Expired</option>
                 </select>
               </div>
             </div>
@@ -44,7 +44,7 @@ interface Pattern {
   endpoint_url: string;
 }
 
-type JobStatus = "queued" | "running" | "succeeded" | "failed";
+type JobStatus = "scheduled" | "queued" | "running" | "succeeded" | "failed" | "cancelled" | "expired";
 
 interface Job {
   id: string;
@@ -500,7 +500,12 @@ export default function PatternDetailPage() {
       setCurrentJob(job);
 
       // Stop polling if job is complete
-      if (job.status === "succeeded" || job.status === "failed") {
+      if (
+        job.status === "succeeded" ||
+        job.status === "failed" ||
+        job.status === "cancelled" ||
+        job.status === "expired"
+      ) {
         if (pollingIntervalRef.current) {
           clearInterval(pollingIntervalRef.current);
           pollingIntervalRef.current = null;
@@ -1314,6 +1319,22 @@ print(result)`
                         </span>
                       </>
                     )}
+                    {currentJob.status === "cancelled" && (
+                      <>
+                        <XCircle className="w-5 h-5 text-muted-foreground" />
+                        <span className="text-sm font-medium text-muted-foreground">
+                          Cancelled
+                        </span>
+                      </>
+                    )}
+                    {currentJob.status === "expired" && (
+                      <>
+                        <XCircle className="w-5 h-5 text-muted-foreground" />
+                        <span className="text-sm font-medium text-muted-foreground">
+                          Expired
+                        </span>
+                      </>
+                    )}
                   </div>
 
                   {/* Error Display */}
@@ -262,6 +262,10 @@ function CreateWebhookDialog({
   const AVAILABLE_EVENTS = [
     { value: "job.succeeded", label: "Job Succeeded", description: "Fired when a job completes successfully" },
     { value: "job.failed", label: "Job Failed", description: "Fired when a job fails" },
+    { value: "job.cancelled", label: "Job Cancelled", description: "Fired when a job is cancelled" },
+    { value: "job.expired", label: "Job Expired", description: "Fired when a queued job passes its deadline unprocessed" },
+    { value: "batch.completed", label: "Batch Completed", description: "Fired when every job in a batch has finished" },
+    { value: "export.ready", label: "Export Ready", description: "Fired when a bulk export file is ready to download" },
   ];
 
   const handleSubmit = async (e: React.FormEvent) => {
@@ -0,0 +1,108 @@
+-- Migration: 039_add_batches.sql
+-- Description: Batch ingest support (one batch record grouping many jobs)
+-- Date: 2026-10-19
+
+BEGIN;
+
+-- Batches table: groups jobs submitted together via /ingest/batch
+CREATE TABLE batches (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  user_id UUID NOT NULL REFERENCES profiles(id) ON DELETE CASCADE,
+  pattern_id UUID NOT NULL REFERENCES patterns(id) ON DELETE RESTRICT,
+  status TEXT NOT NULL DEFAULT 'processing'
+    CHECK (status IN ('processing', 'completed')),
+  total_jobs INTEGER NOT NULL CHECK (total_jobs > 0),
+  extras JSONB,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  completed_at TIMESTAMPTZ
+);
+
+COMMENT ON TABLE batches IS 'Groups of jobs submitted in a single batch ingest request';
+COMMENT ON COLUMN batches.status IS 'processing until every job in the batch reaches a terminal state';
+COMMENT ON COLUMN batches.total_jobs IS 'Number of jobs created for this batch';
+
+CREATE TRIGGER update_batches_updated_at BEFORE UPDATE ON batches
+  FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+CREATE INDEX idx_batches_user_id_created ON batches(user_id, created_at DESC);
+
+-- Link jobs to their batch
+ALTER TABLE jobs
+  ADD COLUMN batch_id UUID REFERENCES batches(id) ON DELETE SET NULL;
+
+COMMENT ON COLUMN jobs.batch_id IS 'Batch this job belongs to (NULL for single ingests)';
+
+CREATE INDEX idx_jobs_batch_id_status ON jobs(batch_id, status) WHERE batch_id IS NOT NULL;
+
+-- RLS: users can only see their own batches (writes happen via service role)
+ALTER TABLE batches ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view own batches"
+  ON batches FOR SELECT
+  USING (auth.uid() = user_id);
+
+-- Aggregate job counts for a batch
+CREATE OR REPLACE FUNCTION get_batch_job_counts(p_batch_id UUID)
+RETURNS TABLE (
+  queued BIGINT,
+  running BIGINT,
+  succeeded BIGINT,
+  failed BIGINT,
+  total BIGINT
+)
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+BEGIN
+  RETURN QUERY
+  SELECT
+    COUNT(*) FILTER (WHERE j.status = 'queued') AS queued,
+    COUNT(*) FILTER (WHERE j.status = 'running') AS running,
+    COUNT(*) FILTER (WHERE j.status = 'succeeded') AS succeeded,
+    COUNT(*) FILTER (WHERE j.status = 'failed') AS failed,
+    COUNT(*) AS total
+  FROM jobs j
+  WHERE j.batch_id = p_batch_id;
+END;
+$$;
+
+COMMENT ON FUNCTION get_batch_job_counts IS 'Get job counts by status for a batch';
+
+-- Atomic increment by N (batch ingest consumes one request per image)
+CREATE OR REPLACE FUNCTION increment_user_request_count_by(
+  p_user_id UUID,
+  p_timestamp TIMESTAMPTZ,
+  p_count INTEGER
+)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+BEGIN
+  IF p_count IS NULL OR p_count <= 0 THEN
+    RAISE EXCEPTION 'p_count must be positive (got %)', p_count;
+  END IF;
+
+  UPDATE user_plans
+  SET
+    requests_used_current_period = requests_used_current_period + p_count,
+    last_burst_request_at = p_timestamp,
+    updated_at = p_timestamp
+  WHERE user_id = p_user_id;
+
+  IF NOT FOUND THEN
+    RAISE WARNING 'User % has no plan entry', p_user_id;
+  END IF;
+END;
+$$;
+
+COMMENT ON FUNCTION increment_user_request_count_by IS 'Atomically increment USER-LEVEL request count by N (used by batch ingest)';
+
+-- Server only: with the anon key a client could otherwise read any batch or change any user's quota
+REVOKE EXECUTE ON FUNCTION get_batch_job_counts(UUID) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION increment_user_request_count_by(UUID, TIMESTAMPTZ, INTEGER) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION get_batch_job_counts(UUID) TO service_role;
+GRANT EXECUTE ON FUNCTION increment_user_request_count_by(UUID, TIMESTAMPTZ, INTEGER) TO service_role;
+
+COMMIT;
@@ -0,0 +1,50 @@
+-- Migration: 040_add_job_cancellation.sql
+-- Description: Add 'cancelled' terminal job status and store pgmq message id for queued jobs
+-- Date: 2026-10-19
+
+-- New enum values cannot be used inside the transaction that adds them,
+-- so this runs on its own before the rest of the migration
+ALTER TYPE job_status ADD VALUE IF NOT EXISTS 'cancelled';
+
+BEGIN;
+
+-- pgmq message id of the job's queue entry (lets cancel archive the message)
+ALTER TABLE jobs ADD COLUMN IF NOT EXISTS queue_msg_id BIGINT;
+
+COMMENT ON COLUMN jobs.queue_msg_id IS 'pgmq message id of the queued job (NULL for jobs enqueued before this migration)';
+
+-- Batch counts now report cancelled jobs separately (return type changes, so drop first)
+DROP FUNCTION IF EXISTS get_batch_job_counts(UUID);
+
+CREATE OR REPLACE FUNCTION get_batch_job_counts(p_batch_id UUID)
+RETURNS TABLE (
+  queued BIGINT,
+  running BIGINT,
+  succeeded BIGINT,
+  failed BIGINT,
+  cancelled BIGINT,
+  total BIGINT
+)
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+BEGIN
+  RETURN QUERY
+  SELECT
+    COUNT(*) FILTER (WHERE j.status = 'queued') AS queued,
+    COUNT(*) FILTER (WHERE j.status = 'running') AS running,
+    COUNT(*) FILTER (WHERE j.status = 'succeeded') AS succeeded,
+    COUNT(*) FILTER (WHERE j.status = 'failed') AS failed,
+    COUNT(*) FILTER (WHERE j.status = 'cancelled') AS cancelled,
+    COUNT(*) AS total
+  FROM jobs j
+  WHERE j.batch_id = p_batch_id;
+END;
+$$;
+
+COMMENT ON FUNCTION get_batch_job_counts IS 'Get job counts by status for a batch';
+
+REVOKE EXECUTE ON FUNCTION get_batch_job_counts(UUID) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION get_batch_job_counts(UUID) TO service_role;
+
+COMMIT;
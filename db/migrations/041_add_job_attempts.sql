@@ -0,0 +1,87 @@
+-- Migration: 041_add_job_attempts.sql
+-- Description: Per-attempt history for jobs (recorded whenever a job reaches a terminal state)
+-- Date: 2026-10-19
+
+BEGIN;
+
+-- One row per finished processing attempt of a job
+CREATE TABLE job_attempts (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  job_id UUID NOT NULL REFERENCES jobs(id) ON DELETE CASCADE,
+  attempt_number INTEGER NOT NULL CHECK (attempt_number > 0),
+  status job_status NOT NULL,
+  error TEXT,
+  latency_ms INTEGER,
+  tokens_input INTEGER,
+  tokens_output INTEGER,
+  tokens_total INTEGER,
+  pattern_version INTEGER,
+  started_at TIMESTAMPTZ,
+  completed_at TIMESTAMPTZ,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  UNIQUE (job_id, attempt_number)
+);
+
+COMMENT ON TABLE job_attempts IS 'History of processing attempts per job (attempt_number = jobs.retry_count + 1)';
+COMMENT ON COLUMN job_attempts.pattern_version IS 'Pattern version active when the attempt finished';
+
+-- RLS: users see attempts of jobs on their own patterns
+ALTER TABLE job_attempts ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view own job attempts"
+  ON job_attempts FOR SELECT
+  USING (
+    EXISTS (
+      SELECT 1 FROM jobs j
+      JOIN patterns p ON p.id = j.pattern_id
+      WHERE j.id = job_attempts.job_id AND p.user_id = auth.uid()
+    )
+  );
+
+-- Record an attempt whenever a job enters a terminal state.
+-- Done in the database so it works for every worker runtime.
+CREATE OR REPLACE FUNCTION record_job_attempt()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+BEGIN
+  IF NEW.status::TEXT IN ('succeeded', 'failed', 'cancelled', 'expired')
+     AND NEW.status IS DISTINCT FROM OLD.status THEN
+    INSERT INTO job_attempts (
+      job_id, attempt_number, status, error, latency_ms,
+      tokens_input, tokens_output, tokens_total, pattern_version,
+      started_at, completed_at
+    )
+    SELECT
+      NEW.id, NEW.retry_count + 1, NEW.status, NEW.error, NEW.latency_ms,
+      NEW.tokens_input, NEW.tokens_output, NEW.tokens_total, p.version,
+      NEW.started_at, COALESCE(NEW.completed_at, NOW())
+    FROM patterns p
+    WHERE p.id = NEW.pattern_id
+    ON CONFLICT (job_id, attempt_number) DO NOTHING;
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER record_job_attempt_on_finish
+  AFTER UPDATE OF status ON jobs
+  FOR EACH ROW EXECUTE FUNCTION record_job_attempt();
+
+-- Backfill: already finished jobs get their single known attempt
+INSERT INTO job_attempts (
+  job_id, attempt_number, status, error, latency_ms,
+  tokens_input, tokens_output, tokens_total, pattern_version,
+  started_at, completed_at
+)
+SELECT
+  j.id, j.retry_count + 1, j.status, j.error, j.latency_ms,
+  j.tokens_input, j.tokens_output, j.tokens_total, NULL,
+  j.started_at, j.completed_at
+FROM jobs j
+WHERE j.status::TEXT IN ('succeeded', 'failed', 'cancelled')
+ON CONFLICT (job_id, attempt_number) DO NOTHING;
+
+COMMIT;
@@ -0,0 +1,16 @@
+-- Migration: 042_add_job_image_urls.sql
+-- Description: Multi-image jobs (several images of one subject → one manifest)
+-- Date: 2026-10-19
+
+BEGIN;
+
+-- All images of a multi-image job, in order. image_url keeps the first image
+-- so single-image consumers keep working. NULL for single-image jobs.
+ALTER TABLE jobs ADD COLUMN IF NOT EXISTS image_urls TEXT[];
+
+ALTER TABLE jobs ADD CONSTRAINT jobs_image_urls_not_empty
+  CHECK (image_urls IS NULL OR cardinality(image_urls) > 0);
+
+COMMENT ON COLUMN jobs.image_urls IS 'Ordered image URLs of a multi-image job (image_urls[1] = image_url)';
+
+COMMIT;
@@ -0,0 +1,17 @@
+-- Migration: 043_add_job_page_sources.sql
+-- Description: PDF ingest - source page per image and per-field page provenance of the manifest
+-- Date: 2026-10-19
+
+BEGIN;
+
+-- Page number (1-based) of each image of a PDF job, aligned with image_urls
+-- (or with image_url for single-page jobs). NULL for image uploads.
+ALTER TABLE jobs ADD COLUMN IF NOT EXISTS source_pages INTEGER[];
+
+-- Top-level manifest field -> PDF page the value was read from (NULL when unknown)
+ALTER TABLE jobs ADD COLUMN IF NOT EXISTS manifest_page_sources JSONB;
+
+COMMENT ON COLUMN jobs.source_pages IS 'PDF page number of each job image (source_pages[i] belongs to image_urls[i])';
+COMMENT ON COLUMN jobs.manifest_page_sources IS 'PDF page each top-level manifest field was extracted from';
+
+COMMIT;
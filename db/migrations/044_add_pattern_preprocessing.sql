@@ -0,0 +1,15 @@
+-- Migration: 044_add_pattern_preprocessing.sql
+-- Description: Per-pattern preprocessing of uploaded images (rotate, strip EXIF/GPS, downscale, convert)
+-- Date: 2026-10-19
+
+BEGIN;
+
+-- NULL = default chain (see DEFAULT_PREPROCESSING in imagePreprocessingService)
+ALTER TABLE patterns ADD COLUMN IF NOT EXISTS preprocessing JSONB;
+
+ALTER TABLE patterns ADD CONSTRAINT patterns_preprocessing_is_object
+  CHECK (preprocessing IS NULL OR jsonb_typeof(preprocessing) = 'object');
+
+COMMENT ON COLUMN patterns.preprocessing IS 'Preprocessing config for uploaded images: enabled, auto_rotate, strip_metadata, max_dimension, output_format, quality';
+
+COMMIT;
@@ -0,0 +1,125 @@
+-- Migration: 045_add_result_cache.sql
+-- Description: Content-hash result cache (reuse manifests for identical images per pattern configuration)
+-- Date: 2026-10-19
+
+BEGIN;
+
+-- Per-pattern cache behaviour: off, exact (SHA-256) or perceptual (also near-identical re-encodes)
+ALTER TABLE patterns ADD COLUMN IF NOT EXISTS cache_mode TEXT NOT NULL DEFAULT 'exact'
+  CHECK (cache_mode IN ('off', 'exact', 'perceptual'));
+
+COMMENT ON COLUMN patterns.cache_mode IS 'Result cache: off | exact (content hash) | perceptual (content or perceptual hash)';
+
+-- Hashes of the job's image(s) and whether the manifest came from the cache
+ALTER TABLE jobs ADD COLUMN IF NOT EXISTS content_hash TEXT;
+ALTER TABLE jobs ADD COLUMN IF NOT EXISTS perceptual_hash TEXT;
+ALTER TABLE jobs ADD COLUMN IF NOT EXISTS cache_hit BOOLEAN NOT NULL DEFAULT FALSE;
+ALTER TABLE jobs ADD COLUMN IF NOT EXISTS cache_source_job_id UUID REFERENCES jobs(id) ON DELETE SET NULL;
+
+COMMENT ON COLUMN jobs.content_hash IS 'SHA-256 of the image bytes (multi-image jobs: of the ordered per-image hashes)';
+COMMENT ON COLUMN jobs.perceptual_hash IS '64-bit dHash (hex) of single-image jobs on perceptual patterns';
+COMMENT ON COLUMN jobs.cache_source_job_id IS 'Job whose manifest was reused on a cache hit';
+
+-- One cached manifest per pattern configuration and image content
+-- config_hash covers everything that shapes the manifest (format, instructions, schemas, model
+-- profile, ...), since PATCH /api/patterns/:id edits those in place without a new version
+CREATE TABLE manifest_cache (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  pattern_id UUID NOT NULL REFERENCES patterns(id) ON DELETE CASCADE,
+  pattern_version INTEGER NOT NULL,
+  config_hash TEXT NOT NULL,
+  content_hash TEXT NOT NULL,
+  perceptual_hash TEXT,
+  manifest JSONB NOT NULL,
+  manifest_page_sources JSONB,
+  source_job_id UUID REFERENCES jobs(id) ON DELETE SET NULL,
+  hit_count INTEGER NOT NULL DEFAULT 0,
+  last_hit_at TIMESTAMPTZ,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  UNIQUE (pattern_id, config_hash, content_hash)
+);
+
+CREATE INDEX idx_manifest_cache_perceptual
+  ON manifest_cache (pattern_id, config_hash)
+  WHERE perceptual_hash IS NOT NULL;
+
+COMMENT ON TABLE manifest_cache IS 'Manifests of succeeded jobs keyed by pattern configuration + image content hash';
+COMMENT ON COLUMN manifest_cache.config_hash IS 'SHA-256 of the pattern settings the manifest was produced with';
+COMMENT ON COLUMN manifest_cache.pattern_version IS 'Pattern version of the source job (informational)';
+
+-- Service role only (no user policies)
+ALTER TABLE manifest_cache ENABLE ROW LEVEL SECURITY;
+
+-- Exact match first, then the closest perceptual match within p_max_distance bits
+CREATE OR REPLACE FUNCTION find_cached_manifest(
+  p_pattern_id UUID,
+  p_config_hash TEXT,
+  p_content_hash TEXT,
+  p_perceptual_hash TEXT DEFAULT NULL,
+  p_max_distance INTEGER DEFAULT 4
+)
+RETURNS SETOF manifest_cache
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  v_entry manifest_cache;
+BEGIN
+  SELECT * INTO v_entry
+  FROM manifest_cache c
+  WHERE c.pattern_id = p_pattern_id
+    AND c.config_hash = p_config_hash
+    AND c.content_hash = p_content_hash;
+
+  IF NOT FOUND AND p_perceptual_hash IS NOT NULL THEN
+    SELECT * INTO v_entry
+    FROM manifest_cache c
+    WHERE c.pattern_id = p_pattern_id
+      AND c.config_hash = p_config_hash
+      AND c.perceptual_hash IS NOT NULL
+      AND bit_count(('x' || c.perceptual_hash)::BIT(64) # ('x' || p_perceptual_hash)::BIT(64)) <= p_max_distance
+    ORDER BY bit_count(('x' || c.perceptual_hash)::BIT(64) # ('x' || p_perceptual_hash)::BIT(64)), c.created_at DESC
+    LIMIT 1;
+  END IF;
+
+  IF v_entry.id IS NULL THEN
+    RETURN;
+  END IF;
+
+  UPDATE manifest_cache
+  SET hit_count = hit_count + 1, last_hit_at = NOW()
+  WHERE id = v_entry.id;
+
+  RETURN NEXT v_entry;
+END;
+$$;
+
+COMMENT ON FUNCTION find_cached_manifest IS 'Look up a cached manifest (exact content hash, then perceptual hash) and count the hit';
+
+-- Undo quota usage (cache hits can be made free with CACHE_HITS_FREE=true)
+CREATE OR REPLACE FUNCTION refund_user_request_count(
+  p_user_id UUID,
+  p_count INTEGER
+)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+BEGIN
+  UPDATE user_plans
+  SET
+    requests_used_current_period = GREATEST(requests_used_current_period - p_count, 0),
+    updated_at = NOW()
+  WHERE user_id = p_user_id;
+END;
+$$;
+
+COMMENT ON FUNCTION refund_user_request_count IS 'Atomically decrement USER-LEVEL request count by N (never below 0)';
+
+-- Server only: with the anon key a client could otherwise reset its own quota or read cached manifests
+REVOKE EXECUTE ON FUNCTION find_cached_manifest(UUID, TEXT, TEXT, TEXT, INTEGER) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION refund_user_request_count(UUID, INTEGER) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION find_cached_manifest(UUID, TEXT, TEXT, TEXT, INTEGER) TO service_role;
+GRANT EXECUTE ON FUNCTION refund_user_request_count(UUID, INTEGER) TO service_role;
+
+COMMIT;
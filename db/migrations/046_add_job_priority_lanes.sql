@@ -0,0 +1,25 @@
+-- Migration: 046_add_job_priority_lanes.sql
+-- Description: Priority lanes for the job queue (interactive/default/bulk), capped per plan
+-- Date: 2026-10-19
+
+BEGIN;
+
+-- Lane the job was enqueued in (each lane is its own pgmq queue)
+ALTER TABLE jobs ADD COLUMN IF NOT EXISTS priority TEXT NOT NULL DEFAULT 'default';
+
+ALTER TABLE jobs ADD CONSTRAINT jobs_priority_check
+  CHECK (priority IN ('interactive', 'default', 'bulk'));
+
+COMMENT ON COLUMN jobs.priority IS 'Queue lane: interactive (paid plans), default, bulk (backfills)';
+
+-- Highest lane a plan may request; higher requests are lowered to this
+ALTER TABLE plans ADD COLUMN IF NOT EXISTS max_priority TEXT NOT NULL DEFAULT 'default';
+
+ALTER TABLE plans ADD CONSTRAINT plans_max_priority_check
+  CHECK (max_priority IN ('interactive', 'default', 'bulk'));
+
+UPDATE plans SET max_priority = 'interactive' WHERE name IN ('pro', 'business', 'enterprise');
+
+COMMENT ON COLUMN plans.max_priority IS 'Highest job priority lane available on this plan';
+
+COMMIT;
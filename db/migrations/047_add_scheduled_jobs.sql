@@ -0,0 +1,99 @@
+-- Migration: 047_add_scheduled_jobs.sql
+-- Description: Delayed job execution ('scheduled' status, delayed pgmq send, release cron)
+-- Date: 2026-10-19
+
+-- New enum values cannot be used inside the transaction that adds them,
+-- so this runs on its own before the rest of the migration
+ALTER TYPE job_status ADD VALUE IF NOT EXISTS 'scheduled' BEFORE 'queued';
+
+BEGIN;
+
+-- When a scheduled job becomes visible to the worker (NULL = immediately)
+ALTER TABLE jobs ADD COLUMN IF NOT EXISTS scheduled_for TIMESTAMPTZ;
+
+COMMENT ON COLUMN jobs.scheduled_for IS 'Time the job is released to the worker (process_at / delay_seconds on ingest)';
+
+CREATE INDEX IF NOT EXISTS idx_jobs_scheduled_for
+  ON jobs(scheduled_for)
+  WHERE status = 'scheduled';
+
+-- Delayed send: the message stays invisible for delay seconds
+CREATE OR REPLACE FUNCTION pgmq_send(queue_name text, msg jsonb, delay int)
+RETURNS bigint
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public, pgmq
+AS $$
+BEGIN
+  RETURN pgmq.send(queue_name, msg, delay);
+END;
+$$;
+
+COMMENT ON FUNCTION pgmq_send(text, jsonb, int) IS 'Wrapper for pgmq.send - Enqueues a message that becomes visible after delay seconds';
+
+GRANT EXECUTE ON FUNCTION pgmq_send(text, jsonb, int) TO authenticated, service_role;
+
+-- Flip scheduled jobs whose time has come to 'queued' (the pgmq message becomes visible on its own)
+CREATE OR REPLACE FUNCTION release_scheduled_jobs()
+RETURNS INTEGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  v_released INTEGER;
+BEGIN
+  UPDATE jobs
+  SET status = 'queued'
+  WHERE status = 'scheduled'
+    AND scheduled_for <= NOW();
+
+  GET DIAGNOSTICS v_released = ROW_COUNT;
+  RETURN v_released;
+END;
+$$;
+
+COMMENT ON FUNCTION release_scheduled_jobs IS 'Move scheduled jobs past their scheduled_for time to queued. Runs every minute via cron.';
+
+SELECT cron.schedule(
+  'release-scheduled-jobs',
+  '* * * * *',  -- Every minute
+  $$SELECT release_scheduled_jobs();$$
+);
+
+-- Batch counts report scheduled jobs separately (return type changes, so drop first)
+DROP FUNCTION IF EXISTS get_batch_job_counts(UUID);
+
+CREATE OR REPLACE FUNCTION get_batch_job_counts(p_batch_id UUID)
+RETURNS TABLE (
+  scheduled BIGINT,
+  queued BIGINT,
+  running BIGINT,
+  succeeded BIGINT,
+  failed BIGINT,
+  cancelled BIGINT,
+  total BIGINT
+)
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+BEGIN
+  RETURN QUERY
+  SELECT
+    COUNT(*) FILTER (WHERE j.status = 'scheduled') AS scheduled,
+    COUNT(*) FILTER (WHERE j.status = 'queued') AS queued,
+    COUNT(*) FILTER (WHERE j.status = 'running') AS running,
+    COUNT(*) FILTER (WHERE j.status = 'succeeded') AS succeeded,
+    COUNT(*) FILTER (WHERE j.status = 'failed') AS failed,
+    COUNT(*) FILTER (WHERE j.status = 'cancelled') AS cancelled,
+    COUNT(*) AS total
+  FROM jobs j
+  WHERE j.batch_id = p_batch_id;
+END;
+$$;
+
+COMMENT ON FUNCTION get_batch_job_counts IS 'Get job counts by status for a batch';
+
+REVOKE EXECUTE ON FUNCTION get_batch_job_counts(UUID) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION get_batch_job_counts(UUID) TO service_role;
+
+COMMIT;
@@ -0,0 +1,184 @@
+-- Migration: 048_add_job_expiry.sql
+-- Description: Queued-job expiry (TTL): 'expired' terminal status, per-job deadline, per-pattern default
+-- Date: 2026-10-19
+
+-- New enum values cannot be used inside the transaction that adds them,
+-- so this runs on its own before the rest of the migration
+ALTER TYPE job_status ADD VALUE IF NOT EXISTS 'expired';
+
+BEGIN;
+
+-- Deadline for a job to start processing (NULL = never expires)
+ALTER TABLE jobs ADD COLUMN IF NOT EXISTS expires_at TIMESTAMPTZ;
+
+COMMENT ON COLUMN jobs.expires_at IS 'Jobs still waiting after this time are expired instead of processed (expires_in_seconds on ingest)';
+
+CREATE INDEX IF NOT EXISTS idx_jobs_expires_at
+  ON jobs(expires_at)
+  WHERE status IN ('scheduled', 'queued') AND expires_at IS NOT NULL;
+
+-- Default TTL for jobs of a pattern (NULL = no expiry)
+ALTER TABLE patterns ADD COLUMN IF NOT EXISTS job_ttl_seconds INTEGER;
+
+ALTER TABLE patterns ADD CONSTRAINT patterns_job_ttl_seconds_positive
+  CHECK (job_ttl_seconds IS NULL OR job_ttl_seconds > 0);
+
+COMMENT ON COLUMN patterns.job_ttl_seconds IS 'Default expires_in_seconds for jobs of this pattern';
+
+-- Set once the owner has been told about the expiry (job.expired webhook, sent by the app)
+ALTER TABLE jobs ADD COLUMN IF NOT EXISTS expiry_notified_at TIMESTAMPTZ;
+
+COMMENT ON COLUMN jobs.expiry_notified_at IS 'When the job.expired webhook was sent (NULL = expired jobs still to notify)';
+
+CREATE INDEX IF NOT EXISTS idx_jobs_expiry_unnotified
+  ON jobs(completed_at)
+  WHERE status = 'expired' AND expiry_notified_at IS NULL;
+
+-- Atomically expire waiting jobs past their deadline (one job, or up to p_limit)
+-- Expired jobs were never processed, so their request is refunded here as well;
+-- the app archives the queue message and notifies the owner (claim_expired_job_notifications)
+CREATE OR REPLACE FUNCTION expire_stale_jobs(
+  p_job_id UUID DEFAULT NULL,
+  p_limit INTEGER DEFAULT 100
+)
+RETURNS TABLE (
+  id UUID,
+  pattern_id UUID,
+  user_id UUID,
+  queue_msg_id BIGINT,
+  priority TEXT,
+  batch_id UUID
+)
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  v_job RECORD;
+BEGIN
+  FOR v_job IN
+    WITH stale AS (
+      SELECT j.id
+      FROM jobs j
+      WHERE j.status IN ('scheduled', 'queued')
+        AND j.expires_at <= NOW()
+        AND (p_job_id IS NULL OR j.id = p_job_id)
+      ORDER BY j.expires_at
+      LIMIT p_limit
+      FOR UPDATE SKIP LOCKED
+    )
+    UPDATE jobs j
+    SET status = 'expired',
+        error = 'Job expired before processing started',
+        completed_at = NOW()
+    FROM stale, patterns p
+    WHERE j.id = stale.id
+      AND p.id = j.pattern_id
+    RETURNING j.id, j.pattern_id, p.user_id, j.queue_msg_id, j.priority, j.batch_id
+  LOOP
+    PERFORM refund_user_request_count(v_job.user_id, 1);
+
+    id := v_job.id;
+    pattern_id := v_job.pattern_id;
+    user_id := v_job.user_id;
+    queue_msg_id := v_job.queue_msg_id;
+    priority := v_job.priority;
+    batch_id := v_job.batch_id;
+    RETURN NEXT;
+  END LOOP;
+END;
+$$;
+
+COMMENT ON FUNCTION expire_stale_jobs IS 'Move scheduled/queued jobs past expires_at to expired, refund their request and return them';
+
+-- Expired jobs whose owner has not been notified yet (one job, or up to p_limit)
+-- Each job is returned once, so concurrent sweeps never send a webhook twice
+CREATE OR REPLACE FUNCTION claim_expired_job_notifications(
+  p_job_id UUID DEFAULT NULL,
+  p_limit INTEGER DEFAULT 100
+)
+RETURNS TABLE (
+  id UUID,
+  pattern_id UUID,
+  user_id UUID,
+  queue_msg_id BIGINT,
+  priority TEXT,
+  batch_id UUID
+)
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+BEGIN
+  RETURN QUERY
+  WITH pending AS (
+    SELECT j.id
+    FROM jobs j
+    WHERE j.status = 'expired'
+      AND j.expiry_notified_at IS NULL
+      AND (p_job_id IS NULL OR j.id = p_job_id)
+    ORDER BY j.completed_at
+    LIMIT p_limit
+    FOR UPDATE SKIP LOCKED
+  )
+  UPDATE jobs j
+  SET expiry_notified_at = NOW()
+  FROM pending, patterns p
+  WHERE j.id = pending.id
+    AND p.id = j.pattern_id
+  RETURNING j.id, j.pattern_id, p.user_id, j.queue_msg_id, j.priority, j.batch_id;
+END;
+$$;
+
+COMMENT ON FUNCTION claim_expired_job_notifications IS 'Mark expired jobs as notified and return them (the caller sends job.expired)';
+
+REVOKE EXECUTE ON FUNCTION expire_stale_jobs(UUID, INTEGER) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION claim_expired_job_notifications(UUID, INTEGER) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION expire_stale_jobs(UUID, INTEGER) TO service_role;
+GRANT EXECUTE ON FUNCTION claim_expired_job_notifications(UUID, INTEGER) TO service_role;
+
+-- Expire stale jobs every minute, also while no worker is running
+-- (the app sends the job.expired webhooks on its next sweep or pickup of the job)
+SELECT cron.schedule(
+  'expire-stale-jobs',
+  '* * * * *',  -- Every minute
+  $$SELECT expire_stale_jobs();$$
+);
+
+-- Batch counts report expired jobs separately (return type changes, so drop first)
+DROP FUNCTION IF EXISTS get_batch_job_counts(UUID);
+
+CREATE OR REPLACE FUNCTION get_batch_job_counts(p_batch_id UUID)
+RETURNS TABLE (
+  scheduled BIGINT,
+  queued BIGINT,
+  running BIGINT,
+  succeeded BIGINT,
+  failed BIGINT,
+  cancelled BIGINT,
+  expired BIGINT,
+  total BIGINT
+)
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+BEGIN
+  RETURN QUERY
+  SELECT
+    COUNT(*) FILTER (WHERE j.status = 'scheduled') AS scheduled,
+    COUNT(*) FILTER (WHERE j.status = 'queued') AS queued,
+    COUNT(*) FILTER (WHERE j.status = 'running') AS running,
+    COUNT(*) FILTER (WHERE j.status = 'succeeded') AS succeeded,
+    COUNT(*) FILTER (WHERE j.status = 'failed') AS failed,
+    COUNT(*) FILTER (WHERE j.status = 'cancelled') AS cancelled,
+    COUNT(*) FILTER (WHERE j.status = 'expired') AS expired,
+    COUNT(*) AS total
+  FROM jobs j
+  WHERE j.batch_id = p_batch_id;
+END;
+$$;
+
+COMMENT ON FUNCTION get_batch_job_counts IS 'Get job counts by status for a batch';
+
+REVOKE EXECUTE ON FUNCTION get_batch_job_counts(UUID) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION get_batch_job_counts(UUID) TO service_role;
+
+COMMIT;
@@ -0,0 +1,57 @@
+-- Migration: 049_add_dead_letter_queue.sql
+-- Description: Dead-letter queue support (job error codes, message peek and purge wrappers)
+-- Date: 2026-10-19
+
+BEGIN;
+
+-- Machine-readable failure reason (e.g. MAX_DELIVERIES_EXCEEDED); error keeps the human-readable text
+ALTER TABLE jobs ADD COLUMN IF NOT EXISTS error_code TEXT;
+
+COMMENT ON COLUMN jobs.error_code IS 'Machine-readable failure reason, NULL for regular processing errors';
+
+-- Look at messages without reading them (no visibility timeout, read_ct unchanged)
+CREATE OR REPLACE FUNCTION pgmq_peek(
+  queue_name text,
+  p_msg_id bigint DEFAULT NULL,
+  qty int DEFAULT 50,
+  p_offset int DEFAULT 0
+)
+RETURNS SETOF pgmq.message_record
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public, pgmq
+AS $$
+BEGIN
+  RETURN QUERY EXECUTE format(
+    'SELECT msg_id, read_ct, enqueued_at, vt, message FROM pgmq.%I
+     WHERE $1 IS NULL OR msg_id = $1
+     ORDER BY msg_id
+     LIMIT $2 OFFSET $3',
+    'q_' || queue_name
+  ) USING p_msg_id, qty, p_offset;
+END;
+$$;
+
+COMMENT ON FUNCTION pgmq_peek(text, bigint, int, int) IS 'List queue messages (or one by id) without changing their visibility';
+
+-- Purge wrapper (used by purgeQueue and the DLQ purge endpoint)
+CREATE OR REPLACE FUNCTION pgmq_purge_queue(queue_name text)
+RETURNS bigint
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public, pgmq
+AS $$
+BEGIN
+  RETURN pgmq.purge_queue(queue_name);
+END;
+$$;
+
+COMMENT ON FUNCTION pgmq_purge_queue(text) IS 'Wrapper for pgmq.purge_queue - Deletes all messages of a queue';
+
+-- Server only: with the anon key a client could otherwise read or purge any queue
+REVOKE EXECUTE ON FUNCTION pgmq_peek(text, bigint, int, int) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION pgmq_purge_queue(text) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION pgmq_peek(text, bigint, int, int) TO service_role;
+GRANT EXECUTE ON FUNCTION pgmq_purge_queue(text) TO service_role;
+
+COMMIT;
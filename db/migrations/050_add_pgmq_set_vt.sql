@@ -0,0 +1,25 @@
+-- Migration: 050_add_pgmq_set_vt.sql
+-- Description: Visibility timeout wrapper for the self-hosted Node worker (lease extension)
+-- Date: 2026-10-19
+
+BEGIN;
+
+-- Push a message's visibility timeout to now() + vt seconds (0 = visible again immediately)
+CREATE OR REPLACE FUNCTION pgmq_set_vt(queue_name text, msg_id bigint, vt int)
+RETURNS SETOF pgmq.message_record
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public, pgmq
+AS $$
+BEGIN
+  RETURN QUERY SELECT * FROM pgmq.set_vt(queue_name, msg_id, vt);
+END;
+$$;
+
+COMMENT ON FUNCTION pgmq_set_vt(text, bigint, int) IS 'Wrapper for pgmq.set_vt - Extends (or ends) the visibility timeout of a message';
+
+-- Server only: with the anon key a client could otherwise hide or release any queued message
+REVOKE EXECUTE ON FUNCTION pgmq_set_vt(text, bigint, int) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION pgmq_set_vt(text, bigint, int) TO service_role;
+
+COMMIT;
@@ -0,0 +1,63 @@
+-- Migration: 051_add_job_leases.sql
+-- Description: Job leases so only one worker processes a job (duplicate deliveries are skipped)
+-- Date: 2026-10-19
+
+BEGIN;
+
+-- Worker currently holding the job and until when (renewed by its heartbeat)
+ALTER TABLE jobs ADD COLUMN IF NOT EXISTS lease_owner TEXT;
+ALTER TABLE jobs ADD COLUMN IF NOT EXISTS lease_expires_at TIMESTAMPTZ;
+
+COMMENT ON COLUMN jobs.lease_owner IS 'ID of the worker processing the job (NULL = not leased)';
+COMMENT ON COLUMN jobs.lease_expires_at IS 'Lease end; an expired lease can be taken over by another worker';
+
+-- Take or renew the lease of an unfinished job
+-- Succeeds when the job is not leased, already leased by p_owner, or the lease ran out
+CREATE OR REPLACE FUNCTION claim_job_lease(
+  p_job_id UUID,
+  p_owner TEXT,
+  p_lease_seconds INTEGER
+)
+RETURNS BOOLEAN
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_claimed BOOLEAN;
+BEGIN
+  UPDATE jobs
+  SET lease_owner = p_owner,
+      lease_expires_at = now() + make_interval(secs => p_lease_seconds)
+  WHERE id = p_job_id
+    AND status IN ('scheduled', 'queued', 'running')
+    AND (lease_owner IS NULL OR lease_owner = p_owner OR lease_expires_at < now())
+  RETURNING true INTO v_claimed;
+
+  RETURN COALESCE(v_claimed, false);
+END;
+$$;
+
+COMMENT ON FUNCTION claim_job_lease(UUID, TEXT, INTEGER) IS 'Take or renew a job lease; false if another worker holds it or the job finished';
+
+-- Give the lease back (only the owner can)
+CREATE OR REPLACE FUNCTION release_job_lease(p_job_id UUID, p_owner TEXT)
+RETURNS VOID
+LANGUAGE sql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  UPDATE jobs
+  SET lease_owner = NULL,
+      lease_expires_at = NULL
+  WHERE id = p_job_id
+    AND lease_owner = p_owner;
+$$;
+
+-- Server only: with the anon key a client could otherwise take or drop the lease on any job
+REVOKE EXECUTE ON FUNCTION claim_job_lease(UUID, TEXT, INTEGER) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION release_job_lease(UUID, TEXT) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION claim_job_lease(UUID, TEXT, INTEGER) TO service_role;
+GRANT EXECUTE ON FUNCTION release_job_lease(UUID, TEXT) TO service_role;
+
+COMMIT;
@@ -0,0 +1,171 @@
+-- Migration: 052_add_fair_scheduling.sql
+-- Description: Per-user fair-share dequeuing and per-plan / per-user concurrency caps for workers
+-- Date: 2026-10-19
+
+BEGIN;
+
+-- Jobs of one user that may run at the same time (-1 = unlimited)
+ALTER TABLE plans ADD COLUMN IF NOT EXISTS max_concurrent_jobs INTEGER NOT NULL DEFAULT -1;
+
+UPDATE plans SET max_concurrent_jobs = 2 WHERE name = 'free';
+UPDATE plans SET max_concurrent_jobs = 5 WHERE name = 'starter';
+UPDATE plans SET max_concurrent_jobs = 10 WHERE name = 'pro';
+UPDATE plans SET max_concurrent_jobs = 20 WHERE name = 'business';
+
+COMMENT ON COLUMN plans.max_concurrent_jobs IS 'Jobs of one user processed at the same time (-1 = unlimited)';
+
+-- Per-user override (e.g. a bulk-loading partner on a shared Enterprise plan)
+ALTER TABLE user_plans ADD COLUMN IF NOT EXISTS max_concurrent_jobs INTEGER;
+
+COMMENT ON COLUMN user_plans.max_concurrent_jobs IS 'Overrides plans.max_concurrent_jobs for this user (NULL = plan default, -1 = unlimited)';
+
+CREATE INDEX IF NOT EXISTS idx_jobs_active_leases
+  ON jobs(pattern_id)
+  WHERE lease_owner IS NOT NULL;
+
+-- Free job slots of a user: cap minus leased (running) jobs, NULL = unlimited
+CREATE OR REPLACE FUNCTION user_job_slots(p_user_id UUID)
+RETURNS INTEGER
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT CASE
+    WHEN c.cap IS NULL OR c.cap < 0 THEN NULL
+    ELSE GREATEST(c.cap - (
+      SELECT count(*)
+      FROM jobs j
+      JOIN patterns p ON p.id = j.pattern_id
+      WHERE p.user_id = p_user_id
+        AND j.lease_owner IS NOT NULL
+        AND j.lease_expires_at > now()
+    ), 0)::INTEGER
+  END
+  FROM (
+    SELECT COALESCE(up.max_concurrent_jobs, pl.max_concurrent_jobs) AS cap
+    FROM user_plans up
+    JOIN plans pl ON pl.id = up.plan_id
+    WHERE up.user_id = p_user_id
+  ) c;
+$$;
+
+COMMENT ON FUNCTION user_job_slots(UUID) IS 'Jobs the user may still start under their concurrency cap (NULL = unlimited)';
+
+-- Fair-share read: round-robin over users (each user's oldest message first),
+-- skipping users without free slots. Same locking and visibility semantics as pgmq.read.
+CREATE OR REPLACE FUNCTION pgmq_read_fair(queue_name text, vt int, qty int)
+RETURNS SETOF pgmq.message_record
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public, pgmq
+AS $$
+BEGIN
+  RETURN QUERY EXECUTE format(
+    'WITH visible AS (
+       SELECT q.msg_id, p.user_id,
+              row_number() OVER (PARTITION BY p.user_id ORDER BY q.msg_id) AS turn
+       FROM pgmq.%1$I q
+       LEFT JOIN patterns p ON p.id = (q.message->>''pattern_id'')::uuid
+       WHERE q.vt <= clock_timestamp()
+     ),
+     slots AS (
+       SELECT u.user_id, user_job_slots(u.user_id) AS free
+       FROM (SELECT DISTINCT user_id FROM visible) u
+     ),
+     picked AS (
+       SELECT v.msg_id
+       FROM visible v
+       JOIN slots s ON s.user_id IS NOT DISTINCT FROM v.user_id
+       WHERE s.free IS NULL OR v.turn <= s.free
+       ORDER BY v.turn, v.msg_id
+       LIMIT $2
+     ),
+     locked AS (
+       SELECT q.msg_id
+       FROM pgmq.%1$I q
+       JOIN picked USING (msg_id)
+       WHERE q.vt <= clock_timestamp()
+       FOR UPDATE OF q SKIP LOCKED
+     )
+     UPDATE pgmq.%1$I m
+     SET vt = clock_timestamp() + make_interval(secs => $1),
+         read_ct = m.read_ct + 1
+     FROM locked
+     WHERE m.msg_id = locked.msg_id
+     RETURNING m.msg_id, m.read_ct, m.enqueued_at, m.vt, m.message',
+    'q_' || queue_name
+  ) USING vt, qty;
+END;
+$$;
+
+COMMENT ON FUNCTION pgmq_read_fair(text, int, int) IS 'pgmq.read with per-user round-robin and concurrency caps';
+
+-- Lease claims now report why a claim failed, so the return type changes
+DROP FUNCTION IF EXISTS claim_job_lease(UUID, TEXT, INTEGER);
+
+-- Take or renew the lease of an unfinished job
+-- Returns 'claimed', 'held' (another worker has it), 'at_capacity' (user cap reached) or 'finished'
+CREATE OR REPLACE FUNCTION claim_job_lease(
+  p_job_id UUID,
+  p_owner TEXT,
+  p_lease_seconds INTEGER
+)
+RETURNS TEXT
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_job RECORD;
+  v_slots INTEGER;
+  v_claimed BOOLEAN;
+BEGIN
+  SELECT j.status, j.lease_owner, j.lease_expires_at, p.user_id
+  INTO v_job
+  FROM jobs j
+  JOIN patterns p ON p.id = j.pattern_id
+  WHERE j.id = p_job_id;
+
+  IF NOT FOUND OR v_job.status NOT IN ('scheduled', 'queued', 'running') THEN
+    RETURN 'finished';
+  END IF;
+
+  -- Renewals by the holder already count against the cap
+  IF v_job.lease_owner IS DISTINCT FROM p_owner THEN
+    IF v_job.lease_owner IS NOT NULL AND v_job.lease_expires_at >= now() THEN
+      RETURN 'held';
+    END IF;
+
+    -- Serialize new claims per user so concurrent workers cannot overshoot the cap
+    PERFORM pg_advisory_xact_lock(hashtext('job_lease:' || v_job.user_id::text));
+
+    v_slots := user_job_slots(v_job.user_id);
+    IF v_slots IS NOT NULL AND v_slots <= 0 THEN
+      RETURN 'at_capacity';
+    END IF;
+  END IF;
+
+  UPDATE jobs
+  SET lease_owner = p_owner,
+      lease_expires_at = now() + make_interval(secs => p_lease_seconds)
+  WHERE id = p_job_id
+    AND status IN ('scheduled', 'queued', 'running')
+    AND (lease_owner IS NULL OR lease_owner = p_owner OR lease_expires_at < now())
+  RETURNING true INTO v_claimed;
+
+  RETURN CASE WHEN v_claimed THEN 'claimed' ELSE 'held' END;
+END;
+$$;
+
+COMMENT ON FUNCTION claim_job_lease(UUID, TEXT, INTEGER) IS 'Take or renew a job lease within the owner''s concurrency cap';
+
+-- Server only: with the anon key a client could otherwise read any queue or hold leases on other users' jobs
+REVOKE EXECUTE ON FUNCTION user_job_slots(UUID) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION pgmq_read_fair(text, int, int) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION claim_job_lease(UUID, TEXT, INTEGER) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION user_job_slots(UUID) TO service_role;
+GRANT EXECUTE ON FUNCTION pgmq_read_fair(text, int, int) TO service_role;
+GRANT EXECUTE ON FUNCTION claim_job_lease(UUID, TEXT, INTEGER) TO service_role;
+
+COMMIT;
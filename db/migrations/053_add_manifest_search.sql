@@ -0,0 +1,27 @@
+-- Migration: 053_add_manifest_search.sql
+-- Description: Search jobs by manifest content (manifest.* filters on /api/jobs and /api/logs)
+-- Date: 2026-10-19
+
+BEGIN;
+
+-- jsonpath_ops GIN index: serves @> and the equality parts of @? predicates
+-- (on a large jobs table create it CONCURRENTLY outside this transaction instead)
+CREATE INDEX IF NOT EXISTS idx_jobs_manifest_path_ops
+  ON jobs USING GIN (manifest jsonb_path_ops);
+
+-- Jobs whose manifest matches a jsonpath predicate built by src/lib/manifestFilters.ts
+-- Plain SQL (no SECURITY DEFINER / SET) so Postgres inlines it: the caller's ownership,
+-- time range and pagination filters are planned together with the index lookup
+CREATE OR REPLACE FUNCTION search_jobs_by_manifest(p_path TEXT)
+RETURNS SETOF jobs
+LANGUAGE sql
+STABLE
+AS $$
+  SELECT * FROM jobs WHERE manifest @? p_path::jsonpath;
+$$;
+
+COMMENT ON FUNCTION search_jobs_by_manifest(TEXT) IS 'Jobs whose manifest matches the jsonpath predicate (manifest @? p_path)';
+
+GRANT EXECUTE ON FUNCTION search_jobs_by_manifest(TEXT) TO service_role;
+
+COMMIT;
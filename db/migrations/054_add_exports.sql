@@ -0,0 +1,82 @@
+-- Migration: 054_add_exports.sql
+-- Description: Bulk exports of job results (file built in the background, export.ready webhook)
+-- Date: 2026-10-19
+
+BEGIN;
+
+-- Exports table: one row per requested download
+CREATE TABLE exports (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  user_id UUID NOT NULL REFERENCES profiles(id) ON DELETE CASCADE,
+  pattern_id UUID REFERENCES patterns(id) ON DELETE SET NULL,
+  format TEXT NOT NULL CHECK (format IN ('ndjson', 'csv', 'xlsx', 'zip')),
+  filters JSONB NOT NULL DEFAULT '{}'::jsonb,
+  status TEXT NOT NULL DEFAULT 'queued'
+    CHECK (status IN ('queued', 'running', 'succeeded', 'failed')),
+  job_count INTEGER,
+  file_path TEXT,
+  file_size_bytes BIGINT,
+  error TEXT,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  completed_at TIMESTAMPTZ
+);
+
+COMMENT ON TABLE exports IS 'Bulk downloads of job results requested via POST /api/exports';
+COMMENT ON COLUMN exports.filters IS 'Job filters of the export: status[], created_after, created_before';
+COMMENT ON COLUMN exports.file_path IS 'Object path in the exports storage bucket (set once succeeded)';
+
+CREATE TRIGGER update_exports_updated_at BEFORE UPDATE ON exports
+  FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+CREATE INDEX idx_exports_user_id_created ON exports(user_id, created_at DESC);
+
+-- Export queries page through a pattern's jobs in creation order
+CREATE INDEX IF NOT EXISTS idx_jobs_pattern_id_created ON jobs(pattern_id, created_at, id);
+
+-- RLS: users can only see their own exports (writes happen via service role)
+ALTER TABLE exports ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view own exports"
+  ON exports FOR SELECT
+  USING (auth.uid() = user_id);
+
+-- Exports are built in the request's background (after()), so a crashed or timed-out function
+-- leaves them queued/running forever. Fail them once they are well past the route's maxDuration.
+CREATE OR REPLACE FUNCTION fail_stale_exports(p_max_age_seconds INTEGER DEFAULT 600)
+RETURNS INTEGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  v_failed INTEGER;
+BEGIN
+  UPDATE exports
+  SET status = 'failed',
+      error = 'Export did not finish in time',
+      completed_at = NOW()
+  WHERE status IN ('queued', 'running')
+    AND updated_at < NOW() - make_interval(secs => p_max_age_seconds);
+
+  GET DIAGNOSTICS v_failed = ROW_COUNT;
+  RETURN v_failed;
+END;
+$$;
+
+COMMENT ON FUNCTION fail_stale_exports IS 'Fail exports stuck in queued/running for longer than p_max_age_seconds. Runs every minute via cron.';
+
+REVOKE EXECUTE ON FUNCTION fail_stale_exports(INTEGER) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION fail_stale_exports(INTEGER) TO service_role;
+
+SELECT cron.schedule(
+  'fail-stale-exports',
+  '* * * * *',  -- Every minute
+  $$SELECT fail_stale_exports();$$
+);
+
+-- Private bucket for export files (downloads go through short-lived signed URLs)
+INSERT INTO storage.buckets (id, name, public, file_size_limit)
+VALUES ('exports', 'exports', false, 524288000) -- 500MB
+ON CONFLICT (id) DO NOTHING;
+
+COMMIT;
@@ -0,0 +1,90 @@
+-- Migration: 055_add_job_pattern_versions.sql
+-- Description: Pattern version per job, image retention and reprocessing of historical jobs
+-- Date: 2026-10-19
+
+BEGIN;
+
+ALTER TABLE jobs
+  ADD COLUMN pattern_version INTEGER,
+  ADD COLUMN reprocess_of UUID REFERENCES jobs(id) ON DELETE SET NULL,
+  ADD COLUMN images_deleted_at TIMESTAMPTZ;
+
+COMMENT ON COLUMN jobs.pattern_version IS 'Pattern version the manifest was produced with (pinned for reprocess jobs)';
+COMMENT ON COLUMN jobs.reprocess_of IS 'Original job this job reprocesses (POST /api/patterns/:id/reprocess)';
+COMMENT ON COLUMN jobs.images_deleted_at IS 'When the uploaded images were removed from storage (NULL = still available)';
+
+CREATE INDEX idx_jobs_reprocess_of ON jobs(reprocess_of) WHERE reprocess_of IS NOT NULL;
+
+ALTER TABLE patterns
+  ADD COLUMN retain_images BOOLEAN NOT NULL DEFAULT FALSE;
+
+COMMENT ON COLUMN patterns.retain_images IS 'Keep uploaded images after processing so jobs can be reprocessed';
+
+-- Stamp the version when a job starts running. Done in the database so it works for
+-- every worker runtime; reprocess jobs keep the version they were created with.
+CREATE OR REPLACE FUNCTION stamp_job_pattern_version()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+BEGIN
+  IF NEW.status::TEXT = 'running'
+     AND NEW.status IS DISTINCT FROM OLD.status
+     AND NEW.reprocess_of IS NULL THEN
+    SELECT p.version INTO NEW.pattern_version
+    FROM patterns p
+    WHERE p.id = NEW.pattern_id;
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER stamp_job_pattern_version_on_start
+  BEFORE UPDATE OF status ON jobs
+  FOR EACH ROW EXECUTE FUNCTION stamp_job_pattern_version();
+
+-- Attempts record the job's version (falls back to the active one for jobs that never ran)
+CREATE OR REPLACE FUNCTION record_job_attempt()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+BEGIN
+  IF NEW.status::TEXT IN ('succeeded', 'failed', 'cancelled', 'expired')
+     AND NEW.status IS DISTINCT FROM OLD.status THEN
+    INSERT INTO job_attempts (
+      job_id, attempt_number, status, error, latency_ms,
+      tokens_input, tokens_output, tokens_total, pattern_version,
+      started_at, completed_at
+    )
+    SELECT
+      NEW.id, NEW.retry_count + 1, NEW.status, NEW.error, NEW.latency_ms,
+      NEW.tokens_input, NEW.tokens_output, NEW.tokens_total, COALESCE(NEW.pattern_version, p.version),
+      NEW.started_at, COALESCE(NEW.completed_at, NOW())
+    FROM patterns p
+    WHERE p.id = NEW.pattern_id
+    ON CONFLICT (job_id, attempt_number) DO NOTHING;
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+-- Backfill: version of the latest recorded attempt
+UPDATE jobs j
+SET pattern_version = a.pattern_version
+FROM (
+  SELECT DISTINCT ON (job_id) job_id, pattern_version
+  FROM job_attempts
+  WHERE pattern_version IS NOT NULL
+  ORDER BY job_id, attempt_number DESC
+) a
+WHERE a.job_id = j.id;
+
+-- Backfill: images of succeeded jobs were always deleted after processing until now
+UPDATE jobs
+SET images_deleted_at = COALESCE(completed_at, updated_at)
+WHERE status = 'succeeded';
+
+COMMIT;
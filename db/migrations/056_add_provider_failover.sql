@@ -0,0 +1,19 @@
+-- Migration: 056_add_provider_failover.sql
+-- Description: Per-pattern provider fallback chain and the provider that served each job
+-- Date: 2026-10-19
+
+BEGIN;
+
+ALTER TABLE patterns
+  ADD COLUMN fallback_model_profiles TEXT[] NOT NULL DEFAULT '{}';
+
+COMMENT ON COLUMN patterns.fallback_model_profiles IS 'Model profiles tried in order while the provider of model_profile is unavailable (empty = no failover)';
+
+ALTER TABLE jobs
+  ADD COLUMN provider TEXT,
+  ADD COLUMN provider_model TEXT;
+
+COMMENT ON COLUMN jobs.provider IS 'Provider that produced the manifest (openai, anthropic, gemini, oss); NULL for cache hits and unprocessed jobs';
+COMMENT ON COLUMN jobs.provider_model IS 'Model of that provider';
+
+COMMIT;
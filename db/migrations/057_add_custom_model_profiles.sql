@@ -0,0 +1,34 @@
+-- Migration: 057_add_custom_model_profiles.sql
+-- Description: Custom model profiles (OpenAI-compatible self-hosted endpoints: vLLM, Ollama, LM Studio)
+-- Date: 2026-10-19
+
+BEGIN;
+
+-- One row per registered endpoint; patterns reference it as model_profile 'custom:<name>'
+CREATE TABLE custom_model_profiles (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  user_id UUID NOT NULL REFERENCES profiles(id) ON DELETE CASCADE,
+  name TEXT NOT NULL CHECK (name ~ '^[a-z0-9][a-z0-9-]{0,39}$'),
+  base_url TEXT NOT NULL,
+  model TEXT NOT NULL,
+  api_key TEXT,
+  supports_json_schema BOOLEAN NOT NULL DEFAULT false,
+  max_image_dimension INTEGER CHECK (max_image_dimension BETWEEN 256 AND 8192),
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  UNIQUE (user_id, name)
+);
+
+COMMENT ON TABLE custom_model_profiles IS 'OpenAI-compatible model endpoints registered via POST /api/model-profiles';
+COMMENT ON COLUMN custom_model_profiles.base_url IS 'Base URL of the API (requests go to <base_url>/chat/completions)';
+COMMENT ON COLUMN custom_model_profiles.api_key IS 'Bearer token sent to the endpoint (never returned by the API)';
+COMMENT ON COLUMN custom_model_profiles.supports_json_schema IS 'Endpoint supports response_format json_schema strict mode; otherwise prompt-and-validate';
+COMMENT ON COLUMN custom_model_profiles.max_image_dimension IS 'Images are downscaled to fit this many pixels per side before being sent (NULL = as stored)';
+
+CREATE TRIGGER update_custom_model_profiles_updated_at BEFORE UPDATE ON custom_model_profiles
+  FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+-- RLS: no client access, the table holds endpoint credentials (all access via service role)
+ALTER TABLE custom_model_profiles ENABLE ROW LEVEL SECURITY;
+
+COMMIT;
@@ -0,0 +1,20 @@
+-- Migration: 058_add_field_confidence.sql
+-- Description: Opt-in per-field confidence scores for manifests
+-- Date: 2026-10-19
+
+BEGIN;
+
+ALTER TABLE patterns
+  ADD COLUMN field_confidence BOOLEAN NOT NULL DEFAULT false;
+
+COMMENT ON COLUMN patterns.field_confidence IS 'Ask the model for a confidence score and a not-visible flag per manifest field';
+
+-- Mirrors the manifest: every leaf value -> { "confidence": 0..1, "not_visible": bool }
+ALTER TABLE jobs ADD COLUMN IF NOT EXISTS manifest_confidence JSONB;
+
+COMMENT ON COLUMN jobs.manifest_confidence IS 'Per-field confidence of the manifest (NULL unless the pattern has field_confidence)';
+
+-- Cache hits reuse the scores of the job that produced the manifest
+ALTER TABLE manifest_cache ADD COLUMN IF NOT EXISTS manifest_confidence JSONB;
+
+COMMIT;
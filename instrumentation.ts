@@ -0,0 +1,10 @@
+/**
+ * Next.js startup hook
+ * With the in-memory queue backend the app drains its own queue (no separate worker process)
+ */
+export async function register() {
+  if (process.env.NEXT_RUNTIME === "nodejs" && process.env.QUEUE_BACKEND === "memory") {
+    const { startEmbeddedWorker } = await import("@/queues/worker");
+    startEmbeddedWorker();
+  }
+}
@@ -3,6 +3,8 @@ import type { NextConfig } from "next";
 const nextConfig: NextConfig = {
   reactStrictMode: true,
   typedRoutes: true, // Moved from experimental (Next.js 15.5.4 warning)
+  // WASM-based decoders (PDF, HEIC): load from node_modules at runtime instead of bundling
+  serverExternalPackages: ["mupdf", "heic-decode"],
   // @ts-ignore - webpack config to reduce logging and fix chunk loading
   webpack: (config: any, { dev, isServer }) => {
     config.infrastructureLogging = { level: 'error' };
@@ -17,6 +17,7 @@ import '../src/openapi/endpoints/patterns';
 import '../src/openapi/endpoints/jobs';
 import '../src/openapi/endpoints/api-keys';
 import '../src/openapi/endpoints/webhooks';
+import '../src/openapi/endpoints/model-profiles';
 import '../src/openapi/endpoints/storage';
 import '../src/openapi/endpoints/system';
 
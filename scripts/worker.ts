@@ -0,0 +1,49 @@
+/**
+ * Self-hosted Queue Worker
+ *
+ * Long-running process that drains the ingest queues (use instead of the
+ * Supabase Edge Function + pg_cron, e.g. as a Kubernetes Deployment).
+ * SIGTERM/SIGINT stop polling and wait for in-flight jobs; a second signal exits immediately.
+ *
+ * Usage: npm run worker
+ */
+
+import { config } from "dotenv";
+import { resolve } from "path";
+
+config({ path: resolve(process.cwd(), ".env") });
+
+async function main() {
+  if (process.env.QUEUE_BACKEND === "memory") {
+    console.error("QUEUE_BACKEND=memory lives inside the app process; the app runs its own embedded worker");
+    process.exit(1);
+  }
+
+  // Imported after dotenv so the Supabase client sees the environment
+  const { runWorker, getWorkerOptionsFromEnv } = await import("../src/queues/worker");
+  const { initializeQueues } = await import("../src/queues/pgmq");
+
+  await initializeQueues();
+
+  const controller = new AbortController();
+
+  const shutdown = (signal: NodeJS.Signals) => {
+    if (controller.signal.aborted) {
+      console.error(`Received ${signal} again, exiting without waiting for in-flight jobs`);
+      process.exit(1);
+    }
+    console.log(`Received ${signal}, shutting down gracefully...`);
+    controller.abort();
+  };
+
+  process.on("SIGTERM", shutdown);
+  process.on("SIGINT", shutdown);
+
+  const drained = await runWorker(getWorkerOptionsFromEnv(), controller.signal);
+  process.exit(drained ? 0 : 1);
+}
+
+main().catch((error) => {
+  console.error("Worker crashed:", error);
+  process.exit(1);
+});
@@ -201,6 +201,34 @@ export async function requireAuthOrApiKey(
   );
 }
 
+/**
+ * Require an operator (queue administration, dead-letter handling)
+ * Operators are listed by user ID in OPERATOR_USER_IDS (comma-separated);
+ * API keys additionally need the queue:admin scope
+ *
+ * @param request - Next.js request
+ * @returns Auth context
+ */
+export async function requireOperator(request: NextRequest): Promise<AuthContext> {
+  const authContext = await requireAuthOrApiKey(request, "queue:admin");
+
+  const operatorIds = (process.env.OPERATOR_USER_IDS || "")
+    .split(",")
+    .map((id) => id.trim())
+    .filter(Boolean);
+
+  if (!operatorIds.includes(authContext.userId)) {
+    logger.warn("Operator access denied", {
+      user_id: authContext.userId,
+      path: request.nextUrl.pathname,
+    });
+
+    throw new ApiError("Operator access required", 403, "FORBIDDEN");
+  }
+
+  return authContext;
+}
+
 /**
  * Optional authentication (doesn't throw if missing)
  * Useful for public endpoints that want to know who's calling
@@ -71,21 +71,263 @@ export type Database = {
         }
         Relationships: []
       }
+      batches: {
+        Row: {
+          completed_at: string | null
+          created_at: string
+          extras: Json | null
+          id: string
+          pattern_id: string
+          status: string
+          total_jobs: number
+          updated_at: string
+          user_id: string
+        }
+        Insert: {
+          completed_at?: string | null
+          created_at?: string
+          extras?: Json | null
+          id?: string
+          pattern_id: string
+          status?: string
+          total_jobs: number
+          updated_at?: string
+          user_id: string
+        }
+        Update: {
+          completed_at?: string | null
+          created_at?: string
+          extras?: Json | null
+          id?: string
+          pattern_id?: string
+          status?: string
+          total_jobs?: number
+          updated_at?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "batches_pattern_id_fkey"
+            columns: ["pattern_id"]
+            isOneToOne: false
+            referencedRelation: "patterns"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "batches_user_id_fkey"
+            columns: ["user_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      custom_model_profiles: {
+        Row: {
+          api_key: string | null
+          base_url: string
+          created_at: string
+          id: string
+          max_image_dimension: number | null
+          model: string
+          name: string
+          supports_json_schema: boolean
+          updated_at: string
+          user_id: string
+        }
+        Insert: {
+          api_key?: string | null
+          base_url: string
+          created_at?: string
+          id?: string
+          max_image_dimension?: number | null
+          model: string
+          name: string
+          supports_json_schema?: boolean
+          updated_at?: string
+          user_id: string
+        }
+        Update: {
+          api_key?: string | null
+          base_url?: string
+          created_at?: string
+          id?: string
+          max_image_dimension?: number | null
+          model?: string
+          name?: string
+          supports_json_schema?: boolean
+          updated_at?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "custom_model_profiles_user_id_fkey"
+            columns: ["user_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      exports: {
+        Row: {
+          completed_at: string | null
+          created_at: string
+          error: string | null
+          file_path: string | null
+          file_size_bytes: number | null
+          filters: Json
+          format: string
+          id: string
+          job_count: number | null
+          pattern_id: string | null
+          status: string
+          updated_at: string
+          user_id: string
+        }
+        Insert: {
+          completed_at?: string | null
+          created_at?: string
+          error?: string | null
+          file_path?: string | null
+          file_size_bytes?: number | null
+          filters?: Json
+          format: string
+          id?: string
+          job_count?: number | null
+          pattern_id?: string | null
+          status?: string
+          updated_at?: string
+          user_id: string
+        }
+        Update: {
+          completed_at?: string | null
+          created_at?: string
+          error?: string | null
+          file_path?: string | null
+          file_size_bytes?: number | null
+          filters?: Json
+          format?: string
+          id?: string
+          job_count?: number | null
+          pattern_id?: string | null
+          status?: string
+          updated_at?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "exports_pattern_id_fkey"
+            columns: ["pattern_id"]
+            isOneToOne: false
+            referencedRelation: "patterns"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "exports_user_id_fkey"
+            columns: ["user_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      job_attempts: {
+        Row: {
+          attempt_number: number
+          completed_at: string | null
+          created_at: string
+          error: string | null
+          id: string
+          job_id: string
+          latency_ms: number | null
+          pattern_version: number | null
+          started_at: string | null
+          status: Database["public"]["Enums"]["job_status"]
+          tokens_input: number | null
+          tokens_output: number | null
+          tokens_total: number | null
+        }
+        Insert: {
+          attempt_number: number
+          completed_at?: string | null
+          created_at?: string
+          error?: string | null
+          id?: string
+          job_id: string
+          latency_ms?: number | null
+          pattern_version?: number | null
+          started_at?: string | null
+          status: Database["public"]["Enums"]["job_status"]
+          tokens_input?: number | null
+          tokens_output?: number | null
+          tokens_total?: number | null
+        }
+        Update: {
+          attempt_number?: number
+          completed_at?: string | null
+          created_at?: string
+          error?: string | null
+          id?: string
+          job_id?: string
+          latency_ms?: number | null
+          pattern_version?: number | null
+          started_at?: string | null
+          status?: Database["public"]["Enums"]["job_status"]
+          tokens_input?: number | null
+          tokens_output?: number | null
+          tokens_total?: number | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "job_attempts_job_id_fkey"
+            columns: ["job_id"]
+            isOneToOne: false
+            referencedRelation: "jobs"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       jobs: {
         Row: {
+          batch_id: string | null
+          cache_hit: boolean
+          cache_source_job_id: string | null
           completed_at: string | null
+          content_hash: string | null
           created_at: string
           error: string | null
+          error_code: string | null
+          expires_at: string | null
+          expiry_notified_at: string | null
           extras: Json | null
           fair_use_warning: string | null
           id: string
           idempotency_key: string | null
           image_size_bytes: number | null
           image_url: string
+          image_urls: string[] | null
+          images_deleted_at: string | null
+          last_error: string | null
           latency_ms: number | null
+          lease_expires_at: string | null
+          lease_owner: string | null
           manifest: Json | null
+          manifest_confidence: Json | null
+          manifest_page_sources: Json | null
+          max_retries: number
           pattern_id: string
+          pattern_version: number | null
+          perceptual_hash: string | null
+          priority: string
+          provider: string | null
+          provider_model: string | null
+          queue_msg_id: number | null
+          reprocess_of: string | null
           requested_by: string | null
+          retry_count: number
+          scheduled_for: string | null
+          source_pages: number[] | null
           started_at: string | null
           status: Database["public"]["Enums"]["job_status"]
           tokens_input: number | null
@@ -94,19 +336,44 @@ export type Database = {
           updated_at: string
         }
         Insert: {
+          batch_id?: string | null
+          cache_hit?: boolean
+          cache_source_job_id?: string | null
           completed_at?: string | null
+          content_hash?: string | null
           created_at?: string
           error?: string | null
+          error_code?: string | null
+          expires_at?: string | null
+          expiry_notified_at?: string | null
           extras?: Json | null
           fair_use_warning?: string | null
           id?: string
           idempotency_key?: string | null
           image_size_bytes?: number | null
           image_url: string
+          image_urls?: string[] | null
+          images_deleted_at?: string | null
+          last_error?: string | null
           latency_ms?: number | null
+          lease_expires_at?: string | null
+          lease_owner?: string | null
           manifest?: Json | null
+          manifest_confidence?: Json | null
+          manifest_page_sources?: Json | null
+          max_retries?: number
           pattern_id: string
+          pattern_version?: number | null
+          perceptual_hash?: string | null
+          priority?: string
+          provider?: string | null
+          provider_model?: string | null
+          queue_msg_id?: number | null
+          reprocess_of?: string | null
           requested_by?: string | null
+          retry_count?: number
+          scheduled_for?: string | null
+          source_pages?: number[] | null
           started_at?: string | null
           status?: Database["public"]["Enums"]["job_status"]
           tokens_input?: number | null
@@ -115,19 +382,44 @@ export type Database = {
           updated_at?: string
         }
         Update: {
+          batch_id?: string | null
+          cache_hit?: boolean
+          cache_source_job_id?: string | null
           completed_at?: string | null
+          content_hash?: string | null
           created_at?: string
           error?: string | null
+          error_code?: string | null
+          expires_at?: string | null
+          expiry_notified_at?: string | null
           extras?: Json | null
           fair_use_warning?: string | null
           id?: string
           idempotency_key?: string | null
           image_size_bytes?: number | null
           image_url?: string
+          image_urls?: string[] | null
+          images_deleted_at?: string | null
+          last_error?: string | null
           latency_ms?: number | null
+          lease_expires_at?: string | null
+          lease_owner?: string | null
           manifest?: Json | null
+          manifest_confidence?: Json | null
+          manifest_page_sources?: Json | null
+          max_retries?: number
           pattern_id?: string
+          pattern_version?: number | null
+          perceptual_hash?: string | null
+          priority?: string
+          provider?: string | null
+          provider_model?: string | null
+          queue_msg_id?: number | null
+          reprocess_of?: string | null
           requested_by?: string | null
+          retry_count?: number
+          scheduled_for?: string | null
+          source_pages?: number[] | null
           started_at?: string | null
           status?: Database["public"]["Enums"]["job_status"]
           tokens_input?: number | null
@@ -136,6 +428,13 @@ export type Database = {
           updated_at?: string
         }
         Relationships: [
+          {
+            foreignKeyName: "jobs_batch_id_fkey"
+            columns: ["batch_id"]
+            isOneToOne: false
+            referencedRelation: "batches"
+            referencedColumns: ["id"]
+          },
           {
             foreignKeyName: "jobs_pattern_id_fkey"
             columns: ["pattern_id"]
@@ -152,6 +451,69 @@ export type Database = {
           },
         ]
       }
+      manifest_cache: {
+        Row: {
+          config_hash: string
+          content_hash: string
+          created_at: string
+          hit_count: number
+          id: string
+          last_hit_at: string | null
+          manifest: Json
+          manifest_confidence: Json | null
+          manifest_page_sources: Json | null
+          pattern_id: string
+          pattern_version: number
+          perceptual_hash: string | null
+          source_job_id: string | null
+        }
+        Insert: {
+          config_hash: string
+          content_hash: string
+          created_at?: string
+          hit_count?: number
+          id?: string
+          last_hit_at?: string | null
+          manifest: Json
+          manifest_confidence?: Json | null
+          manifest_page_sources?: Json | null
+          pattern_id: string
+          pattern_version: number
+          perceptual_hash?: string | null
+          source_job_id?: string | null
+        }
+        Update: {
+          config_hash?: string
+          content_hash?: string
+          created_at?: string
+          hit_count?: number
+          id?: string
+          last_hit_at?: string | null
+          manifest?: Json
+          manifest_confidence?: Json | null
+          manifest_page_sources?: Json | null
+          pattern_id?: string
+          pattern_version?: number
+          perceptual_hash?: string | null
+          source_job_id?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "manifest_cache_pattern_id_fkey"
+            columns: ["pattern_id"]
+            isOneToOne: false
+            referencedRelation: "patterns"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "manifest_cache_source_job_id_fkey"
+            columns: ["source_job_id"]
+            isOneToOne: false
+            referencedRelation: "jobs"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       pattern_versions: {
         Row: {
           created_at: string
@@ -207,19 +569,25 @@ export type Database = {
       }
       patterns: {
         Row: {
+          cache_mode: string
           created_at: string
           csv_delimiter: string | null
           csv_schema: string | null
+          fallback_model_profiles: string[]
+          field_confidence: boolean
           format: Database["public"]["Enums"]["manifest_format"]
           format_metadata: Json | null
           id: string
           instructions: string
           is_active: boolean
+          job_ttl_seconds: number | null
           json_schema: Json | null
           model_profile: string
           name: string
           parent_pattern_id: string | null
           plain_text_schema: string | null
+          preprocessing: Json | null
+          retain_images: boolean
           updated_at: string
           user_id: string
           version: number
@@ -227,19 +595,25 @@ export type Database = {
           yaml_schema: string | null
         }
         Insert: {
+          cache_mode?: string
           created_at?: string
           csv_delimiter?: string | null
           csv_schema?: string | null
+          fallback_model_profiles?: string[]
+          field_confidence?: boolean
           format?: Database["public"]["Enums"]["manifest_format"]
           format_metadata?: Json | null
           id?: string
           instructions: string
           is_active?: boolean
+          job_ttl_seconds?: number | null
           json_schema?: Json | null
           model_profile?: string
           name: string
           parent_pattern_id?: string | null
           plain_text_schema?: string | null
+          preprocessing?: Json | null
+          retain_images?: boolean
           updated_at?: string
           user_id: string
           version?: number
@@ -247,19 +621,25 @@ export type Database = {
           yaml_schema?: string | null
         }
         Update: {
+          cache_mode?: string
           created_at?: string
           csv_delimiter?: string | null
           csv_schema?: string | null
+          fallback_model_profiles?: string[]
+          field_confidence?: boolean
           format?: Database["public"]["Enums"]["manifest_format"]
           format_metadata?: Json | null
           id?: string
           instructions?: string
           is_active?: boolean
+          job_ttl_seconds?: number | null
           json_schema?: Json | null
           model_profile?: string
           name?: string
           parent_pattern_id?: string | null
           plain_text_schema?: string | null
+          preprocessing?: Json | null
+          retain_images?: boolean
           updated_at?: string
           user_id?: string
           version?: number
@@ -297,8 +677,10 @@ export type Database = {
           is_highlighted: boolean | null
           max_api_keys: number
           max_characters_per_request: number
+          max_concurrent_jobs: number
           max_image_size_mb: number
           max_patterns: number
+          max_priority: string
           max_template_characters: number
           max_webhooks: number
           name: string
@@ -323,8 +705,10 @@ export type Database = {
           is_highlighted?: boolean | null
           max_api_keys: number
           max_characters_per_request: number
+          max_concurrent_jobs?: number
           max_image_size_mb: number
           max_patterns: number
+          max_priority?: string
           max_template_characters?: number
           max_webhooks: number
           name: string
@@ -349,8 +733,10 @@ export type Database = {
           is_highlighted?: boolean | null
           max_api_keys?: number
           max_characters_per_request?: number
+          max_concurrent_jobs?: number
           max_image_size_mb?: number
           max_patterns?: number
+          max_priority?: string
           max_template_characters?: number
           max_webhooks?: number
           name?: string
@@ -428,6 +814,7 @@ export type Database = {
           current_period_start: string | null
           is_trial: boolean | null
           last_burst_request_at: string | null
+          max_concurrent_jobs: number | null
           plan_expires_at: string | null
           plan_id: string
           plan_started_at: string | null
@@ -445,6 +832,7 @@ export type Database = {
           current_period_start?: string | null
           is_trial?: boolean | null
           last_burst_request_at?: string | null
+          max_concurrent_jobs?: number | null
           plan_expires_at?: string | null
           plan_id: string
           plan_started_at?: string | null
@@ -462,6 +850,7 @@ export type Database = {
           current_period_start?: string | null
           is_trial?: boolean | null
           last_burst_request_at?: string | null
+          max_concurrent_jobs?: number | null
           plan_expires_at?: string | null
           plan_id?: string
           plan_started_at?: string | null
@@ -541,6 +930,46 @@ export type Database = {
         }
         Returns: boolean
       }
+      claim_expired_job_notifications: {
+        Args: { p_job_id?: string; p_limit?: number }
+        Returns: {
+          batch_id: string | null
+          id: string
+          pattern_id: string
+          priority: string
+          queue_msg_id: number | null
+          user_id: string
+        }[]
+      }
+      claim_job_lease: {
+        Args: { p_job_id: string; p_lease_seconds: number; p_owner: string }
+        Returns: string
+      }
+      expire_stale_jobs: {
+        Args: { p_job_id?: string; p_limit?: number }
+        Returns: {
+          batch_id: string | null
+          id: string
+          pattern_id: string
+          priority: string
+          queue_msg_id: number | null
+          user_id: string
+        }[]
+      }
+      fail_stale_exports: {
+        Args: { p_max_age_seconds?: number }
+        Returns: number
+      }
+      find_cached_manifest: {
+        Args: {
+          p_config_hash: string
+          p_content_hash: string
+          p_max_distance?: number
+          p_pattern_id: string
+          p_perceptual_hash?: string | null
+        }
+        Returns: Database["public"]["Tables"]["manifest_cache"]["Row"][]
+      }
       get_my_jobs: {
         Args: {
           p_limit?: number
@@ -562,6 +991,19 @@ export type Database = {
           updated_at: string
         }[]
       }
+      get_batch_job_counts: {
+        Args: { p_batch_id: string }
+        Returns: {
+          scheduled: number
+          queued: number
+          running: number
+          succeeded: number
+          failed: number
+          cancelled: number
+          expired: number
+          total: number
+        }[]
+      }
       get_job_error_summary: {
         Args: {
           p_user_id: string
@@ -646,6 +1088,10 @@ export type Database = {
         Args: { p_timestamp?: string; p_user_id: string }
         Returns: undefined
       }
+      increment_user_request_count_by: {
+        Args: { p_count: number; p_timestamp: string; p_user_id: string }
+        Returns: undefined
+      }
       pgmq_archive: {
         Args: { msg_id: number; queue_name: string }
         Returns: boolean
@@ -666,6 +1112,22 @@ export type Database = {
           total_messages: number
         }[]
       }
+      pgmq_peek: {
+        Args: {
+          p_msg_id?: number
+          p_offset?: number
+          qty?: number
+          queue_name: string
+        }
+        Returns: unknown[]
+        SetofOptions: {
+          from: "*"
+          to: "message_record"
+          isOneToOne: false
+          isSetofReturn: true
+        }
+      }
+      pgmq_purge_queue: { Args: { queue_name: string }; Returns: number }
       pgmq_read: {
         Args: { qty: number; queue_name: string; vt: number }
         Returns: unknown[]
@@ -676,7 +1138,29 @@ export type Database = {
           isSetofReturn: true
         }
       }
-      pgmq_send: { Args: { msg: Json; queue_name: string }; Returns: number }
+      pgmq_read_fair: {
+        Args: { qty: number; queue_name: string; vt: number }
+        Returns: unknown[]
+        SetofOptions: {
+          from: "*"
+          to: "message_record"
+          isOneToOne: false
+          isSetofReturn: true
+        }
+      }
+      pgmq_set_vt: {
+        Args: { msg_id: number; queue_name: string; vt: number }
+        Returns: unknown[]
+        SetofOptions: {
+          from: "*"
+          to: "message_record"
+          isOneToOne: false
+          isSetofReturn: true
+        }
+      }
+      pgmq_send:
+        | { Args: { msg: Json; queue_name: string }; Returns: number }
+        | { Args: { delay: number; msg: Json; queue_name: string }; Returns: number }
       publish_pattern_version: {
         Args: {
           p_csv_delimiter?: string
@@ -691,7 +1175,26 @@ export type Database = {
         }
         Returns: number
       }
+      release_scheduled_jobs: { Args: never; Returns: number }
       reset_monthly_usage: { Args: never; Returns: undefined }
+      refund_user_request_count: {
+        Args: { p_count: number; p_user_id: string }
+        Returns: undefined
+      }
+      release_job_lease: {
+        Args: { p_job_id: string; p_owner: string }
+        Returns: undefined
+      }
+      search_jobs_by_manifest: {
+        Args: { p_path: string }
+        Returns: Database["public"]["Tables"]["jobs"]["Row"][]
+        SetofOptions: {
+          from: "*"
+          to: "jobs"
+          isOneToOne: false
+          isSetofReturn: true
+        }
+      }
       switch_to_pattern_version: {
         Args: {
           p_pattern_id: string
@@ -700,9 +1203,17 @@ export type Database = {
         }
         Returns: undefined
       }
+      user_job_slots: { Args: { p_user_id: string }; Returns: number | null }
     }
     Enums: {
-      job_status: "queued" | "running" | "succeeded" | "failed"
+      job_status:
+        | "scheduled"
+        | "queued"
+        | "running"
+        | "succeeded"
+        | "failed"
+        | "cancelled"
+        | "expired"
       manifest_format: "json" | "yaml" | "xml" | "csv" | "text"
     }
     CompositeTypes: {
@@ -831,7 +1342,15 @@ export type CompositeTypes<
 export const Constants = {
   public: {
     Enums: {
-      job_status: ["queued", "running", "succeeded", "failed"],
+      job_status: [
+        "scheduled",
+        "queued",
+        "running",
+        "succeeded",
+        "failed",
+        "cancelled",
+        "expired",
+      ],
       manifest_format: ["json", "yaml", "xml", "csv", "text"],
     },
   },
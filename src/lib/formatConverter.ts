@@ -178,6 +178,30 @@ function convertToCSV(
   }
 }
 
+/**
+ * Write a table as CSV (booleans as "True"/"False", like manifest CSV output)
+ */
+export function convertRowsToCSV(
+  headers: string[],
+  rows: unknown[][],
+  csvDelimiter?: "comma" | "semicolon"
+): string {
+  const parser = new Parser({
+    // Accessors instead of field names: headers may contain dots
+    fields: headers.map((header, index) => ({
+      label: header,
+      value: (row: unknown[]) => {
+        const value = row[index];
+        return typeof value === "boolean" ? (value ? "True" : "False") : value;
+      },
+    })),
+    header: true,
+    delimiter: csvDelimiter === "semicolon" ? ";" : ",",
+  });
+
+  return parser.parse(rows);
+}
+
 /**
  * Convert JSON to human-readable plain text
  */
@@ -207,7 +231,7 @@ function convertToText(manifest: Record<string, unknown>): string {
  * Flatten nested object to dot notation
  * { a: { b: 1 } } → { "a.b": 1 }
  */
-function flattenObject(
+export function flattenObject(
   obj: Record<string, unknown>,
   prefix = ""
 ): Record<string, unknown> {
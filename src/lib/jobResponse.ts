@@ -0,0 +1,163 @@
+/**
+ * Job Response Builder
+ * Shared by GET /api/jobs/:id and the synchronous (wait) ingest mode so both
+ * return the manifest in exactly the same shape and format
+ */
+
+import { NextResponse } from "next/server";
+import { successResponse, ApiError } from "@/lib/api-helpers";
+import { convertManifest, getContentType, ManifestFormat } from "@/lib/formatConverter";
+import { logger } from "@/lib/logger";
+import { reorderManifestKeys, createStructuredOutputSchema } from "@/lib/manifestKeyOrdering";
+import { Job } from "@/schemas/manifest";
+import { Pattern } from "@/schemas/pattern";
+
+/**
+ * Build the HTTP response for a job, converting a succeeded manifest to the desired format
+ *
+ * @param job - Job as returned by jobService.getJob
+ * @param pattern - Pattern the job was processed with
+ * @param desiredFormat - json (standard envelope) or yaml|xml|csv|text (raw body)
+ * @param status - HTTP status for the JSON envelope (default 200)
+ * @param includeConfidence - Keep manifest_confidence in the JSON envelope (?include=confidence)
+ */
+export function buildJobResponse(
+  job: Job,
+  pattern: Pattern,
+  desiredFormat: ManifestFormat,
+  status = 200,
+  includeConfidence = false
+): NextResponse {
+  // Per-field confidence is opt-in per request; rendered formats never carry it
+  if (!includeConfidence) {
+    delete job.manifest_confidence;
+  }
+
+  // 🎯 DIVINE RULE: Reorder manifest keys to match user's schema order
+  // PostgreSQL JSONB doesn't preserve key order, so we reorder on read
+  if (job.manifest && job.status === "succeeded") {
+    if (pattern.format === "json" && pattern.json_schema) {
+      const schema = createStructuredOutputSchema(pattern.json_schema as Record<string, unknown>);
+      job.manifest = reorderManifestKeys(job.manifest, schema);
+
+      logger.debug("JSON manifest keys reordered to match schema", {
+        job_id: job.id,
+        schema_required: schema.required,
+        manifest_keys: Object.keys(job.manifest as Record<string, unknown>),
+      });
+    } else if (pattern.format === "csv" && pattern.csv_schema) {
+      // Reorder CSV rows to match header order from schema
+      const firstLine = (pattern.csv_schema as string).split('\n')[0];
+      if (!firstLine) {
+        throw new ApiError("CSV schema is empty or invalid", 400);
+      }
+      const delimiter = pattern.csv_delimiter === "semicolon" ? ";" : ",";
+      const expectedHeaders = firstLine.split(delimiter).map(h => h.trim());
+
+      const manifest = job.manifest as Record<string, unknown>;
+      const rows = manifest.rows as Record<string, unknown>[] | undefined;
+
+      if (rows && rows.length > 0) {
+        const reorderedRows = rows.map(row => {
+          const reordered: Record<string, unknown> = {};
+          for (const header of expectedHeaders) {
+            if (header in row) {
+              reordered[header] = row[header];
+            }
+          }
+          // Add any remaining keys
+          for (const key in row) {
+            if (!(key in reordered)) {
+              reordered[key] = row[key];
+            }
+          }
+          return reordered;
+        });
+
+        job.manifest = { ...manifest, rows: reorderedRows };
+
+        logger.debug("CSV manifest rows reordered to match headers", {
+          job_id: job.id,
+          expected_headers: expectedHeaders,
+          actual_headers: Object.keys(reorderedRows[0] || {}),
+        });
+      }
+    }
+  }
+
+  // Clean up manifest before returning - remove internal fields
+  if (job.manifest && job.status === "succeeded") {
+    const manifest = job.manifest as Record<string, unknown>;
+
+    // Handle _raw format (internal implementation detail)
+    if ('_raw' in manifest && '_format' in manifest) {
+      // For non-JSON formats, use the _raw content
+      if (desiredFormat !== "json") {
+        const rawContent = manifest._raw as string;
+        const contentType = getContentType(desiredFormat);
+
+        logger.info("Returning formatted job manifest from _raw", {
+          job_id: job.id,
+          format: desiredFormat,
+          content_type: contentType,
+        });
+
+        return new NextResponse(rawContent, {
+          status: 200,
+          headers: {
+            "Content-Type": contentType,
+            "X-Job-Id": job.id,
+            "X-Job-Status": job.status,
+            "X-Pattern-Id": job.pattern_id,
+          },
+        });
+      } else {
+        // For JSON format request on non-JSON patterns:
+        // Keep _raw and _format fields in the response so clients can parse if needed
+        // Don't remove them as they're the primary data for these formats
+
+        // Only clean up _raw/_format if there's actual structured data
+        const hasStructuredData = Object.keys(manifest).some(
+          key => key !== '_raw' && key !== '_format'
+        );
+
+        if (hasStructuredData) {
+          // Has both structured + _raw, remove _raw for JSON response
+          const cleanManifest = { ...manifest };
+          delete cleanManifest._raw;
+          delete cleanManifest._format;
+          job.manifest = cleanManifest;
+        }
+        // else: Keep _raw/_format as they're the only data (YAML/XML/CSV/TEXT patterns)
+      }
+    } else if (desiredFormat !== "json") {
+      // Convert properly structured manifest to desired format
+      const convertedManifest = convertManifest(
+        manifest,
+        desiredFormat,
+        (pattern.csv_delimiter as "comma" | "semicolon" | undefined) ?? "comma",
+        pattern.csv_schema ?? undefined
+      );
+      const contentType = getContentType(desiredFormat);
+
+      logger.info("Returning converted job manifest", {
+        job_id: job.id,
+        format: desiredFormat,
+        content_type: contentType,
+      });
+
+      return new NextResponse(convertedManifest, {
+        status: 200,
+        headers: {
+          "Content-Type": contentType,
+          "X-Job-Id": job.id,
+          "X-Job-Status": job.status,
+          "X-Pattern-Id": job.pattern_id,
+        },
+      });
+    }
+  }
+
+  // Return JSON response (default) - manifest is already cleaned up above
+  return successResponse(job, status);
+}
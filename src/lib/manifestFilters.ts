@@ -0,0 +1,135 @@
+/**
+ * Manifest search filters for GET /api/jobs and GET /api/logs
+ *
+ *   manifest.brand=Logitech           equality (numbers, true/false/null are typed; "10" forces a string)
+ *   manifest.brand!=Logitech          inequality (field must exist)
+ *   manifest.price>=10                numeric comparison: > >= < <=
+ *   exists:manifest.barcode           field is present
+ *
+ * Paths are dotted object keys; arrays along the path match if any element matches.
+ * Filters become one jsonpath predicate (`manifest @? path`, GIN-indexed for equality).
+ * Keys are whitelisted and values serialized as JSON literals, so no user text is spliced in raw.
+ */
+
+import type { Json } from "@/lib/database.types";
+
+export const MAX_MANIFEST_FILTERS = 10;
+
+const KEY_PATTERN = /^[A-Za-z0-9_-]{1,64}$/;
+const FILTER_PATTERN = /^manifest\.([^=!<>]+?)(>=|<=|!=|=|>|<)(.*)$/s;
+const EXISTS_PATTERN = /^exists:manifest\.(.+?)=?$/s;
+
+export type ManifestFilterOperator = "eq" | "neq" | "gt" | "gte" | "lt" | "lte" | "exists";
+
+export interface ManifestFilter {
+  path: string[];
+  operator: ManifestFilterOperator;
+  value?: Json;
+}
+
+const OPERATORS: Record<string, ManifestFilterOperator> = {
+  "=": "eq",
+  "!=": "neq",
+  ">": "gt",
+  ">=": "gte",
+  "<": "lt",
+  "<=": "lte",
+};
+
+const JSONPATH_OPERATORS: Record<Exclude<ManifestFilterOperator, "exists">, string> = {
+  eq: "==",
+  neq: "!=",
+  gt: ">",
+  gte: ">=",
+  lt: "<",
+  lte: "<=",
+};
+
+/**
+ * Parse the manifest filters of a raw query string (other parameters are ignored)
+ * The raw string is needed because URLSearchParams cannot tell `price>=10` from `price>=` + `10`
+ */
+export function parseManifestFilters(
+  search: string
+): { filters: ManifestFilter[]; error: null } | { filters: null; error: string } {
+  const filters: ManifestFilter[] = [];
+
+  for (const part of search.replace(/^\?/, "").split("&")) {
+    let param: string;
+    try {
+      param = decodeURIComponent(part.replace(/\+/g, " "));
+    } catch {
+      return { filters: null, error: `Malformed query parameter: ${part}` };
+    }
+
+    const exists = EXISTS_PATTERN.exec(param);
+    const match = exists ? null : FILTER_PATTERN.exec(param);
+    if (!exists && !match) {
+      if (param.startsWith("manifest.") || param.startsWith("exists:")) {
+        return { filters: null, error: `Invalid manifest filter: ${param}` };
+      }
+      continue;
+    }
+
+    const path = (exists ? exists[1]! : match![1]!).split(".");
+    if (!path.every((key) => KEY_PATTERN.test(key))) {
+      return {
+        filters: null,
+        error: `Invalid manifest path in ${param} (keys: letters, digits, _ and -)`,
+      };
+    }
+
+    if (exists) {
+      filters.push({ path, operator: "exists" });
+      continue;
+    }
+
+    const operator = OPERATORS[match![2]!]!;
+    const rawValue = match![3]!;
+
+    if (operator === "eq" || operator === "neq") {
+      filters.push({ path, operator, value: parseFilterValue(rawValue) });
+      continue;
+    }
+
+    const value = Number(rawValue);
+    if (rawValue.trim() === "" || !Number.isFinite(value)) {
+      return { filters: null, error: `Comparison needs a number: ${param}` };
+    }
+    filters.push({ path, operator, value });
+  }
+
+  if (filters.length > MAX_MANIFEST_FILTERS) {
+    return { filters: null, error: `At most ${MAX_MANIFEST_FILTERS} manifest filters are allowed` };
+  }
+
+  return { filters, error: null };
+}
+
+/**
+ * Translate filters into the jsonpath predicate for search_jobs_by_manifest (all must match)
+ */
+export function buildManifestPath(filters: ManifestFilter[]): string {
+  const conditions = filters.map((filter) => {
+    const target = `@${filter.path.map((key) => `."${key}"`).join("")}`;
+
+    if (filter.operator === "exists") {
+      return `exists(${target})`;
+    }
+
+    return `${target} ${JSONPATH_OPERATORS[filter.operator]} ${JSON.stringify(filter.value ?? null)}`;
+  });
+
+  return `$ ? (${conditions.join(" && ")})`;
+}
+
+function parseFilterValue(raw: string): Json {
+  if (raw.length >= 2 && raw.startsWith('"') && raw.endsWith('"')) {
+    return raw.slice(1, -1);
+  }
+  if (raw === "true") return true;
+  if (raw === "false") return false;
+  if (raw === "null") return null;
+  if (raw.trim() !== "" && Number.isFinite(Number(raw))) return Number(raw);
+  return raw;
+}
@@ -0,0 +1,116 @@
+/**
+ * Server-side fetching of user-supplied URLs
+ * Only public addresses are reachable (internal ones would let users probe our network),
+ * and bodies are read with a byte cap instead of trusting Content-Length
+ */
+
+import { lookup } from "dns/promises";
+import { BlockList, isIP } from "net";
+
+// Redirects are followed by hand so that every hop is checked
+const MAX_REDIRECTS = 3;
+
+// Loopback, link-local, private and other internal ranges
+const INTERNAL_ADDRESSES = new BlockList();
+INTERNAL_ADDRESSES.addSubnet("0.0.0.0", 8, "ipv4");
+INTERNAL_ADDRESSES.addSubnet("10.0.0.0", 8, "ipv4");
+INTERNAL_ADDRESSES.addSubnet("100.64.0.0", 10, "ipv4");
+INTERNAL_ADDRESSES.addSubnet("127.0.0.0", 8, "ipv4");
+INTERNAL_ADDRESSES.addSubnet("169.254.0.0", 16, "ipv4");
+INTERNAL_ADDRESSES.addSubnet("172.16.0.0", 12, "ipv4");
+INTERNAL_ADDRESSES.addSubnet("192.168.0.0", 16, "ipv4");
+INTERNAL_ADDRESSES.addAddress("::", "ipv6");
+INTERNAL_ADDRESSES.addAddress("::1", "ipv6");
+INTERNAL_ADDRESSES.addSubnet("fc00::", 7, "ipv6");
+INTERNAL_ADDRESSES.addSubnet("fe80::", 10, "ipv6");
+
+/**
+ * Origin of our own Supabase project: uploaded images live there, and a local
+ * Supabase runs on loopback, so it is reachable whatever its address
+ */
+function storageOrigin(): string | null {
+  try {
+    return new URL(process.env.NEXT_PUBLIC_SUPABASE_URL || "").origin;
+  } catch {
+    return null;
+  }
+}
+
+export function isInternalAddress(address: string): boolean {
+  // IPv4-mapped IPv6 (::ffff:10.0.0.1) is checked as IPv4
+  const mapped = address.toLowerCase().match(/^::ffff:(\d+\.\d+\.\d+\.\d+)$/);
+  if (mapped) return INTERNAL_ADDRESSES.check(mapped[1]!, "ipv4");
+  return INTERNAL_ADDRESSES.check(address, isIP(address) === 6 ? "ipv6" : "ipv4");
+}
+
+/**
+ * Whether every address the host resolves to is public
+ * Throws when the host cannot be resolved
+ */
+export async function isPublicHost(hostname: string): Promise<boolean> {
+  const host = hostname.toLowerCase().replace(/^\[(.*)\]$/, "$1");
+  const addresses = isIP(host) ? [{ address: host }] : await lookup(host, { all: true });
+  return addresses.length > 0 && !addresses.some(({ address }) => isInternalAddress(address));
+}
+
+/**
+ * GET a user-supplied http(s) URL, refusing internal hosts (also after redirects)
+ * The body is left unread, see readBodyWithLimit
+ */
+export async function fetchPublicUrl(url: string, signal: AbortSignal): Promise<Response> {
+  let target = new URL(url);
+
+  for (let redirects = 0; ; redirects++) {
+    if (target.protocol !== "http:" && target.protocol !== "https:") {
+      throw new Error(`Unsupported URL protocol ${target.protocol}`);
+    }
+    if (target.origin !== storageOrigin() && !(await isPublicHost(target.hostname))) {
+      throw new Error(`Host ${target.hostname} is not publicly reachable`);
+    }
+
+    const response = await fetch(target, { signal, redirect: "manual" });
+    const location = response.headers.get("location");
+    if (response.status < 300 || response.status >= 400 || !location) {
+      return response;
+    }
+
+    await response.body?.cancel();
+    if (redirects >= MAX_REDIRECTS) {
+      throw new Error(`More than ${MAX_REDIRECTS} redirects`);
+    }
+    target = new URL(location, target);
+  }
+}
+
+/**
+ * Read a response body, aborting as soon as it passes maxBytes
+ * (Content-Length may be missing or wrong, so the stream itself is counted)
+ */
+export async function readBodyWithLimit(response: Response, maxBytes: number): Promise<Buffer> {
+  const contentLength = Number(response.headers.get("content-length") || 0);
+  if (contentLength > maxBytes) {
+    await response.body?.cancel();
+    throw new Error(`Response body exceeds ${maxBytes} bytes`);
+  }
+  if (!response.body) {
+    return Buffer.alloc(0);
+  }
+
+  const reader = response.body.getReader();
+  const chunks: Uint8Array[] = [];
+  let total = 0;
+
+  for (;;) {
+    const { done, value } = await reader.read();
+    if (done) break;
+
+    total += value.byteLength;
+    if (total > maxBytes) {
+      await reader.cancel();
+      throw new Error(`Response body exceeds ${maxBytes} bytes`);
+    }
+    chunks.push(value);
+  }
+
+  return Buffer.concat(chunks);
+}
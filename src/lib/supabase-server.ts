@@ -6,7 +6,6 @@
 
 import { createClient } from "@supabase/supabase-js";
 import { Database } from "./database.types";
-import { logger } from "./logger";
 
 const supabaseUrl = process.env.NEXT_PUBLIC_SUPABASE_URL;
 const supabaseServiceRoleKey = process.env.SUPABASE_SERVICE_ROLE_KEY;
@@ -61,29 +60,3 @@ export function createServerClient(accessToken: string) {
     },
   });
 }
-
-/**
- * Initialize PGMQ queue on application startup
- */
-export async function initializePGMQ(): Promise<void> {
-  const queueName = process.env.SUPABASE_PGMQ_QUEUE || "ingest_jobs";
-
-  try {
-    // Create queue if it doesn't exist
-    // eslint-disable-next-line @typescript-eslint/no-explicit-any
-    const { error } = await (supabaseServer.rpc as any)("pgmq_create", {
-      queue_name: queueName,
-    });
-
-    if (error && !error.message.includes("already exists")) {
-      throw error;
-    }
-
-    logger.info("PGMQ queue initialized", { queue_name: queueName });
-  } catch (error) {
-    logger.error("Failed to initialize PGMQ queue", error, {
-      queue_name: queueName,
-    });
-    throw error;
-  }
-}
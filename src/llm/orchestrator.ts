@@ -3,10 +3,31 @@
  * Routes requests to appropriate provider and handles format conversion
  */
 
-import { ManifestFormat } from "@/schemas/pattern";
-import * as openai from "./providers/openai";
-import * as oss from "./providers/oss";
+import {
+  isCustomModelProfile,
+  ManagedModelProfile,
+  ManifestFormat,
+  ModelProfile,
+} from "@/schemas/pattern";
+import {
+  createOpenAICompatibleProvider,
+  openaiProvider,
+  OpenAICompatibleEndpoint,
+} from "./providers/openai";
+import { anthropicProvider } from "./providers/anthropic";
+import { geminiProvider } from "./providers/gemini";
+import { ossProvider } from "./providers/oss";
+import {
+  InferManifestParams,
+  InferManifestResult,
+  ProviderError,
+  ProviderName,
+  TokenUsage,
+  VisionProvider,
+} from "./providers/types";
 import { logger } from "@/lib/logger";
+import { circuitBreakers, CircuitBreakerOpenError } from "@/lib/circuitBreaker";
+import { retryWithBackoff, RetryStrategies } from "@/lib/retry";
 import * as yaml from "js-yaml";
 import * as xmlJs from "xml-js";
 import { validateXmlStructure } from "./validators/xmlValidator";
@@ -14,7 +35,104 @@ import { validateYamlStructure } from "./validators/yamlValidator";
 import { validatePlainTextStructure } from "./validators/plainTextValidator";
 import type { FormatMetadata } from "@/lib/deconstructionConverter";
 
-export type ModelProfile = "managed-default" | "oss-detector";
+export type { ModelProfile, OpenAICompatibleEndpoint };
+
+const PROVIDERS: Record<ManagedModelProfile, VisionProvider> = {
+  "managed-default": openaiProvider,
+  "managed-anthropic": anthropicProvider,
+  "managed-gemini": geminiProvider,
+  "oss-detector": ossProvider,
+};
+
+/**
+ * Provider of a model profile (unknown profiles use the managed default)
+ * custom:<name> profiles need their endpoint (loaded by the caller, see modelProfileService)
+ */
+export function getVisionProvider(
+  modelProfile: ModelProfile,
+  customEndpoints: OpenAICompatibleEndpoint[] = []
+): VisionProvider {
+  if (isCustomModelProfile(modelProfile)) {
+    const endpoint = customEndpoints.find((e) => e.profile === modelProfile);
+    if (!endpoint) {
+      throw new Error(`Custom model profile ${modelProfile} is not registered`);
+    }
+    return createOpenAICompatibleProvider(endpoint);
+  }
+
+  return PROVIDERS[modelProfile] ?? PROVIDERS["managed-default"];
+}
+
+/**
+ * Errors that mean the provider is unavailable (network, 5xx, rate limit, open circuit)
+ * Anything else is a problem of the request and fails the job without failover.
+ */
+function isProviderOutage(error: unknown): boolean {
+  if (error instanceof CircuitBreakerOpenError) return true;
+  return error instanceof ProviderError && error.transient;
+}
+
+/**
+ * Call a provider through its circuit breaker (one per provider, shared by all patterns;
+ * one per registered endpoint for custom model profiles)
+ * Transient errors are retried with backoff first; only outages count towards opening the breaker.
+ */
+async function callProvider<T>(
+  provider: VisionProvider,
+  operation: (provider: VisionProvider) => Promise<T>
+): Promise<T> {
+  const breaker = circuitBreakers.getOrCreate(
+    provider.endpointId ? `provider:custom:${provider.endpointId}` : `provider:${provider.name}`
+  );
+
+  const outcome: { value: T } | { error: unknown } = await breaker.execute(async () => {
+    try {
+      return { value: await retryWithBackoff(() => operation(provider), RetryStrategies.httpApi) };
+    } catch (error) {
+      if (isProviderOutage(error)) throw error;
+      return { error };
+    }
+  });
+
+  if ("error" in outcome) throw outcome.error;
+  return outcome.value;
+}
+
+/**
+ * Infer with the first available provider of the chain (primary first, then fallbacks)
+ */
+async function inferWithFailover(
+  providers: VisionProvider[],
+  params: InferManifestParams
+): Promise<InferManifestResult & { provider: VisionProvider }> {
+  let lastError: unknown;
+
+  for (const [index, provider] of providers.entries()) {
+    try {
+      const result = await callProvider(provider, (p) => p.inferManifest(params));
+
+      if (index > 0) {
+        logger.warn("Manifest inferred by fallback provider", {
+          provider: provider.name,
+          primary_provider: providers[0]!.name,
+        });
+      }
+
+      return { ...result, provider };
+    } catch (error) {
+      if (!isProviderOutage(error)) throw error;
+
+      lastError = error;
+      logger.warn("Provider unavailable, trying next in fallback chain", {
+        provider: provider.name,
+        remaining: providers.length - index - 1,
+        error: error instanceof Error ? error.message : String(error),
+      });
+    }
+  }
+
+  throw lastError;
+}
 
 /**
  * Generate template based on pattern
@@ -23,24 +141,16 @@ export async function generateTemplate(
   instructions: string,
   format: ManifestFormat,
   jsonSchema?: Record<string, unknown>,
-  modelProfile: ModelProfile = "managed-default"
+  csvDelimiter?: "comma" | "semicolon",
+  modelProfile: ModelProfile = "managed-default",
+  customEndpoints: OpenAICompatibleEndpoint[] = []
 ): Promise<string> {
   try {
-    // For CSV, YAML, XML, and Plain Text - generate directly in target format
-    // JSON conversion doesn't work well for these formats
-    if (format === "csv" || format === "yaml" || format === "xml" || format === "text") {
-      return modelProfile === "oss-detector"
-        ? await oss.generateTemplateOSS(instructions, format)
-        : await openai.generateTemplate(instructions, format, jsonSchema);
-    }
-
-    // For JSON - generate as JSON
-    const jsonTemplate =
-      modelProfile === "oss-detector"
-        ? await oss.generateTemplateOSS(instructions, "json")
-        : await openai.generateTemplate(instructions, "json", jsonSchema);
+    const { template } = await callProvider(getVisionProvider(modelProfile, customEndpoints), (provider) =>
+      provider.generateTemplate({ instructions, format, jsonSchema, csvDelimiter })
+    );
 
-    return jsonTemplate;
+    return template;
   } catch (error) {
     logger.error("Template generation failed in orchestrator", error);
     throw error;
@@ -52,6 +162,8 @@ export async function generateTemplate(
  */
 export async function inferManifest(params: {
   imageUrl: string;
+  additionalImageUrls?: string[]; // Multi-image jobs: further images of the same subject, in order
+  pageNumbers?: number[]; // PDF jobs: page number of each image (imageUrl first)
   imageFilename?: string;
   instructions: string;
   format: ManifestFormat;
@@ -63,14 +175,23 @@ export async function inferManifest(params: {
   plainTextSchema?: string;
   formatMetadata?: FormatMetadata;
   modelProfile?: ModelProfile;
+  fallbackModelProfiles?: ModelProfile[]; // Tried in order while the primary is unavailable
+  customEndpoints?: OpenAICompatibleEndpoint[]; // Endpoints of the custom:<name> profiles above
+  fieldConfidence?: boolean; // Also return a confidence score per field
 }): Promise<{
   manifest: Record<string, unknown>;
   manifestString: string;
   latencyMs: number;
-  tokensUsed?: number;
+  provider: ProviderName; // Provider that produced the manifest
+  model?: string;
+  usage?: TokenUsage;
+  pageSources?: Record<string, number | null>; // JSON format only
+  confidence?: Record<string, unknown>; // Requested with fieldConfidence; mirrors the manifest fields
 }> {
   const {
     imageUrl,
+    additionalImageUrls = [],
+    pageNumbers,
     imageFilename,
     instructions,
     format,
@@ -82,24 +203,37 @@ export async function inferManifest(params: {
     plainTextSchema,
     formatMetadata,
     modelProfile = "managed-default",
+    fallbackModelProfiles = [],
+    customEndpoints = [],
+    fieldConfidence,
   } = params;
 
   try {
+    // The OSS detector has no CSV or plain text mapping, those patterns keep using the managed model
+    const usesTemplateSchema = (format === "csv" && csvSchema) || (format === "text" && plainTextSchema);
+    const profiles = [modelProfile, ...fallbackModelProfiles].map((profile) =>
+      profile === "oss-detector" && usesTemplateSchema ? "managed-default" : profile
+    );
+    const providers = [...new Set(profiles)].map((profile) => getVisionProvider(profile, customEndpoints));
+
     // DIVINE RULE ENFORCEMENT: Use format-specific schema
     let effectiveJsonSchema = jsonSchema;
-    let result: { manifest: Record<string, unknown>; latencyMs: number; tokensUsed?: number };
+    let result: Awaited<ReturnType<typeof inferWithFailover>>;
 
     // CSV: Parse headers and create schema
     if (format === "csv" && csvSchema) {
-      result = await openai.inferManifest(
+      result = await inferWithFailover(providers, {
         imageUrl,
+        additionalImageUrls,
+        pageNumbers,
+        imageFilename,
         instructions,
         format,
         jsonSchema,
         csvSchema,
         csvDelimiter,
-        imageFilename
-      );
+        fieldConfidence,
+      });
 
       const delimiter = csvDelimiter === "semicolon" ? ";" : ",";
       const manifestString = convertToCSVWithSchema(result.manifest, csvSchema, delimiter);
@@ -108,7 +242,10 @@ export async function inferManifest(params: {
         manifest: result.manifest,
         manifestString,
         latencyMs: result.latencyMs,
-        tokensUsed: result.tokensUsed,
+        provider: result.provider.name,
+        model: result.provider.model,
+        usage: result.usage,
+        confidence: result.confidence,
       };
     }
 
@@ -136,17 +273,17 @@ export async function inferManifest(params: {
         has_plain_text_schema: true,
       });
 
-      // Call openai provider with plainTextSchema for special template preservation
-      result = await openai.inferManifest(
+      // Call the provider with plainTextSchema for special template preservation
+      result = await inferWithFailover(providers, {
         imageUrl,
-        instructions,
-        "text",
-        undefined,
-        undefined,
-        undefined,
+        additionalImageUrls,
+        pageNumbers,
         imageFilename,
-        plainTextSchema
-      );
+        instructions,
+        format: "text",
+        plainTextSchema,
+        fieldConfidence,
+      });
 
       // Extract the text from the wrapped manifest
       const textContent = typeof result.manifest === 'object' && 'text' in result.manifest
@@ -157,7 +294,10 @@ export async function inferManifest(params: {
         manifest: result.manifest,
         manifestString: textContent,
         latencyMs: result.latencyMs,
-        tokensUsed: result.tokensUsed,
+        provider: result.provider.name,
+        model: result.provider.model,
+        usage: result.usage,
+        confidence: result.confidence,
       };
     }
 
@@ -169,23 +309,23 @@ export async function inferManifest(params: {
                         (format === "csv" && csvSchema) ? "csv" : 
                         "json"; // Default to JSON for unknown formats
     
-    result =
-      modelProfile === "oss-detector"
-        ? await oss.inferManifestOSS(imageUrl, instructions, inferFormat, effectiveJsonSchema)
-        : await openai.inferManifest(
-            imageUrl,
-            instructions,
-            inferFormat,
-            effectiveJsonSchema,
-            csvSchema,
-            csvDelimiter,
-            imageFilename,
-            plainTextSchema,
-            formatMetadata
-          );
+    result = await inferWithFailover(providers, {
+      imageUrl,
+      additionalImageUrls,
+      pageNumbers,
+      imageFilename,
+      instructions,
+      format: inferFormat,
+      jsonSchema: effectiveJsonSchema,
+      csvSchema,
+      csvDelimiter,
+      plainTextSchema,
+      formatMetadata,
+      fieldConfidence,
+    });
 
     // ===== VALIDATION LAYER FOR NON-JSON FORMATS =====
-    // JSON/CSV have OpenAI Structured Output guarantees, but YAML/Plain Text need validation
+    // JSON/CSV have provider Structured Output guarantees, but YAML/Plain Text need validation
     if (result.manifest && typeof result.manifest === 'object' && '_raw' in result.manifest) {
       const rawContent = (result.manifest as { _raw: string, _format: string })._raw;
       const rawFormat = (result.manifest as { _raw: string, _format: string })._format;
@@ -265,12 +405,17 @@ export async function inferManifest(params: {
       manifest: result.manifest,
       manifestString,
       latencyMs: result.latencyMs,
-      tokensUsed: "tokensUsed" in result ? (result.tokensUsed as number) : undefined,
+      provider: result.provider.name,
+      model: result.provider.model,
+      usage: result.usage,
+      pageSources: result.pageSources,
+      confidence: result.confidence,
     };
   } catch (error) {
     logger.error("Manifest inference failed in orchestrator", error, {
       image_url_hash: hashUrl(imageUrl),
       format,
+      model_profile: modelProfile,
     });
     throw error;
   }
@@ -0,0 +1,134 @@
+/**
+ * Anthropic Claude provider for ImgGo
+ * Messages API over fetch; structured outputs via a forced tool call whose input schema is
+ * the pattern schema. Images are passed by URL (data: URLs as base64).
+ */
+
+import { createVisionProvider, fetchProviderApi } from "./base";
+import {
+  ModelClient,
+  ModelContentPart,
+  ModelRequest,
+  ProviderError,
+  TokenUsage,
+} from "./types";
+
+const API_URL = process.env.ANTHROPIC_API_URL || "https://api.anthropic.com/v1/messages";
+const API_VERSION = "2023-06-01";
+const MODEL = process.env.ANTHROPIC_MODEL || "claude-sonnet-4-5";
+
+type AnthropicContentBlock =
+  | { type: "text"; text: string }
+  | {
+      type: "image";
+      source:
+        | { type: "url"; url: string }
+        | { type: "base64"; media_type: string; data: string };
+    };
+
+interface AnthropicResponse {
+  content: Array<
+    | { type: "text"; text: string }
+    | { type: "tool_use"; name: string; input: Record<string, unknown> }
+  >;
+  stop_reason: string | null;
+  usage?: { input_tokens: number; output_tokens: number };
+}
+
+function toContentBlocks(content: ModelContentPart[]): AnthropicContentBlock[] {
+  return content.map((part) => {
+    if (part.type === "text") {
+      return { type: "text", text: part.text };
+    }
+
+    const dataUrl = part.url.match(/^data:([^;,]+);base64,(.*)$/);
+    return {
+      type: "image",
+      source: dataUrl
+        ? { type: "base64", media_type: dataUrl[1]!, data: dataUrl[2]! }
+        : { type: "url", url: part.url },
+    };
+  });
+}
+
+function toUsage(usage?: AnthropicResponse["usage"]): TokenUsage | undefined {
+  return usage
+    ? {
+        input: usage.input_tokens,
+        output: usage.output_tokens,
+        total: usage.input_tokens + usage.output_tokens,
+      }
+    : undefined;
+}
+
+async function createMessage(
+  request: ModelRequest,
+  tool?: { name: string; description: string; input_schema: Record<string, unknown> }
+): Promise<AnthropicResponse> {
+  const apiKey = process.env.ANTHROPIC_API_KEY;
+  if (!apiKey) {
+    throw new ProviderError("ANTHROPIC_API_KEY not configured", "anthropic");
+  }
+
+  const response = await fetchProviderApi("anthropic", API_URL, {
+    method: "POST",
+    headers: {
+      "Content-Type": "application/json",
+      "x-api-key": apiKey,
+      "anthropic-version": API_VERSION,
+    },
+    body: JSON.stringify({
+      model: MODEL,
+      system: request.system,
+      messages: [{ role: "user", content: toContentBlocks(request.content) }],
+      temperature: request.temperature,
+      max_tokens: request.maxTokens,
+      ...(tool && { tools: [tool], tool_choice: { type: "tool", name: tool.name } }),
+    }),
+  });
+
+  if (!response.ok) {
+    const body = await response.json().catch(() => null);
+    throw new ProviderError(
+      `Anthropic API returned ${response.status}: ${body?.error?.message ?? response.statusText}`,
+      "anthropic",
+      response.status
+    );
+  }
+
+  return (await response.json()) as AnthropicResponse;
+}
+
+export const anthropicClient: ModelClient = {
+  name: "anthropic",
+  model: MODEL,
+
+  async completeText(request) {
+    const response = await createMessage(request);
+    const text = response.content
+      .map((block) => (block.type === "text" ? block.text : ""))
+      .join("");
+
+    return { text, usage: toUsage(response.usage) };
+  },
+
+  async completeStructured(request) {
+    const response = await createMessage(request, {
+      name: request.schemaName,
+      description: "Record the extracted data. The input must follow the schema exactly.",
+      input_schema: request.schema,
+    });
+
+    const toolUse = response.content.find((block) => block.type === "tool_use");
+    if (!toolUse || toolUse.type !== "tool_use") {
+      throw new ProviderError(
+        `No structured output in Anthropic response (stop reason: ${response.stop_reason})`,
+        "anthropic"
+      );
+    }
+
+    return { data: toolUse.input, usage: toUsage(response.usage) };
+  },
+};
+
+export const anthropicProvider = createVisionProvider(anthropicClient);
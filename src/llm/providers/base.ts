@@ -0,0 +1,949 @@
+/**
+ * Vision provider built on a ModelClient - COMPLETE IMPLEMENTATION
+ * All formats: JSON, Plain Text, CSV, XML, YAML with schema-exact responses.
+ * Prompts and schemas are shared by every hosted provider; only the API call differs.
+ */
+
+import { logger } from "@/lib/logger";
+import { fetchPublicUrl, readBodyWithLimit } from "@/lib/publicFetch";
+import { reconstructFromJson } from "@/lib/deconstructionConverter";
+import {
+  GenerateTemplateParams,
+  GenerateTemplateResult,
+  InferManifestParams,
+  InferManifestResult,
+  ModelClient,
+  ModelContentPart,
+  ProviderError,
+  VisionProvider,
+} from "./types";
+
+/** Per-request timeout for provider APIs and image downloads */
+export const PROVIDER_REQUEST_TIMEOUT_MS = Number(process.env.PROVIDER_REQUEST_TIMEOUT_MS || 120000);
+
+/** Largest image loadImage downloads (base64 adds a third on top) */
+const MAX_IMAGE_BYTES = 20 * 1024 * 1024;
+
+export function createVisionProvider(client: ModelClient): VisionProvider {
+  return {
+    name: client.name,
+    model: client.model,
+    endpointId: client.endpointId,
+    inferManifest: (params) => inferManifest(client, params),
+    generateTemplate: (params) => generateTemplate(client, params),
+  };
+}
+
+async function generateTemplate(
+  client: ModelClient,
+  params: GenerateTemplateParams
+): Promise<GenerateTemplateResult> {
+  const { instructions, format, jsonSchema, csvDelimiter } = params;
+
+  logger.info("Generating template", {
+    provider: client.name,
+    model: client.model,
+    format,
+    has_schema: Boolean(jsonSchema),
+    instructions_length: instructions.length
+  });
+
+  try {
+    // Build system prompt based on format
+    let systemPrompt = `You are an expert at creating data extraction schemas.
+Generate a ${format.toUpperCase()} template/schema based on the user's instructions.
+The template should define the structure for extracting data from images.`;
+
+    // Add format-specific guidelines
+    switch (format) {
+      case "json":
+        systemPrompt += `\n\nFor JSON:
+- Create a valid JSON Schema or a realistic JSON example
+- Include all fields mentioned in instructions
+- Use appropriate data types (string, number, boolean, array, object)
+- Add descriptions for clarity
+- Make it ready for image data extraction`;
+        break;
+
+      case "csv":
+        systemPrompt += `\n\nFor CSV:
+- Create a CSV header row with all column names
+- Add 2-3 example data rows with realistic placeholder values
+- Use ${csvDelimiter === "semicolon" ? "semicolon (;)" : "comma (,)"} as delimiter
+- CRITICAL: Do NOT use ${csvDelimiter === "semicolon" ? "commas (,)" : "semicolons (;)"} in cell values - they will be interpreted as delimiters
+- If you need punctuation, use periods, dashes, or other separators instead
+- Keep values simple and avoid complex punctuation
+- Keep it simple and tabular
+- Column names should match the data fields in instructions`;
+        break;
+
+      case "yaml":
+        systemPrompt += `\n\nFor YAML:
+- Create a valid YAML structure with proper indentation
+- Include all fields mentioned in instructions
+- Use realistic placeholder values
+- Use proper YAML syntax (key: value, lists with -)
+- Make it readable and well-structured`;
+        break;
+
+      case "xml":
+        systemPrompt += `\n\nFor XML:
+- Create a valid XML structure with root element
+- Include all fields mentioned in instructions
+- Use descriptive tag names
+- Add realistic placeholder values
+- Start with <?xml version="1.0" encoding="UTF-8"?>`;
+        break;
+
+      case "text":
+        systemPrompt += `\n\nFor Plain Text:
+- Create a markdown-style structure with headings
+- The very first line MUST be a single '# ' heading (for example: '# Report Summary')
+- Subsequent sections can use ##, ###, etc.
+- Include realistic placeholder values under each heading
+- Keep it human-readable and well-organized`;
+        break;
+    }
+
+    systemPrompt += `\n\nIMPORTANT:
+- Respond ONLY with the ${format.toUpperCase()} content, no explanations
+- No markdown code blocks (no \`\`\`), just raw ${format.toUpperCase()}
+- Make it complete and ready to use
+- Use realistic placeholder values, not "example" or "placeholder"`;
+
+    const userPrompt = jsonSchema
+      ? `Instructions: ${instructions}\n\nExisting JSON Schema:\n${JSON.stringify(jsonSchema, null, 2)}\n\nGenerate a ${format.toUpperCase()} template based on this schema and instructions.`
+      : `Instructions: ${instructions}\n\nGenerate a complete ${format.toUpperCase()} template for extracting this data from images.`;
+
+    const response = await client.completeText({
+      system: systemPrompt,
+      content: [{ type: "text", text: userPrompt }],
+      temperature: 0.3, // Low for consistency
+      maxTokens: 2000,
+    });
+
+    const content = response.text.trim();
+    if (!content) {
+      throw new ProviderError(`No content in ${client.name} response`, client.name);
+    }
+
+    // Remove markdown code blocks if AI added them despite instructions
+    let cleanedContent = content;
+    const codeBlockRegex = /^```(?:\w+)?\s*\n/;
+    if (codeBlockRegex.test(content)) {
+      cleanedContent = content
+        .replace(/^```(?:\w+)?\s*\n/, "")
+        .replace(/\n```\s*$/, "")
+        .trim();
+    }
+
+    logger.info("Template generated successfully", {
+      provider: client.name,
+      format,
+      template_length: cleanedContent.length,
+      tokens: response.usage?.total,
+    });
+
+    return { template: cleanedContent, usage: response.usage };
+  } catch (error) {
+    logger.error("Template generation failed in provider", {
+      provider: client.name,
+      format,
+      error: error instanceof Error ? error.message : String(error),
+    });
+    throw error;
+  }
+}
+
+/**
+ * Infer manifest from image - COMPLETE IMPLEMENTATION FOR ALL FORMATS
+ */
+async function inferManifest(
+  client: ModelClient,
+  params: InferManifestParams
+): Promise<InferManifestResult> {
+  const {
+    imageUrl,
+    additionalImageUrls = [],
+    pageNumbers,
+    imageFilename,
+    instructions,
+    format,
+    jsonSchema,
+    csvSchema,
+    csvDelimiter,
+    plainTextSchema,
+    formatMetadata,
+    fieldConfidence = false,
+  } = params;
+
+  const startTime = Date.now();
+  const confidencePrompt = fieldConfidence ? `\n\n${FIELD_CONFIDENCE_PROMPT}` : "";
+
+  // All images of the job go into the same message → one manifest
+  const imageParts = buildImageParts([imageUrl, ...additionalImageUrls], pageNumbers);
+
+  try {
+    logger.info("Inferring manifest from image", {
+      provider: client.name,
+      model: client.model,
+      image_url_hash: hashUrl(imageUrl),
+      format,
+      has_filename: Boolean(imageFilename),
+      image_count: 1 + additionalImageUrls.length,
+      field_confidence: fieldConfidence,
+    });
+
+    // ========================================================================
+    // PLAIN TEXT: Structured Output (JSON internally) → Markdown (externally)
+    // ========================================================================
+    if (format === "text" && plainTextSchema) {
+      const headings = parsePlainTextTemplateHeadings(plainTextSchema);
+      const structuredSchema = createPlainTextStructuredSchema(headings);
+
+      logger.info("Plain text with structured output", {
+        headings_count: headings.length,
+        headings: headings.map(h => h.heading)
+      });
+
+      const systemPrompt = `You are an expert image analysis AI that extracts structured data from images.
+Analyze the image carefully and extract information for each requested field.
+If information is not visible in the image, respond with "Not visible" for that field.`;
+
+      const userPrompt = `${instructions}
+${imageFilename ? `\nImage Filename: ${imageFilename}` : ''}
+
+Analyze this image and provide information for each of the following fields:
+${headings.map(h => `- ${h.heading}`).join('\n')}
+
+Extract precise, factual information from the image. If something is not visible or unclear, use "Not visible".
+Use the exact field names above (case-sensitive) as JSON property keys. Do not rename, add, or remove fields.${confidencePrompt}`;
+
+      const response = await client.completeStructured({
+        system: systemPrompt,
+        content: [{ type: "text", text: userPrompt }, ...imageParts],
+        schemaName: "plain_text_structured",
+        schema: fieldConfidence ? withFieldConfidenceSchema(structuredSchema) : structuredSchema,
+        temperature: 0.2,
+        maxTokens: 4000,
+      });
+
+      const { data, confidence } = splitFieldConfidence(response.data, fieldConfidence);
+      const markdownContent = convertJsonToMarkdown(data, headings);
+
+      const latencyMs = Date.now() - startTime;
+      logger.info("Plain text manifest inferred (structured)", {
+        latency_ms: latencyMs,
+        tokens: response.usage?.total,
+      });
+
+      return {
+        manifest: { text: markdownContent },
+        latencyMs,
+        usage: response.usage,
+        ...(confidence ? { confidence } : {}),
+      };
+    }
+
+    // ========================================================================
+    // XML/YAML: Structured Output (100% accuracy) → Format Reconstruction
+    // ========================================================================
+    if ((format === "xml" || format === "yaml") && jsonSchema && formatMetadata) {
+      const formatUpper = format.toUpperCase();
+
+      logger.info(`${formatUpper} inference with structured output`, {
+        has_json_schema: Boolean(jsonSchema),
+        has_format_metadata: Boolean(formatMetadata),
+      });
+
+      // Use structured output with the JSON Schema
+      const schema = createStructuredOutputSchema(jsonSchema);
+
+      const systemPrompt = `You are an expert image analysis AI that extracts structured data from images.
+Analyze carefully and extract information according to instructions.
+Be precise. Use null for unavailable data. Follow schema exactly.`;
+
+      const userPrompt = `${instructions}
+${imageFilename ? `\nImage Filename: ${imageFilename}` : ''}
+
+Analyze this image and extract information in the exact schema structure.${confidencePrompt}`;
+
+      const response = await client.completeStructured({
+        system: systemPrompt,
+        content: [{ type: "text", text: userPrompt }, ...imageParts],
+        schemaName: `${format}_analysis`,
+        schema: fieldConfidence ? withFieldConfidenceSchema(schema) : schema,
+        temperature: 0.2,
+        maxTokens: 4000,
+      });
+
+      const { data, confidence } = splitFieldConfidence(response.data, fieldConfidence);
+
+      // Reconstruct to original format using metadata
+      const reconstructed = reconstructFromJson(data, formatMetadata);
+
+      const latencyMs = Date.now() - startTime;
+      logger.info(`${formatUpper} manifest inferred (structured output)`, {
+        latency_ms: latencyMs,
+        tokens: response.usage?.total,
+        preview: reconstructed.substring(0, 100),
+      });
+
+      // Use _raw marker so formatConverter doesn't wrap it
+      return {
+        manifest: { _raw: reconstructed, _format: format },
+        latencyMs,
+        usage: response.usage,
+        ...(confidence ? { confidence } : {}),
+      };
+    }
+
+    // ========================================================================
+    // XML/YAML: Legacy Fallback (Schema-Guided Prompting for old patterns)
+    // ========================================================================
+    if (format === "xml" || format === "yaml") {
+      const formatUpper = format.toUpperCase();
+      const schemaExample = jsonSchema; // This contains the XML/YAML example schema
+
+      if (!schemaExample) {
+        throw new Error(`${formatUpper} format requires a schema example`);
+      }
+
+      logger.info(`${formatUpper} inference with legacy schema-guided prompting`, {
+        reason: "No format_metadata (old pattern)",
+      });
+
+      // Convert object schema to string if needed
+      const schemaString = typeof schemaExample === 'string'
+        ? schemaExample
+        : JSON.stringify(schemaExample, null, 2);
+
+      const systemPrompt = `You are an expert image analysis AI that generates ${formatUpper} output following an exact schema structure.
+
+CRITICAL RULES FOR ${formatUpper} OUTPUT:
+1. The schema shows EXAMPLE VALUES - your job is to REPLACE VALUES with actual image data
+2. PRESERVE EXACT STRUCTURE: Keep every tag/key, nesting level, and hierarchy identical
+3. DO NOT add, remove, or reorder any elements
+4. DO NOT change tag/key names or capitalization
+5. If data is not visible in image, use: "Not visible", "Unknown", or appropriate empty value
+6. Start directly with ${formatUpper} (<?xml?> for XML, --- for YAML)
+7. NO explanations, NO markdown code blocks, NO comments
+8. Output ONLY valid ${formatUpper}, nothing else`;
+
+      const userPrompt = `${instructions}
+${imageFilename ? `\nImage Filename: ${imageFilename}` : ''}
+
+SCHEMA TO FOLLOW (values are examples - replace with image data, keep structure):
+\`\`\`${format}
+${schemaString}
+\`\`\`
+
+Analyze the image and generate ${formatUpper} output following the schema structure EXACTLY.
+Remember: Change ONLY the values, keep ALL structure/tags/keys identical.`;
+
+      const response = await client.completeText({
+        system: systemPrompt,
+        content: [{ type: "text", text: userPrompt }, ...imageParts],
+        temperature: 0.1, // Very low for structural consistency
+        maxTokens: 4000,
+      });
+
+      const content = response.text.trim();
+      if (!content) throw new ProviderError(`No content in ${client.name} response`, client.name);
+
+      // Remove markdown code blocks if LLM added them
+      let cleanedContent = content;
+      const codeBlockRegex = new RegExp(`^\`\`\`(?:${format})?\\s*\\n`, 'i');
+      if (codeBlockRegex.test(content)) {
+        cleanedContent = content
+          .replace(codeBlockRegex, "")
+          .replace(/\n```\s*$/, "")
+          .trim();
+      }
+
+      const latencyMs = Date.now() - startTime;
+      logger.info(`${formatUpper} manifest inferred (legacy schema-guided)`, {
+        latency_ms: latencyMs,
+        tokens: response.usage?.total,
+        preview: cleanedContent.substring(0, 100),
+      });
+
+      // Use _raw marker so formatConverter doesn't wrap it
+      return {
+        manifest: { _raw: cleanedContent, _format: format },
+        latencyMs,
+        usage: response.usage,
+      };
+    }
+
+    // ========================================================================
+    // CSV: Dynamic Schema from Headers
+    // ========================================================================
+    if (format === "csv" && csvSchema) {
+      const delimiter = csvDelimiter === "semicolon" ? ";" : ",";
+      const firstLine = csvSchema.split('\n')[0];
+      if (!firstLine) {
+        throw new Error("CSV schema is empty or missing header row");
+      }
+      const headers = firstLine.split(delimiter).map(h => h.trim());
+
+      logger.info("CSV inference with dynamic schema", { headers, delimiter });
+
+      const properties: Record<string, unknown> = {};
+      const required: string[] = [];
+
+      headers.forEach(header => {
+        // Keep original field name - DO NOT normalize (Pattern_Name stays Pattern_Name)
+        const propName = header;
+
+        // Infer type from column name patterns
+        let fieldType: string = "string";
+        let fieldDescription = `Value for column: ${header}`;
+
+        // Boolean detection: Is_, Has_, Can_, Should_, etc.
+        if (/^(is|has|can|should|will|does|did)_/i.test(header)) {
+          fieldType = "boolean";
+          fieldDescription = `${header} (boolean: True or False)`;
+        }
+        // Number detection: Count_, Num_, Total_, Amount_, etc.
+        else if (/^(count|num|total|amount|quantity|price|age)_/i.test(header) ||
+                 /_count$|_num$|_total$|_amount$|_quantity$|_price$|_age$/i.test(header)) {
+          fieldType = "number";
+          fieldDescription = `${header} (number)`;
+        }
+
+        properties[propName] = {
+          type: fieldType,
+          description: fieldDescription
+        };
+        required.push(propName);
+      });
+
+      const schema = {
+        type: "object",
+        properties: {
+          rows: {
+            type: "array",
+            description: "Array of data rows matching CSV headers",
+            items: {
+              type: "object",
+              properties,
+              required,
+              additionalProperties: false
+            }
+          }
+        },
+        required: ["rows"],
+        additionalProperties: false
+      };
+
+      const systemPrompt = `You are an expert at extracting structured data from images into CSV format.
+Extract data matching these EXACT column headers: ${headers.join(', ')}
+Create one object per data row/item you observe.
+
+IMPORTANT Type Rules:
+- Use EXACT column names as JSON object keys (case-sensitive, no renaming)
+- Boolean fields: Use true/false (not "Yes"/"No" or "True"/"False" strings)
+- Number fields: Use numeric values (not strings)
+- String fields: Use string values`;
+
+      const userPrompt = `${instructions}
+
+CSV Headers: ${headers.join(delimiter + ' ')}
+${imageFilename ? `\nImage Filename: ${imageFilename}` : ''}
+
+Extract all data matching these columns from the image.
+For boolean fields (Is_*, Has_*, Can_*), use true or false (not "Yes"/"No").
+Return JSON objects whose keys exactly match the headers above (including letter case).${confidencePrompt}`;
+
+      const response = await client.completeStructured({
+        system: systemPrompt,
+        content: [{ type: "text", text: userPrompt }, ...imageParts],
+        schemaName: "csv_extraction",
+        schema: fieldConfidence ? withFieldConfidenceSchema(schema) : schema,
+        temperature: 0.2,
+        maxTokens: 4000,
+      });
+
+      const { data, confidence } = splitFieldConfidence(response.data, fieldConfidence);
+
+      const latencyMs = Date.now() - startTime;
+
+      logger.info("CSV manifest inferred (structured)", {
+        latency_ms: latencyMs,
+        tokens: response.usage?.total,
+      });
+
+      return {
+        manifest: data,
+        latencyMs,
+        usage: response.usage,
+        ...(confidence ? { confidence } : {}),
+      };
+    }
+
+    // ========================================================================
+    // JSON (Default): Structured Output with JSON Schema
+    // ========================================================================
+    const baseSchema = jsonSchema
+      ? createStructuredOutputSchema(jsonSchema)
+      : createDefaultSchema();
+    // PDF pages: also ask which page each top-level field was read from
+    const sourcedSchema = pageNumbers ? withPageSourcesSchema(baseSchema) : baseSchema;
+    const schema = fieldConfidence ? withFieldConfidenceSchema(sourcedSchema, baseSchema) : sourcedSchema;
+
+    const systemPrompt = `You are an expert image analysis AI that extracts structured data from images.
+Analyze carefully and extract information according to instructions.
+Be precise. Use null for unavailable data. Follow schema exactly.`;
+
+    const userPrompt = `${instructions}
+${imageFilename ? `\nImage Filename: ${imageFilename}` : ''}
+
+Analyze this image and extract information in the exact schema structure.${confidencePrompt}`;
+
+    const response = await client.completeStructured({
+      system: systemPrompt,
+      content: [{ type: "text", text: userPrompt }, ...imageParts],
+      schemaName: "image_analysis",
+      schema,
+      temperature: 0.2,
+      maxTokens: 4000,
+    });
+
+    const { data, confidence } = splitFieldConfidence(response.data, fieldConfidence);
+    const { [PAGE_SOURCES_KEY]: pageSources, ...manifest } = data;
+    const latencyMs = Date.now() - startTime;
+
+    logger.info("Manifest inferred (JSON structured)", {
+      latency_ms: latencyMs,
+      tokens: response.usage?.total,
+      has_page_sources: Boolean(pageSources),
+      has_confidence: Boolean(confidence),
+    });
+
+    return {
+      manifest,
+      latencyMs,
+      usage: response.usage,
+      ...(pageSources ? { pageSources: pageSources as Record<string, number | null> } : {}),
+      ...(confidence ? { confidence } : {}),
+    };
+
+  } catch (error) {
+    const latencyMs = Date.now() - startTime;
+    logger.error("Manifest inference failed", error, {
+      provider: client.name,
+      latency_ms: latencyMs,
+      image_url_hash: hashUrl(imageUrl),
+    });
+    const message = `Manifest inference failed: ${error instanceof Error ? error.message : "Unknown error"}`;
+    throw error instanceof ProviderError
+      ? new ProviderError(message, error.provider, error.status, error.transient)
+      : new Error(message);
+  }
+}
+
+// ========================================================================
+// HELPER FUNCTIONS
+// ========================================================================
+
+interface HeadingInfo {
+  heading: string;
+  level: number;
+  propName: string;
+}
+
+/**
+ * Parse plain text template headings
+ */
+function parsePlainTextTemplateHeadings(template: string): HeadingInfo[] {
+  const lines = template.split('\n');
+  const headings: HeadingInfo[] = [];
+
+  for (const line of lines) {
+    const trimmed = line.trim();
+    if (!trimmed.startsWith('#')) continue;
+
+    const match = trimmed.match(/^(#{1,6})\s+(.+)$/);
+    if (match && match[1] && match[2]) {
+      const level = match[1].length;
+      const heading = match[2].trim();
+      const propName = heading;
+
+      headings.push({ heading, level, propName });
+    }
+  }
+
+  return headings;
+}
+
+/**
+ * Create JSON Schema from plain text headings
+ */
+function createPlainTextStructuredSchema(headings: HeadingInfo[]): Record<string, unknown> {
+  const properties: Record<string, unknown> = {};
+  const required: string[] = [];
+
+  for (const { propName, heading } of headings) {
+    properties[propName] = {
+      type: "string",
+      description: `Content for: ${heading}`
+    };
+    required.push(propName);
+  }
+
+  return {
+    type: "object",
+    properties,
+    required,
+    additionalProperties: false
+  };
+}
+
+/**
+ * Convert JSON to markdown
+ */
+function convertJsonToMarkdown(json: Record<string, unknown>, headings: HeadingInfo[]): string {
+  const lines: string[] = [];
+
+  for (const { heading, level, propName } of headings) {
+    const prefix = '#'.repeat(level);
+    const value = json[propName] || "Not visible";
+
+    lines.push(`${prefix} ${heading}`);
+    lines.push(String(value));
+    lines.push(''); // Empty line between sections
+  }
+
+  return lines.join('\n').trim();
+}
+
+type JsonSchemaNode = Record<string, unknown>;
+
+/**
+ * Create structured output schema from JSON Schema
+ */
+export function createStructuredOutputSchema(jsonSchema: Record<string, unknown>): Record<string, unknown> {
+  if (isExampleJson(jsonSchema)) {
+    return convertExampleToJsonSchema(jsonSchema);
+  }
+
+  const processSchema = (schema: unknown): unknown => {
+    if (!schema || typeof schema !== 'object') return schema;
+    const node = schema as JsonSchemaNode;
+
+    if (node.type === 'object') {
+      return {
+        ...node,
+        additionalProperties: false,
+        properties: node.properties
+          ? Object.fromEntries(
+              Object.entries(node.properties as JsonSchemaNode).map(([key, val]) => [
+                key,
+                processSchema(val)
+              ])
+            )
+          : {},
+      };
+    }
+
+    if (node.type === 'array' && node.items) {
+      return {
+        ...node,
+        items: processSchema(node.items)
+      };
+    }
+
+    return node;
+  };
+
+  const processed = processSchema(jsonSchema) as JsonSchemaNode;
+  return {
+    type: "object",
+    properties: processed.properties || {},
+    required: (processed.required as string[]) || [],
+    additionalProperties: false,
+  };
+}
+
+function isExampleJson(input: Record<string, unknown>): boolean {
+  if (input.type) return false;
+  if (input.properties && typeof input.properties === "object") return false;
+
+  for (const value of Object.values(input)) {
+    if (value && typeof value === "object" && !Array.isArray(value)) {
+      const obj = value as Record<string, unknown>;
+      if (obj.type || obj.properties) return false;
+    }
+  }
+  return true;
+}
+
+function convertExampleToJsonSchema(example: unknown): Record<string, unknown> {
+  if (example === null) return { type: "null" };
+
+  if (Array.isArray(example)) {
+    return {
+      type: "array",
+      items: example.length > 0 ? convertExampleToJsonSchema(example[0]) : { type: "string" }
+    };
+  }
+
+  if (typeof example === "object") {
+    const properties: Record<string, unknown> = {};
+    const required: string[] = [];
+
+    for (const [key, value] of Object.entries(example)) {
+      properties[key] = convertExampleToJsonSchema(value);
+      required.push(key);
+    }
+
+    return {
+      type: "object",
+      properties,
+      required,
+      additionalProperties: false
+    };
+  }
+
+  if (typeof example === "string") return { type: "string" };
+  if (typeof example === "number") return { type: "number" };
+  if (typeof example === "boolean") return { type: "boolean" };
+
+  return { type: "string" };
+}
+
+function createDefaultSchema(): Record<string, unknown> {
+  return {
+    type: "object",
+    properties: {
+      description: { type: "string", description: "Image description" },
+      key_observations: {
+        type: "array",
+        items: { type: "string" },
+        description: "Key observations"
+      },
+    },
+    required: ["description", "key_observations"],
+    additionalProperties: false,
+  };
+}
+
+/**
+ * Build the image content parts of the user message
+ * Multiple images are sent in order with a note that they show the same subject
+ * PDF pages are labelled with their page number
+ */
+function buildImageParts(imageUrls: string[], pageNumbers?: number[]): ModelContentPart[] {
+  const parts: ModelContentPart[] = [];
+
+  if (pageNumbers) {
+    parts.push({
+      type: "text",
+      text: `The following ${imageUrls.length} image(s) are pages of ONE document, each preceded by its page number. Combine the information from all pages into ONE result.`,
+    });
+  } else if (imageUrls.length > 1) {
+    parts.push({
+      type: "text",
+      text: `The following ${imageUrls.length} images (in order) all show the same subject, e.g. different sides or pages. Combine the information from all images into ONE result.`,
+    });
+  }
+
+  imageUrls.forEach((url, index) => {
+    const pageNumber = pageNumbers?.[index];
+    if (pageNumber !== undefined) {
+      parts.push({ type: "text", text: `Page ${pageNumber}:` });
+    }
+    parts.push({ type: "image", url });
+  });
+
+  return parts;
+}
+
+const PAGE_SOURCES_KEY = "_page_sources";
+
+/**
+ * Extend a structured output schema with `_page_sources`:
+ * top-level field → page number the value was read from (null if not found)
+ */
+function withPageSourcesSchema(schema: Record<string, unknown>): Record<string, unknown> {
+  const fields = Object.keys((schema.properties as Record<string, unknown>) || {});
+
+  return {
+    ...schema,
+    properties: {
+      ...(schema.properties as Record<string, unknown>),
+      [PAGE_SOURCES_KEY]: {
+        type: "object",
+        description: "For each field above: the page number the value was read from, or null if not found",
+        properties: Object.fromEntries(
+          fields.map((field) => [field, { type: ["integer", "null"] }])
+        ),
+        required: fields,
+        additionalProperties: false,
+      },
+    },
+    required: [...((schema.required as string[]) || []), PAGE_SOURCES_KEY],
+  };
+}
+
+const FIELD_CONFIDENCE_KEY = "_confidence";
+
+const FIELD_CONFIDENCE_PROMPT = `In "${FIELD_CONFIDENCE_KEY}", mirror the extracted fields: for every value give "confidence" (0 to 1: how sure you are that it was read correctly from the image) and "not_visible" (true if the value is not visible in the image and was left empty or guessed).`;
+
+const LEAF_CONFIDENCE_SCHEMA = {
+  type: "object",
+  properties: {
+    confidence: { type: "number", description: "0 (guess) to 1 (clearly legible)" },
+    not_visible: { type: "boolean", description: "The value is not visible in the image" },
+  },
+  required: ["confidence", "not_visible"],
+  additionalProperties: false,
+};
+
+/**
+ * Extend a structured output schema with `_confidence`, which mirrors the fields of
+ * `fields` (default: the schema itself): every leaf → { confidence, not_visible }
+ */
+function withFieldConfidenceSchema(
+  schema: Record<string, unknown>,
+  fields: Record<string, unknown> = schema
+): Record<string, unknown> {
+  return {
+    ...schema,
+    properties: {
+      ...(schema.properties as Record<string, unknown>),
+      [FIELD_CONFIDENCE_KEY]: {
+        ...mirrorFieldConfidence(fields),
+        description: "Confidence of each extracted value (same structure as the fields above)",
+      },
+    },
+    required: [...((schema.required as string[]) || []), FIELD_CONFIDENCE_KEY],
+  };
+}
+
+function mirrorFieldConfidence(node: unknown): JsonSchemaNode {
+  const schemaNode = (node && typeof node === "object" ? node : {}) as JsonSchemaNode;
+  const properties = schemaNode.properties as Record<string, unknown> | undefined;
+
+  if (properties && Object.keys(properties).length > 0) {
+    return {
+      type: "object",
+      properties: Object.fromEntries(
+        Object.entries(properties).map(([key, child]) => [key, mirrorFieldConfidence(child)])
+      ),
+      required: Object.keys(properties),
+      additionalProperties: false,
+    };
+  }
+
+  if (schemaNode.items && typeof schemaNode.items === "object") {
+    return { type: "array", items: mirrorFieldConfidence(schemaNode.items) };
+  }
+
+  return LEAF_CONFIDENCE_SCHEMA;
+}
+
+/**
+ * Separate `_confidence` from the response data (only when it was requested: a pattern
+ * field of the same name is kept otherwise); scores are clamped to 0-1
+ */
+function splitFieldConfidence(
+  data: Record<string, unknown>,
+  requested: boolean
+): { data: Record<string, unknown>; confidence?: Record<string, unknown> } {
+  if (!requested || !(FIELD_CONFIDENCE_KEY in data)) {
+    return { data };
+  }
+
+  const { [FIELD_CONFIDENCE_KEY]: confidence, ...rest } = data;
+  if (!confidence || typeof confidence !== "object" || Array.isArray(confidence)) {
+    return { data: rest };
+  }
+
+  return { data: rest, confidence: clampConfidence(confidence) as Record<string, unknown> };
+}
+
+function clampConfidence(node: unknown): unknown {
+  if (Array.isArray(node)) return node.map(clampConfidence);
+  if (!node || typeof node !== "object") return node;
+
+  return Object.fromEntries(
+    Object.entries(node).map(([key, value]) => [
+      key,
+      key === "confidence" && typeof value === "number"
+        ? Math.min(1, Math.max(0, value))
+        : clampConfidence(value),
+    ])
+  );
+}
+
+/**
+ * Image as base64 (for APIs that do not fetch image URLs themselves)
+ * Handles data: URLs without a request
+ */
+export async function loadImage(
+  url: string,
+  provider: ModelClient["name"]
+): Promise<{ mediaType: string; data: string }> {
+  const dataUrl = url.match(/^data:([^;,]+);base64,(.*)$/);
+  if (dataUrl) {
+    return { mediaType: dataUrl[1]!, data: dataUrl[2]! };
+  }
+
+  // A missing image is a problem of the job, not of the provider
+  const response = await fetchPublicUrl(url, AbortSignal.timeout(PROVIDER_REQUEST_TIMEOUT_MS));
+  if (!response.ok) {
+    await response.body?.cancel();
+    throw new Error(`Failed to fetch image for ${provider} (${response.status})`);
+  }
+
+  const mediaType = response.headers.get("content-type")?.split(";")[0]?.trim() || "image/jpeg";
+  const data = (await readBodyWithLimit(response, MAX_IMAGE_BYTES)).toString("base64");
+
+  return { mediaType, data };
+}
+
+/**
+ * fetch for provider APIs: network failures and timeouts become transient ProviderErrors (no status)
+ */
+export async function fetchProviderApi(
+  provider: ModelClient["name"],
+  url: string,
+  init: RequestInit
+): Promise<Response> {
+  try {
+    return await fetch(url, {
+      ...init,
+      signal: init.signal ?? AbortSignal.timeout(PROVIDER_REQUEST_TIMEOUT_MS),
+    });
+  } catch (error) {
+    throw new ProviderError(
+      `${provider} API request failed: ${error instanceof Error ? error.message : String(error)}`,
+      provider,
+      undefined,
+      true
+    );
+  }
+}
+
+/**
+ * Text of a JSON response, tolerating code fences around it
+ */
+export function parseJsonResponse(text: string, provider: ModelClient["name"]): Record<string, unknown> {
+  const cleaned = text.trim().replace(/^```(?:json)?\s*\n/i, "").replace(/\n```\s*$/, "");
+  try {
+    return JSON.parse(cleaned) as Record<string, unknown>;
+  } catch {
+    throw new ProviderError(`Invalid JSON in ${provider} response`, provider);
+  }
+}
+
+function hashUrl(url: string): string {
+  let hash = 0;
+  for (let i = 0; i < url.length; i++) {
+    hash = (hash << 5) - hash + url.charCodeAt(i);
+    hash = hash & hash;
+  }
+  return Math.abs(hash).toString(16).substring(0, 8);
+}
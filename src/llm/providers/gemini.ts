@@ -0,0 +1,120 @@
+/**
+ * Google Gemini provider for ImgGo
+ * generateContent REST API; structured outputs via responseJsonSchema.
+ * Gemini does not fetch arbitrary image URLs, so images are downloaded and sent inline.
+ */
+
+import { createVisionProvider, fetchProviderApi, loadImage, parseJsonResponse } from "./base";
+import {
+  ModelClient,
+  ModelContentPart,
+  ModelRequest,
+  ProviderError,
+  TokenUsage,
+} from "./types";
+
+const API_BASE_URL =
+  process.env.GEMINI_API_URL || "https://generativelanguage.googleapis.com/v1beta";
+const MODEL = process.env.GEMINI_MODEL || "gemini-2.5-pro";
+
+type GeminiPart =
+  | { text: string }
+  | { inline_data: { mime_type: string; data: string } };
+
+interface GeminiResponse {
+  candidates?: Array<{
+    content?: { parts?: Array<{ text?: string }> };
+    finishReason?: string;
+  }>;
+  promptFeedback?: { blockReason?: string };
+  usageMetadata?: {
+    promptTokenCount?: number;
+    candidatesTokenCount?: number;
+    totalTokenCount?: number;
+  };
+}
+
+async function toParts(content: ModelContentPart[]): Promise<GeminiPart[]> {
+  return Promise.all(
+    content.map(async (part): Promise<GeminiPart> => {
+      if (part.type === "text") {
+        return { text: part.text };
+      }
+
+      const image = await loadImage(part.url, "gemini");
+      return { inline_data: { mime_type: image.mediaType, data: image.data } };
+    })
+  );
+}
+
+function toUsage(usage?: GeminiResponse["usageMetadata"]): TokenUsage | undefined {
+  if (!usage) return undefined;
+
+  const input = usage.promptTokenCount ?? 0;
+  const output = usage.candidatesTokenCount ?? 0;
+  return { input, output, total: usage.totalTokenCount ?? input + output };
+}
+
+async function generateContent(
+  request: ModelRequest,
+  responseSchema?: Record<string, unknown>
+): Promise<{ text: string; usage?: TokenUsage }> {
+  const apiKey = process.env.GEMINI_API_KEY;
+  if (!apiKey) {
+    throw new ProviderError("GEMINI_API_KEY not configured", "gemini");
+  }
+
+  const response = await fetchProviderApi("gemini", `${API_BASE_URL}/models/${MODEL}:generateContent`, {
+    method: "POST",
+    headers: {
+      "Content-Type": "application/json",
+      "x-goog-api-key": apiKey,
+    },
+    body: JSON.stringify({
+      systemInstruction: { parts: [{ text: request.system }] },
+      contents: [{ role: "user", parts: await toParts(request.content) }],
+      generationConfig: {
+        temperature: request.temperature,
+        maxOutputTokens: request.maxTokens,
+        ...(responseSchema && {
+          responseMimeType: "application/json",
+          responseJsonSchema: responseSchema,
+        }),
+      },
+    }),
+  });
+
+  if (!response.ok) {
+    const body = await response.json().catch(() => null);
+    throw new ProviderError(
+      `Gemini API returned ${response.status}: ${body?.error?.message ?? response.statusText}`,
+      "gemini",
+      response.status
+    );
+  }
+
+  const result = (await response.json()) as GeminiResponse;
+  const candidate = result.candidates?.[0];
+  const text = candidate?.content?.parts?.map((part) => part.text ?? "").join("") ?? "";
+
+  if (!text) {
+    const reason = result.promptFeedback?.blockReason ?? candidate?.finishReason ?? "unknown";
+    throw new ProviderError(`No content in Gemini response (reason: ${reason})`, "gemini");
+  }
+
+  return { text, usage: toUsage(result.usageMetadata) };
+}
+
+export const geminiClient: ModelClient = {
+  name: "gemini",
+  model: MODEL,
+
+  completeText: (request) => generateContent(request),
+
+  async completeStructured(request) {
+    const { text, usage } = await generateContent(request, request.schema);
+    return { data: parseJsonResponse(text, "gemini"), usage };
+  },
+};
+
+export const geminiProvider = createVisionProvider(geminiClient);
@@ -1,754 +1,249 @@
 /**
- * OpenAI provider for ImgGo - COMPLETE IMPLEMENTATION
- * All formats: JSON, Plain Text, CSV, XML, YAML with schema-exact responses
+ * OpenAI provider for ImgGo
+ * Structured outputs via response_format json_schema (strict), images by URL.
+ * The same client serves OpenAI-compatible endpoints (vLLM, Ollama, LM Studio) registered as
+ * custom model profiles; endpoints without strict mode get the schema in the prompt and the
+ * response is validated against it. Their images are sent inline.
  */
 
 import OpenAI from "openai";
-import { ManifestFormat } from "@/lib/formatConverter";
-import { logger } from "@/lib/logger";
+import sharp from "sharp";
 import { z } from "zod";
 import { zodToJsonSchema } from "zod-to-json-schema";
-import { reconstructFromJson, type FormatMetadata } from "@/lib/deconstructionConverter";
-
-const openai = new OpenAI({
-  apiKey: process.env.OPENAI_API_KEY,
-});
-
-const MODEL = "gpt-4o-2024-08-06"; // Supports structured outputs
-
-export async function generateTemplate(
-  instructions: string,
-  format: ManifestFormat,
-  jsonSchema?: Record<string, unknown>,
-  csvDelimiter?: "comma" | "semicolon"
-): Promise<string> {
-  logger.info("Generating template with OpenAI", {
-    format,
-    has_schema: Boolean(jsonSchema),
-    instructions_length: instructions.length
+import {
+  createStructuredOutputSchema,
+  createVisionProvider,
+  loadImage,
+  parseJsonResponse,
+  PROVIDER_REQUEST_TIMEOUT_MS,
+} from "./base";
+import {
+  ModelClient,
+  ModelContentPart,
+  ModelRequest,
+  ProviderError,
+  ProviderName,
+  TokenUsage,
+  VisionProvider,
+} from "./types";
+import { validateJsonStructure } from "../validators/jsonSchemaValidator";
+
+// Created on first use: deployments that only use other providers need no OPENAI_API_KEY
+let openai: OpenAI | null = null;
+
+function getOpenAI(): OpenAI {
+  // Retries are done by the orchestrator (retryWithBackoff), inside the provider's circuit breaker
+  openai ??= new OpenAI({
+    apiKey: process.env.OPENAI_API_KEY,
+    maxRetries: 0,
+    timeout: PROVIDER_REQUEST_TIMEOUT_MS,
   });
-
-  try {
-    // Build system prompt based on format
-    let systemPrompt = `You are an expert at creating data extraction schemas.
-Generate a ${format.toUpperCase()} template/schema based on the user's instructions.
-The template should define the structure for extracting data from images.`;
-
-    // Add format-specific guidelines
-    switch (format) {
-      case "json":
-        systemPrompt += `\n\nFor JSON:
-- Create a valid JSON Schema or a realistic JSON example
-- Include all fields mentioned in instructions
-- Use appropriate data types (string, number, boolean, array, object)
-- Add descriptions for clarity
-- Make it ready for image data extraction`;
-        break;
-
-      case "csv":
-        systemPrompt += `\n\nFor CSV:
-- Create a CSV header row with all column names
-- Add 2-3 example data rows with realistic placeholder values
-- Use ${csvDelimiter === "semicolon" ? "semicolon (;)" : "comma (,)"} as delimiter
-- CRITICAL: Do NOT use ${csvDelimiter === "semicolon" ? "commas (,)" : "semicolons (;)"} in cell values - they will be interpreted as delimiters
-- If you need punctuation, use periods, dashes, or other separators instead
-- Keep values simple and avoid complex punctuation
-- Keep it simple and tabular
-- Column names should match the data fields in instructions`;
-        break;
-
-      case "yaml":
-        systemPrompt += `\n\nFor YAML:
-- Create a valid YAML structure with proper indentation
-- Include all fields mentioned in instructions
-- Use realistic placeholder values
-- Use proper YAML syntax (key: value, lists with -)
-- Make it readable and well-structured`;
-        break;
-
-      case "xml":
-        systemPrompt += `\n\nFor XML:
-- Create a valid XML structure with root element
-- Include all fields mentioned in instructions
-- Use descriptive tag names
-- Add realistic placeholder values
-- Start with <?xml version="1.0" encoding="UTF-8"?>`;
-        break;
-
-      case "text":
-        systemPrompt += `\n\nFor Plain Text:
-- Create a markdown-style structure with headings
-- The very first line MUST be a single '# ' heading (for example: '# Report Summary')
-- Subsequent sections can use ##, ###, etc.
-- Include realistic placeholder values under each heading
-- Keep it human-readable and well-organized`;
-        break;
-    }
-
-    systemPrompt += `\n\nIMPORTANT:
-- Respond ONLY with the ${format.toUpperCase()} content, no explanations
-- No markdown code blocks (no \`\`\`), just raw ${format.toUpperCase()}
-- Make it complete and ready to use
-- Use realistic placeholder values, not "example" or "placeholder"`;
-
-    const userPrompt = jsonSchema
-      ? `Instructions: ${instructions}\n\nExisting JSON Schema:\n${JSON.stringify(jsonSchema, null, 2)}\n\nGenerate a ${format.toUpperCase()} template based on this schema and instructions.`
-      : `Instructions: ${instructions}\n\nGenerate a complete ${format.toUpperCase()} template for extracting this data from images.`;
-
-    const response = await openai.chat.completions.create({
-      model: MODEL,
-      messages: [
-        { role: "system", content: systemPrompt },
-        { role: "user", content: userPrompt },
-      ],
-      temperature: 0.3, // Low for consistency
-      max_tokens: 2000,
-    });
-
-    const content = response.choices[0]?.message?.content?.trim();
-    if (!content) {
-      throw new Error("No content in OpenAI response");
-    }
-
-    // Remove markdown code blocks if AI added them despite instructions
-    let cleanedContent = content;
-    const codeBlockRegex = /^```(?:\w+)?\s*\n/;
-    if (codeBlockRegex.test(content)) {
-      cleanedContent = content
-        .replace(/^```(?:\w+)?\s*\n/, "")
-        .replace(/\n```\s*$/, "")
-        .trim();
-    }
-
-    logger.info("Template generated successfully", {
-      format,
-      template_length: cleanedContent.length,
-      tokens: response.usage?.total_tokens,
-    });
-
-    return cleanedContent;
-  } catch (error) {
-    logger.error("Template generation failed in OpenAI provider", {
-      format,
-      error: error instanceof Error ? error.message : String(error),
-    });
-    throw error;
-  }
+  return openai;
 }
 
+const MODEL = "gpt-4o-2024-08-06"; // Supports structured outputs
+
 /**
- * Infer manifest from image - COMPLETE IMPLEMENTATION FOR ALL FORMATS
+ * OpenAI-compatible endpoint of a custom model profile (see modelProfileService)
  */
-export async function inferManifest(
-  imageUrl: string,
-  instructions: string,
-  format: ManifestFormat,
-  jsonSchema?: Record<string, unknown>,
-  csvSchema?: string,
-  csvDelimiter?: "comma" | "semicolon",
-  imageFilename?: string,
-  plainTextSchema?: string,
-  formatMetadata?: FormatMetadata
-): Promise<{
-  manifest: Record<string, unknown>;
-  latencyMs: number;
-  tokensUsed?: number;
-}> {
-  const startTime = Date.now();
-
-  try {
-    logger.info("Inferring manifest from image", {
-      image_url_hash: hashUrl(imageUrl),
-      format,
-      has_filename: Boolean(imageFilename),
-    });
-
-    // ========================================================================
-    // PLAIN TEXT: Structured Output (JSON internally) → Markdown (externally)
-    // ========================================================================
-    if (format === "text" && plainTextSchema) {
-      const headings = parsePlainTextTemplateHeadings(plainTextSchema);
-      const structuredSchema = createPlainTextStructuredSchema(headings);
-
-      logger.info("Plain text with structured output", {
-        headings_count: headings.length,
-        headings: headings.map(h => h.heading)
-      });
-
-      const systemPrompt = `You are an expert image analysis AI that extracts structured data from images.
-Analyze the image carefully and extract information for each requested field.
-If information is not visible in the image, respond with "Not visible" for that field.`;
-
-      const userPrompt = `${instructions}
-${imageFilename ? `\nImage Filename: ${imageFilename}` : ''}
-
-Analyze this image and provide information for each of the following fields:
-${headings.map(h => `- ${h.heading}`).join('\n')}
-
-Extract precise, factual information from the image. If something is not visible or unclear, use "Not visible".
-Use the exact field names above (case-sensitive) as JSON property keys. Do not rename, add, or remove fields.`;
-
-      const response = await openai.chat.completions.create({
-        model: MODEL,
-        messages: [
-          { role: "system", content: systemPrompt },
-          {
-            role: "user",
-            content: [
-              { type: "text", text: userPrompt },
-              { type: "image_url", image_url: { url: imageUrl, detail: "high" } },
-            ],
-          },
-        ],
-        response_format: {
-          type: "json_schema",
-          json_schema: {
-            name: "plain_text_structured",
-            strict: true,
-            schema: structuredSchema,
-          },
-        },
-        temperature: 0.2,
-        max_tokens: 4000,
-      });
-
-      const content = response.choices[0]?.message?.content;
-      if (!content) throw new Error("No content in OpenAI response");
-
-      const jsonResponse = JSON.parse(content);
-      const markdownContent = convertJsonToMarkdown(jsonResponse, headings);
-
-      const latencyMs = Date.now() - startTime;
-      logger.info("Plain text manifest inferred (structured)", {
-        latency_ms: latencyMs,
-        tokens: response.usage?.total_tokens,
-      });
-
-      return {
-        manifest: { text: markdownContent },
-        latencyMs,
-        tokensUsed: response.usage?.total_tokens,
-      };
-    }
-
-    // ========================================================================
-    // XML/YAML: Structured Output (100% accuracy) → Format Reconstruction
-    // ========================================================================
-    if ((format === "xml" || format === "yaml") && jsonSchema && formatMetadata) {
-      const formatUpper = format.toUpperCase();
-
-      logger.info(`${formatUpper} inference with structured output`, {
-        has_json_schema: Boolean(jsonSchema),
-        has_format_metadata: Boolean(formatMetadata),
-      });
-
-      // Use structured output with the JSON Schema
-      const schema = createStructuredOutputSchema(jsonSchema);
-
-      const systemPrompt = `You are an expert image analysis AI that extracts structured data from images.
-Analyze carefully and extract information according to instructions.
-Be precise. Use null for unavailable data. Follow schema exactly.`;
-
-      const userPrompt = `${instructions}
-${imageFilename ? `\nImage Filename: ${imageFilename}` : ''}
-
-Analyze this image and extract information in the exact schema structure.`;
-
-      const response = await openai.chat.completions.create({
-        model: MODEL,
-        messages: [
-          { role: "system", content: systemPrompt },
-          {
-            role: "user",
-            content: [
-              { type: "text", text: userPrompt },
-              { type: "image_url", image_url: { url: imageUrl, detail: "high" } },
-            ],
-          },
-        ],
-        response_format: {
-          type: "json_schema",
-          json_schema: { name: `${format}_analysis`, strict: true, schema },
-        },
-        temperature: 0.2,
-        max_tokens: 4000,
-      });
-
-      const content = response.choices[0]?.message?.content;
-      if (!content) throw new Error("No content in OpenAI response");
-
-      const jsonResponse = JSON.parse(content);
-
-      // Reconstruct to original format using metadata
-      const reconstructed = reconstructFromJson(jsonResponse, formatMetadata);
-
-      const latencyMs = Date.now() - startTime;
-      logger.info(`${formatUpper} manifest inferred (structured output)`, {
-        latency_ms: latencyMs,
-        tokens: response.usage?.total_tokens,
-        preview: reconstructed.substring(0, 100),
-      });
-
-      // Use _raw marker so formatConverter doesn't wrap it
-      return {
-        manifest: { _raw: reconstructed, _format: format },
-        latencyMs,
-        tokensUsed: response.usage?.total_tokens,
-      };
-    }
-
-    // ========================================================================
-    // XML/YAML: Legacy Fallback (Schema-Guided Prompting for old patterns)
-    // ========================================================================
-    if (format === "xml" || format === "yaml") {
-      const formatUpper = format.toUpperCase();
-      const schemaExample = jsonSchema; // This contains the XML/YAML example schema
-
-      if (!schemaExample) {
-        throw new Error(`${formatUpper} format requires a schema example`);
-      }
-
-      logger.info(`${formatUpper} inference with legacy schema-guided prompting`, {
-        reason: "No format_metadata (old pattern)",
-      });
-
-      // Convert object schema to string if needed
-      const schemaString = typeof schemaExample === 'string'
-        ? schemaExample
-        : JSON.stringify(schemaExample, null, 2);
-
-      const systemPrompt = `You are an expert image analysis AI that generates ${formatUpper} output following an exact schema structure.
-
-CRITICAL RULES FOR ${formatUpper} OUTPUT:
-1. The schema shows EXAMPLE VALUES - your job is to REPLACE VALUES with actual image data
-2. PRESERVE EXACT STRUCTURE: Keep every tag/key, nesting level, and hierarchy identical
-3. DO NOT add, remove, or reorder any elements
-4. DO NOT change tag/key names or capitalization
-5. If data is not visible in image, use: "Not visible", "Unknown", or appropriate empty value
-6. Start directly with ${formatUpper} (<?xml?> for XML, --- for YAML)
-7. NO explanations, NO markdown code blocks, NO comments
-8. Output ONLY valid ${formatUpper}, nothing else`;
-
-      const userPrompt = `${instructions}
-${imageFilename ? `\nImage Filename: ${imageFilename}` : ''}
-
-SCHEMA TO FOLLOW (values are examples - replace with image data, keep structure):
-\`\`\`${format}
-${schemaString}
-\`\`\`
-
-Analyze the image and generate ${formatUpper} output following the schema structure EXACTLY.
-Remember: Change ONLY the values, keep ALL structure/tags/keys identical.`;
-
-      const response = await openai.chat.completions.create({
-        model: MODEL,
-        messages: [
-          { role: "system", content: systemPrompt },
-          {
-            role: "user",
-            content: [
-              { type: "text", text: userPrompt },
-              { type: "image_url", image_url: { url: imageUrl, detail: "high" } },
-            ],
-          },
-        ],
-        temperature: 0.1, // Very low for structural consistency
-        max_tokens: 4000,
-      });
-
-      const content = response.choices[0]?.message?.content?.trim();
-      if (!content) throw new Error("No content in OpenAI response");
-
-      // Remove markdown code blocks if LLM added them
-      let cleanedContent = content;
-      const codeBlockRegex = new RegExp(`^\`\`\`(?:${format})?\\s*\\n`, 'i');
-      if (codeBlockRegex.test(content)) {
-        cleanedContent = content
-          .replace(codeBlockRegex, "")
-          .replace(/\n```\s*$/, "")
-          .trim();
-      }
-
-      const latencyMs = Date.now() - startTime;
-      logger.info(`${formatUpper} manifest inferred (legacy schema-guided)`, {
-        latency_ms: latencyMs,
-        tokens: response.usage?.total_tokens,
-        preview: cleanedContent.substring(0, 100),
-      });
-
-      // Use _raw marker so formatConverter doesn't wrap it
-      return {
-        manifest: { _raw: cleanedContent, _format: format },
-        latencyMs,
-        tokensUsed: response.usage?.total_tokens,
-      };
-    }
-
-    // ========================================================================
-    // CSV: Dynamic Schema from Headers
-    // ========================================================================
-    if (format === "csv" && csvSchema) {
-      const delimiter = csvDelimiter === "semicolon" ? ";" : ",";
-      const firstLine = csvSchema.split('\n')[0];
-      if (!firstLine) {
-        throw new Error("CSV schema is empty or missing header row");
-      }
-      const headers = firstLine.split(delimiter).map(h => h.trim());
-
-      logger.info("CSV inference with dynamic schema", { headers, delimiter });
-
-      const properties: Record<string, unknown> = {};
-      const required: string[] = [];
+export interface OpenAICompatibleEndpoint {
+  id: string;
+  profile: `custom:${string}`;
+  baseUrl: string; // Requests go to <baseUrl>/chat/completions
+  model: string;
+  apiKey: string | null;
+  supportsJsonSchema: boolean; // false: prompt-and-validate
+  maxImageDimension: number | null; // Longest side in px sent to the model
+}
 
-      headers.forEach(header => {
-        // Keep original field name - DO NOT normalize (Pattern_Name stays Pattern_Name)
-        const propName = header;
-        
-        // Infer type from column name patterns
-        let fieldType: string = "string";
-        let fieldDescription = `Value for column: ${header}`;
-        
-        // Boolean detection: Is_, Has_, Can_, Should_, etc.
-        if (/^(is|has|can|should|will|does|did)_/i.test(header)) {
-          fieldType = "boolean";
-          fieldDescription = `${header} (boolean: True or False)`;
-        }
-        // Number detection: Count_, Num_, Total_, Amount_, etc.
-        else if (/^(count|num|total|amount|quantity|price|age)_/i.test(header) || 
-                 /_count$|_num$|_total$|_amount$|_quantity$|_price$|_age$/i.test(header)) {
-          fieldType = "number";
-          fieldDescription = `${header} (number)`;
-        }
-        
-        properties[propName] = {
-          type: fieldType,
-          description: fieldDescription
-        };
-        required.push(propName);
-      });
+interface OpenAIClientOptions {
+  name: ProviderName;
+  model: string;
+  endpointId?: string;
+  getClient: () => OpenAI;
+  strictJsonSchema: boolean;
+  prepareImageUrl?: (url: string) => Promise<string>;
+}
 
-      const schema = {
-        type: "object",
-        properties: {
-          rows: {
-            type: "array",
-            description: "Array of data rows matching CSV headers",
-            items: {
-              type: "object",
-              properties,
-              required,
-              additionalProperties: false
+type ChatMessage = OpenAI.Chat.Completions.ChatCompletionMessageParam;
+
+async function toContentParts(
+  content: ModelContentPart[],
+  prepareImageUrl?: (url: string) => Promise<string>
+): Promise<OpenAI.Chat.Completions.ChatCompletionContentPart[]> {
+  return Promise.all(
+    content.map(
+      async (part): Promise<OpenAI.Chat.Completions.ChatCompletionContentPart> =>
+        part.type === "text"
+          ? { type: "text", text: part.text }
+          : {
+              type: "image_url",
+              image_url: {
+                url: prepareImageUrl ? await prepareImageUrl(part.url) : part.url,
+                detail: "high",
+              },
             }
-          }
-        },
-        required: ["rows"],
-        additionalProperties: false
-      };
-
-      const systemPrompt = `You are an expert at extracting structured data from images into CSV format.
-Extract data matching these EXACT column headers: ${headers.join(', ')}
-Create one object per data row/item you observe.
-
-IMPORTANT Type Rules:
-- Use EXACT column names as JSON object keys (case-sensitive, no renaming)
-- Boolean fields: Use true/false (not "Yes"/"No" or "True"/"False" strings)
-- Number fields: Use numeric values (not strings)
-- String fields: Use string values`;
-
-      const userPrompt = `${instructions}
+    )
+  );
+}
 
-CSV Headers: ${headers.join(delimiter + ' ')}
-${imageFilename ? `\nImage Filename: ${imageFilename}` : ''}
+function toUsage(usage?: OpenAI.Completions.CompletionUsage): TokenUsage | undefined {
+  return usage
+    ? { input: usage.prompt_tokens, output: usage.completion_tokens, total: usage.total_tokens }
+    : undefined;
+}
 
-Extract all data matching these columns from the image.
-For boolean fields (Is_*, Has_*, Can_*), use true or false (not "Yes"/"No").
-Return JSON objects whose keys exactly match the headers above (including letter case).`;
+function addUsage(a?: TokenUsage, b?: TokenUsage): TokenUsage | undefined {
+  if (!a || !b) return a ?? b;
+  return { input: a.input + b.input, output: a.output + b.output, total: a.total + b.total };
+}
 
-      const response = await openai.chat.completions.create({
-        model: MODEL,
+function createOpenAIClient(options: OpenAIClientOptions): ModelClient {
+  const { name, model } = options;
+
+  async function createCompletion(
+    request: ModelRequest,
+    responseFormat?: OpenAI.Chat.Completions.ChatCompletionCreateParams["response_format"],
+    followUp: ChatMessage[] = []
+  ): Promise<{ text: string; usage?: TokenUsage }> {
+    try {
+      const response = await options.getClient().chat.completions.create({
+        model,
         messages: [
-          { role: "system", content: systemPrompt },
-          {
-            role: "user",
-            content: [
-              { type: "text", text: userPrompt },
-              { type: "image_url", image_url: { url: imageUrl, detail: "high" } },
-            ],
-          },
+          { role: "system", content: request.system },
+          { role: "user", content: await toContentParts(request.content, options.prepareImageUrl) },
+          ...followUp,
         ],
-        response_format: {
-          type: "json_schema",
-          json_schema: { name: "csv_extraction", strict: true, schema },
-        },
-        temperature: 0.2,
-        max_tokens: 4000,
+        ...(responseFormat && { response_format: responseFormat }),
+        temperature: request.temperature,
+        max_tokens: request.maxTokens,
       });
 
       const content = response.choices[0]?.message?.content;
-      if (!content) throw new Error("No content in OpenAI response");
-
-      const manifest = JSON.parse(content);
-      const latencyMs = Date.now() - startTime;
-
-      logger.info("CSV manifest inferred (structured)", {
-        latency_ms: latencyMs,
-        tokens: response.usage?.total_tokens,
-      });
-
-      return { manifest, latencyMs, tokensUsed: response.usage?.total_tokens };
+      if (!content) throw new ProviderError(`No content in ${name} response`, name);
+
+      return { text: content, usage: toUsage(response.usage) };
+    } catch (error) {
+      if (error instanceof OpenAI.APIError) {
+        // Connection errors (including timeouts) have no status but are outages
+        const transient = error instanceof OpenAI.APIConnectionError ? true : undefined;
+        throw new ProviderError(error.message, name, error.status, transient);
+      }
+      throw error;
     }
-
-    // ========================================================================
-    // JSON (Default): Structured Output with JSON Schema
-    // ========================================================================
-    const schema = jsonSchema
-      ? createStructuredOutputSchema(jsonSchema)
-      : createDefaultSchema();
-
-    const systemPrompt = `You are an expert image analysis AI that extracts structured data from images.
-Analyze carefully and extract information according to instructions.
-Be precise. Use null for unavailable data. Follow schema exactly.`;
-
-    const userPrompt = `${instructions}
-${imageFilename ? `\nImage Filename: ${imageFilename}` : ''}
-
-Analyze this image and extract information in the exact schema structure.`;
-
-    const response = await openai.chat.completions.create({
-      model: MODEL,
-      messages: [
-        { role: "system", content: systemPrompt },
-        {
-          role: "user",
-          content: [
-            { type: "text", text: userPrompt },
-            { type: "image_url", image_url: { url: imageUrl, detail: "high" } },
-          ],
-        },
-      ],
-      response_format: {
-        type: "json_schema",
-        json_schema: { name: "image_analysis", strict: true, schema },
-      },
-      temperature: 0.2,
-      max_tokens: 4000,
-    });
-
-    const content = response.choices[0]?.message?.content;
-    if (!content) throw new Error("No content in OpenAI response");
-
-    const manifest = JSON.parse(content);
-    const latencyMs = Date.now() - startTime;
-
-    logger.info("Manifest inferred (JSON structured)", {
-      latency_ms: latencyMs,
-      tokens: response.usage?.total_tokens,
-    });
-
-    return { manifest, latencyMs, tokensUsed: response.usage?.total_tokens };
-
-  } catch (error) {
-    const latencyMs = Date.now() - startTime;
-    logger.error("Manifest inference failed", error, {
-      latency_ms: latencyMs,
-      image_url_hash: hashUrl(imageUrl),
-    });
-    throw new Error(
-      `Manifest inference failed: ${error instanceof Error ? error.message : "Unknown error"}`
-    );
   }
-}
-
-// ========================================================================
-// HELPER FUNCTIONS
-// ========================================================================
 
-interface HeadingInfo {
-  heading: string;
-  level: number;
-  propName: string;
-}
-
-/**
- * Parse plain text template headings
- */
-function parsePlainTextTemplateHeadings(template: string): HeadingInfo[] {
-  const lines = template.split('\n');
-  const headings: HeadingInfo[] = [];
+  /**
+   * Prompt-and-validate for endpoints without strict structured outputs:
+   * the schema goes into the system prompt, an invalid answer gets one correction round
+   */
+  async function completeWithValidation(
+    request: ModelRequest & { schema: Record<string, unknown> }
+  ): Promise<{ data: Record<string, unknown>; usage?: TokenUsage }> {
+    const prompted: ModelRequest = {
+      ...request,
+      system: `${request.system}
+
+Respond with ONLY a JSON object (no markdown, no explanations) that is valid against this JSON Schema:
+${JSON.stringify(request.schema)}`,
+    };
 
-  for (const line of lines) {
-    const trimmed = line.trim();
-    if (!trimmed.startsWith('#')) continue;
+    const first = await createCompletion(prompted);
+    let data = parseJsonResponse(first.text, name);
+    let validation = validateJsonStructure(data, request.schema);
+    if (validation.isValid) return { data, usage: first.usage };
 
-    const match = trimmed.match(/^(#{1,6})\s+(.+)$/);
-    if (match && match[1] && match[2]) {
-      const level = match[1].length;
-      const heading = match[2].trim();
-      const propName = heading;
-      
-      headings.push({ heading, level, propName });
+    const retry = await createCompletion(prompted, undefined, [
+      { role: "assistant", content: first.text },
+      {
+        role: "user",
+        content: `The JSON does not match the schema:\n- ${validation.errors.join("\n- ")}\nRespond again with ONLY the corrected JSON object.`,
+      },
+    ]);
+    data = parseJsonResponse(retry.text, name);
+    validation = validateJsonStructure(data, request.schema);
+
+    if (!validation.isValid) {
+      throw new ProviderError(
+        `${name} response does not match the schema: ${validation.errors.slice(0, 3).join("; ")}`,
+        name
+      );
     }
-  }
-
-  return headings;
-}
 
-/**
- * Create JSON Schema from plain text headings
- */
-function createPlainTextStructuredSchema(headings: HeadingInfo[]): Record<string, unknown> {
-  const properties: Record<string, unknown> = {};
-  const required: string[] = [];
-
-  for (const { propName, heading } of headings) {
-    properties[propName] = {
-      type: "string",
-      description: `Content for: ${heading}`
-    };
-    required.push(propName);
+    return { data, usage: addUsage(first.usage, retry.usage) };
   }
 
   return {
-    type: "object",
-    properties,
-    required,
-    additionalProperties: false
-  };
-}
-
-/**
- * Convert JSON to markdown
- */
-function convertJsonToMarkdown(json: Record<string, unknown>, headings: HeadingInfo[]): string {
-  const lines: string[] = [];
-
-  for (const { heading, level, propName } of headings) {
-    const prefix = '#'.repeat(level);
-    const value = json[propName] || "Not visible";
-    
-    lines.push(`${prefix} ${heading}`);
-    lines.push(String(value));
-    lines.push(''); // Empty line between sections
-  }
-
-  return lines.join('\n').trim();
-}
-
-/**
- * Create structured output schema from JSON Schema
- */
-function createStructuredOutputSchema(jsonSchema: Record<string, unknown>): Record<string, unknown> {
-  if (isExampleJson(jsonSchema)) {
-    return convertExampleToJsonSchema(jsonSchema);
-  }
-
-  const processSchema = (schema: any): any => {
-    if (!schema || typeof schema !== 'object') return schema;
+    name,
+    model,
+    endpointId: options.endpointId,
 
-    if (schema.type === 'object') {
-      return {
-        ...schema,
-        additionalProperties: false,
-        properties: schema.properties 
-          ? Object.fromEntries(
-              Object.entries(schema.properties).map(([key, val]) => [
-                key,
-                processSchema(val)
-              ])
-            )
-          : {},
-      };
-    }
+    completeText: (request) => createCompletion(request),
 
-    if (schema.type === 'array' && schema.items) {
-      return {
-        ...schema,
-        items: processSchema(schema.items)
-      };
-    }
+    async completeStructured(request) {
+      if (!options.strictJsonSchema) {
+        return completeWithValidation(request);
+      }
 
-    return schema;
-  };
+      const { text, usage } = await createCompletion(request, {
+        type: "json_schema",
+        json_schema: { name: request.schemaName, strict: true, schema: request.schema },
+      });
 
-  const processed = processSchema(jsonSchema);
-  return {
-    type: "object",
-    properties: processed.properties || {},
-    required: (processed.required as string[]) || [],
-    additionalProperties: false,
+      return { data: parseJsonResponse(text, name), usage };
+    },
   };
 }
 
-function isExampleJson(input: Record<string, unknown>): boolean {
-  if (input.type) return false;
-  if (input.properties && typeof input.properties === "object") return false;
-  
-  for (const value of Object.values(input)) {
-    if (value && typeof value === "object" && !Array.isArray(value)) {
-      const obj = value as Record<string, unknown>;
-      if (obj.type || obj.properties) return false;
-    }
-  }
-  return true;
-}
-
-function convertExampleToJsonSchema(example: any): Record<string, unknown> {
-  if (example === null) return { type: "null" };
-  
-  if (Array.isArray(example)) {
-    return {
-      type: "array",
-      items: example.length > 0 ? convertExampleToJsonSchema(example[0]) : { type: "string" }
-    };
-  }
-
-  if (typeof example === "object") {
-    const properties: Record<string, unknown> = {};
-    const required: string[] = [];
-
-    for (const [key, value] of Object.entries(example)) {
-      properties[key] = convertExampleToJsonSchema(value);
-      required.push(key);
-    }
+export const openaiClient = createOpenAIClient({
+  name: "openai",
+  model: MODEL,
+  getClient: getOpenAI,
+  strictJsonSchema: true,
+});
 
-    return {
-      type: "object",
-      properties,
-      required,
-      additionalProperties: false
-    };
-  }
+export const openaiProvider = createVisionProvider(openaiClient);
 
-  if (typeof example === "string") return { type: "string" };
-  if (typeof example === "number") return { type: "number" };
-  if (typeof example === "boolean") return { type: "boolean" };
+/**
+ * Vision provider for a custom model profile
+ * Self-hosted servers often cannot fetch our storage URLs, so images are sent as data URLs
+ * (downscaled to maxImageDimension)
+ */
+export function createOpenAICompatibleProvider(endpoint: OpenAICompatibleEndpoint): VisionProvider {
+  const client = new OpenAI({
+    baseURL: endpoint.baseUrl,
+    apiKey: endpoint.apiKey ?? "none", // Local servers usually ignore the key, the SDK requires one
+    maxRetries: 0,
+    timeout: PROVIDER_REQUEST_TIMEOUT_MS,
+  });
 
-  return { type: "string" };
-}
+  return createVisionProvider(
+    createOpenAIClient({
+      name: "custom",
+      model: endpoint.model,
+      endpointId: endpoint.id,
+      getClient: () => client,
+      strictJsonSchema: endpoint.supportsJsonSchema,
+      prepareImageUrl: async (url) => {
+        const image = await loadImage(url, "custom");
+        if (!endpoint.maxImageDimension) {
+          return `data:${image.mediaType};base64,${image.data}`;
+        }
 
-function createDefaultSchema(): Record<string, unknown> {
-  return {
-    type: "object",
-    properties: {
-      description: { type: "string", description: "Image description" },
-      key_observations: {
-        type: "array",
-        items: { type: "string" },
-        description: "Key observations"
+        const resized = await sharp(Buffer.from(image.data, "base64"))
+          .rotate()
+          .resize({
+            width: endpoint.maxImageDimension,
+            height: endpoint.maxImageDimension,
+            fit: "inside",
+            withoutEnlargement: true,
+          })
+          .jpeg({ quality: 90 })
+          .toBuffer();
+        return `data:image/jpeg;base64,${resized.toString("base64")}`;
       },
-    },
-    required: ["description", "key_observations"],
-    additionalProperties: false,
-  };
-}
-
-function hashUrl(url: string): string {
-  let hash = 0;
-  for (let i = 0; i < url.length; i++) {
-    hash = (hash << 5) - hash + url.charCodeAt(i);
-    hash = hash & hash;
-  }
-  return Math.abs(hash).toString(16).substring(0, 8);
+    })
+  );
 }
 
 export function zodSchemaToOpenAI<T extends z.ZodTypeAny>(
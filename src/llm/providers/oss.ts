@@ -1,62 +1,63 @@
 /**
  * OSS (Open Source) provider for ImgGo
- * Placeholder for future Florence-2, YOLOv10, or other OSS models
- * Would connect to a microservice (Modal, RunPod, etc.)
+ * Calls a self-hosted detector service (YOLO, Florence-2, OCR, ...) at OSS_DETECTOR_ENDPOINT
+ * (contract: ./ossContract) and fills the pattern's JSON Schema from its output (./ossMapping).
+ * No language model is involved, so CSV and plain text patterns use the managed model instead.
  */
 
 import { logger } from "@/lib/logger";
-import { ManifestFormat } from "@/schemas/pattern";
+import { createStructuredOutputSchema, fetchProviderApi } from "./base";
+import {
+  OSS_CONTRACT_VERSION,
+  OSSDetectorRequest,
+  OSSDetectorResponse,
+  OSSDetectorResponseSchema,
+} from "./ossContract";
+import { collectSchemaLabels, mapDetectionsToSchema } from "./ossMapping";
+import { ProviderError, VisionProvider } from "./types";
 
 const OSS_ENDPOINT = process.env.OSS_DETECTOR_ENDPOINT;
-
-interface OSSDetectionResult {
-  objects: Array<{
-    label: string;
-    confidence: number;
-    bbox: [number, number, number, number];
-  }>;
-  captions: string[];
-  ocr_text: string[];
-}
+const OSS_API_KEY = process.env.OSS_DETECTOR_API_KEY;
 
 /**
- * Call OSS detection microservice
- * This is a placeholder - actual implementation would depend on your microservice
+ * Call the OSS detector service
  */
 export async function detectObjects(
-  imageUrl: string
-): Promise<OSSDetectionResult> {
+  request: Omit<OSSDetectorRequest, "version">
+): Promise<OSSDetectorResponse> {
   if (!OSS_ENDPOINT) {
-    throw new Error("OSS_DETECTOR_ENDPOINT not configured");
+    throw new ProviderError("OSS_DETECTOR_ENDPOINT not configured", "oss");
   }
 
   try {
     logger.info("Calling OSS detector", {
-      image_url_hash: hashUrl(imageUrl),
+      image_url_hash: hashUrl(request.image_url),
+      labels: request.labels.length,
     });
 
-    const response = await fetch(OSS_ENDPOINT, {
+    const body: OSSDetectorRequest = { version: OSS_CONTRACT_VERSION, ...request };
+    const response = await fetchProviderApi("oss", OSS_ENDPOINT, {
       method: "POST",
       headers: {
         "Content-Type": "application/json",
+        ...(OSS_API_KEY && { Authorization: `Bearer ${OSS_API_KEY}` }),
       },
-      body: JSON.stringify({
-        image_url: imageUrl,
-        tasks: ["object_detection", "caption", "ocr"],
-      }),
+      body: JSON.stringify(body),
     });
 
     if (!response.ok) {
-      throw new Error(`OSS detector returned ${response.status}`);
+      throw new ProviderError(`OSS detector returned ${response.status}`, "oss", response.status);
     }
 
-    const result = await response.json();
+    const parsed = OSSDetectorResponseSchema.safeParse(await response.json().catch(() => null));
+    if (!parsed.success) {
+      throw new ProviderError(
+        `OSS detector response does not follow the contract: ${parsed.error.issues[0]?.path.join(".")} ${parsed.error.issues[0]?.message}`,
+        "oss"
+      );
+    }
 
-    return {
-      objects: result.objects || [],
-      captions: result.captions || [],
-      ocr_text: result.ocr_text || [],
-    };
+    return parsed.data;
   } catch (error) {
     logger.error("OSS detection failed", error);
     throw error;
@@ -65,12 +66,11 @@ export async function detectObjects(
 
 /**
  * Infer manifest using OSS models
- * Converts raw detection output to structured manifest
+ * Patterns without a JSON Schema get the raw detections
  */
 export async function inferManifestOSS(
   imageUrl: string,
   instructions: string,
-  _format: ManifestFormat,
   jsonSchema?: Record<string, unknown>
 ): Promise<{
   manifest: Record<string, unknown>;
@@ -79,19 +79,26 @@ export async function inferManifestOSS(
   const startTime = Date.now();
 
   try {
-    // Get raw detections from OSS models
-    const detections = await detectObjects(imageUrl);
+    // YAML/XML patterns pass their schema as a string: no fields to map
+    const schema =
+      jsonSchema && typeof jsonSchema === "object" ? createStructuredOutputSchema(jsonSchema) : undefined;
+
+    const detections = await detectObjects({
+      image_url: imageUrl,
+      tasks: ["object_detection", "caption", "ocr"],
+      labels: schema ? collectSchemaLabels(schema) : [],
+      prompt: instructions,
+    });
 
-    // Transform detections to match user's schema
-    // This is simplified - real implementation would use instructions
-    // to map detections to the expected output structure
-    const manifest = transformDetections(detections, instructions, jsonSchema);
+    const manifest = schema ? mapDetectionsToSchema(detections, schema) : rawDetections(detections);
 
     const latencyMs = Date.now() - startTime;
 
     logger.info("OSS manifest inferred", {
       latency_ms: latencyMs,
       num_objects: detections.objects.length,
+      num_ocr_lines: detections.ocr_text.length,
+      schema_mapped: Boolean(schema),
     });
 
     return {
@@ -104,21 +111,12 @@ export async function inferManifestOSS(
   }
 }
 
-/**
- * Transform raw detections to structured manifest
- * This is a simplified placeholder
- */
-function transformDetections(
-  detections: OSSDetectionResult,
-  _instructions: string,
-  _jsonSchema?: Record<string, unknown>
-): Record<string, unknown> {
-  // Placeholder transformation
-  // Real implementation would intelligently map detections to schema
+function rawDetections(detections: OSSDetectorResponse): Record<string, unknown> {
   return {
     detected_objects: detections.objects.map((obj) => ({
       label: obj.label,
       confidence: obj.confidence,
+      bbox: obj.bbox,
     })),
     captions: detections.captions,
     text_found: detections.ocr_text,
@@ -135,12 +133,19 @@ function hashUrl(url: string): string {
   return Math.abs(hash).toString(16).substring(0, 8);
 }
 
-/**
- * Generate template using OSS (not typically needed, would use OpenAI for this)
- */
-export async function generateTemplateOSS(
-  _instructions: string,
-  _format: ManifestFormat
-): Promise<string> {
-  throw new Error("Template generation not supported with OSS provider");
-}
+export const ossProvider: VisionProvider = {
+  name: "oss",
+
+  async inferManifest(params) {
+    if ((params.additionalImageUrls?.length ?? 0) > 0 || params.pageNumbers) {
+      throw new Error("Multi-image and PDF jobs are not supported by the oss-detector model profile");
+    }
+
+    return inferManifestOSS(params.imageUrl, params.instructions, params.jsonSchema);
+  },
+
+  async generateTemplate() {
+    // Templates need a language model; pattern creation uses a managed profile for them
+    throw new Error("Template generation not supported with OSS provider");
+  },
+};
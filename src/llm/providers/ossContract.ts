@@ -0,0 +1,51 @@
+/**
+ * OSS detector service contract (OSS_DETECTOR_ENDPOINT), version 1
+ * Any detector (YOLO, Florence-2, OWL-ViT, PaddleOCR, ...) can serve the oss-detector model
+ * profile by implementing this one endpoint:
+ *
+ *   POST <OSS_DETECTOR_ENDPOINT>
+ *   Content-Type: application/json
+ *   Authorization: Bearer <OSS_DETECTOR_API_KEY>   (only sent when the variable is set)
+ *   Body: OSSDetectorRequest
+ *
+ *   200 → OSSDetectorResponse
+ *   4xx → the request is rejected (the job fails)
+ *   429 / 5xx / timeout → the detector is unavailable (retried, counts towards its circuit breaker)
+ *
+ * Boxes are pixels of the submitted image, origin top-left: [x_min, y_min, x_max, y_max].
+ * The schema mapping (ossMapping.ts) turns the response into the pattern's manifest.
+ */
+
+import { z } from "zod";
+
+export const OSS_CONTRACT_VERSION = "1";
+
+export const OSSDetectorTaskSchema = z.enum(["object_detection", "caption", "ocr"]);
+export type OSSDetectorTask = z.infer<typeof OSSDetectorTaskSchema>;
+
+export const OSSDetectorRequestSchema = z.object({
+  version: z.literal(OSS_CONTRACT_VERSION),
+  image_url: z.string(), // http(s) URL (signed, short-lived) or data: URL
+  tasks: z.array(OSSDetectorTaskSchema).min(1),
+  // Labels the pattern counts or lists; open-vocabulary detectors should look for these,
+  // closed-set detectors may ignore them
+  labels: z.array(z.string()),
+  prompt: z.string(), // Pattern instructions (for grounding/captioning models; may be ignored)
+});
+export type OSSDetectorRequest = z.infer<typeof OSSDetectorRequestSchema>;
+
+const BoundingBoxSchema = z.tuple([z.number(), z.number(), z.number(), z.number()]);
+
+export const OSSDetectedObjectSchema = z.object({
+  label: z.string(),
+  confidence: z.number().min(0).max(1),
+  bbox: BoundingBoxSchema, // [x_min, y_min, x_max, y_max] in px
+});
+export type OSSDetectedObject = z.infer<typeof OSSDetectedObjectSchema>;
+
+export const OSSDetectorResponseSchema = z.object({
+  objects: z.array(OSSDetectedObjectSchema).default([]), // object_detection
+  captions: z.array(z.string()).default([]), // caption: most relevant first
+  ocr_text: z.array(z.string()).default([]), // ocr: text lines in reading order
+});
+export type OSSDetectorResponse = z.infer<typeof OSSDetectorResponseSchema>;
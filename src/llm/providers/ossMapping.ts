@@ -0,0 +1,389 @@
+/**
+ * OSS detector → pattern manifest mapping
+ * Fills the pattern's JSON Schema from detector output without a language model:
+ * - integer/number fields count detected labels (or read a number from OCR text)
+ * - boolean fields tell whether a label (or OCR keyword) was found
+ * - string fields bind OCR lines by keyword/regex, or take a caption or label
+ * - arrays of objects receive the detected boxes (label, confidence, bbox)
+ *
+ * Hints go in a field's `description`, in square brackets:
+ *   [label: bottle, can]        labels the field counts/lists (default: derived from the field name)
+ *   [keyword: Invoice No]       OCR line containing the keyword; value = text after it
+ *   [regex: /Total:\s*([\d.]+)/i]  first OCR match; value = first capture group (or whole match)
+ *   [source: caption|ocr|label] where a string (or string array) comes from
+ *   [min_confidence: 0.6]       ignore detections below this confidence
+ */
+
+import type { OSSDetectedObject, OSSDetectorResponse } from "./ossContract";
+
+type SchemaNode = {
+  type?: string | string[];
+  description?: string;
+  properties?: Record<string, SchemaNode>;
+  items?: SchemaNode;
+  enum?: unknown[];
+};
+
+interface FieldHints {
+  labels?: string[];
+  keyword?: string;
+  regex?: RegExp;
+  source?: "caption" | "ocr" | "label";
+  minConfidence?: number;
+}
+
+// Field name prefixes/suffixes of counters (bottle_count, num_people) and flags (has_logo, logo_visible)
+const COUNT_AFFIXES = /^(num|number_of|count_of|total|n)_|_(count|num|total|qty|quantity)$/;
+const FIELD_AFFIXES = /^(num|number_of|count_of|total|n|has|is|contains|any)_|_(count|num|total|qty|quantity|visible|present|detected|found)$/g;
+
+// Array fields that list every detection rather than one label
+const GENERIC_LIST_NAMES = /^(objects?|detections?|items?|boxes?|results?|labels?)$/;
+
+// Common plural nouns whose detector label differs from the naive singular
+const LABEL_ALIASES: Record<string, string> = {
+  people: "person",
+  persons: "person",
+  men: "man",
+  women: "woman",
+  children: "child",
+};
+
+const ROLE_NAMES = {
+  label: /^(label|name|class|category|type|object|kind)$/,
+  confidence: /^(confidence|score|probability|certainty)$/,
+  bbox: /^(bbox|box|bounding_box|boundingbox|bounds|location)$/,
+  caption: /(caption|description|summary|scene)/,
+  text: /(text|ocr|transcript|content|lines)/,
+};
+
+/**
+ * Manifest for a pattern schema (a normalized JSON Schema object, see createStructuredOutputSchema)
+ */
+export function mapDetectionsToSchema(
+  detections: OSSDetectorResponse,
+  schema: Record<string, unknown>
+): Record<string, unknown> {
+  return mapObject(schema as SchemaNode, detections);
+}
+
+/**
+ * Labels a schema counts or lists (sent to the detector as a vocabulary hint)
+ */
+export function collectSchemaLabels(schema: Record<string, unknown>): string[] {
+  const labels = new Set<string>();
+
+  const visit = (node: SchemaNode, name?: string) => {
+    const types = typesOf(node);
+    if (types.includes("object")) {
+      Object.entries(node.properties ?? {}).forEach(([key, child]) => visit(child, key));
+      return;
+    }
+
+    const hints = parseHints(node.description);
+    if (hints.labels) {
+      hints.labels.forEach((label) => labels.add(label));
+      return;
+    }
+    if (!name || hints.keyword || hints.regex || hints.source) return;
+
+    const listsBoxes = types.includes("array") && typesOf(node.items ?? {}).includes("object");
+    if (
+      (types.includes("integer") && isCounterName(name)) ||
+      types.includes("boolean") ||
+      (listsBoxes && !GENERIC_LIST_NAMES.test(name))
+    ) {
+      labels.add(labelFromFieldName(name));
+    }
+  };
+
+  visit(schema as SchemaNode);
+  return [...labels];
+}
+
+function mapObject(node: SchemaNode, detections: OSSDetectorResponse): Record<string, unknown> {
+  return Object.fromEntries(
+    Object.entries(node.properties ?? {}).map(([key, child]) => [key, mapField(key, child, detections)])
+  );
+}
+
+function mapField(name: string, node: SchemaNode, detections: OSSDetectorResponse): unknown {
+  const hints = parseHints(node.description);
+  const types = typesOf(node);
+
+  if (types.includes("object")) return mapObject(node, detections);
+  if (types.includes("array")) return mapArray(name, node, hints, detections);
+
+  const objects = matchingObjects(name, hints, detections.objects);
+  const ocrValue = hints.keyword || hints.regex ? bindOcr(detections.ocr_text, hints) : undefined;
+
+  if (types.includes("integer") || types.includes("number")) {
+    if (ocrValue !== undefined) return parseNumber(ocrValue, types) ?? emptyValue(node);
+    if (objects.matched) return objects.list.length;
+
+    const byName = bindOcr(detections.ocr_text, { keyword: humanize(name) });
+    const parsed = byName !== undefined ? parseNumber(byName, types) : undefined;
+    if (parsed !== undefined) return parsed;
+
+    // A counter with no matching detections counts zero
+    return hints.labels || isCounterName(name) ? 0 : emptyValue(node);
+  }
+
+  if (types.includes("boolean")) {
+    if (hints.keyword || hints.regex) return ocrValue !== undefined;
+    return objects.list.length > 0;
+  }
+
+  if (types.includes("string")) {
+    const value = ocrValue ?? stringFromSource(name, node, hints, detections, objects.list);
+    return value ?? emptyValue(node);
+  }
+
+  return emptyValue(node);
+}
+
+function mapArray(
+  name: string,
+  node: SchemaNode,
+  hints: FieldHints,
+  detections: OSSDetectorResponse
+): unknown[] {
+  const items = node.items ?? {};
+  const itemTypes = typesOf(items);
+
+  if (itemTypes.includes("object")) {
+    const { list } = matchingObjects(name, hints, detections.objects, true);
+    return list.map((object) => mapBox(items, object));
+  }
+
+  if (itemTypes.includes("string")) {
+    const source = hints.source ?? (ROLE_NAMES.caption.test(name) ? "caption" : ROLE_NAMES.text.test(name) ? "ocr" : "label");
+    if (source === "caption") return detections.captions;
+    if (source === "ocr") return detections.ocr_text;
+
+    const { list } = matchingObjects(name, hints, detections.objects, true);
+    return [...new Set(list.map((object) => enumValue(items, object.label) ?? object.label))];
+  }
+
+  return [];
+}
+
+/**
+ * One detected box as an item of an array-of-object field
+ */
+function mapBox(node: SchemaNode, object: OSSDetectedObject): Record<string, unknown> {
+  return Object.fromEntries(
+    Object.entries(node.properties ?? {}).map(([key, child]) => {
+      const types = typesOf(child);
+
+      if (ROLE_NAMES.label.test(key)) return [key, enumValue(child, object.label) ?? object.label];
+      if (ROLE_NAMES.confidence.test(key)) return [key, object.confidence];
+      if (ROLE_NAMES.bbox.test(key)) {
+        return [key, types.includes("object") ? mapCoordinates(child, object.bbox) : object.bbox];
+      }
+
+      const coordinate = coordinateValue(key, object.bbox);
+      if (coordinate !== undefined) return [key, coordinate];
+
+      return [key, types.includes("object") ? mapCoordinates(child, object.bbox) : emptyValue(child)];
+    })
+  );
+}
+
+function mapCoordinates(node: SchemaNode, bbox: OSSDetectedObject["bbox"]): Record<string, unknown> {
+  return Object.fromEntries(
+    Object.keys(node.properties ?? {}).map((key) => [key, coordinateValue(key, bbox) ?? null])
+  );
+}
+
+function coordinateValue(key: string, [xMin, yMin, xMax, yMax]: OSSDetectedObject["bbox"]): number | undefined {
+  const k = key.toLowerCase();
+  if (/^(x|left|x_?min|x1)$/.test(k)) return xMin;
+  if (/^(y|top|y_?min|y1)$/.test(k)) return yMin;
+  if (/^(right|x_?max|x2)$/.test(k)) return xMax;
+  if (/^(bottom|y_?max|y2)$/.test(k)) return yMax;
+  if (/^(w|width)$/.test(k)) return xMax - xMin;
+  if (/^(h|height)$/.test(k)) return yMax - yMin;
+  return undefined;
+}
+
+function stringFromSource(
+  name: string,
+  node: SchemaNode,
+  hints: FieldHints,
+  detections: OSSDetectorResponse,
+  objects: OSSDetectedObject[]
+): string | undefined {
+  const topObject = [...objects].sort((a, b) => b.confidence - a.confidence)[0];
+
+  if (node.enum) {
+    const ranked = [...detections.objects].sort((a, b) => b.confidence - a.confidence);
+    for (const object of ranked) {
+      const value = enumValue(node, object.label);
+      if (value !== undefined) return value;
+    }
+    return undefined;
+  }
+
+  const source =
+    hints.source ??
+    (ROLE_NAMES.caption.test(name) ? "caption" : ROLE_NAMES.text.test(name) ? "ocr" : ROLE_NAMES.label.test(name) ? "label" : undefined);
+
+  if (source === "caption") return detections.captions[0];
+  if (source === "ocr") return detections.ocr_text.length > 0 ? detections.ocr_text.join("\n") : undefined;
+  if (source === "label") return topObject?.label ?? [...detections.objects].sort((a, b) => b.confidence - a.confidence)[0]?.label;
+
+  return bindOcr(detections.ocr_text, { keyword: humanize(name) });
+}
+
+/**
+ * Detections a field is about: hinted labels, else labels derived from the field name.
+ * `fallbackToAll`: arrays without a matching label (e.g. "objects", "detections") get every box.
+ */
+function matchingObjects(
+  name: string,
+  hints: FieldHints,
+  objects: OSSDetectedObject[],
+  fallbackToAll = false
+): { list: OSSDetectedObject[]; matched: boolean } {
+  const confident = objects.filter((object) => object.confidence >= (hints.minConfidence ?? 0));
+  const labels = (hints.labels ?? [labelFromFieldName(name)]).map(normalizeLabel);
+  const list = confident.filter((object) => labels.includes(normalizeLabel(object.label)));
+
+  if (list.length === 0 && !hints.labels && fallbackToAll) {
+    return { list: confident, matched: false };
+  }
+  return { list, matched: list.length > 0 || Boolean(hints.labels) };
+}
+
+/**
+ * OCR value for a keyword (text after it on the same line, else the next line) or regex
+ */
+function bindOcr(lines: string[], hints: Pick<FieldHints, "keyword" | "regex">): string | undefined {
+  if (hints.regex) {
+    for (const candidate of [...lines, lines.join("\n")]) {
+      const match = candidate.match(hints.regex);
+      if (match) return (match[1] ?? match[0]).trim();
+    }
+    return undefined;
+  }
+
+  if (!hints.keyword) return undefined;
+  const keyword = hints.keyword.toLowerCase();
+
+  for (const [index, line] of lines.entries()) {
+    const position = line.toLowerCase().indexOf(keyword);
+    if (position === -1) continue;
+
+    const rest = line.slice(position + keyword.length).replace(/^[\s:#=\-–]+/, "").trim();
+    return rest || lines[index + 1]?.trim() || undefined;
+  }
+  return undefined;
+}
+
+function parseHints(description?: string): FieldHints {
+  const hints: FieldHints = {};
+  if (!description) return hints;
+
+  const regex = description.match(/\[regex:\s*\/((?:\\.|[^/\\])+)\/([gimsuy]*)\s*\]/i);
+  if (regex) {
+    try {
+      hints.regex = new RegExp(regex[1]!, regex[2]!.replace("g", ""));
+    } catch {
+      // Invalid pattern: the field is filled without it
+    }
+  }
+
+  for (const [, key, value] of description.matchAll(/\[(labels?|keyword|source|min_confidence):\s*([^\]]+)\]/gi)) {
+    const trimmed = value!.trim();
+    switch (key!.toLowerCase()) {
+      case "label":
+      case "labels":
+        hints.labels = trimmed.split(",").map((label) => label.trim()).filter(Boolean);
+        break;
+      case "keyword":
+        hints.keyword = trimmed;
+        break;
+      case "source":
+        if (trimmed === "caption" || trimmed === "ocr" || trimmed === "label") hints.source = trimmed;
+        break;
+      case "min_confidence":
+        if (!Number.isNaN(Number(trimmed))) hints.minConfidence = Number(trimmed);
+        break;
+    }
+  }
+
+  return hints;
+}
+
+function typesOf(node: SchemaNode): string[] {
+  if (Array.isArray(node.type)) return node.type;
+  if (node.type) return [node.type];
+  if (node.properties) return ["object"];
+  return [];
+}
+
+/**
+ * Value of a field nothing was found for: null where the schema allows it, else the type's zero value
+ */
+function emptyValue(node: SchemaNode): unknown {
+  const types = typesOf(node);
+  if (types.includes("null") || types.length === 0) return null;
+  if (types.includes("integer") || types.includes("number")) return 0;
+  if (types.includes("boolean")) return false;
+  if (types.includes("array")) return [];
+  if (types.includes("string")) return node.enum?.[0] ?? "";
+  return null;
+}
+
+function enumValue(node: SchemaNode, label: string): string | undefined {
+  if (!node.enum) return undefined;
+  const normalized = normalizeLabel(label);
+  return node.enum.find(
+    (value): value is string => typeof value === "string" && normalizeLabel(value) === normalized
+  );
+}
+
+function parseNumber(text: string, types: string[]): number | undefined {
+  const match = text.match(/-?\d[\d,]*(?:\.\d+)?/);
+  if (!match) return undefined;
+
+  const value = Number(match[0].replace(/,/g, ""));
+  if (Number.isNaN(value)) return undefined;
+  return types.includes("integer") ? Math.round(value) : value;
+}
+
+function labelFromFieldName(name: string): string {
+  return normalizeLabel(name.toLowerCase().replace(FIELD_AFFIXES, ""));
+}
+
+/**
+ * bottle_count, num_people, bottles: fields that count a label
+ */
+function isCounterName(name: string): boolean {
+  const lower = name.toLowerCase();
+  return COUNT_AFFIXES.test(lower) || normalizeLabel(lower) !== lower.replace(/[_-]+/g, " ");
+}
+
+function humanize(name: string): string {
+  return name.replace(/([a-z])([A-Z])/g, "$1 $2").replace(/[_-]+/g, " ").trim();
+}
+
+/**
+ * Lowercase singular form, so "Bottles", "bottle" and "bottle_count" meet
+ */
+function normalizeLabel(label: string): string {
+  const words = label.toLowerCase().replace(/[_-]+/g, " ").trim().split(/\s+/);
+  const last = words.pop() ?? "";
+
+  const singular =
+    LABEL_ALIASES[last] ??
+    (/ies$/.test(last)
+      ? last.slice(0, -3) + "y"
+      : /(s|x|z|ch|sh)es$/.test(last)
+        ? last.slice(0, -2)
+        : /[^s]s$/.test(last)
+          ? last.slice(0, -1)
+          : last);
+
+  return [...words, singular].join(" ");
+}
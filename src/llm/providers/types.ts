@@ -0,0 +1,117 @@
+/**
+ * Vision provider contracts
+ * A VisionProvider turns images + pattern schemas into manifests and generates templates.
+ * Hosted LLM vendors only implement a ModelClient (one request/response round trip);
+ * createVisionProvider (./base) builds the format handling on top of it.
+ */
+
+import type { ManifestFormat } from "@/schemas/pattern";
+import type { FormatMetadata } from "@/lib/deconstructionConverter";
+
+export type ProviderName = "openai" | "anthropic" | "gemini" | "oss" | "custom"; // custom: OpenAI-compatible endpoint
+
+export interface TokenUsage {
+  input: number;
+  output: number;
+  total: number;
+}
+
+/**
+ * Manifest inference input (all schemas of the pattern; the provider picks the one for the format)
+ */
+export interface InferManifestParams {
+  imageUrl: string;
+  additionalImageUrls?: string[]; // Multi-image jobs: further images of the same subject, in order
+  pageNumbers?: number[]; // PDF jobs: page number of each image (imageUrl first)
+  imageFilename?: string;
+  instructions: string;
+  format: ManifestFormat;
+  jsonSchema?: Record<string, unknown>;
+  csvSchema?: string;
+  csvDelimiter?: "comma" | "semicolon";
+  plainTextSchema?: string;
+  formatMetadata?: FormatMetadata;
+  fieldConfidence?: boolean; // Also ask for a confidence score per field (not for legacy XML/YAML patterns)
+}
+
+export interface InferManifestResult {
+  manifest: Record<string, unknown>;
+  latencyMs: number;
+  usage?: TokenUsage;
+  pageSources?: Record<string, number | null>; // JSON format only
+  confidence?: Record<string, unknown>; // Mirrors the fields: leaf → { confidence, not_visible }
+}
+
+export interface GenerateTemplateParams {
+  instructions: string;
+  format: ManifestFormat;
+  jsonSchema?: Record<string, unknown>;
+  csvDelimiter?: "comma" | "semicolon";
+}
+
+export interface GenerateTemplateResult {
+  template: string;
+  usage?: TokenUsage;
+}
+
+export interface VisionProvider {
+  readonly name: ProviderName;
+  readonly model?: string;
+  readonly endpointId?: string; // Custom model profiles: registered endpoint (own circuit breaker)
+  /** Structured inference: one manifest for the images of a job */
+  inferManifest(params: InferManifestParams): Promise<InferManifestResult>;
+  /** Template (example manifest) for a pattern being created */
+  generateTemplate(params: GenerateTemplateParams): Promise<GenerateTemplateResult>;
+}
+
+/**
+ * User message content: text and images, in order
+ */
+export type ModelContentPart =
+  | { type: "text"; text: string }
+  | { type: "image"; url: string };
+
+export interface ModelRequest {
+  system: string;
+  content: ModelContentPart[];
+  temperature: number;
+  maxTokens: number;
+}
+
+export interface StructuredModelRequest extends ModelRequest {
+  schemaName: string;
+  schema: Record<string, unknown>; // JSON Schema of the response object
+}
+
+/**
+ * One hosted model: free text and schema-constrained JSON completions
+ */
+export interface ModelClient {
+  readonly name: ProviderName;
+  readonly model: string;
+  readonly endpointId?: string;
+  completeText(request: ModelRequest): Promise<{ text: string; usage?: TokenUsage }>;
+  completeStructured(
+    request: StructuredModelRequest
+  ): Promise<{ data: Record<string, unknown>; usage?: TokenUsage }>;
+}
+
+/**
+ * Error returned by a provider API (status is the HTTP status when there was a response)
+ * Only transient errors (network failure, timeout, 429, 5xx) count as provider outages
+ * for circuit breakers and failover; the rest fail the job.
+ */
+export class ProviderError extends Error {
+  public transient: boolean;
+
+  constructor(
+    message: string,
+    public provider: ProviderName,
+    public status?: number,
+    transient?: boolean
+  ) {
+    super(message);
+    this.name = "ProviderError";
+    this.transient = transient ?? (status !== undefined && (status === 429 || status >= 500));
+  }
+}
@@ -0,0 +1,103 @@
+/**
+ * JSON Schema Validator
+ * Validates model output against a structured output schema (createStructuredOutputSchema):
+ * type, properties, required, additionalProperties, items and enum.
+ * Used for models without strict structured outputs (prompt-and-validate).
+ */
+
+interface ValidationResult {
+  isValid: boolean;
+  errors: string[];
+}
+
+type SchemaNode = {
+  type?: string | string[];
+  properties?: Record<string, SchemaNode>;
+  required?: string[];
+  additionalProperties?: boolean | SchemaNode;
+  items?: SchemaNode;
+  enum?: unknown[];
+  anyOf?: SchemaNode[];
+};
+
+/**
+ * Validate parsed JSON against a JSON Schema
+ */
+export function validateJsonStructure(
+  data: unknown,
+  schema: Record<string, unknown>
+): ValidationResult {
+  const errors: string[] = [];
+  validateNode(data, schema as SchemaNode, 'root', errors);
+
+  return {
+    isValid: errors.length === 0,
+    errors,
+  };
+}
+
+function typeOf(value: unknown): string {
+  if (value === null) return 'null';
+  if (Array.isArray(value)) return 'array';
+  if (typeof value === 'number') return Number.isInteger(value) ? 'integer' : 'number';
+  return typeof value;
+}
+
+function matchesType(value: unknown, type: string): boolean {
+  const actual = typeOf(value);
+  return actual === type || (type === 'number' && actual === 'integer');
+}
+
+/**
+ * Recursively validate a value against a schema node
+ */
+function validateNode(value: unknown, schema: SchemaNode, path: string, errors: string[]): void {
+  if (schema.anyOf) {
+    const matches = schema.anyOf.some((option) => {
+      const optionErrors: string[] = [];
+      validateNode(value, option, path, optionErrors);
+      return optionErrors.length === 0;
+    });
+    if (!matches) errors.push(`Value at ${path} matches none of the allowed schemas`);
+    return;
+  }
+
+  if (schema.type) {
+    const types = Array.isArray(schema.type) ? schema.type : [schema.type];
+    if (!types.some((type) => matchesType(value, type))) {
+      errors.push(`Type mismatch at ${path}: expected ${types.join(' or ')}, got ${typeOf(value)}`);
+      return;
+    }
+  }
+
+  if (schema.enum && !schema.enum.includes(value)) {
+    errors.push(`Invalid value at ${path}: expected one of ${schema.enum.map((v) => JSON.stringify(v)).join(', ')}`);
+    return;
+  }
+
+  if (Array.isArray(value)) {
+    if (schema.items) {
+      value.forEach((item, index) => validateNode(item, schema.items!, `${path}[${index}]`, errors));
+    }
+    return;
+  }
+
+  if (typeof value !== 'object' || value === null || !schema.properties) return;
+
+  const record = value as Record<string, unknown>;
+
+  for (const key of schema.required ?? []) {
+    if (!(key in record)) {
+      errors.push(`Missing required key: ${path}.${key}`);
+    }
+  }
+
+  for (const [key, child] of Object.entries(record)) {
+    const propertySchema = schema.properties[key];
+    if (propertySchema) {
+      validateNode(child, propertySchema, `${path}.${key}`, errors);
+    } else if (schema.additionalProperties === false) {
+      errors.push(`Extra key found (not in schema): ${path}.${key}`);
+    }
+  }
+}
@@ -245,6 +245,80 @@ export async function incrementRequestCount(userId: string): Promise<void> {
   }
 }
 
+/**
+ * Atomically increment request count at USER level by N
+ * Used by batch ingest, where each image consumes one request
+ *
+ * @param userId - User ID
+ * @param count - Number of requests to add
+ */
+export async function incrementRequestCountBy(
+  userId: string,
+  count: number
+): Promise<void> {
+  if (count <= 0) return;
+
+  try {
+    const { error } = await supabaseServer.rpc("increment_user_request_count_by", {
+      p_user_id: userId,
+      p_timestamp: new Date().toISOString(),
+      p_count: count,
+    });
+
+    if (error) {
+      logger.error("Failed to increment request count", {
+        user_id: userId,
+        count,
+        error: error.message,
+      });
+      // Don't throw - request already processed
+    }
+  } catch (error) {
+    logger.error("Exception incrementing request count", {
+      user_id: userId,
+      count,
+      error: error instanceof Error ? error.message : String(error),
+    });
+    // Don't throw - request already processed
+  }
+}
+
+/**
+ * Give back N requests of the current period (never below 0)
+ * Used when a job is answered from the result cache and cache hits are free,
+ * and when a job expires before it was processed
+ *
+ * @param userId - User ID
+ * @param count - Number of requests to refund
+ */
+export async function refundRequestCount(
+  userId: string,
+  count: number
+): Promise<void> {
+  if (count <= 0) return;
+
+  try {
+    const { error } = await supabaseServer.rpc("refund_user_request_count", {
+      p_user_id: userId,
+      p_count: count,
+    });
+
+    if (error) {
+      logger.error("Failed to refund request count", {
+        user_id: userId,
+        count,
+        error: error.message,
+      });
+    }
+  } catch (error) {
+    logger.error("Exception refunding request count", {
+      user_id: userId,
+      count,
+      error: error instanceof Error ? error.message : String(error),
+    });
+  }
+}
+
 /**
  * Log API request for analytics (optional, non-blocking)
  * Fire-and-forget, non-blocking
@@ -364,12 +438,14 @@ export async function enforceRateLimit(
     logger.error("Async increment failed", { user_id: userId, error: err });
   });
 
-  // Return status for headers
+  // Return status for headers (unlimited plans keep -1)
   if (options?.statusRef) {
+    const remaining =
+      rateLimitStatus.monthly_remaining === -1 ? -1 : Math.max(0, rateLimitStatus.monthly_remaining - 1);
     options.statusRef.current = {
       ...rateLimitStatus,
-      monthly_remaining: Math.max(0, rateLimitStatus.monthly_remaining - 1),
-      remaining: Math.max(0, rateLimitStatus.monthly_remaining - 1),
+      monthly_remaining: remaining,
+      remaining,
     };
   }
 
@@ -7,34 +7,141 @@ import { z } from 'zod';
 import {
   IngestRequestSchema,
   JobSchema,
+  BatchIngestRequestSchema,
+  BatchSchema,
+  JobStatusSchema,
+  JobAttemptSchema,
+  JobPrioritySchema,
+  ExportCreateRequestSchema,
+  ExportSchema,
+  ReprocessRequestSchema,
 } from '@/schemas/manifest';
 import { ErrorResponseSchema, SuccessResponseSchema } from '@/schemas/api';
 
 // Register Job schema components
 registry.register('Job', JobSchema);
+registry.register('JobAttempt', JobAttemptSchema);
+registry.register('Batch', BatchSchema);
+registry.register('Export', ExportSchema);
 
 // Success response wrappers
 const JobSuccessResponse = SuccessResponseSchema(JobSchema);
 const IngestSuccessResponse = SuccessResponseSchema(
   z.object({
     job_id: z.string().uuid(),
-    status: z.enum(['queued']),
+    status: z.enum(['queued', 'scheduled']),
+    priority: JobPrioritySchema,
+    scheduled_for: z.string().datetime().optional().openapi({
+      description: 'Release time of a scheduled job (only when process_at or delay_seconds was given)',
+    }),
     message: z.string(),
   }).openapi('IngestResponse', {
     example: {
       job_id: '770e8400-e29b-41d4-a716-446655440000',
       status: 'queued',
+      priority: 'default',
       message: 'Image queued for processing'
     }
   })
 );
 
+const BatchSuccessResponse = SuccessResponseSchema(BatchSchema);
+const ExportSuccessResponse = SuccessResponseSchema(ExportSchema);
+const BatchIngestSuccessResponse = SuccessResponseSchema(
+  z.object({
+    batch_id: z.string().uuid(),
+    status: z.enum(['processing']),
+    total_jobs: z.number().int(),
+    priority: JobPrioritySchema,
+    scheduled_for: z.string().datetime().optional(),
+    jobs: z.array(z.object({
+      index: z.number().int(),
+      job_id: z.string().uuid(),
+      image_url: z.string().url(),
+    })),
+    rejected: z.array(z.object({
+      index: z.number().int(),
+      error: z.string(),
+    })),
+    message: z.string(),
+  }).openapi('BatchIngestResponse', {
+    example: {
+      batch_id: 'aa0e8400-e29b-41d4-a716-446655440000',
+      status: 'processing',
+      total_jobs: 2,
+      priority: 'bulk',
+      jobs: [
+        { index: 0, job_id: '770e8400-e29b-41d4-a716-446655440000', image_url: 'https://storage.imggo.ai/uploads/shelf-001.jpg' },
+        { index: 1, job_id: '770e8400-e29b-41d4-a716-446655440001', image_url: 'https://storage.imggo.ai/uploads/shelf-002.jpg' }
+      ],
+      rejected: [],
+      message: 'Batch queued for background processing'
+    }
+  })
+);
+const ReprocessSuccessResponse = SuccessResponseSchema(
+  z.object({
+    batch_id: z.string().uuid(),
+    status: z.enum(['processing']),
+    pattern_version: z.number().int(),
+    total_jobs: z.number().int(),
+    skipped_images_deleted: z.number().int().openapi({
+      description: 'Matching jobs that were skipped because their images are no longer stored',
+    }),
+    priority: JobPrioritySchema,
+    jobs: z.array(z.object({
+      source_job_id: z.string().uuid(),
+      job_id: z.string().uuid(),
+    })),
+    rejected: z.array(z.object({
+      source_job_id: z.string().uuid(),
+      error: z.string(),
+    })),
+    message: z.string(),
+  }).openapi('ReprocessResponse', {
+    example: {
+      batch_id: 'aa0e8400-e29b-41d4-a716-446655440000',
+      status: 'processing',
+      pattern_version: 4,
+      total_jobs: 2,
+      skipped_images_deleted: 0,
+      priority: 'bulk',
+      jobs: [
+        { source_job_id: '770e8400-e29b-41d4-a716-446655440000', job_id: '770e8400-e29b-41d4-a716-446655440010' },
+        { source_job_id: '770e8400-e29b-41d4-a716-446655440001', job_id: '770e8400-e29b-41d4-a716-446655440011' }
+      ],
+      rejected: [],
+      message: 'Reprocess queued for background processing'
+    }
+  })
+);
+const BatchResultsSuccessResponse = SuccessResponseSchema(
+  z.object({
+    batch_id: z.string().uuid(),
+    status: BatchSchema.shape.status,
+    counts: BatchSchema.shape.counts,
+    results: z.array(z.object({
+      id: z.string().uuid(),
+      image_url: z.string().url(),
+      status: JobStatusSchema,
+      manifest: z.record(z.unknown()).nullable(),
+      error: z.string().nullable(),
+      latency_ms: z.number().int().nullable(),
+      completed_at: z.string().datetime().nullable(),
+      pattern_version: z.number().int().nullable(),
+      reprocess_of: z.string().uuid().nullable().openapi({
+        description: 'Original job, for batches created by POST /api/patterns/{id}/reprocess',
+      }),
+    })),
+  }).openapi('BatchResults')
+);
+
 // POST /api/patterns/:id/ingest - Submit image for processing
 registry.registerPath({
   method: 'post',
   path: '/api/patterns/{id}/ingest',
   summary: 'Submit image for processing',
-  description: 'Queue an image for analysis using the specified pattern',
+  description: 'Queue an image for analysis using the specified pattern. Pass `wait` (query) or `Prefer: wait=N` (header) to hold the connection until the job finishes; the manifest is then returned inline in the pattern format. If the job is still running when the wait elapses, the regular 202 response is returned and the client can keep polling. A multipart upload of a single PDF (max 20MB) is rendered page by page into one multi-page job; select pages with `extras.pdf_pages` (e.g. `"1-3,5"`, max 10 pages). For JSON patterns, `manifest_page_sources` on the job records the page each top-level field was read from. PDFs and jobs with several images (`image_urls`, repeated `image` fields) need the Node worker (`WORKER_RUNTIME=node`); otherwise they are rejected with 501. Uploaded and inline images are preprocessed before storage according to the `preprocessing` config of the pattern (EXIF rotation, metadata/GPS removal, downscaling, HEIC/BMP conversion); pass `crop` (JSON body, or a JSON multipart field) to keep only a region. Pass `priority` (`interactive`, `default` or `bulk`) to choose the queue lane; lanes are drained with weighted fairness, and requests above the lane allowed by the plan run at the plan maximum. Pass `process_at` (ISO 8601) or `delay_seconds` to defer processing by up to 7 days; the job is returned with status `scheduled` and moves to `queued` once its time has come. With `expires_in_seconds` (default: `job_ttl_seconds` of the pattern) a job that has not started processing by then becomes `expired`, is not billed and fires a `job.expired` webhook.',
   tags: ['Jobs'],
   request: {
     params: z.object({
@@ -43,11 +150,25 @@ registry.registerPath({
         example: '550e8400-e29b-41d4-a716-446655440000',
       }),
     }),
+    query: z.object({
+      wait: z.number().int().min(0).max(25).optional().openapi({
+        description: 'Seconds to wait for the job to finish (capped at 25)',
+        example: 20,
+      }),
+      format: z.enum(['json', 'yaml', 'xml', 'csv', 'text']).optional().openapi({
+        description: 'Format of the inline manifest when waiting (default: pattern format)',
+        example: 'json',
+      }),
+    }),
     headers: z.object({
       'Idempotency-Key': z.string().optional().openapi({
         description: 'Optional idempotency key to prevent duplicate processing',
         example: 'unique-request-id-12345',
       }),
+      'Prefer': z.string().optional().openapi({
+        description: 'Alternative to the wait query parameter',
+        example: 'wait=20',
+      }),
     }),
     body: {
       content: {
@@ -58,6 +179,14 @@ registry.registerPath({
     },
   },
   responses: {
+    200: {
+      description: 'Job finished within the requested wait time',
+      content: {
+        'application/json': {
+          schema: JobSuccessResponse,
+        },
+      },
+    },
     202: {
       description: 'Image queued for processing',
       content: {
@@ -106,6 +235,14 @@ registry.registerPath({
         },
       },
     },
+    501: {
+      description: 'Several images or a PDF in one job without the Node worker',
+      content: {
+        'application/json': {
+          schema: ErrorResponseSchema,
+        },
+      },
+    },
   },
   security: [{ bearerAuth: [] }],
 });
@@ -115,7 +252,7 @@ registry.registerPath({
   method: 'get',
   path: '/api/jobs/{id}',
   summary: 'Get job status and results',
-  description: 'Retrieve the current status and results of a processing job',
+  description: 'Retrieve the current status and results of a processing job. For patterns with `field_confidence` enabled, pass `include=confidence` to add `manifest_confidence`: the manifest structure with `{ confidence, not_visible }` for every field, to decide which values can be trusted automatically and which need a human check. Rendered formats (`format` other than json) are not affected.',
   tags: ['Jobs'],
   request: {
     params: z.object({
@@ -124,6 +261,16 @@ registry.registerPath({
         example: '770e8400-e29b-41d4-a716-446655440000',
       }),
     }),
+    query: z.object({
+      format: z.enum(['json', 'yaml', 'xml', 'csv', 'text']).optional().openapi({
+        description: 'Format of the manifest (default: json envelope)',
+        example: 'json',
+      }),
+      include: z.string().optional().openapi({
+        description: 'Comma-separated extras for the json envelope: confidence',
+        example: 'confidence',
+      }),
+    }),
   },
   responses: {
     200: {
@@ -153,3 +300,477 @@ registry.registerPath({
   },
   security: [{ bearerAuth: [] }],
 });
+
+// POST /api/jobs/:id/cancel - Cancel a job
+registry.registerPath({
+  method: 'post',
+  path: '/api/jobs/{id}/cancel',
+  summary: 'Cancel a job',
+  description: 'Cancel a queued or running job. Queued jobs are removed from the queue; running jobs finish without storing a result or firing success/failure webhooks. A `job.cancelled` webhook is sent instead.',
+  tags: ['Jobs'],
+  request: {
+    params: z.object({
+      id: z.string().uuid().openapi({
+        description: 'Job ID',
+        example: '770e8400-e29b-41d4-a716-446655440000',
+      }),
+    }),
+  },
+  responses: {
+    200: {
+      description: 'Job cancelled',
+      content: {
+        'application/json': {
+          schema: SuccessResponseSchema(
+            z.object({
+              job_id: z.string().uuid(),
+              status: z.enum(['cancelled']),
+              previous_status: z.enum(['scheduled', 'queued', 'running']),
+            }).openapi('CancelJobResponse', {
+              example: {
+                job_id: '770e8400-e29b-41d4-a716-446655440000',
+                status: 'cancelled',
+                previous_status: 'queued'
+              }
+            })
+          ),
+        },
+      },
+    },
+    401: {
+      description: 'Authentication required',
+      content: {
+        'application/json': {
+          schema: ErrorResponseSchema,
+        },
+      },
+    },
+    404: {
+      description: 'Job not found',
+      content: {
+        'application/json': {
+          schema: ErrorResponseSchema,
+        },
+      },
+    },
+    409: {
+      description: 'Job already finished and cannot be cancelled',
+      content: {
+        'application/json': {
+          schema: ErrorResponseSchema,
+        },
+      },
+    },
+  },
+  security: [{ bearerAuth: [] }],
+});
+
+// POST /api/jobs/:id/retry - Retry a failed job
+registry.registerPath({
+  method: 'post',
+  path: '/api/jobs/{id}/retry',
+  summary: 'Retry a failed job',
+  description: 'Re-enqueue a failed job with the same image as a new attempt. The failed attempt stays in the `attempts` history returned by `GET /api/jobs/{id}`. Counts as one request against the monthly quota.',
+  tags: ['Jobs'],
+  request: {
+    params: z.object({
+      id: z.string().uuid().openapi({
+        description: 'Job ID',
+        example: '770e8400-e29b-41d4-a716-446655440000',
+      }),
+    }),
+  },
+  responses: {
+    202: {
+      description: 'Job re-queued',
+      content: {
+        'application/json': {
+          schema: SuccessResponseSchema(
+            z.object({
+              job_id: z.string().uuid(),
+              status: z.enum(['queued']),
+              attempt: z.number().int(),
+              message: z.string(),
+            }).openapi('RetryJobResponse', {
+              example: {
+                job_id: '770e8400-e29b-41d4-a716-446655440000',
+                status: 'queued',
+                attempt: 2,
+                message: 'Job re-queued for processing'
+              }
+            })
+          ),
+        },
+      },
+    },
+    401: {
+      description: 'Authentication required',
+      content: {
+        'application/json': {
+          schema: ErrorResponseSchema,
+        },
+      },
+    },
+    404: {
+      description: 'Job not found',
+      content: {
+        'application/json': {
+          schema: ErrorResponseSchema,
+        },
+      },
+    },
+    409: {
+      description: 'Job is not in failed state',
+      content: {
+        'application/json': {
+          schema: ErrorResponseSchema,
+        },
+      },
+    },
+    429: {
+      description: 'Rate limit exceeded',
+      content: {
+        'application/json': {
+          schema: ErrorResponseSchema,
+        },
+      },
+    },
+  },
+  security: [{ bearerAuth: [] }],
+});
+
+// POST /api/patterns/:id/ingest/batch - Submit a batch of images
+registry.registerPath({
+  method: 'post',
+  path: '/api/patterns/{id}/ingest/batch',
+  summary: 'Submit a batch of images for processing',
+  description: 'Queue up to 100 images as one batch. Accepts a JSON list of image URLs or multipart/form-data with repeated `image` fields. Each image counts as one request against the monthly quota. A `batch.completed` webhook fires once every job has finished. Use `priority: bulk` for backfills so interactive jobs are not delayed. `process_at` or `delay_seconds` schedules every job of the batch for later processing.',
+  tags: ['Jobs'],
+  request: {
+    params: z.object({
+      id: z.string().uuid().openapi({
+        description: 'Pattern ID',
+        example: '550e8400-e29b-41d4-a716-446655440000',
+      }),
+    }),
+    body: {
+      content: {
+        'application/json': {
+          schema: BatchIngestRequestSchema,
+        },
+      },
+    },
+  },
+  responses: {
+    202: {
+      description: 'Batch queued for processing',
+      content: {
+        'application/json': {
+          schema: BatchIngestSuccessResponse,
+        },
+      },
+    },
+    400: {
+      description: 'Invalid request body',
+      content: {
+        'application/json': {
+          schema: ErrorResponseSchema,
+        },
+      },
+    },
+    401: {
+      description: 'Authentication required',
+      content: {
+        'application/json': {
+          schema: ErrorResponseSchema,
+        },
+      },
+    },
+    404: {
+      description: 'Pattern not found',
+      content: {
+        'application/json': {
+          schema: ErrorResponseSchema,
+        },
+      },
+    },
+    429: {
+      description: 'Rate limit or monthly quota exceeded',
+      content: {
+        'application/json': {
+          schema: ErrorResponseSchema,
+        },
+      },
+    },
+  },
+  security: [{ bearerAuth: [] }],
+});
+
+// POST /api/patterns/:id/reprocess - Reprocess historical jobs
+registry.registerPath({
+  method: 'post',
+  path: '/api/patterns/{id}/reprocess',
+  summary: 'Reprocess historical jobs against a pattern version',
+  description: 'Re-run up to 500 earlier jobs of the pattern against a chosen pattern version (default: the active one). Each original job gets a new job with `reprocess_of` set to the original and `pattern_version` pinned to the chosen version; the original manifests are kept, so old and new results can be compared. The new jobs form one batch: track it with GET /api/batches/{id}, download it with GET /api/batches/{id}/results, or wait for the `batch.completed` webhook. Only jobs whose images are still stored can be reprocessed, so enable `retain_images` on the pattern beforehand; skipped jobs are counted in `skipped_images_deleted`. Each job counts as one request against the monthly quota. Jobs run in the `bulk` lane unless `priority` is given. Only available when jobs are processed by the Node worker (`WORKER_RUNTIME=node`); otherwise the request fails with 501.',
+  tags: ['Jobs'],
+  request: {
+    params: z.object({
+      id: z.string().uuid().openapi({
+        description: 'Pattern ID',
+        example: '550e8400-e29b-41d4-a716-446655440000',
+      }),
+    }),
+    body: {
+      content: {
+        'application/json': {
+          schema: ReprocessRequestSchema,
+        },
+      },
+    },
+  },
+  responses: {
+    202: {
+      description: 'Reprocess jobs queued',
+      content: {
+        'application/json': {
+          schema: ReprocessSuccessResponse,
+        },
+      },
+    },
+    400: {
+      description: 'Invalid request, unknown version, no matching jobs or more than 500 matching jobs',
+      content: {
+        'application/json': {
+          schema: ErrorResponseSchema,
+        },
+      },
+    },
+    401: {
+      description: 'Authentication required',
+      content: {
+        'application/json': {
+          schema: ErrorResponseSchema,
+        },
+      },
+    },
+    404: {
+      description: 'Pattern not found',
+      content: {
+        'application/json': {
+          schema: ErrorResponseSchema,
+        },
+      },
+    },
+    429: {
+      description: 'Rate limit or monthly quota exceeded',
+      content: {
+        'application/json': {
+          schema: ErrorResponseSchema,
+        },
+      },
+    },
+    501: {
+      description: 'Reprocessing is not available without the Node worker',
+      content: {
+        'application/json': {
+          schema: ErrorResponseSchema,
+        },
+      },
+    },
+  },
+  security: [{ bearerAuth: [] }],
+});
+
+// GET /api/batches/:id - Get batch status
+registry.registerPath({
+  method: 'get',
+  path: '/api/batches/{id}',
+  summary: 'Get batch status',
+  description: 'Retrieve the status of a batch and aggregate counts of its jobs',
+  tags: ['Jobs'],
+  request: {
+    params: z.object({
+      id: z.string().uuid().openapi({
+        description: 'Batch ID',
+        example: 'aa0e8400-e29b-41d4-a716-446655440000',
+      }),
+    }),
+  },
+  responses: {
+    200: {
+      description: 'Batch retrieved successfully',
+      content: {
+        'application/json': {
+          schema: BatchSuccessResponse,
+        },
+      },
+    },
+    401: {
+      description: 'Authentication required',
+      content: {
+        'application/json': {
+          schema: ErrorResponseSchema,
+        },
+      },
+    },
+    404: {
+      description: 'Batch not found',
+      content: {
+        'application/json': {
+          schema: ErrorResponseSchema,
+        },
+      },
+    },
+  },
+  security: [{ bearerAuth: [] }],
+});
+
+// GET /api/batches/:id/results - Download combined results
+registry.registerPath({
+  method: 'get',
+  path: '/api/batches/{id}/results',
+  summary: 'Download batch results',
+  description: 'Download the results of every job in a batch. Use `format=ndjson` to get one job per line.',
+  tags: ['Jobs'],
+  request: {
+    params: z.object({
+      id: z.string().uuid().openapi({
+        description: 'Batch ID',
+        example: 'aa0e8400-e29b-41d4-a716-446655440000',
+      }),
+    }),
+    query: z.object({
+      format: z.enum(['json', 'ndjson']).optional().openapi({
+        description: 'Response format (default: json)',
+        example: 'ndjson',
+      }),
+    }),
+  },
+  responses: {
+    200: {
+      description: 'Batch results',
+      content: {
+        'application/json': {
+          schema: BatchResultsSuccessResponse,
+        },
+        'application/x-ndjson': {
+          schema: z.string(),
+        },
+      },
+    },
+    401: {
+      description: 'Authentication required',
+      content: {
+        'application/json': {
+          schema: ErrorResponseSchema,
+        },
+      },
+    },
+    404: {
+      description: 'Batch not found',
+      content: {
+        'application/json': {
+          schema: ErrorResponseSchema,
+        },
+      },
+    },
+  },
+  security: [{ bearerAuth: [] }],
+});
+
+// POST /api/exports - Request a bulk export
+registry.registerPath({
+  method: 'post',
+  path: '/api/exports',
+  summary: 'Export job results',
+  description: 'Export the job results of a pattern as one file: `ndjson` (one job per line), `csv` (one merged table with the csv_schema headers of the pattern), `xlsx` (same table as a workbook) or `zip` (one file per job in the output format of the pattern). The file is built in the background: poll `GET /api/exports/{id}` or subscribe to the `export.ready` webhook. Up to 50,000 jobs per export.',
+  tags: ['Jobs'],
+  request: {
+    body: {
+      content: {
+        'application/json': {
+          schema: ExportCreateRequestSchema,
+        },
+      },
+    },
+  },
+  responses: {
+    202: {
+      description: 'Export queued',
+      content: {
+        'application/json': {
+          schema: ExportSuccessResponse,
+        },
+      },
+    },
+    400: {
+      description: 'Invalid request, or more jobs match than one export can hold (EXPORT_TOO_LARGE)',
+      content: {
+        'application/json': {
+          schema: ErrorResponseSchema,
+        },
+      },
+    },
+    401: {
+      description: 'Authentication required',
+      content: {
+        'application/json': {
+          schema: ErrorResponseSchema,
+        },
+      },
+    },
+    404: {
+      description: 'Pattern not found',
+      content: {
+        'application/json': {
+          schema: ErrorResponseSchema,
+        },
+      },
+    },
+  },
+  security: [{ bearerAuth: [] }],
+});
+
+// GET /api/exports/:id - Get export status
+registry.registerPath({
+  method: 'get',
+  path: '/api/exports/{id}',
+  summary: 'Get export status',
+  description: 'Retrieve the status of an export. Once it succeeded, `download_url` is a signed URL valid for one hour.',
+  tags: ['Jobs'],
+  request: {
+    params: z.object({
+      id: z.string().uuid().openapi({
+        description: 'Export ID',
+        example: 'bb0e8400-e29b-41d4-a716-446655440000',
+      }),
+    }),
+  },
+  responses: {
+    200: {
+      description: 'Export retrieved successfully',
+      content: {
+        'application/json': {
+          schema: ExportSuccessResponse,
+        },
+      },
+    },
+    401: {
+      description: 'Authentication required',
+      content: {
+        'application/json': {
+          schema: ErrorResponseSchema,
+        },
+      },
+    },
+    404: {
+      description: 'Export not found',
+      content: {
+        'application/json': {
+          schema: ErrorResponseSchema,
+        },
+      },
+    },
+  },
+  security: [{ bearerAuth: [] }],
+});
@@ -0,0 +1,190 @@
+/**
+ * Custom model profile endpoint registrations for OpenAPI
+ */
+
+import { registry } from '../registry';
+import { z } from 'zod';
+import {
+  CustomModelProfileCreateSchema,
+  CustomModelProfileSchema,
+  CustomModelProfileUpdateSchema,
+} from '@/schemas/pattern';
+import { ErrorResponseSchema, SuccessResponseSchema } from '@/schemas/api';
+
+const CustomModelProfileSuccessResponse = SuccessResponseSchema(CustomModelProfileSchema);
+const CustomModelProfileListResponse = SuccessResponseSchema(
+  z.object({ data: z.array(CustomModelProfileSchema) })
+);
+
+const ModelProfileIdParams = z.object({
+  id: z.string().uuid().openapi({
+    description: 'Model profile ID',
+    example: '990e8400-e29b-41d4-a716-446655440000',
+  }),
+});
+
+// POST /api/model-profiles - Register endpoint
+registry.registerPath({
+  method: 'post',
+  path: '/api/model-profiles',
+  summary: 'Register a custom model profile',
+  description: 'Register an OpenAI-compatible chat completions endpoint (vLLM, Ollama, LM Studio). Patterns use it with model_profile `custom:<name>`. Endpoints without `supports_json_schema` get the schema in the prompt and their response is validated against it (one correction round). Images are sent inline, downscaled to `max_image_dimension`. Requires the patterns:write scope.',
+  tags: ['Model Profiles'],
+  request: {
+    body: {
+      content: {
+        'application/json': {
+          schema: CustomModelProfileCreateSchema,
+        },
+      },
+    },
+  },
+  responses: {
+    201: {
+      description: 'Model profile registered (the API key is not returned)',
+      content: {
+        'application/json': {
+          schema: CustomModelProfileSuccessResponse,
+        },
+      },
+    },
+    400: {
+      description: 'Invalid request body, or base URL host not allowed (BASE_URL_NOT_ALLOWED)',
+      content: {
+        'application/json': {
+          schema: ErrorResponseSchema,
+        },
+      },
+    },
+    401: {
+      description: 'Authentication required',
+      content: {
+        'application/json': {
+          schema: ErrorResponseSchema,
+        },
+      },
+    },
+    409: {
+      description: 'A model profile with this name already exists (MODEL_PROFILE_EXISTS)',
+      content: {
+        'application/json': {
+          schema: ErrorResponseSchema,
+        },
+      },
+    },
+  },
+  security: [{ bearerAuth: [] }],
+});
+
+// GET /api/model-profiles - List profiles
+registry.registerPath({
+  method: 'get',
+  path: '/api/model-profiles',
+  summary: 'List custom model profiles',
+  description: 'Retrieve the custom model profiles of the authenticated user',
+  tags: ['Model Profiles'],
+  responses: {
+    200: {
+      description: 'Model profiles retrieved successfully',
+      content: {
+        'application/json': {
+          schema: CustomModelProfileListResponse,
+        },
+      },
+    },
+    401: {
+      description: 'Authentication required',
+      content: {
+        'application/json': {
+          schema: ErrorResponseSchema,
+        },
+      },
+    },
+  },
+  security: [{ bearerAuth: [] }],
+});
+
+// PATCH /api/model-profiles/:id - Update profile
+registry.registerPath({
+  method: 'patch',
+  path: '/api/model-profiles/{id}',
+  summary: 'Update a custom model profile',
+  description: 'Change endpoint settings. Set api_key to null to remove the key. The name cannot be changed.',
+  tags: ['Model Profiles'],
+  request: {
+    params: ModelProfileIdParams,
+    body: {
+      content: {
+        'application/json': {
+          schema: CustomModelProfileUpdateSchema,
+        },
+      },
+    },
+  },
+  responses: {
+    200: {
+      description: 'Model profile updated successfully',
+      content: {
+        'application/json': {
+          schema: CustomModelProfileSuccessResponse,
+        },
+      },
+    },
+    400: {
+      description: 'Invalid request body, or base URL host not allowed (BASE_URL_NOT_ALLOWED)',
+      content: {
+        'application/json': {
+          schema: ErrorResponseSchema,
+        },
+      },
+    },
+    404: {
+      description: 'Model profile not found',
+      content: {
+        'application/json': {
+          schema: ErrorResponseSchema,
+        },
+      },
+    },
+  },
+  security: [{ bearerAuth: [] }],
+});
+
+// DELETE /api/model-profiles/:id - Delete profile
+registry.registerPath({
+  method: 'delete',
+  path: '/api/model-profiles/{id}',
+  summary: 'Delete a custom model profile',
+  description: 'Remove a custom model profile. Profiles still used by a pattern (as model_profile or fallback) cannot be deleted.',
+  tags: ['Model Profiles'],
+  request: {
+    params: ModelProfileIdParams,
+  },
+  responses: {
+    200: {
+      description: 'Model profile deleted successfully',
+      content: {
+        'application/json': {
+          schema: SuccessResponseSchema(z.object({ message: z.string() })),
+        },
+      },
+    },
+    404: {
+      description: 'Model profile not found',
+      content: {
+        'application/json': {
+          schema: ErrorResponseSchema,
+        },
+      },
+    },
+    409: {
+      description: 'Model profile is used by patterns (MODEL_PROFILE_IN_USE, details list them)',
+      content: {
+        'application/json': {
+          schema: ErrorResponseSchema,
+        },
+      },
+    },
+  },
+  security: [{ bearerAuth: [] }],
+});
@@ -60,6 +60,7 @@ export function generateOpenAPIDocument() {
       { name: 'Jobs', description: 'Image processing jobs and results' },
       { name: 'API Keys', description: 'API key management' },
       { name: 'Webhooks', description: 'Webhook configuration and management' },
+      { name: 'Model Profiles', description: 'Custom OpenAI-compatible model endpoints' },
       { name: 'Storage', description: 'File upload and signed URLs' },
       { name: 'System', description: 'Health checks and system status' },
       { name: 'Demo', description: 'Public demo endpoints (no authentication required)' },
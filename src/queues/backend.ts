@@ -0,0 +1,105 @@
+/**
+ * Queue backend abstraction
+ * pgmq (Postgres extension, production) or in-memory (tests, local development)
+ */
+
+import { logger } from "@/lib/logger";
+import type { Json } from "@/lib/database.types";
+import { PgmqQueueBackend } from "./pgmqBackend";
+import { MemoryQueueBackend } from "./memoryBackend";
+
+export type QueueBackendKind = "pgmq" | "memory";
+
+/**
+ * Raw message as stored by a backend (same shape as pgmq.message_record)
+ */
+export interface QueueMessage {
+  msg_id: number;
+  read_ct: number;
+  enqueued_at: string;
+  vt: string;
+  message: Json;
+}
+
+export interface QueueMetrics {
+  queue_length: number;
+  oldest_msg_age_sec: number | null;
+  newest_msg_age_sec: number | null;
+  total_messages: number; // Messages ever sent to the queue
+}
+
+/**
+ * Operations the app needs from a queue
+ * Implementations throw on backend errors; callers in queues/pgmq.ts log and degrade.
+ */
+export interface QueueBackend {
+  readonly kind: QueueBackendKind;
+
+  /** Create the queue if it does not exist */
+  createQueue(queue: string): Promise<void>;
+
+  /** Send a message, invisible for delaySeconds; returns its msg_id */
+  send(queue: string, message: Json, delaySeconds?: number): Promise<number>;
+
+  /** Read up to qty visible messages and hide them for vtSeconds (read_ct + 1) */
+  read(queue: string, vtSeconds: number, qty: number): Promise<QueueMessage[]>;
+
+  /** Set a message's visibility timeout to now + vtSeconds; false if it no longer exists */
+  setVisibility(queue: string, msgId: number, vtSeconds: number): Promise<boolean>;
+
+  /** Delete a message; false if it no longer exists */
+  delete(queue: string, msgId: number): Promise<boolean>;
+
+  /** Move a message to the queue's archive; false if it no longer exists */
+  archive(queue: string, msgId: number): Promise<boolean>;
+
+  /** List messages (or one by id) without changing their visibility, oldest first */
+  peek(
+    queue: string,
+    options?: { msgId?: number; limit?: number; offset?: number }
+  ): Promise<QueueMessage[]>;
+
+  /** Delete all messages; returns how many were deleted */
+  purge(queue: string): Promise<number>;
+
+  metrics(queue: string): Promise<QueueMetrics>;
+}
+
+let backend: QueueBackend | null = null;
+
+/**
+ * Queue backend selected by QUEUE_BACKEND ("pgmq" by default, "memory")
+ * The in-memory backend only lives as long as the process, so API and worker must share it
+ */
+export function getQueueBackend(): QueueBackend {
+  if (!backend) {
+    const kind = (process.env.QUEUE_BACKEND || "pgmq") as QueueBackendKind;
+
+    if (kind === "memory") {
+      backend = MemoryQueueBackend.shared();
+    } else {
+      if (kind !== "pgmq") {
+        logger.warn("Unknown QUEUE_BACKEND, using pgmq", { queue_backend: kind });
+      }
+      backend = new PgmqQueueBackend();
+    }
+  }
+
+  return backend;
+}
+
+/**
+ * Whether the in-repo worker drains the queues (`npm run worker` with WORKER_RUNTIME=node,
+ * or the embedded worker of QUEUE_BACKEND=memory)
+ * The Supabase Edge Function only reads the default queue, so the other lanes are not used without it
+ */
+export function usesNodeWorker(): boolean {
+  return process.env.WORKER_RUNTIME === "node" || process.env.QUEUE_BACKEND === "memory";
+}
+
+/**
+ * Replace the queue backend (integration tests)
+ */
+export function setQueueBackend(next: QueueBackend): void {
+  backend = next;
+}
@@ -0,0 +1,171 @@
+/**
+ * In-memory queue backend - pgmq semantics without Postgres extensions
+ * For integration tests and local development (QUEUE_BACKEND=memory); state is lost on restart.
+ * Reads are plain FIFO: fair share and concurrency caps need the pgmq backend.
+ */
+
+import type { Json } from "@/lib/database.types";
+import type { QueueBackend, QueueMessage, QueueMetrics } from "./backend";
+
+interface StoredMessage {
+  msg_id: number;
+  read_ct: number;
+  enqueued_at: number;
+  vt: number;
+  message: Json;
+}
+
+interface MemoryQueue {
+  lastMsgId: number;
+  messages: Map<number, StoredMessage>;
+  archive: StoredMessage[];
+}
+
+// Survives Next.js module reloads in development, so routes and the embedded worker share queues
+const globalForQueues = globalThis as unknown as { __imggoMemoryQueue?: MemoryQueueBackend };
+
+export class MemoryQueueBackend implements QueueBackend {
+  readonly kind = "memory" as const;
+
+  private queues = new Map<string, MemoryQueue>();
+
+  /**
+   * Process-wide instance (what QUEUE_BACKEND=memory uses)
+   */
+  static shared(): MemoryQueueBackend {
+    if (!globalForQueues.__imggoMemoryQueue) {
+      globalForQueues.__imggoMemoryQueue = new MemoryQueueBackend();
+    }
+    return globalForQueues.__imggoMemoryQueue;
+  }
+
+  async createQueue(queue: string): Promise<void> {
+    this.getQueue(queue);
+  }
+
+  async send(queue: string, message: Json, delaySeconds = 0): Promise<number> {
+    const q = this.getQueue(queue);
+    const now = Date.now();
+    const msgId = ++q.lastMsgId;
+
+    q.messages.set(msgId, {
+      msg_id: msgId,
+      read_ct: 0,
+      enqueued_at: now,
+      vt: now + delaySeconds * 1000,
+      message: structuredClone(message),
+    });
+
+    return msgId;
+  }
+
+  async read(queue: string, vtSeconds: number, qty: number): Promise<QueueMessage[]> {
+    const now = Date.now();
+    const visible = this.sorted(queue)
+      .filter((msg) => msg.vt <= now)
+      .slice(0, qty);
+
+    for (const msg of visible) {
+      msg.vt = now + vtSeconds * 1000;
+      msg.read_ct++;
+    }
+
+    return visible.map(toQueueMessage);
+  }
+
+  async setVisibility(queue: string, msgId: number, vtSeconds: number): Promise<boolean> {
+    const msg = this.getQueue(queue).messages.get(msgId);
+    if (!msg) {
+      return false;
+    }
+
+    msg.vt = Date.now() + vtSeconds * 1000;
+    return true;
+  }
+
+  async delete(queue: string, msgId: number): Promise<boolean> {
+    return this.getQueue(queue).messages.delete(msgId);
+  }
+
+  async archive(queue: string, msgId: number): Promise<boolean> {
+    const q = this.getQueue(queue);
+    const msg = q.messages.get(msgId);
+    if (!msg) {
+      return false;
+    }
+
+    q.messages.delete(msgId);
+    q.archive.push(msg);
+    return true;
+  }
+
+  async peek(
+    queue: string,
+    options: { msgId?: number; limit?: number; offset?: number } = {}
+  ): Promise<QueueMessage[]> {
+    const { msgId, limit = 50, offset = 0 } = options;
+
+    return this.sorted(queue)
+      .filter((msg) => msgId === undefined || msg.msg_id === msgId)
+      .slice(offset, offset + limit)
+      .map(toQueueMessage);
+  }
+
+  async purge(queue: string): Promise<number> {
+    const q = this.getQueue(queue);
+    const purged = q.messages.size;
+    q.messages.clear();
+    return purged;
+  }
+
+  async metrics(queue: string): Promise<QueueMetrics> {
+    const q = this.getQueue(queue);
+    const now = Date.now();
+    const enqueued = [...q.messages.values()].map((msg) => msg.enqueued_at);
+    const ageSec = (timestamp: number) => Math.floor((now - timestamp) / 1000);
+
+    return {
+      queue_length: q.messages.size,
+      oldest_msg_age_sec: enqueued.length > 0 ? ageSec(Math.min(...enqueued)) : null,
+      newest_msg_age_sec: enqueued.length > 0 ? ageSec(Math.max(...enqueued)) : null,
+      total_messages: q.lastMsgId,
+    };
+  }
+
+  /**
+   * Archived messages of a queue (tests)
+   */
+  getArchive(queue: string): QueueMessage[] {
+    return this.getQueue(queue).archive.map(toQueueMessage);
+  }
+
+  /**
+   * Drop all queues (tests)
+   */
+  reset(): void {
+    this.queues.clear();
+  }
+
+  private getQueue(queue: string): MemoryQueue {
+    let q = this.queues.get(queue);
+    if (!q) {
+      q = { lastMsgId: 0, messages: new Map(), archive: [] };
+      this.queues.set(queue, q);
+    }
+    return q;
+  }
+
+  private sorted(queue: string): StoredMessage[] {
+    return [...this.getQueue(queue).messages.values()].sort((a, b) => a.msg_id - b.msg_id);
+  }
+}
+
+function toQueueMessage(msg: StoredMessage): QueueMessage {
+  return {
+    msg_id: msg.msg_id,
+    read_ct: msg.read_ct,
+    enqueued_at: new Date(msg.enqueued_at).toISOString(),
+    vt: new Date(msg.vt).toISOString(),
+    message: structuredClone(msg.message),
+  };
+}
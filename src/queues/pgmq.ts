@@ -1,13 +1,48 @@
 /**
- * PGMQ (PostgreSQL Message Queue) helpers for ImgGo
- * Handles job enqueueing and dequeuing
+ * Job queue helpers for ImgGo
+ * Handles job enqueueing and dequeuing across priority lanes on the configured
+ * backend (pgmq or in-memory, see backend.ts)
  */
 
-import { supabaseServer } from "@/lib/supabase-server";
 import { logger } from "@/lib/logger";
+import type { Json } from "@/lib/database.types";
+import type { JobPriority } from "@/schemas/manifest";
+import { getQueueBackend, usesNodeWorker, type QueueMetrics } from "./backend";
 
 const QUEUE_NAME = process.env.SUPABASE_PGMQ_QUEUE || "ingest_jobs";
 
+/**
+ * Priority lanes, highest first. The default lane keeps the original queue name.
+ */
+export const QUEUE_LANES: readonly JobPriority[] = ["interactive", "default", "bulk"];
+
+// Share of worker capacity per lane when all lanes have work
+const LANE_WEIGHTS: Record<JobPriority, number> = {
+  interactive: 6,
+  default: 3,
+  bulk: 1,
+};
+
+/**
+ * pgmq queue name of a lane (default → SUPABASE_PGMQ_QUEUE, others → `<queue>_<lane>`)
+ * Without the Node worker every lane maps to the default queue, the only one the Edge Function reads
+ */
+export function getQueueName(priority: JobPriority = "default"): string {
+  return priority === "default" || !usesNodeWorker() ? QUEUE_NAME : `${QUEUE_NAME}_${priority}`;
+}
+
+/**
+ * Lanes that have a queue of their own (only the default lane without the Node worker)
+ */
+export function getActiveLanes(): readonly JobPriority[] {
+  return usesNodeWorker() ? QUEUE_LANES : ["default"];
+}
+
+/**
+ * Dead-letter queue for messages that were delivered too often (`<queue>_dlq`)
+ */
+export const DEAD_LETTER_QUEUE = `${QUEUE_NAME}_dlq`;
+
 /**
  * Job payload for the queue
  */
@@ -15,9 +50,24 @@ export interface QueueJobPayload {
   job_id: string;
   pattern_id: string;
   image_url: string;
+  image_urls?: string[]; // Multi-image jobs: all images in order (image_url is the first)
+  source_pages?: number[]; // PDF jobs: source page number of each image
   extras?: Record<string, unknown>;
 }
 
+/**
+ * Dead-letter entry: the original message plus where it came from and why it was moved
+ */
+export interface DeadLetterPayload {
+  job_id: string;
+  priority: JobPriority;
+  source_msg_id: number;
+  read_ct: number;
+  reason: string;
+  dead_lettered_at: string;
+  message: QueueJobPayload;
+}
+
 /**
  * PGMQ message envelope
  */
@@ -27,183 +77,344 @@ export interface PGMQMessage<T = QueueJobPayload> {
   enqueued_at: string;
   vt: string;
   message: T;
+  priority?: JobPriority; // Lane the message was read from (set by readPrioritizedMessages)
 }
 
 /**
- * Enqueue a job to PGMQ
+ * Create the lane queues and the dead-letter queue if they do not exist
+ */
+export async function initializeQueues(): Promise<void> {
+  const backend = getQueueBackend();
+
+  for (const queueName of [...getActiveLanes().map(getQueueName), DEAD_LETTER_QUEUE]) {
+    try {
+      await backend.createQueue(queueName);
+      logger.info("Queue initialized", { queue_name: queueName, backend: backend.kind });
+    } catch (error) {
+      logger.error("Failed to initialize queue", error, { queue_name: queueName });
+      throw error;
+    }
+  }
+}
+
+/**
+ * Enqueue a job
+ * @param delaySeconds - Keep the message invisible to workers for this long (scheduled jobs)
  */
 export async function enqueueJob(
-  payload: QueueJobPayload
+  payload: QueueJobPayload,
+  priority: JobPriority = "default",
+  delaySeconds = 0
 ): Promise<{ success: boolean; msg_id?: number; error?: string }> {
   try {
     logger.info("Enqueueing job", {
       job_id: payload.job_id,
       pattern_id: payload.pattern_id,
+      priority,
+      ...(delaySeconds > 0 && { delay_seconds: delaySeconds }),
     });
 
-    // @ts-expect-error Supabase RPC type inference limitation
-    const { data, error } = await supabaseServer.rpc("pgmq_send", {
-      queue_name: QUEUE_NAME,
-      msg: payload,
-    });
-
-    if (error) {
-      logger.error("Failed to enqueue job", error, {
-        job_id: payload.job_id,
-      });
-      return {
-        success: false,
-        error: error.message || "Failed to enqueue job",
-      };
-    }
+    const msgId = await getQueueBackend().send(
+      getQueueName(priority),
+      payload as unknown as Json,
+      delaySeconds
+    );
 
     logger.info("Job enqueued successfully", {
       job_id: payload.job_id,
-      msg_id: data,
+      msg_id: msgId,
     });
 
     return {
       success: true,
-      msg_id: data as number,
+      msg_id: msgId,
     };
   } catch (err) {
-    logger.error("Exception enqueueing job", err, {
+    logger.error("Failed to enqueue job", err, {
       job_id: payload.job_id,
     });
     return {
       success: false,
-      error: err instanceof Error ? err.message : "Unknown error",
+      error: errorMessage(err, "Failed to enqueue job"),
     };
   }
 }
 
 /**
- * Read messages from PGMQ (for worker consumption)
+ * Read messages from a lane (for worker consumption)
+ *
+ * Fair share (pgmq backend): users take turns (oldest message of each user first), and
+ * users at their concurrency cap (plans/user_plans.max_concurrent_jobs) are skipped, so
+ * one tenant's backlog cannot starve the others.
+ *
  * @param vtSeconds - Visibility timeout in seconds (message invisible to other consumers)
  * @param batchSize - Number of messages to read
+ * @param priority - Lane to read from
  */
 export async function readMessages(
   vtSeconds = 300,
-  batchSize = 10
+  batchSize = 10,
+  priority: JobPriority = "default"
 ): Promise<PGMQMessage<QueueJobPayload>[]> {
   try {
-    // @ts-expect-error Supabase RPC type inference limitation
-    const { data, error } = await supabaseServer.rpc("pgmq_read", {
-      queue_name: QUEUE_NAME,
-      vt: vtSeconds,
-      qty: batchSize,
-    });
+    const messages = await getQueueBackend().read(getQueueName(priority), vtSeconds, batchSize);
 
-    if (error) {
-      logger.error("Failed to read messages from queue", error);
-      return [];
-    }
-
-    return (data as PGMQMessage<QueueJobPayload>[]) || [];
+    return (messages as unknown as PGMQMessage<QueueJobPayload>[]).map((msg) => ({ ...msg, priority }));
   } catch (err) {
-    logger.error("Exception reading messages from queue", err);
+    logger.error("Failed to read messages from queue", err, { priority });
     return [];
   }
 }
 
 /**
- * Delete a message from PGMQ after successful processing
+ * Read up to batchSize messages across all lanes with weighted fairness
+ *
+ * Each slot is assigned to a lane with probability proportional to its weight,
+ * so bulk work keeps moving while interactive jobs get most of the capacity.
+ * Slots a lane cannot fill are handed to the other lanes (highest first).
+ * Concurrency caps are checked per read against leased jobs, so one poll can return more
+ * messages of a user than it has free slots; the worker defers those (requeueJobMessage).
  */
-export async function deleteMessage(msgId: number): Promise<boolean> {
+export async function readPrioritizedMessages(
+  vtSeconds = 300,
+  batchSize = 10
+): Promise<PGMQMessage<QueueJobPayload>[]> {
+  const shares = allocateLaneShares(batchSize, QUEUE_LANES);
+  const messages: PGMQMessage<QueueJobPayload>[] = [];
+  const drained = new Set<JobPriority>();
+
+  for (const lane of QUEUE_LANES) {
+    if (shares[lane] === 0) continue;
+    const laneMessages = await readMessages(vtSeconds, shares[lane], lane);
+    if (laneMessages.length < shares[lane]) drained.add(lane);
+    messages.push(...laneMessages);
+  }
+
+  // Work-conserving: give unused slots to lanes that still have messages
+  for (const lane of QUEUE_LANES) {
+    const remaining = batchSize - messages.length;
+    if (remaining <= 0) break;
+    if (drained.has(lane)) continue;
+    messages.push(...(await readMessages(vtSeconds, remaining, lane)));
+  }
+
+  return messages;
+}
+
+/**
+ * Split batchSize slots between lanes by weighted lottery
+ */
+function allocateLaneShares(
+  batchSize: number,
+  lanes: readonly JobPriority[]
+): Record<JobPriority, number> {
+  const shares: Record<JobPriority, number> = { interactive: 0, default: 0, bulk: 0 };
+  const totalWeight = lanes.reduce((sum, lane) => sum + LANE_WEIGHTS[lane], 0);
+
+  for (let slot = 0; slot < batchSize; slot++) {
+    let ticket = Math.random() * totalWeight;
+    const lane = lanes.find((candidate) => (ticket -= LANE_WEIGHTS[candidate]) < 0) ?? lanes[0]!;
+    shares[lane]++;
+  }
+
+  return shares;
+}
+
+/**
+ * Delete a message after successful processing
+ */
+export async function deleteMessage(
+  msgId: number,
+  priority: JobPriority = "default"
+): Promise<boolean> {
   try {
-    // @ts-expect-error Supabase RPC type inference limitation
-    const { error } = await supabaseServer.rpc("pgmq_delete", {
-      queue_name: QUEUE_NAME,
-      msg_id: msgId,
-    });
+    return await getQueueBackend().delete(getQueueName(priority), msgId);
+  } catch (err) {
+    logger.error("Failed to delete message", err, { msg_id: msgId });
+    return false;
+  }
+}
 
-    if (error) {
-      logger.error("Failed to delete message", error, { msg_id: msgId });
-      return false;
+/**
+ * Archive a message (kept for inspection instead of deleted)
+ */
+export async function archiveMessage(
+  msgId: number,
+  priority: JobPriority = "default"
+): Promise<boolean> {
+  try {
+    const archived = await getQueueBackend().archive(getQueueName(priority), msgId);
+
+    if (archived) {
+      logger.info("Message archived", { msg_id: msgId });
     }
+    return archived;
+  } catch (err) {
+    logger.error("Failed to archive message", err, { msg_id: msgId });
+    return false;
+  }
+}
 
-    return true;
+/**
+ * Set a message's visibility timeout to now + vtSeconds (lease extension while a job runs)
+ * @param vtSeconds - 0 makes the message visible to other consumers immediately
+ * @returns false if the message was deleted or archived in the meantime
+ */
+export async function extendVisibility(
+  msgId: number,
+  vtSeconds: number,
+  priority: JobPriority = "default"
+): Promise<boolean> {
+  try {
+    return await getQueueBackend().setVisibility(getQueueName(priority), msgId, vtSeconds);
   } catch (err) {
-    logger.error("Exception deleting message", err, { msg_id: msgId });
+    logger.error("Failed to extend message visibility", err, { msg_id: msgId, priority });
     return false;
   }
 }
 
 /**
- * Archive a message (move to dead letter queue) after failed processing
+ * Get queue metrics (of one lane, or of the dead-letter queue)
  */
-export async function archiveMessage(msgId: number): Promise<boolean> {
+export async function getQueueMetrics(
+  priority: JobPriority | "dead_letter" = "default"
+): Promise<QueueMetrics | null> {
   try {
-    // @ts-expect-error Supabase RPC type inference limitation
-    const { error } = await supabaseServer.rpc("pgmq_archive", {
-      queue_name: QUEUE_NAME,
-      msg_id: msgId,
-    });
+    return await getQueueBackend().metrics(
+      priority === "dead_letter" ? DEAD_LETTER_QUEUE : getQueueName(priority)
+    );
+  } catch (err) {
+    logger.error("Failed to get queue metrics", err, { priority });
+    return null;
+  }
+}
 
-    if (error) {
-      logger.error("Failed to archive message", error, { msg_id: msgId });
-      return false;
-    }
+/**
+ * Purge the queue (for testing/admin)
+ */
+export async function purgeQueue(priority: JobPriority = "default"): Promise<boolean> {
+  try {
+    await getQueueBackend().purge(getQueueName(priority));
 
-    logger.info("Message archived", { msg_id: msgId });
+    logger.warn("Queue purged", { queue_name: getQueueName(priority) });
     return true;
   } catch (err) {
-    logger.error("Exception archiving message", err, { msg_id: msgId });
+    logger.error("Failed to purge queue", err);
     return false;
   }
 }
 
 /**
- * Get queue metrics
+ * Move a message to the dead-letter queue and archive the original
+ * @param msg - Message as returned by readMessages/readPrioritizedMessages
+ * @param reason - Why the message is dead-lettered (stored with the entry)
  */
-export async function getQueueMetrics(): Promise<{
-  queue_length: number;
-  oldest_msg_age_sec: number | null;
-  newest_msg_age_sec: number | null;
-  total_messages: number;
-} | null> {
+export async function moveToDeadLetter(
+  msg: PGMQMessage<QueueJobPayload>,
+  reason: string
+): Promise<{ success: boolean; msg_id?: number; error?: string }> {
+  const priority = msg.priority ?? "default";
+
   try {
-    // @ts-expect-error Supabase RPC type inference limitation
-    const { data, error } = await supabaseServer.rpc("pgmq_metrics", {
-      queue_name: QUEUE_NAME,
+    const payload: DeadLetterPayload = {
+      job_id: msg.message.job_id,
+      priority,
+      source_msg_id: msg.msg_id,
+      read_ct: msg.read_ct,
+      reason,
+      dead_lettered_at: new Date().toISOString(),
+      message: msg.message,
+    };
+
+    const dlqMsgId = await getQueueBackend().send(DEAD_LETTER_QUEUE, payload as unknown as Json);
+
+    // Archive (not delete) so the original delivery history stays inspectable
+    await archiveMessage(msg.msg_id, priority);
+
+    logger.warn("Message moved to dead-letter queue", {
+      job_id: msg.message.job_id,
+      msg_id: msg.msg_id,
+      dlq_msg_id: dlqMsgId,
+      read_ct: msg.read_ct,
+      priority,
+      reason,
     });
 
-    if (error) {
-      logger.error("Failed to get queue metrics", error);
-      return null;
-    }
+    return { success: true, msg_id: dlqMsgId };
+  } catch (err) {
+    logger.error("Failed to move message to dead-letter queue", err, {
+      job_id: msg.message.job_id,
+      msg_id: msg.msg_id,
+    });
+    return { success: false, error: errorMessage(err, "Unknown error") };
+  }
+}
 
-    return data as {
-      queue_length: number;
-      oldest_msg_age_sec: number | null;
-      newest_msg_age_sec: number | null;
-      total_messages: number;
-    };
+/**
+ * List dead-letter entries without consuming them (oldest first)
+ */
+export async function peekDeadLetters(
+  limit = 50,
+  offset = 0
+): Promise<PGMQMessage<DeadLetterPayload>[]> {
+  try {
+    const entries = await getQueueBackend().peek(DEAD_LETTER_QUEUE, { limit, offset });
+    return entries as unknown as PGMQMessage<DeadLetterPayload>[];
   } catch (err) {
-    logger.error("Exception getting queue metrics", err);
-    return null;
+    logger.error("Failed to list dead-letter queue", err);
+    throw err;
   }
 }
 
 /**
- * Purge the queue (for testing/admin)
+ * Get one dead-letter entry by message ID
  */
-export async function purgeQueue(): Promise<boolean> {
+export async function getDeadLetter(
+  msgId: number
+): Promise<PGMQMessage<DeadLetterPayload> | null> {
   try {
-    // @ts-expect-error Supabase RPC type inference limitation
-    const { error } = await supabaseServer.rpc("pgmq_purge_queue", {
-      queue_name: QUEUE_NAME,
-    });
+    const entries = await getQueueBackend().peek(DEAD_LETTER_QUEUE, { msgId, limit: 1 });
+    return (entries as unknown as PGMQMessage<DeadLetterPayload>[])[0] ?? null;
+  } catch (err) {
+    logger.error("Failed to get dead-letter entry", err, { msg_id: msgId });
+    throw err;
+  }
+}
 
-    if (error) {
-      logger.error("Failed to purge queue", error);
-      return false;
-    }
+/**
+ * Delete one dead-letter entry
+ */
+export async function deleteDeadLetter(msgId: number): Promise<boolean> {
+  try {
+    return await getQueueBackend().delete(DEAD_LETTER_QUEUE, msgId);
+  } catch (err) {
+    logger.error("Failed to delete dead-letter entry", err, { msg_id: msgId });
+    throw err;
+  }
+}
 
-    logger.warn("Queue purged", { queue_name: QUEUE_NAME });
-    return true;
+/**
+ * Delete all dead-letter entries
+ * @returns Number of purged entries
+ */
+export async function purgeDeadLetters(): Promise<number> {
+  try {
+    const purged = await getQueueBackend().purge(DEAD_LETTER_QUEUE);
+
+    logger.warn("Dead-letter queue purged", { queue_name: DEAD_LETTER_QUEUE, purged });
+    return purged;
   } catch (err) {
-    logger.error("Exception purging queue", err);
-    return false;
+    logger.error("Failed to purge dead-letter queue", err);
+    throw err;
+  }
+}
+
+/**
+ * Message of an Error or a Supabase/PostgREST error object
+ */
+function errorMessage(err: unknown, fallback: string): string {
+  if (err && typeof err === "object" && "message" in err && typeof err.message === "string") {
+    return err.message;
   }
+  return fallback;
 }
@@ -0,0 +1,134 @@
+/**
+ * pgmq queue backend - Supabase RPC wrappers around the pgmq extension
+ * See db/migrations/PGMQ_COMPLETE_FIX.sql and 049-052 for the SQL side
+ */
+
+import { supabaseServer } from "@/lib/supabase-server";
+import type { Json } from "@/lib/database.types";
+import type { QueueBackend, QueueMessage, QueueMetrics } from "./backend";
+
+export class PgmqQueueBackend implements QueueBackend {
+  readonly kind = "pgmq" as const;
+
+  async createQueue(queue: string): Promise<void> {
+    const { error } = await supabaseServer.rpc("pgmq_create", { queue_name: queue });
+
+    if (error && !error.message.includes("already exists")) {
+      throw error;
+    }
+  }
+
+  async send(queue: string, message: Json, delaySeconds = 0): Promise<number> {
+    const { data, error } = await supabaseServer.rpc("pgmq_send", {
+      queue_name: queue,
+      msg: message,
+      ...(delaySeconds > 0 && { delay: delaySeconds }),
+    });
+
+    if (error) {
+      throw error;
+    }
+
+    return data as number;
+  }
+
+  async read(queue: string, vtSeconds: number, qty: number): Promise<QueueMessage[]> {
+    // Fair share per user and concurrency caps (migration 052)
+    const { data, error } = await supabaseServer.rpc("pgmq_read_fair", {
+      queue_name: queue,
+      vt: vtSeconds,
+      qty,
+    });
+
+    if (error) {
+      throw error;
+    }
+
+    return (data as QueueMessage[]) || [];
+  }
+
+  async setVisibility(queue: string, msgId: number, vtSeconds: number): Promise<boolean> {
+    const { data, error } = await supabaseServer.rpc("pgmq_set_vt", {
+      queue_name: queue,
+      msg_id: msgId,
+      vt: vtSeconds,
+    });
+
+    if (error) {
+      throw error;
+    }
+
+    // No row back: the message was deleted or archived in the meantime
+    return Array.isArray(data) && data.length > 0;
+  }
+
+  async delete(queue: string, msgId: number): Promise<boolean> {
+    const { data, error } = await supabaseServer.rpc("pgmq_delete", {
+      queue_name: queue,
+      msg_id: msgId,
+    });
+
+    if (error) {
+      throw error;
+    }
+
+    return data === true;
+  }
+
+  async archive(queue: string, msgId: number): Promise<boolean> {
+    const { data, error } = await supabaseServer.rpc("pgmq_archive", {
+      queue_name: queue,
+      msg_id: msgId,
+    });
+
+    if (error) {
+      throw error;
+    }
+
+    return data === true;
+  }
+
+  async peek(
+    queue: string,
+    options: { msgId?: number; limit?: number; offset?: number } = {}
+  ): Promise<QueueMessage[]> {
+    const { data, error } = await supabaseServer.rpc("pgmq_peek", {
+      queue_name: queue,
+      ...(options.msgId !== undefined && { p_msg_id: options.msgId }),
+      qty: options.limit ?? 50,
+      p_offset: options.offset ?? 0,
+    });
+
+    if (error) {
+      throw error;
+    }
+
+    return (data as QueueMessage[]) || [];
+  }
+
+  async purge(queue: string): Promise<number> {
+    const { data, error } = await supabaseServer.rpc("pgmq_purge_queue", { queue_name: queue });
+
+    if (error) {
+      throw error;
+    }
+
+    return data ?? 0;
+  }
+
+  async metrics(queue: string): Promise<QueueMetrics> {
+    const { data, error } = await supabaseServer.rpc("pgmq_metrics", { q_name: queue });
+
+    if (error) {
+      throw error;
+    }
+
+    const row = Array.isArray(data) ? data[0] : data;
+    return {
+      queue_length: row?.queue_length ?? 0,
+      oldest_msg_age_sec: row?.oldest_msg_age_sec ?? null,
+      newest_msg_age_sec: row?.newest_msg_age_sec ?? null,
+      total_messages: row?.total_messages ?? 0,
+    };
+  }
+}
@@ -0,0 +1,275 @@
+/**
+ * Long-running queue worker for self-hosted deployments (replaces the Supabase Edge Function)
+ * Polls the priority lanes, runs processImage and keeps message leases alive while jobs run
+ */
+
+import { hostname } from "os";
+import { supabaseServer } from "@/lib/supabase-server";
+import { logger } from "@/lib/logger";
+import {
+  PGMQMessage,
+  QueueJobPayload,
+  readPrioritizedMessages,
+  deleteMessage,
+  extendVisibility,
+} from "@/queues/pgmq";
+import { isTerminalJobStatus } from "@/schemas/manifest";
+import { screenMessages } from "@/services/deadLetterService";
+import {
+  claimJobLease,
+  expireStaleJobs,
+  releaseJobLease,
+  requeueJobMessage,
+} from "@/services/jobService";
+import { processImage } from "@/services/imageProcessingService";
+
+// Delay before a job skipped for its owner's concurrency cap is offered again
+const CAPACITY_RETRY_SECONDS = 5;
+
+// How often the worker sends job.expired for jobs expired by the database cron
+const EXPIRY_SWEEP_INTERVAL_MS = 60_000;
+
+// Delay before a crashed embedded worker is started again
+const EMBEDDED_RESTART_DELAY_MS = 5000;
+
+export interface WorkerOptions {
+  workerId: string; // Lease owner recorded on jobs (unique per process)
+  concurrency: number; // Jobs processed at the same time
+  visibilityTimeoutSeconds: number; // Lease per read; extended while the job runs
+  pollIntervalMs: number; // Wait between reads when all lanes are empty
+  shutdownTimeoutMs: number; // How long SIGTERM waits for in-flight jobs
+}
+
+/**
+ * Worker options from WORKER_* environment variables
+ */
+export function getWorkerOptionsFromEnv(): WorkerOptions {
+  return {
+    workerId: process.env.WORKER_ID || `${hostname()}:${process.pid}`,
+    concurrency: Math.max(1, Number(process.env.WORKER_CONCURRENCY || 4)),
+    visibilityTimeoutSeconds: Math.max(10, Number(process.env.WORKER_VISIBILITY_TIMEOUT || 120)),
+    pollIntervalMs: Number(process.env.WORKER_POLL_INTERVAL_MS || 1000),
+    shutdownTimeoutMs: Number(process.env.WORKER_SHUTDOWN_TIMEOUT_MS || 30000),
+  };
+}
+
+/**
+ * Run the worker until the signal is aborted, then wait for in-flight jobs
+ *
+ * Each job is leased to this worker (jobs.lease_owner) before processImage runs, so a
+ * duplicate delivery of a job another worker is still on is deferred instead of re-run.
+ * Deferred messages (lease held elsewhere, owner at its concurrency cap) are sent again
+ * as fresh messages, so waiting does not count towards QUEUE_MAX_DELIVERIES.
+ * Messages are deleted once processImage has recorded the outcome. A message whose
+ * handling throws stays in its lane and is delivered again after the visibility
+ * timeout (and dead-lettered after QUEUE_MAX_DELIVERIES).
+ * Once a minute it also sweeps expired jobs, so their owners get job.expired.
+ *
+ * @returns false if in-flight jobs were abandoned at the shutdown timeout
+ */
+export async function runWorker(options: WorkerOptions, signal: AbortSignal): Promise<boolean> {
+  const inFlight = new Map<Promise<void>, PGMQMessage<QueueJobPayload>>();
+  let lastExpirySweep = 0;
+
+  logger.info("Queue worker started", { ...options });
+
+  while (!signal.aborted) {
+    if (Date.now() - lastExpirySweep >= EXPIRY_SWEEP_INTERVAL_MS) {
+      lastExpirySweep = Date.now();
+      await expireStaleJobs().catch((error) => {
+        logger.warn("Expiry sweep failed", {
+          error: error instanceof Error ? error.message : String(error),
+        });
+      });
+    }
+
+    const free = options.concurrency - inFlight.size;
+    if (free <= 0) {
+      await Promise.race(inFlight.keys());
+      continue;
+    }
+
+    const read = await readPrioritizedMessages(options.visibilityTimeoutSeconds, free);
+    const messages = await screenMessages(read);
+
+    for (const msg of messages) {
+      const task: Promise<void> = handleMessage(msg, options).finally(() => {
+        inFlight.delete(task);
+      });
+      inFlight.set(task, msg);
+    }
+
+    if (read.length === 0) {
+      await sleep(options.pollIntervalMs, signal);
+    }
+  }
+
+  logger.info("Queue worker stopping, waiting for in-flight jobs", {
+    in_flight: inFlight.size,
+  });
+
+  const drained = await Promise.race([
+    Promise.all(inFlight.keys()).then(() => true),
+    sleep(options.shutdownTimeoutMs).then(() => false),
+  ]);
+
+  if (!drained) {
+    // Hand the jobs back right away instead of waiting out their lease
+    for (const msg of inFlight.values()) {
+      await releaseJobLease(msg.message.job_id, options.workerId);
+      await extendVisibility(msg.msg_id, 0, msg.priority);
+    }
+
+    logger.warn("Shutdown timeout reached, in-flight jobs released to the queue", {
+      abandoned: inFlight.size,
+      job_ids: [...inFlight.values()].map((msg) => msg.message.job_id),
+    });
+  }
+
+  logger.info("Queue worker stopped", { drained });
+  return drained;
+}
+
+/**
+ * Process one message; every half lease the heartbeat extends both the message
+ * visibility timeout and the job lease. If another worker took the lease over,
+ * processing is aborted and the message is left to that worker.
+ */
+async function handleMessage(
+  msg: PGMQMessage<QueueJobPayload>,
+  options: WorkerOptions
+): Promise<void> {
+  const { job_id: jobId, pattern_id: patternId } = msg.message;
+  const priority = msg.priority ?? "default";
+  const logContext = { job_id: jobId, msg_id: msg.msg_id, priority, read_ct: msg.read_ct };
+
+  const leaseSeconds = options.visibilityTimeoutSeconds;
+  let leased = false;
+  const leaseLost = new AbortController();
+
+  const heartbeat = setInterval(() => {
+    if (leaseLost.signal.aborted) return;
+    void extendVisibility(msg.msg_id, leaseSeconds, priority);
+    if (leased) {
+      void claimJobLease(jobId, options.workerId, leaseSeconds)
+        .then((claim) => {
+          if (claim === "held") {
+            logger.warn("Job lease lost to another worker, abandoning the job", logContext);
+            leaseLost.abort();
+          }
+        })
+        .catch(() => undefined);
+    }
+  }, (leaseSeconds * 1000) / 2);
+
+  try {
+    const { data: job, error } = await supabaseServer
+      .from("jobs")
+      .select("status, patterns!inner(user_id)")
+      .eq("id", jobId)
+      .maybeSingle();
+
+    if (error) {
+      throw error;
+    }
+
+    if (!job) {
+      logger.warn("Job of queue message not found, dropping message", logContext);
+      await deleteMessage(msg.msg_id, priority);
+      return;
+    }
+
+    // Redelivery of a job that already finished (e.g. the worker died before deleting)
+    if (isTerminalJobStatus(job.status)) {
+      logger.info("Job already finished, dropping message", { ...logContext, status: job.status });
+      await deleteMessage(msg.msg_id, priority);
+      return;
+    }
+
+    const claim = await claimJobLease(jobId, options.workerId, leaseSeconds);
+    if (claim === "finished") {
+      await deleteMessage(msg.msg_id, priority);
+      return;
+    }
+    if (claim === "held") {
+      // Duplicate of a job another worker is on: look again once its lease could have run out
+      logger.info("Job is leased by another worker, deferring message", logContext);
+      await requeueJobMessage(msg, leaseSeconds);
+      return;
+    }
+    if (claim === "at_capacity") {
+      // The fair read counts leased jobs only, so the lanes of one poll (and other workers)
+      // can hand out more messages of a user than it has free slots
+      logger.info("Job owner at concurrency cap, deferring message", logContext);
+      if (!(await requeueJobMessage(msg, CAPACITY_RETRY_SECONDS))) {
+        await extendVisibility(msg.msg_id, CAPACITY_RETRY_SECONDS, priority);
+      }
+      return;
+    }
+    leased = true;
+
+    const patterns = job.patterns as unknown as { user_id: string };
+
+    await processImage({
+      jobId,
+      patternId,
+      imageUrl: msg.message.image_url,
+      imageUrls: msg.message.image_urls,
+      sourcePages: msg.message.source_pages,
+      userId: patterns.user_id,
+      signal: leaseLost.signal,
+    });
+
+    // The job (and its message) belong to the worker that took the lease over
+    if (leaseLost.signal.aborted) {
+      return;
+    }
+
+    // Success, failure and cancellation are all recorded on the job by now
+    await deleteMessage(msg.msg_id, priority);
+  } catch (error) {
+    logger.error("Exception handling queue message, leaving it for redelivery", error, logContext);
+  } finally {
+    clearInterval(heartbeat);
+    if (leased) {
+      await releaseJobLease(jobId, options.workerId);
+    }
+  }
+}
+
+// One embedded worker per process, also across Next.js module reloads
+const globalForWorker = globalThis as unknown as { __imggoEmbeddedWorker?: Promise<boolean> };
+
+/**
+ * Run a worker inside the app process (QUEUE_BACKEND=memory, see instrumentation.ts)
+ * The in-memory queue is not shared between processes, so `npm run worker` cannot drain it
+ */
+export function startEmbeddedWorker(): void {
+  if (globalForWorker.__imggoEmbeddedWorker) {
+    return;
+  }
+
+  globalForWorker.__imggoEmbeddedWorker = runWorker(
+    getWorkerOptionsFromEnv(),
+    new AbortController().signal
+  ).catch(async (error) => {
+    // Nothing else drains the in-memory queue, so the worker is started again
+    logger.error("Embedded queue worker crashed, restarting", error);
+    await sleep(EMBEDDED_RESTART_DELAY_MS);
+    globalForWorker.__imggoEmbeddedWorker = undefined;
+    startEmbeddedWorker();
+    return false;
+  });
+}
+
+function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve) => {
+    const done = () => {
+      clearTimeout(timer);
+      signal?.removeEventListener("abort", done);
+      resolve();
+    };
+    const timer = setTimeout(done, ms);
+    signal?.addEventListener("abort", done, { once: true });
+  });
+}
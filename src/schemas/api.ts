@@ -137,13 +137,27 @@ export type CreateSignedUploadUrlResponse = z.infer<
   typeof CreateSignedUploadUrlResponseSchema
 >;
 
+/**
+ * Webhook events a user can subscribe to
+ */
+export const WebhookEventSchema = z.enum([
+  "job.succeeded",
+  "job.failed",
+  "job.cancelled",
+  "job.expired",
+  "batch.completed",
+  "export.ready",
+]);
+
+export type WebhookEvent = z.infer<typeof WebhookEventSchema>;
+
 /**
  * Webhook registration
  */
 export const WebhookCreateSchema = z.object({
   url: z.string().url("Invalid webhook URL"),
   events: z
-    .array(z.enum(["job.succeeded", "job.failed"]))
+    .array(WebhookEventSchema)
     .min(1, "At least one event required")
     .default(["job.succeeded", "job.failed"]),
   secret: z.string().min(16, "Secret must be at least 16 characters").optional(),
@@ -160,7 +174,7 @@ export type WebhookCreateInput = z.infer<typeof WebhookCreateSchema>;
 
 export const WebhookUpdateSchema = z.object({
   url: z.string().url("Invalid webhook URL").optional(),
-  events: z.array(z.enum(["job.succeeded", "job.failed"])).optional(),
+  events: z.array(WebhookEventSchema).optional(),
   is_active: z.boolean().optional(),
 });
 
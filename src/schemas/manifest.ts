@@ -12,30 +12,120 @@ extendZodWithOpenApi(z);
  * Job statuses
  */
 export const JobStatusSchema = z.enum([
+  "scheduled",
   "queued",
   "running",
   "succeeded",
   "failed",
+  "cancelled",
+  "expired",
 ]);
 export type JobStatus = z.infer<typeof JobStatusSchema>;
 
+/**
+ * Terminal job statuses (immutable once reached)
+ */
+export const TERMINAL_JOB_STATUSES: readonly JobStatus[] = [
+  "succeeded",
+  "failed",
+  "cancelled",
+  "expired",
+];
+
+export function isTerminalJobStatus(status: string): boolean {
+  return (TERMINAL_JOB_STATUSES as readonly string[]).includes(status);
+}
+
+/**
+ * Queue lane of a job, highest first
+ * interactive: user-facing requests, default: regular API traffic, bulk: backfills
+ */
+export const JobPrioritySchema = z.enum(["interactive", "default", "bulk"]).openapi('JobPriority', {
+  description: 'Queue lane. Lanes are drained with weighted fairness (interactive > default > bulk). Capped by plan: requests above the plan maximum run at the plan maximum.',
+  example: 'default',
+});
+export type JobPriority = z.infer<typeof JobPrioritySchema>;
+
+const PRIORITY_RANK: Record<JobPriority, number> = { bulk: 0, default: 1, interactive: 2 };
+
+/**
+ * Lower a requested priority to the highest lane the plan allows
+ */
+export function capJobPriority(requested: JobPriority, max: JobPriority): JobPriority {
+  return PRIORITY_RANK[requested] > PRIORITY_RANK[max] ? max : requested;
+}
+
 /**
  * Generic manifest schema (will be validated against pattern's JSON schema)
  */
 export const ManifestSchema = z.record(z.unknown());
 export type Manifest = z.infer<typeof ManifestSchema>;
 
+/**
+ * Job attempt (one finished processing run of a job)
+ */
+export const JobAttemptSchema = z.object({
+  attempt_number: z.number().int(),
+  status: JobStatusSchema,
+  error: z.string().nullable(),
+  latency_ms: z.number().int().nullable(),
+  tokens_input: z.number().int().nullable(),
+  tokens_output: z.number().int().nullable(),
+  tokens_total: z.number().int().nullable(),
+  pattern_version: z.number().int().nullable(),
+  started_at: z.string().datetime().nullable(),
+  completed_at: z.string().datetime().nullable(),
+}).openapi('JobAttempt', {
+  description: 'A finished processing attempt of a job',
+  example: {
+    attempt_number: 1,
+    status: 'failed',
+    error: 'Request timed out',
+    latency_ms: 25000,
+    tokens_input: null,
+    tokens_output: null,
+    tokens_total: null,
+    pattern_version: 3,
+    started_at: '2025-01-15T10:00:00.100Z',
+    completed_at: '2025-01-15T10:00:25.100Z'
+  }
+});
+
+export type JobAttempt = z.infer<typeof JobAttemptSchema>;
+
 /**
  * Job entity
  */
 export const JobSchema = z.object({
   id: z.string().uuid(),
   pattern_id: z.string().uuid(),
+  pattern_version: z.number().int().nullable().optional().openapi({
+    description: 'Pattern version the manifest was produced with (set when processing starts)',
+  }),
+  reprocess_of: z.string().uuid().nullable().optional().openapi({
+    description: 'Original job, if this job reprocesses it under another pattern version',
+  }),
   image_url: z.string().url(),
+  image_urls: z.array(z.string().url()).nullable().optional(),
+  source_pages: z.array(z.number().int()).nullable().optional(),
   status: JobStatusSchema,
+  priority: JobPrioritySchema.optional(),
+  scheduled_for: z.string().datetime().nullable().optional(),
+  expires_at: z.string().datetime().nullable().optional(),
   manifest: ManifestSchema.nullable(),
+  manifest_page_sources: z.record(z.number().int().nullable()).nullable().optional(),
+  manifest_confidence: z.record(z.unknown()).nullable().optional().openapi({
+    description: 'Per-field confidence, returned with ?include=confidence for patterns with field_confidence. Mirrors the manifest: each value becomes { confidence: 0-1, not_visible: boolean }',
+  }),
   error: z.string().nullable(),
+  error_code: z.string().nullable().optional(),
   latency_ms: z.number().int().nullable(),
+  provider: z.string().nullable().optional().openapi({
+    description: 'Model provider that served the job (differs from the pattern model profile after a failover)',
+  }),
+  provider_model: z.string().nullable().optional().openapi({
+    description: 'Model that produced the manifest',
+  }),
   created_at: z.string().datetime(),
   updated_at: z.string().datetime(),
   started_at: z.string().datetime().nullable(),
@@ -43,13 +133,22 @@ export const JobSchema = z.object({
   idempotency_key: z.string().nullable(),
   requested_by: z.string().uuid().nullable(),
   extras: z.record(z.unknown()).nullable(),
+  retry_count: z.number().int().optional(),
+  content_hash: z.string().nullable().optional(),
+  cache_hit: z.boolean().optional(),
+  attempts: z.array(JobAttemptSchema).optional(),
 }).openapi('Job', {
   description: 'Job entity representing an image processing task',
   example: {
     id: '770e8400-e29b-41d4-a716-446655440000',
     pattern_id: '550e8400-e29b-41d4-a716-446655440000',
+    pattern_version: 3,
+    reprocess_of: null,
     image_url: 'https://storage.imggo.ai/uploads/product-image.jpg',
+    image_urls: null,
+    source_pages: null,
     status: 'succeeded',
+    priority: 'default',
     manifest: {
       product_name: 'Wireless Mouse',
       brand: 'Logitech',
@@ -58,6 +157,8 @@ export const JobSchema = z.object({
     },
     error: null,
     latency_ms: 1250,
+    provider: 'openai',
+    provider_model: 'gpt-4o-2024-08-06',
     created_at: '2025-01-15T10:00:00Z',
     updated_at: '2025-01-15T10:00:01.250Z',
     started_at: '2025-01-15T10:00:00.100Z',
@@ -66,24 +167,153 @@ export const JobSchema = z.object({
     requested_by: '660e8400-e29b-41d4-a716-446655440000',
     extras: {
       source: 'mobile-app'
-    }
+    },
+    retry_count: 0,
+    cache_hit: false,
+    attempts: [
+      {
+        attempt_number: 1,
+        status: 'succeeded',
+        error: null,
+        latency_ms: 1250,
+        tokens_input: 1100,
+        tokens_output: 85,
+        tokens_total: 1185,
+        pattern_version: 3,
+        started_at: '2025-01-15T10:00:00.100Z',
+        completed_at: '2025-01-15T10:00:01.250Z'
+      }
+    ]
   }
 });
 
 export type Job = z.infer<typeof JobSchema>;
 
 /**
- * Ingest request (image URL)
+ * Max images in one multi-image job (e.g. front + back, receipt pages)
+ */
+export const MAX_IMAGES_PER_JOB = 10;
+
+/**
+ * Crop region in pixels of the (auto-rotated) uploaded image
+ */
+export const CropRegionSchema = z.object({
+  left: z.number().int().min(0),
+  top: z.number().int().min(0),
+  width: z.number().int().positive(),
+  height: z.number().int().positive(),
+}).strict().openapi('CropRegion', {
+  description: 'Region to keep, in pixels of the uploaded image after EXIF rotation. Applied to every uploaded image of the job.',
+  example: { left: 120, top: 80, width: 1600, height: 900 },
+});
+
+export type CropRegion = z.infer<typeof CropRegionSchema>;
+
+/**
+ * Longest a job can be scheduled ahead (pgmq delay is in seconds)
+ */
+export const MAX_SCHEDULE_DELAY_SECONDS = 7 * 24 * 60 * 60; // 7 days
+
+const JobScheduleFields = {
+  process_at: z
+    .string()
+    .datetime({ offset: true, message: "process_at must be an ISO 8601 timestamp" })
+    .optional()
+    .openapi({ description: 'Do not process before this time (ISO 8601). Max 7 days ahead.', example: '2026-10-20T01:00:00Z' }),
+  delay_seconds: z
+    .number()
+    .int()
+    .min(1)
+    .max(MAX_SCHEDULE_DELAY_SECONDS, "delay_seconds cannot exceed 7 days")
+    .optional()
+    .openapi({ description: 'Do not process before this many seconds from now. Max 7 days.', example: 3600 }),
+};
+
+const onlyOneSchedule = (data: { process_at?: string; delay_seconds?: number }) =>
+  data.process_at === undefined || data.delay_seconds === undefined;
+const onlyOneScheduleMessage = {
+  message: "Provide either process_at or delay_seconds, not both",
+  path: ["process_at"],
+};
+
+/**
+ * Deferred execution (multipart form fields are parsed with this)
+ */
+export const JobScheduleSchema = z
+  .object(JobScheduleFields)
+  .refine(onlyOneSchedule, onlyOneScheduleMessage);
+
+export type JobSchedule = z.infer<typeof JobScheduleSchema>;
+
+/**
+ * Longest a job may wait in the queue before it expires
+ */
+export const MAX_JOB_TTL_SECONDS = 7 * 24 * 60 * 60; // 7 days
+
+export const JobTtlSchema = z
+  .number()
+  .int()
+  .min(1)
+  .max(MAX_JOB_TTL_SECONDS, "expires_in_seconds cannot exceed 7 days");
+
+/**
+ * Turn process_at / delay_seconds into a pgmq delay
+ * Returns null when the job should run now (nothing requested, or process_at already passed)
+ */
+export function resolveJobSchedule(
+  schedule: JobSchedule,
+  now: number = Date.now()
+):
+  | { schedule: { scheduledFor: Date; delaySeconds: number } | null; error: null }
+  | { schedule: null; error: string } {
+  const delaySeconds =
+    schedule.delay_seconds ??
+    (schedule.process_at !== undefined
+      ? Math.ceil((Date.parse(schedule.process_at) - now) / 1000)
+      : 0);
+
+  if (delaySeconds > MAX_SCHEDULE_DELAY_SECONDS) {
+    return { schedule: null, error: "process_at cannot be more than 7 days in the future" };
+  }
+
+  if (delaySeconds <= 0) {
+    return { schedule: null, error: null };
+  }
+
+  return {
+    schedule: { scheduledFor: new Date(now + delaySeconds * 1000), delaySeconds },
+    error: null,
+  };
+}
+
+/**
+ * Ingest request (image URL, or ordered list of image URLs for one manifest)
  */
 export const IngestRequestSchema = z.object({
-  image_url: z.string().url("Invalid image URL"),
+  image_url: z.string().url("Invalid image URL").optional(),
+  image_urls: z
+    .array(z.string().url("Invalid image URL"))
+    .min(1, "At least one image URL required")
+    .max(MAX_IMAGES_PER_JOB, `A job cannot contain more than ${MAX_IMAGES_PER_JOB} images`)
+    .optional(),
+  image_base64: z.string().min(1, "Image data is empty").optional(),
+  crop: CropRegionSchema.optional(),
+  priority: JobPrioritySchema.optional(),
+  ...JobScheduleFields,
+  expires_in_seconds: JobTtlSchema.optional().openapi({
+    description: 'Expire the job if processing has not started this many seconds after it became due (default: pattern job_ttl_seconds)',
+    example: 3600,
+  }),
   extras: z.record(z.unknown()).optional(),
   idempotency_key: z
     .string()
     .regex(/^[a-zA-Z0-9_-]{1,255}$/, "Invalid idempotency key format")
     .optional(),
-}).openapi('IngestRequest', {
-  description: 'Request body for submitting an image for processing',
+}).refine(
+  (data) => [data.image_url, data.image_urls, data.image_base64].filter(Boolean).length === 1,
+  { message: "Provide exactly one of image_url, image_urls or image_base64", path: ["image_url"] }
+).refine(onlyOneSchedule, onlyOneScheduleMessage).openapi('IngestRequest', {
+  description: 'Request body for submitting an image for processing. Use `image_urls` to send several images (in order) of the same subject that should produce a single manifest. Images without a public URL can be sent inline as `image_base64` (raw base64 or a `data:image/...;base64,` URI); `data:` URIs are also accepted in `image_url`/`image_urls`. Inline images are preprocessed like uploads; `crop` only applies to inline images.',
   example: {
     image_url: 'https://storage.imggo.ai/uploads/product-image.jpg',
     extras: {
@@ -102,11 +332,109 @@ export type IngestRequest = z.infer<typeof IngestRequestSchema>;
 export const IngestResponseSchema = z.object({
   job_id: z.string().uuid(),
   status: JobStatusSchema,
+  priority: JobPrioritySchema.optional(),
+  scheduled_for: z.string().datetime().optional(),
   message: z.string().optional(),
 });
 
 export type IngestResponse = z.infer<typeof IngestResponseSchema>;
 
+/**
+ * Batch ingest limits
+ */
+export const MAX_BATCH_SIZE = 100;
+
+/**
+ * Batch ingest request (many image URLs, one batch)
+ */
+export const BatchIngestRequestSchema = z.object({
+  image_urls: z
+    .array(z.string().url("Invalid image URL"))
+    .min(1, "At least one image URL required")
+    .max(MAX_BATCH_SIZE, `A batch cannot contain more than ${MAX_BATCH_SIZE} images`),
+  priority: JobPrioritySchema.optional(),
+  ...JobScheduleFields,
+  expires_in_seconds: JobTtlSchema.optional().openapi({
+    description: 'Expire the job if processing has not started this many seconds after it became due (default: pattern job_ttl_seconds)',
+    example: 3600,
+  }),
+  extras: z.record(z.unknown()).optional(),
+}).refine(onlyOneSchedule, onlyOneScheduleMessage).openapi('BatchIngestRequest', {
+  description: 'Request body for submitting several images as one batch',
+  example: {
+    image_urls: [
+      'https://storage.imggo.ai/uploads/shelf-001.jpg',
+      'https://storage.imggo.ai/uploads/shelf-002.jpg'
+    ],
+    extras: {
+      store_id: 'store_42'
+    }
+  }
+});
+
+export type BatchIngestRequest = z.infer<typeof BatchIngestRequestSchema>;
+
+/**
+ * Batch statuses
+ */
+export const BatchStatusSchema = z.enum(["processing", "completed"]);
+export type BatchStatus = z.infer<typeof BatchStatusSchema>;
+
+/**
+ * Aggregate job counts for a batch
+ */
+export const BatchJobCountsSchema = z.object({
+  scheduled: z.number().int(),
+  queued: z.number().int(),
+  running: z.number().int(),
+  succeeded: z.number().int(),
+  failed: z.number().int(),
+  cancelled: z.number().int(),
+  expired: z.number().int(),
+  total: z.number().int(),
+});
+
+export type BatchJobCounts = z.infer<typeof BatchJobCountsSchema>;
+
+/**
+ * Batch entity
+ */
+export const BatchSchema = z.object({
+  id: z.string().uuid(),
+  pattern_id: z.string().uuid(),
+  status: BatchStatusSchema,
+  total_jobs: z.number().int(),
+  counts: BatchJobCountsSchema,
+  extras: z.record(z.unknown()).nullable(),
+  created_at: z.string().datetime(),
+  updated_at: z.string().datetime(),
+  completed_at: z.string().datetime().nullable(),
+}).openapi('Batch', {
+  description: 'Batch of jobs submitted together, with aggregate progress',
+  example: {
+    id: 'aa0e8400-e29b-41d4-a716-446655440000',
+    pattern_id: '550e8400-e29b-41d4-a716-446655440000',
+    status: 'processing',
+    total_jobs: 3,
+    counts: {
+      scheduled: 0,
+      queued: 1,
+      running: 1,
+      succeeded: 1,
+      failed: 0,
+      cancelled: 0,
+      expired: 0,
+      total: 3
+    },
+    extras: null,
+    created_at: '2025-01-15T10:00:00Z',
+    updated_at: '2025-01-15T10:00:00Z',
+    completed_at: null
+  }
+});
+
+export type Batch = z.infer<typeof BatchSchema>;
+
 /**
  * Job result (for webhooks and polling)
  */
@@ -127,7 +455,7 @@ export type JobResult = z.infer<typeof JobResultSchema>;
  * Webhook payload
  */
 export const WebhookPayloadSchema = z.object({
-  event: z.enum(["job.succeeded", "job.failed"]),
+  event: z.enum(["job.succeeded", "job.failed", "job.cancelled", "job.expired"]),
   job_id: z.string().uuid(),
   pattern_id: z.string().uuid(),
   manifest: ManifestSchema.nullable(),
@@ -137,6 +465,205 @@ export const WebhookPayloadSchema = z.object({
 
 export type WebhookPayload = z.infer<typeof WebhookPayloadSchema>;
 
+/**
+ * Batch webhook payload
+ */
+export const BatchWebhookPayloadSchema = z.object({
+  event: z.literal("batch.completed"),
+  batch_id: z.string().uuid(),
+  pattern_id: z.string().uuid(),
+  counts: BatchJobCountsSchema,
+  timestamp: z.string().datetime(),
+});
+
+export type BatchWebhookPayload = z.infer<typeof BatchWebhookPayloadSchema>;
+
+/**
+ * Maximum number of jobs in one export
+ */
+export const MAX_EXPORT_JOBS = 50000;
+
+/**
+ * Export file formats
+ * ndjson: one job per line, csv/xlsx: one merged table, zip: one file per job in the pattern's format
+ */
+export const ExportFormatSchema = z.enum(["ndjson", "csv", "xlsx", "zip"]);
+export type ExportFormat = z.infer<typeof ExportFormatSchema>;
+
+export const ExportStatusSchema = z.enum(["queued", "running", "succeeded", "failed"]);
+export type ExportStatus = z.infer<typeof ExportStatusSchema>;
+
+/**
+ * Job filters of an export
+ */
+export const ExportFiltersSchema = z.object({
+  status: z.array(JobStatusSchema).min(1).optional().openapi({
+    description: 'Job statuses to include (default: succeeded)',
+  }),
+  created_after: z.string().datetime({ offset: true }).optional(),
+  created_before: z.string().datetime({ offset: true }).optional(),
+});
+
+export type ExportFilters = Omit<z.infer<typeof ExportFiltersSchema>, "status"> & {
+  status: JobStatus[];
+};
+
+/**
+ * Apply the default filters (succeeded jobs only)
+ */
+export function resolveExportFilters(
+  filters: z.infer<typeof ExportFiltersSchema> = {}
+): ExportFilters {
+  return { ...filters, status: filters.status ?? ["succeeded"] };
+}
+
+/**
+ * Export request
+ */
+export const ExportCreateRequestSchema = z.object({
+  pattern_id: z.string().uuid(),
+  format: ExportFormatSchema,
+  filters: ExportFiltersSchema.optional(),
+}).refine(
+  (data) =>
+    !data.filters?.created_after ||
+    !data.filters.created_before ||
+    new Date(data.filters.created_after) < new Date(data.filters.created_before),
+  { message: "created_after must be before created_before", path: ["filters", "created_after"] }
+).openapi('ExportCreateRequest', {
+  description: 'Export the job results of a pattern as one downloadable file. Only jobs that have a manifest are written to csv, xlsx and zip exports.',
+  example: {
+    pattern_id: '550e8400-e29b-41d4-a716-446655440000',
+    format: 'csv',
+    filters: {
+      status: ['succeeded'],
+      created_after: '2025-01-01T00:00:00Z',
+      created_before: '2025-02-01T00:00:00Z'
+    }
+  }
+});
+
+export type ExportCreateRequest = z.infer<typeof ExportCreateRequestSchema>;
+
+/**
+ * Export entity
+ */
+export const ExportSchema = z.object({
+  id: z.string().uuid(),
+  pattern_id: z.string().uuid().nullable(),
+  format: ExportFormatSchema,
+  filters: ExportFiltersSchema,
+  status: ExportStatusSchema,
+  job_count: z.number().int().nullable(),
+  file_size_bytes: z.number().int().nullable(),
+  download_url: z.string().url().nullable(),
+  download_expires_at: z.string().datetime().nullable(),
+  error: z.string().nullable(),
+  created_at: z.string().datetime(),
+  completed_at: z.string().datetime().nullable(),
+}).openapi('Export', {
+  description: 'Bulk export of job results. download_url is a short-lived signed URL, fetch the export again for a fresh one.',
+  example: {
+    id: 'bb0e8400-e29b-41d4-a716-446655440000',
+    pattern_id: '550e8400-e29b-41d4-a716-446655440000',
+    format: 'csv',
+    filters: { status: ['succeeded'], created_after: '2025-01-01T00:00:00Z' },
+    status: 'succeeded',
+    job_count: 18250,
+    file_size_bytes: 4821337,
+    download_url: 'https://storage.imggo.ai/object/sign/exports/export-bb0e8400.csv?token=...',
+    download_expires_at: '2025-02-01T11:00:00Z',
+    error: null,
+    created_at: '2025-02-01T09:58:00Z',
+    completed_at: '2025-02-01T10:00:00Z'
+  }
+});
+
+export type Export = z.infer<typeof ExportSchema>;
+
+/**
+ * Export webhook payload
+ */
+export const ExportWebhookPayloadSchema = z.object({
+  event: z.literal("export.ready"),
+  export_id: z.string().uuid(),
+  pattern_id: z.string().uuid().nullable(),
+  format: ExportFormatSchema,
+  job_count: z.number().int(),
+  file_size_bytes: z.number().int(),
+  download_url: z.string().url(),
+  download_expires_at: z.string().datetime(),
+  timestamp: z.string().datetime(),
+});
+
+export type ExportWebhookPayload = z.infer<typeof ExportWebhookPayloadSchema>;
+
+/**
+ * Maximum number of jobs reprocessed by one request
+ */
+export const MAX_REPROCESS_JOBS = 500;
+
+/**
+ * Which historical jobs to reprocess
+ */
+export const ReprocessFiltersSchema = z.object({
+  status: z.array(z.enum(["succeeded", "failed"])).min(1).optional().openapi({
+    description: 'Statuses of the original jobs (default: succeeded and failed)',
+  }),
+  created_after: z.string().datetime({ offset: true }).optional(),
+  created_before: z.string().datetime({ offset: true }).optional(),
+  pattern_version: z.number().int().min(1).optional().openapi({
+    description: 'Only jobs that were produced with this pattern version',
+  }),
+  job_ids: z.array(z.string().uuid()).min(1).max(MAX_REPROCESS_JOBS).optional().openapi({
+    description: 'Only these jobs',
+  }),
+});
+
+export type ReprocessFilters = Omit<z.infer<typeof ReprocessFiltersSchema>, "status"> & {
+  status: Array<"succeeded" | "failed">;
+};
+
+/**
+ * Apply the default filters (succeeded and failed jobs)
+ */
+export function resolveReprocessFilters(
+  filters: z.infer<typeof ReprocessFiltersSchema> = {}
+): ReprocessFilters {
+  return { ...filters, status: filters.status ?? ["succeeded", "failed"] };
+}
+
+/**
+ * Reprocess request
+ */
+export const ReprocessRequestSchema = z.object({
+  version: z.number().int().min(1).optional().openapi({
+    description: 'Pattern version to run the jobs against (default: active version)',
+    example: 2,
+  }),
+  filters: ReprocessFiltersSchema.optional(),
+  priority: JobPrioritySchema.optional().openapi({
+    description: 'Queue lane of the new jobs (default: bulk)',
+  }),
+}).refine(
+  (data) =>
+    !data.filters?.created_after ||
+    !data.filters.created_before ||
+    new Date(data.filters.created_after) < new Date(data.filters.created_before),
+  { message: "created_after must be before created_before", path: ["filters", "created_after"] }
+).openapi('ReprocessRequest', {
+  description: 'Re-run historical jobs of a pattern against a pattern version. Each original job gets a new job linked by reprocess_of; the original manifests are kept.',
+  example: {
+    version: 4,
+    filters: {
+      status: ['succeeded'],
+      created_after: '2025-01-01T00:00:00Z'
+    }
+  }
+});
+
+export type ReprocessRequest = z.infer<typeof ReprocessRequestSchema>;
+
 /**
  * Template generation request
  */
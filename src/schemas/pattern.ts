@@ -6,6 +6,7 @@ import { z } from "zod";
 import yaml from "js-yaml";
 import * as xmlJs from "xml-js";
 import { extendZodWithOpenApi } from "@asteasolutions/zod-to-openapi";
+import { JobTtlSchema } from "./manifest";
 
 // Extend Zod with OpenAPI capabilities
 extendZodWithOpenApi(z);
@@ -13,10 +14,69 @@ extendZodWithOpenApi(z);
 export const ManifestFormatSchema = z.enum(["json", "yaml", "xml", "csv", "text"]);
 export type ManifestFormat = z.infer<typeof ManifestFormatSchema>;
 
+/**
+ * Provider that runs inference for a pattern
+ * managed-default: OpenAI, managed-anthropic: Anthropic Claude, managed-gemini: Google Gemini,
+ * oss-detector: self-hosted detector (OSS_DETECTOR_ENDPOINT),
+ * custom:<name>: OpenAI-compatible endpoint registered via /api/model-profiles
+ */
+export const ManagedModelProfileSchema = z.enum([
+  "managed-default",
+  "managed-anthropic",
+  "managed-gemini",
+  "oss-detector",
+]);
+export type ManagedModelProfile = z.infer<typeof ManagedModelProfileSchema>;
+
+const CUSTOM_MODEL_PROFILE_NAME = /^[a-z0-9][a-z0-9-]{0,39}$/;
+
 export const ModelProfileSchema = z
-  .string()
-  .min(1)
+  .union([
+    ManagedModelProfileSchema,
+    z
+      .string()
+      .regex(/^custom:[a-z0-9][a-z0-9-]{0,39}$/, "Custom model profiles are referenced as custom:<name>") as unknown as z.ZodType<`custom:${string}`>,
+  ])
   .describe("LLM/VLM provider profile");
+export type ModelProfile = ManagedModelProfile | `custom:${string}`;
+
+export function isCustomModelProfile(profile: string): profile is `custom:${string}` {
+  return profile.startsWith("custom:");
+}
+
+/**
+ * Profiles tried in order while the provider of model_profile is unavailable
+ */
+export const FallbackModelProfilesSchema = z.array(ModelProfileSchema).max(3).openapi({
+  description: 'Model profiles tried in order while the provider of model_profile is unavailable (default: none)',
+  example: ['managed-gemini', 'managed-anthropic'],
+});
+
+/**
+ * Image preprocessing applied to uploaded images before storage
+ * Omitted fields use the defaults (see DEFAULT_PREPROCESSING in imagePreprocessingService)
+ */
+export const PreprocessingConfigSchema = z.object({
+  enabled: z.boolean().optional(),
+  auto_rotate: z.boolean().optional(), // Apply EXIF orientation
+  strip_metadata: z.boolean().optional(), // Remove EXIF/GPS/XMP
+  max_dimension: z.number().int().min(256).max(8192).nullable().optional(), // Longest side in px, null = keep size
+  output_format: z.enum(["original", "jpeg", "webp"]).optional(), // HEIC/BMP are always converted
+  quality: z.number().int().min(40).max(100).optional(),
+}).strict().openapi('PreprocessingConfig', {
+  description: 'Preprocessing of uploaded images (multipart, base64, PDF pages) before they are stored. Defaults: enabled, auto_rotate and strip_metadata on, max_dimension 2048, output_format original, quality 85. HEIC/HEIF and BMP uploads are always converted (to JPEG unless output_format is webp).',
+  example: {
+    max_dimension: 1600,
+    output_format: 'webp',
+  },
+});
+
+export type PreprocessingConfig = z.infer<typeof PreprocessingConfigSchema>;
+
+/**
+ * Result cache per pattern: reuse manifests of identical (exact) or near-identical (perceptual) images
+ */
+export const CacheModeSchema = z.enum(["off", "exact", "perceptual"]);
 
 export const PatternNameSchema = z
   .string()
@@ -373,6 +433,12 @@ const BaseCreatePatternSchema = z.object({
   csv_delimiter: z.enum(["comma", "semicolon"]).optional().default("comma"),
   plain_text_schema: PlainTextSchemaValidator.nullable().optional(),
   model_profile: ModelProfileSchema.optional(),
+  fallback_model_profiles: FallbackModelProfilesSchema.optional(),
+  preprocessing: PreprocessingConfigSchema.nullable().optional(),
+  cache_mode: CacheModeSchema.optional(),
+  job_ttl_seconds: JobTtlSchema.nullable().optional(),
+  retain_images: z.boolean().optional(), // Keep images after processing (needed for reprocessing)
+  field_confidence: z.boolean().optional(), // Per-field confidence scores (jobs: manifest_confidence)
   version: z.number().int().min(0).optional(), // 0 = draft, 1+ = published
   is_active: z.boolean().optional(), // false = draft, true = published
   parent_pattern_id: z.string().uuid().nullable().optional(), // Link to parent pattern for draft versioning
@@ -402,6 +468,12 @@ export const CreatePatternSchema = BaseCreatePatternSchema.transform((data) => (
   csv_delimiter: data.csv_delimiter ?? "comma",
   plain_text_schema: data.plain_text_schema,
   model_profile: data.model_profile ?? "managed-default",
+  fallback_model_profiles: data.fallback_model_profiles ?? [],
+  preprocessing: data.preprocessing ?? null,
+  cache_mode: data.cache_mode ?? "exact",
+  job_ttl_seconds: data.job_ttl_seconds ?? null,
+  retain_images: data.retain_images ?? false,
+  field_confidence: data.field_confidence ?? false,
   version: data.version, // Pass through version (0 for drafts)
   is_active: data.is_active, // Pass through is_active (false for drafts)
   parent_pattern_id: data.parent_pattern_id, // Pass through parent pattern ID for draft versioning
@@ -437,6 +509,12 @@ export type CreatePatternInput = {
   csv_delimiter: "comma" | "semicolon";
   plain_text_schema?: string | null;
   model_profile: string;
+  fallback_model_profiles?: ModelProfile[];
+  preprocessing?: PreprocessingConfig | null;
+  cache_mode?: z.infer<typeof CacheModeSchema>;
+  job_ttl_seconds?: number | null; // Default expires_in_seconds for jobs (null = no expiry)
+  retain_images?: boolean; // Keep images after processing so jobs can be reprocessed
+  field_confidence?: boolean; // Ask the model for a confidence score per manifest field
   version?: number; // 0 = draft, 1+ = published versions
   is_active?: boolean; // false = draft, true = published
   parent_pattern_id?: string | null; // Link to parent pattern for draft versioning
@@ -455,6 +533,13 @@ export const UpdatePatternSchema = z.object({
   csv_schema: CsvSchemaValidator,
   csv_delimiter: z.enum(["comma", "semicolon"]).optional(),
   plain_text_schema: PlainTextSchemaValidator.optional(),
+  model_profile: ModelProfileSchema.optional(),
+  fallback_model_profiles: FallbackModelProfilesSchema.optional(),
+  preprocessing: PreprocessingConfigSchema.nullable().optional(),
+  cache_mode: CacheModeSchema.optional(),
+  job_ttl_seconds: JobTtlSchema.nullable().optional(),
+  retain_images: z.boolean().optional(),
+  field_confidence: z.boolean().optional(),
   is_active: z.boolean().optional(),
   publish_new_version: z.boolean().optional().default(false),
 }).openapi('UpdatePatternRequest', {
@@ -484,6 +569,12 @@ export const PatternSchema = z.object({
   plain_text_schema: z.string().nullable().optional(),
   instructions: z.string(),
   model_profile: z.string(),
+  fallback_model_profiles: z.array(z.string()).optional(),
+  preprocessing: PreprocessingConfigSchema.nullable().optional(),
+  cache_mode: CacheModeSchema.optional(),
+  job_ttl_seconds: z.number().int().nullable().optional(),
+  retain_images: z.boolean().optional(),
+  field_confidence: z.boolean().optional(),
   version: z.number().int().positive(),
   is_active: z.boolean(),
   created_at: z.string().datetime(),
@@ -536,3 +627,74 @@ export const PublishPatternVersionSchema = z.object({
 export type PublishPatternVersionInput = z.infer<
   typeof PublishPatternVersionSchema
 >;
+
+/**
+ * Custom model profile (OpenAI-compatible endpoint, e.g. vLLM, Ollama, LM Studio)
+ * Patterns use it as model_profile "custom:<name>"
+ */
+export const CustomModelProfileCreateSchema = z.object({
+  name: z
+    .string()
+    .regex(CUSTOM_MODEL_PROFILE_NAME, "Name must be lowercase letters, digits and hyphens (max 40 characters)"),
+  base_url: z
+    .string()
+    .url("Invalid base URL")
+    .refine((url) => /^https?:\/\//.test(url), "Base URL must use http or https"),
+  model: z.string().min(1).max(200),
+  api_key: z.string().min(1).max(1000).optional(),
+  supports_json_schema: z.boolean().optional(), // response_format json_schema strict mode (default false)
+  max_image_dimension: z.number().int().min(256).max(8192).nullable().optional(), // Longest side in px
+}).openapi('CustomModelProfileCreateRequest', {
+  description: 'Request body for registering an OpenAI-compatible model endpoint',
+  example: {
+    name: 'qwen-vl',
+    base_url: 'http://vllm.internal:8000/v1',
+    model: 'Qwen/Qwen2.5-VL-7B-Instruct',
+    api_key: 'token-abc123',
+    supports_json_schema: true,
+    max_image_dimension: 1536
+  }
+});
+
+export type CustomModelProfileCreateInput = z.infer<typeof CustomModelProfileCreateSchema>;
+
+export const CustomModelProfileUpdateSchema = CustomModelProfileCreateSchema.omit({ name: true })
+  .partial()
+  .extend({
+    api_key: z.string().min(1).max(1000).nullable().optional(), // null removes the key
+  })
+  .openapi('CustomModelProfileUpdateRequest', {
+    description: 'Fields to change on a custom model profile',
+    example: { model: 'Qwen/Qwen2.5-VL-32B-Instruct' }
+  });
+
+export type CustomModelProfileUpdateInput = z.infer<typeof CustomModelProfileUpdateSchema>;
+
+export const CustomModelProfileSchema = z.object({
+  id: z.string().uuid(),
+  name: z.string(),
+  model_profile: z.string(),
+  base_url: z.string().url(),
+  model: z.string(),
+  has_api_key: z.boolean(),
+  supports_json_schema: z.boolean(),
+  max_image_dimension: z.number().int().nullable(),
+  created_at: z.string().datetime(),
+  updated_at: z.string().datetime(),
+}).openapi('CustomModelProfile', {
+  description: 'OpenAI-compatible model endpoint (the API key is never returned)',
+  example: {
+    id: '990e8400-e29b-41d4-a716-446655440000',
+    name: 'qwen-vl',
+    model_profile: 'custom:qwen-vl',
+    base_url: 'http://vllm.internal:8000/v1',
+    model: 'Qwen/Qwen2.5-VL-7B-Instruct',
+    has_api_key: true,
+    supports_json_schema: true,
+    max_image_dimension: 1536,
+    created_at: '2025-01-15T10:00:00Z',
+    updated_at: '2025-01-15T10:00:00Z'
+  }
+});
+
+export type CustomModelProfile = z.infer<typeof CustomModelProfileSchema>;
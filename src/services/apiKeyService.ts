@@ -71,6 +71,9 @@ export const SCOPES = {
   "webhooks:write": "Create and update webhooks",
   "webhooks:delete": "Delete webhooks",
 
+  // Queue (operators listed in OPERATOR_USER_IDS only)
+  "queue:admin": "Manage the dead-letter queue",
+
   // Admin (future)
   "admin:all": "Full access (enterprise only)",
 } as const;
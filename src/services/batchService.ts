@@ -0,0 +1,271 @@
+/**
+ * Batch Service - Business logic for batch ingest
+ * A batch groups many jobs submitted in one request and tracks aggregate progress
+ */
+
+import { supabaseServer } from "@/lib/supabase-server";
+import { Database } from "@/lib/database.types";
+import { insertRow, updateRowNoReturn, callRpc } from "@/lib/supabase-helpers";
+import { logger } from "@/lib/logger";
+import { Batch, BatchJobCounts } from "@/schemas/manifest";
+import { sendBatchWebhook } from "@/services/webhookService";
+
+type BatchRow = Database["public"]["Tables"]["batches"]["Row"];
+
+const EMPTY_COUNTS: BatchJobCounts = {
+  scheduled: 0,
+  queued: 0,
+  running: 0,
+  succeeded: 0,
+  failed: 0,
+  cancelled: 0,
+  expired: 0,
+  total: 0,
+};
+
+/**
+ * Create batch record (jobs are created separately and linked via batch_id)
+ */
+export async function createBatch(params: {
+  userId: string;
+  patternId: string;
+  totalJobs: number;
+  extras?: Record<string, unknown>;
+}): Promise<{ batchId: string }> {
+  const { userId, patternId, totalJobs, extras } = params;
+
+  try {
+    logger.info("Creating batch record", {
+      pattern_id: patternId,
+      user_id: userId,
+      total_jobs: totalJobs,
+    });
+
+    const { data, error } = await insertRow(supabaseServer, "batches", {
+      user_id: userId,
+      pattern_id: patternId,
+      total_jobs: totalJobs,
+      extras: extras ? (extras as Database["public"]["Tables"]["batches"]["Insert"]["extras"]) : null,
+    });
+
+    if (error) {
+      logger.error("Failed to create batch", error, {
+        pattern_id: patternId,
+        user_id: userId,
+      });
+      throw new Error(`Failed to create batch: ${error.message}`);
+    }
+
+    if (!data) {
+      throw new Error("No data returned from batch creation");
+    }
+
+    logger.info("Batch record created", { batch_id: data.id });
+
+    return { batchId: data.id };
+  } catch (error) {
+    logger.error("Exception creating batch record", error);
+    throw error;
+  }
+}
+
+/**
+ * Set the final number of jobs for a batch (used when some jobs could not be created)
+ */
+export async function setBatchTotalJobs(
+  batchId: string,
+  totalJobs: number
+): Promise<void> {
+  const { error } = await updateRowNoReturn(
+    supabaseServer,
+    "batches",
+    { total_jobs: totalJobs },
+    { column: "id", value: batchId }
+  );
+
+  if (error) {
+    logger.error("Failed to update batch total", error, { batch_id: batchId });
+    throw error;
+  }
+}
+
+/**
+ * Get aggregate job counts for a batch
+ */
+export async function getBatchJobCounts(batchId: string): Promise<BatchJobCounts> {
+  const { data, error } = await callRpc(supabaseServer, "get_batch_job_counts", {
+    p_batch_id: batchId,
+  });
+
+  if (error) {
+    logger.error("Failed to get batch job counts", error, { batch_id: batchId });
+    throw error;
+  }
+
+  return data?.[0] ?? EMPTY_COUNTS;
+}
+
+/**
+ * Get batch by ID with aggregate counts
+ */
+export async function getBatch(
+  batchId: string,
+  userId: string
+): Promise<Batch | null> {
+  try {
+    const { data, error } = await supabaseServer
+      .from("batches")
+      .select("*")
+      .eq("id", batchId)
+      .eq("user_id", userId)
+      .single();
+
+    if (error) {
+      if (error.code === "PGRST116") {
+        return null;
+      }
+      throw error;
+    }
+
+    const batch = data as BatchRow;
+    const counts = await getBatchJobCounts(batch.id);
+
+    return {
+      id: batch.id,
+      pattern_id: batch.pattern_id,
+      status: batch.status as Batch["status"],
+      total_jobs: batch.total_jobs,
+      counts,
+      extras: batch.extras as Record<string, unknown> | null,
+      created_at: batch.created_at,
+      updated_at: batch.updated_at,
+      completed_at: batch.completed_at,
+    };
+  } catch (error) {
+    logger.error("Exception getting batch", error, { batch_id: batchId });
+    throw error;
+  }
+}
+
+/**
+ * List jobs belonging to a batch (for combined result download)
+ */
+export async function listBatchJobs(batchId: string): Promise<
+  Array<{
+    id: string;
+    image_url: string;
+    status: string;
+    manifest: Record<string, unknown> | null;
+    error: string | null;
+    latency_ms: number | null;
+    completed_at: string | null;
+    pattern_version: number | null;
+    reprocess_of: string | null;
+  }>
+> {
+  try {
+    const { data, error } = await supabaseServer
+      .from("jobs")
+      .select("id, image_url, status, manifest, error, latency_ms, completed_at, pattern_version, reprocess_of")
+      .eq("batch_id", batchId)
+      .order("created_at", { ascending: true });
+
+    if (error) {
+      logger.error("Failed to list batch jobs", error, { batch_id: batchId });
+      throw error;
+    }
+
+    return (data || []).map((job) => ({
+      ...job,
+      manifest: job.manifest as Record<string, unknown> | null,
+    }));
+  } catch (error) {
+    logger.error("Exception listing batch jobs", error);
+    throw error;
+  }
+}
+
+/**
+ * Mark batch completed once every job reached a terminal state
+ * Only the caller that flips the status sends the batch.completed webhook
+ */
+export async function completeBatchIfDone(batchId: string): Promise<void> {
+  try {
+    const { data: batch, error: fetchError } = await supabaseServer
+      .from("batches")
+      .select("id, user_id, pattern_id, status, total_jobs")
+      .eq("id", batchId)
+      .single();
+
+    if (fetchError || !batch) {
+      logger.warn("Batch not found while checking completion", {
+        batch_id: batchId,
+        error: fetchError?.message,
+      });
+      return;
+    }
+
+    if (batch.status === "completed") {
+      return;
+    }
+
+    const counts = await getBatchJobCounts(batchId);
+    const pending = counts.scheduled + counts.queued + counts.running;
+
+    if (pending > 0 || counts.total < batch.total_jobs) {
+      return;
+    }
+
+    // Atomic transition: only one worker wins the processing → completed flip
+    const { data: updated, error: updateError } = await supabaseServer
+      .from("batches")
+      .update({ status: "completed", completed_at: new Date().toISOString() })
+      .eq("id", batchId)
+      .eq("status", "processing")
+      .select("id");
+
+    if (updateError) {
+      logger.error("Failed to mark batch completed", updateError, { batch_id: batchId });
+      return;
+    }
+
+    if (!updated || updated.length === 0) {
+      return;
+    }
+
+    logger.info("Batch completed", {
+      batch_id: batchId,
+      succeeded: counts.succeeded,
+      failed: counts.failed,
+    });
+
+    await sendBatchWebhook({
+      userId: batch.user_id,
+      batchId,
+      patternId: batch.pattern_id,
+      counts,
+    });
+  } catch (error) {
+    // Don't fail the job because batch bookkeeping failed
+    logger.error("Exception checking batch completion", error, { batch_id: batchId });
+  }
+}
+
+/**
+ * Check batch completion for the batch a job belongs to (no-op for single jobs)
+ */
+export async function completeBatchForJob(jobId: string): Promise<void> {
+  try {
+    const { data: job } = await supabaseServer
+      .from("jobs")
+      .select("batch_id")
+      .eq("id", jobId)
+      .single();
+
+    if (job?.batch_id) {
+      await completeBatchIfDone(job.batch_id);
+    }
+  } catch (error) {
+    logger.error("Exception resolving batch for job", error, { job_id: jobId });
+  }
+}
@@ -0,0 +1,242 @@
+/**
+ * Dead-Letter Service - Quarantine messages the worker keeps failing on
+ * Messages read more than QUEUE_MAX_DELIVERIES times move to the DLQ and their job fails
+ */
+
+import { supabaseServer } from "@/lib/supabase-server";
+import { logger } from "@/lib/logger";
+import {
+  PGMQMessage,
+  QueueJobPayload,
+  DeadLetterPayload,
+  moveToDeadLetter,
+  peekDeadLetters,
+  getDeadLetter,
+  deleteDeadLetter,
+  purgeDeadLetters,
+} from "@/queues/pgmq";
+import { enqueueExistingJob } from "@/services/jobService";
+import { sendWebhook } from "@/services/webhookService";
+import { completeBatchForJob } from "@/services/batchService";
+
+// A message read this many times without being deleted is treated as poison
+export const MAX_DELIVERIES = Number(process.env.QUEUE_MAX_DELIVERIES || 5);
+
+export const DEAD_LETTER_ERROR_CODE = "MAX_DELIVERIES_EXCEEDED";
+
+/**
+ * Check whether a message has exceeded the delivery limit
+ */
+export function isPoisonMessage(msg: PGMQMessage<QueueJobPayload>): boolean {
+  return msg.read_ct > MAX_DELIVERIES;
+}
+
+/**
+ * Dead-letter the poison messages of a read and return the ones that are safe to process
+ * The Node worker calls this right after readPrioritizedMessages (the Edge Function worker does not)
+ */
+export async function screenMessages(
+  messages: PGMQMessage<QueueJobPayload>[]
+): Promise<PGMQMessage<QueueJobPayload>[]> {
+  const healthy: PGMQMessage<QueueJobPayload>[] = [];
+
+  for (const msg of messages) {
+    if (!isPoisonMessage(msg)) {
+      healthy.push(msg);
+      continue;
+    }
+
+    // If moving fails the message stays in its queue and is retried on the next read
+    await deadLetterMessage(msg);
+  }
+
+  return healthy;
+}
+
+/**
+ * Move a message to the DLQ and fail its job with DEAD_LETTER_ERROR_CODE
+ */
+export async function deadLetterMessage(msg: PGMQMessage<QueueJobPayload>): Promise<boolean> {
+  const jobId = msg.message.job_id;
+  const reason = `Delivered ${msg.read_ct} times without completing (limit ${MAX_DELIVERIES})`;
+
+  const moved = await moveToDeadLetter(msg, reason);
+  if (!moved.success) {
+    return false;
+  }
+
+  try {
+    // Only jobs that are still in flight; a job that finished or was cancelled keeps its state
+    const { data: failed, error } = await supabaseServer
+      .from("jobs")
+      .update({
+        status: "failed",
+        error: `Job was moved to the dead-letter queue: ${reason}`,
+        error_code: DEAD_LETTER_ERROR_CODE,
+        completed_at: new Date().toISOString(),
+      })
+      .eq("id", jobId)
+      .in("status", ["scheduled", "queued", "running"])
+      .select("id, pattern_id, error, patterns!inner(user_id)");
+
+    if (error) {
+      logger.error("Failed to mark dead-lettered job as failed", error, { job_id: jobId });
+      return true;
+    }
+
+    const job = failed?.[0] as
+      | { id: string; pattern_id: string; error: string; patterns: { user_id: string } }
+      | undefined;
+
+    if (job) {
+      await sendWebhook({
+        userId: job.patterns.user_id,
+        event: "job.failed",
+        jobId: job.id,
+        patternId: job.pattern_id,
+        error: job.error,
+      });
+
+      await completeBatchForJob(job.id);
+    }
+  } catch (error) {
+    logger.error("Exception failing dead-lettered job", error, { job_id: jobId });
+  }
+
+  return true;
+}
+
+/**
+ * List dead-letter entries (oldest first)
+ */
+export async function listDeadLetters(options: {
+  limit?: number;
+  offset?: number;
+} = {}): Promise<PGMQMessage<DeadLetterPayload>[]> {
+  try {
+    return await peekDeadLetters(options.limit ?? 50, options.offset ?? 0);
+  } catch (error) {
+    logger.error("Exception listing dead letters", error);
+    throw error;
+  }
+}
+
+/**
+ * Get a dead-letter entry with the current state of its job
+ */
+export async function inspectDeadLetter(msgId: number): Promise<{
+  entry: PGMQMessage<DeadLetterPayload>;
+  job: Record<string, unknown> | null;
+} | null> {
+  try {
+    const entry = await getDeadLetter(msgId);
+    if (!entry) {
+      return null;
+    }
+
+    const { data: job } = await supabaseServer
+      .from("jobs")
+      .select("id, pattern_id, status, error, error_code, retry_count, priority, created_at, completed_at")
+      .eq("id", entry.message.job_id)
+      .maybeSingle();
+
+    return { entry, job: job ?? null };
+  } catch (error) {
+    logger.error("Exception inspecting dead letter", error, { msg_id: msgId });
+    throw error;
+  }
+}
+
+/**
+ * Put a dead-lettered job back into its original lane as a new attempt
+ *
+ * @returns null if the entry does not exist; requeued=false if the job is no longer dead-lettered
+ */
+export async function requeueDeadLetter(
+  msgId: number
+): Promise<{ requeued: boolean; jobId: string; status?: string } | null> {
+  try {
+    const entry = await getDeadLetter(msgId);
+    if (!entry) {
+      return null;
+    }
+
+    const { job_id: jobId, priority, message } = entry.message;
+
+    const { data: job, error: fetchError } = await supabaseServer
+      .from("jobs")
+      .select("status, error, error_code, retry_count")
+      .eq("id", jobId)
+      .maybeSingle();
+
+    if (fetchError) {
+      throw fetchError;
+    }
+
+    if (!job || job.status !== "failed" || job.error_code !== DEAD_LETTER_ERROR_CODE) {
+      return { requeued: false, jobId, status: job?.status };
+    }
+
+    // Same reset as a user retry; the failed attempt stays in job_attempts
+    const { data: updated, error } = await supabaseServer
+      .from("jobs")
+      .update({
+        status: "queued",
+        retry_count: (job.retry_count ?? 0) + 1,
+        last_error: job.error,
+        error: null,
+        error_code: null,
+        manifest: null,
+        latency_ms: null,
+        started_at: null,
+        completed_at: null,
+        expires_at: null,
+      })
+      .eq("id", jobId)
+      .eq("status", "failed")
+      .eq("retry_count", job.retry_count ?? 0)
+      .select("id");
+
+    if (error) {
+      throw error;
+    }
+
+    if (!updated || updated.length === 0) {
+      return { requeued: false, jobId };
+    }
+
+    await enqueueExistingJob(jobId, message, priority);
+    await deleteDeadLetter(msgId);
+
+    logger.info("Dead-lettered job requeued", { job_id: jobId, dlq_msg_id: msgId, priority });
+
+    return { requeued: true, jobId, status: "queued" };
+  } catch (error) {
+    logger.error("Exception requeueing dead letter", error, { msg_id: msgId });
+    throw error;
+  }
+}
+
+/**
+ * Drop one dead-letter entry (its job stays failed)
+ */
+export async function purgeDeadLetter(msgId: number): Promise<boolean> {
+  try {
+    return await deleteDeadLetter(msgId);
+  } catch (error) {
+    logger.error("Exception purging dead letter", error, { msg_id: msgId });
+    throw error;
+  }
+}
+
+/**
+ * Drop all dead-letter entries
+ */
+export async function purgeAllDeadLetters(): Promise<number> {
+  try {
+    return await purgeDeadLetters();
+  } catch (error) {
+    logger.error("Exception purging dead-letter queue", error);
+    throw error;
+  }
+}
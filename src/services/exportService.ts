@@ -0,0 +1,479 @@
+/**
+ * Export Service - Bulk export of job results
+ * An export is created queued, built in the background (runExport) and uploaded to the
+ * exports bucket; the export.ready webhook carries a signed download URL
+ */
+
+import { supabaseServer } from "@/lib/supabase-server";
+import { Database } from "@/lib/database.types";
+import { insertRow, updateRowNoReturn } from "@/lib/supabase-helpers";
+import { logger } from "@/lib/logger";
+import {
+  convertManifest,
+  convertRowsToCSV,
+  flattenObject,
+  ManifestFormat,
+} from "@/lib/formatConverter";
+import { reorderManifestKeys, createStructuredOutputSchema } from "@/lib/manifestKeyOrdering";
+import { createXlsx, XlsxCell } from "@/lib/xlsx";
+import { createZip } from "@/lib/zip";
+import {
+  Export,
+  ExportFilters,
+  ExportFormat,
+  ExportStatus,
+  MAX_EXPORT_JOBS,
+} from "@/schemas/manifest";
+import { Pattern } from "@/schemas/pattern";
+import { getPattern } from "@/services/patternService";
+import { uploadExportFile, getExportDownloadUrl } from "@/services/storageService";
+import { sendExportWebhook } from "@/services/webhookService";
+
+type ExportRow = Database["public"]["Tables"]["exports"]["Row"];
+
+// Jobs fetched per query while building an export (PostgREST max rows)
+const PAGE_SIZE = 1000;
+
+// Download links: short-lived on GET, a day for the webhook so a delayed consumer can still fetch the file
+const DOWNLOAD_URL_EXPIRY = 3600;
+const WEBHOOK_DOWNLOAD_URL_EXPIRY = 24 * 60 * 60;
+
+const EXPORT_FILES: Record<ExportFormat, { extension: string; contentType: string }> = {
+  ndjson: { extension: "ndjson", contentType: "application/x-ndjson" },
+  csv: { extension: "csv", contentType: "text/csv" },
+  xlsx: {
+    extension: "xlsx",
+    contentType: "application/vnd.openxmlformats-officedocument.spreadsheetml.sheet",
+  },
+  zip: { extension: "zip", contentType: "application/zip" },
+};
+
+const MANIFEST_EXTENSIONS: Record<ManifestFormat, string> = {
+  json: "json",
+  yaml: "yaml",
+  xml: "xml",
+  csv: "csv",
+  text: "txt",
+};
+
+interface ExportJob {
+  id: string;
+  image_url: string;
+  status: string;
+  manifest: Record<string, unknown> | null;
+  error: string | null;
+  latency_ms: number | null;
+  created_at: string;
+  completed_at: string | null;
+}
+
+/**
+ * Jobs query of an export (same filters for counting and fetching)
+ */
+function selectExportJobs(
+  patternId: string,
+  filters: ExportFilters,
+  columns: string,
+  options?: { count: "exact"; head: true }
+) {
+  let query = supabaseServer
+    .from("jobs")
+    .select(columns, options)
+    .eq("pattern_id", patternId)
+    .in("status", filters.status);
+
+  if (filters.created_after) {
+    query = query.gte("created_at", filters.created_after);
+  }
+  if (filters.created_before) {
+    query = query.lt("created_at", filters.created_before);
+  }
+
+  return query;
+}
+
+/**
+ * Number of jobs an export with these filters would contain
+ */
+export async function countExportJobs(
+  patternId: string,
+  filters: ExportFilters
+): Promise<number> {
+  const { count, error } = await selectExportJobs(patternId, filters, "id", {
+    count: "exact",
+    head: true,
+  });
+
+  if (error) {
+    logger.error("Failed to count export jobs", error, { pattern_id: patternId });
+    throw error;
+  }
+
+  return count ?? 0;
+}
+
+/**
+ * Create a queued export record (built later by runExport)
+ */
+export async function createExport(params: {
+  userId: string;
+  patternId: string;
+  format: ExportFormat;
+  filters: ExportFilters;
+}): Promise<Export> {
+  const { userId, patternId, format, filters } = params;
+
+  try {
+    const { data, error } = await insertRow(supabaseServer, "exports", {
+      user_id: userId,
+      pattern_id: patternId,
+      format,
+      filters,
+    });
+
+    if (error) {
+      logger.error("Failed to create export", error, {
+        pattern_id: patternId,
+        user_id: userId,
+      });
+      throw new Error(`Failed to create export: ${error.message}`);
+    }
+
+    if (!data) {
+      throw new Error("No data returned from export creation");
+    }
+
+    logger.info("Export record created", { export_id: data.id, format });
+
+    return toExport(data as ExportRow, null);
+  } catch (error) {
+    logger.error("Exception creating export record", error);
+    throw error;
+  }
+}
+
+/**
+ * Get export by ID (with a fresh download URL once it succeeded)
+ */
+export async function getExport(exportId: string, userId: string): Promise<Export | null> {
+  try {
+    const { data, error } = await supabaseServer
+      .from("exports")
+      .select("*")
+      .eq("id", exportId)
+      .eq("user_id", userId)
+      .single();
+
+    if (error) {
+      if (error.code === "PGRST116") {
+        return null;
+      }
+      throw error;
+    }
+
+    const row = data as ExportRow;
+    const download =
+      row.status === "succeeded" && row.file_path
+        ? await createDownload(row, DOWNLOAD_URL_EXPIRY)
+        : null;
+
+    return toExport(row, download);
+  } catch (error) {
+    logger.error("Exception getting export", error, { export_id: exportId });
+    throw error;
+  }
+}
+
+/**
+ * Build, upload and announce an export
+ * Never throws: failures are recorded on the export
+ */
+export async function runExport(exportId: string): Promise<void> {
+  const startedAt = Date.now();
+
+  try {
+    // Atomic transition: only one runner wins the queued → running flip
+    const { data: claimed, error: claimError } = await supabaseServer
+      .from("exports")
+      .update({ status: "running" satisfies ExportStatus })
+      .eq("id", exportId)
+      .eq("status", "queued")
+      .select("*");
+
+    if (claimError) {
+      logger.error("Failed to start export", claimError, { export_id: exportId });
+      return;
+    }
+
+    const row = claimed?.[0] as ExportRow | undefined;
+    if (!row) {
+      logger.warn("Export not queued, skipping", { export_id: exportId });
+      return;
+    }
+
+    const format = row.format as ExportFormat;
+    const filters = row.filters as unknown as ExportFilters;
+
+    const pattern = row.pattern_id ? await getPattern(row.pattern_id, row.user_id) : null;
+    if (!pattern) {
+      await failExport(exportId, "Pattern not found");
+      return;
+    }
+
+    const jobs = await fetchExportJobs(pattern.id, filters);
+    const file = renderExport(format, pattern, jobs);
+    const filePath = `${row.user_id}/${exportId}.${EXPORT_FILES[format].extension}`;
+
+    await uploadExportFile({
+      path: filePath,
+      data: file,
+      contentType: EXPORT_FILES[format].contentType,
+    });
+
+    const { data: updated, error: updateError } = await supabaseServer
+      .from("exports")
+      .update({
+        status: "succeeded" satisfies ExportStatus,
+        job_count: jobs.length,
+        file_path: filePath,
+        file_size_bytes: file.length,
+        completed_at: new Date().toISOString(),
+      })
+      .eq("id", exportId)
+      .eq("status", "running")
+      .select("id");
+
+    if (updateError) {
+      throw updateError;
+    }
+
+    if (!updated?.length) {
+      logger.warn("Export was failed as stale before it completed", { export_id: exportId });
+      return;
+    }
+
+    logger.info("Export completed", {
+      export_id: exportId,
+      format,
+      jobs: jobs.length,
+      size_bytes: file.length,
+      duration_ms: Date.now() - startedAt,
+    });
+
+    // The export stays succeeded if the notification fails (GET /api/exports/:id still works)
+    try {
+      const download = await createDownload(
+        { ...row, file_path: filePath },
+        WEBHOOK_DOWNLOAD_URL_EXPIRY
+      );
+
+      await sendExportWebhook({
+        userId: row.user_id,
+        export_id: exportId,
+        pattern_id: row.pattern_id,
+        format,
+        job_count: jobs.length,
+        file_size_bytes: file.length,
+        download_url: download.url,
+        download_expires_at: download.expiresAt,
+      });
+    } catch (error) {
+      logger.error("Failed to send export.ready webhook", error, { export_id: exportId });
+    }
+  } catch (error) {
+    logger.error("Exception running export", error, { export_id: exportId });
+    await failExport(exportId, error instanceof Error ? error.message : String(error));
+  }
+}
+
+async function failExport(exportId: string, message: string): Promise<void> {
+  const { error } = await updateRowNoReturn(
+    supabaseServer,
+    "exports",
+    {
+      status: "failed" satisfies ExportStatus,
+      error: message,
+      completed_at: new Date().toISOString(),
+    },
+    { column: "id", value: exportId }
+  );
+
+  if (error) {
+    logger.error("Failed to mark export failed", error, { export_id: exportId });
+  }
+}
+
+/**
+ * Page through the jobs of an export in creation order
+ */
+async function fetchExportJobs(patternId: string, filters: ExportFilters): Promise<ExportJob[]> {
+  const jobs: ExportJob[] = [];
+
+  for (let from = 0; ; from += PAGE_SIZE) {
+    const { data, error } = await selectExportJobs(
+      patternId,
+      filters,
+      "id, image_url, status, manifest, error, latency_ms, created_at, completed_at"
+    )
+      .order("created_at", { ascending: true })
+      .order("id", { ascending: true })
+      .range(from, from + PAGE_SIZE - 1);
+
+    if (error) {
+      logger.error("Failed to fetch export jobs", error, { pattern_id: patternId, offset: from });
+      throw error;
+    }
+
+    const page = (data || []) as unknown as ExportJob[];
+    jobs.push(...page);
+
+    if (jobs.length > MAX_EXPORT_JOBS) {
+      throw new Error(`Export exceeds ${MAX_EXPORT_JOBS} jobs, narrow the filters`);
+    }
+    if (page.length < PAGE_SIZE) {
+      return jobs;
+    }
+  }
+}
+
+function renderExport(format: ExportFormat, pattern: Pattern, jobs: ExportJob[]): Buffer {
+  switch (format) {
+    case "ndjson":
+      return Buffer.from(jobs.map((job) => `${JSON.stringify(job)}\n`).join(""), "utf8");
+
+    case "csv": {
+      const { headers, rows } = buildExportTable(pattern, jobs);
+      return Buffer.from(convertRowsToCSV(headers, rows, pattern.csv_delimiter), "utf8");
+    }
+
+    case "xlsx": {
+      const { headers, rows } = buildExportTable(pattern, jobs);
+      return createXlsx(pattern.name, headers, rows);
+    }
+
+    case "zip":
+      return createZip(
+        jobs
+          .filter((job) => job.manifest)
+          .map((job) => ({
+            name: `${job.id}.${MANIFEST_EXTENSIONS[pattern.format] ?? "json"}`,
+            data: convertManifest(
+              orderManifest(pattern, job.manifest!),
+              pattern.format,
+              pattern.csv_delimiter,
+              pattern.csv_schema ?? undefined
+            ),
+          }))
+      );
+  }
+}
+
+/**
+ * One merged table: a job_id column, then the csv_schema headers (or the flattened
+ * manifest keys in first-seen order). Row-based manifests contribute one row per entry.
+ */
+function buildExportTable(
+  pattern: Pattern,
+  jobs: ExportJob[]
+): { headers: string[]; rows: XlsxCell[][] } {
+  const records: Array<{ jobId: string; values: Record<string, unknown> }> = [];
+
+  for (const job of jobs) {
+    if (!job.manifest) continue;
+
+    const manifest = stripRawFields(job.manifest);
+    const entries = Array.isArray(manifest.rows)
+      ? (manifest.rows as Record<string, unknown>[])
+      : [manifest];
+
+    for (const entry of entries) {
+      records.push({ jobId: job.id, values: flattenObject(entry) });
+    }
+  }
+
+  let fields = csvSchemaHeaders(pattern);
+  if (!fields) {
+    const keys = new Set<string>();
+    records.forEach((record) => Object.keys(record.values).forEach((key) => keys.add(key)));
+    fields = [...keys];
+  }
+
+  return {
+    headers: ["job_id", ...fields],
+    rows: records.map((record) => [
+      record.jobId,
+      ...fields.map((field) => toCell(record.values[field])),
+    ]),
+  };
+}
+
+function csvSchemaHeaders(pattern: Pattern): string[] | null {
+  const headerLine = pattern.csv_schema?.split("\n")[0]?.trim();
+  if (!headerLine) {
+    return null;
+  }
+
+  const delimiter = pattern.csv_delimiter === "semicolon" ? ";" : ",";
+  return headerLine.split(delimiter).map((header) => header.trim().replace(/^"|"$/g, ""));
+}
+
+/**
+ * Drop the _raw/_format markers when the manifest also has structured data
+ */
+function stripRawFields(manifest: Record<string, unknown>): Record<string, unknown> {
+  if (!("_raw" in manifest) || !Object.keys(manifest).some((key) => key !== "_raw" && key !== "_format")) {
+    return manifest;
+  }
+
+  const structured = { ...manifest };
+  delete structured._raw;
+  delete structured._format;
+  return structured;
+}
+
+/**
+ * Restore the key order of JSON patterns (JSONB does not keep it)
+ */
+function orderManifest(pattern: Pattern, manifest: Record<string, unknown>): Record<string, unknown> {
+  if (pattern.format !== "json" || !pattern.json_schema) {
+    return manifest;
+  }
+
+  const schema = createStructuredOutputSchema(pattern.json_schema as Record<string, unknown>);
+  return reorderManifestKeys(manifest, schema);
+}
+
+function toCell(value: unknown): XlsxCell {
+  if (value === undefined || value === null) return null;
+  if (typeof value === "string" || typeof value === "number" || typeof value === "boolean") {
+    return value;
+  }
+  return JSON.stringify(value);
+}
+
+async function createDownload(
+  row: ExportRow,
+  expiresIn: number
+): Promise<{ url: string; expiresAt: string }> {
+  const extension = EXPORT_FILES[row.format as ExportFormat].extension;
+  const url = await getExportDownloadUrl(row.file_path!, `export-${row.id}.${extension}`, expiresIn);
+
+  return { url, expiresAt: new Date(Date.now() + expiresIn * 1000).toISOString() };
+}
+
+function toExport(row: ExportRow, download: { url: string; expiresAt: string } | null): Export {
+  return {
+    id: row.id,
+    pattern_id: row.pattern_id,
+    format: row.format as ExportFormat,
+    filters: row.filters as unknown as ExportFilters,
+    status: row.status as ExportStatus,
+    job_count: row.job_count,
+    file_size_bytes: row.file_size_bytes,
+    download_url: download?.url ?? null,
+    download_expires_at: download?.expiresAt ?? null,
+    error: row.error,
+    created_at: row.created_at,
+    completed_at: row.completed_at,
+  };
+}
@@ -0,0 +1,172 @@
+/**
+ * Image Preprocessing Service - Normalize uploaded images before storage
+ * Auto-rotate, strip EXIF/GPS, downscale, convert HEIC/BMP, optional crop
+ */
+
+import sharp, { type Sharp } from "sharp";
+import { logger } from "@/lib/logger";
+import type { PreprocessingConfig } from "@/schemas/pattern";
+import type { CropRegion } from "@/schemas/manifest";
+
+export const DEFAULT_PREPROCESSING: Required<PreprocessingConfig> = {
+  enabled: true,
+  auto_rotate: true,
+  strip_metadata: true,
+  max_dimension: 2048, // Enough detail for the model, far fewer tokens than 12MP
+  output_format: "original",
+  quality: 85,
+};
+
+// Formats the model cannot read; these are always converted
+const CONVERT_FORMATS = ["heif", "bmp"];
+
+const OUTPUT_TYPES: Record<string, { mime: string; ext: string }> = {
+  jpeg: { mime: "image/jpeg", ext: ".jpg" },
+  png: { mime: "image/png", ext: ".png" },
+  webp: { mime: "image/webp", ext: ".webp" },
+  gif: { mime: "image/gif", ext: ".gif" },
+};
+
+/**
+ * Resolve a pattern's stored preprocessing config against the defaults
+ */
+export function resolvePreprocessingConfig(
+  config: PreprocessingConfig | null | undefined
+): Required<PreprocessingConfig> {
+  return { ...DEFAULT_PREPROCESSING, ...(config ?? {}) };
+}
+
+/**
+ * Run the preprocessing chain on an uploaded image
+ * Returns the original file untouched when there is nothing to do
+ *
+ * @param file - Validated image upload
+ * @param config - Pattern preprocessing config (null = defaults)
+ * @param crop - Optional region to keep (pixels after auto-rotation)
+ */
+export async function preprocessImage(
+  file: File,
+  config: PreprocessingConfig | null | undefined,
+  crop?: CropRegion
+): Promise<{ file: File; error: null } | { file: null; error: string }> {
+  const settings = resolvePreprocessingConfig(config);
+
+  try {
+    const input = Buffer.from(await file.arrayBuffer());
+    const isHeic = isHeicFile(file, input);
+
+    let image = isHeic ? await decodeHeic(input) : sharp(input);
+    const metadata = await image.metadata();
+    const sourceFormat = isHeic ? "heif" : metadata.format ?? "unknown";
+    const mustConvert = CONVERT_FORMATS.includes(sourceFormat);
+
+    if (!settings.enabled && !mustConvert && !crop) {
+      return { file, error: null };
+    }
+
+    const autoRotate = settings.enabled && settings.auto_rotate;
+    if (autoRotate) {
+      image = image.autoOrient();
+    }
+
+    if (crop) {
+      // Bounds are checked against what the user sees, i.e. after rotation
+      const { width, height } = autoRotate ? metadata.autoOrient : metadata;
+      if (crop.left + crop.width > width || crop.top + crop.height > height) {
+        return {
+          file: null,
+          error: `Crop region exceeds image bounds (${width}x${height})`,
+        };
+      }
+      image = image.extract(crop);
+    }
+
+    if (settings.enabled && settings.max_dimension) {
+      image = image.resize({
+        width: settings.max_dimension,
+        height: settings.max_dimension,
+        fit: "inside",
+        withoutEnlargement: true,
+      });
+    }
+
+    if (!settings.enabled || !settings.strip_metadata) {
+      image = image.keepMetadata();
+    }
+
+    const outputFormat = resolveOutputFormat(sourceFormat, settings, mustConvert);
+    image =
+      outputFormat === "jpeg"
+        ? image.jpeg({ quality: settings.quality })
+        : outputFormat === "webp"
+          ? image.webp({ quality: settings.quality })
+          : outputFormat === "png"
+            ? image.png()
+            : image.gif();
+
+    const { data, info } = await image.toBuffer({ resolveWithObject: true });
+    const outputType = OUTPUT_TYPES[outputFormat]!;
+    const baseName = file.name.replace(/\.[^.]+$/, "") || "upload";
+    const processed = new File([new Uint8Array(data)], `${baseName}${outputType.ext}`, {
+      type: outputType.mime,
+    });
+
+    logger.info("Image preprocessed", {
+      filename: file.name,
+      source_format: sourceFormat,
+      output_format: outputFormat,
+      original_size: file.size,
+      processed_size: processed.size,
+      original_dimensions: `${metadata.width}x${metadata.height}`,
+      processed_dimensions: `${info.width}x${info.height}`,
+      had_exif: Boolean(metadata.exif),
+      cropped: Boolean(crop),
+    });
+
+    return { file: processed, error: null };
+  } catch (error) {
+    logger.warn("Image preprocessing failed", {
+      filename: file.name,
+      error: error instanceof Error ? error.message : String(error),
+    });
+    return { file: null, error: "Image could not be processed (corrupted or unsupported format)" };
+  }
+}
+
+/**
+ * Pick the encoder: explicit output_format, otherwise keep the source format
+ */
+function resolveOutputFormat(
+  sourceFormat: string,
+  settings: Required<PreprocessingConfig>,
+  mustConvert: boolean
+): string {
+  if (settings.enabled && settings.output_format !== "original") {
+    return settings.output_format;
+  }
+  if (mustConvert || !(sourceFormat in OUTPUT_TYPES)) {
+    return settings.output_format === "webp" ? "webp" : "jpeg";
+  }
+  return sourceFormat;
+}
+
+function isHeicFile(file: File, input: Buffer): boolean {
+  return (
+    /^image\/hei[cf]/.test(file.type) ||
+    /\.hei[cf]$/i.test(file.name) ||
+    (input.subarray(4, 8).toString("ascii") === "ftyp" &&
+      input.subarray(8, 11).toString("ascii") === "hei")
+  );
+}
+
+/**
+ * Decode HEIC/HEIF (libvips prebuilds lack the HEVC decoder) into a sharp pipeline
+ */
+async function decodeHeic(input: Buffer): Promise<Sharp> {
+  const { default: decode } = await import("heic-decode");
+  const { width, height, data } = await decode({ buffer: input });
+
+  return sharp(Buffer.from(data.buffer, data.byteOffset, data.byteLength), {
+    raw: { width, height, channels: 4 },
+  });
+}
@@ -3,23 +3,28 @@
  * Used by both API routes (direct processing) and worker (queue processing)
  */
 
-import OpenAI from "openai";
 import { supabaseServer } from "@/lib/supabase-server";
 import { logger } from "@/lib/logger";
-
-const openai = new OpenAI({
-  apiKey: process.env.OPENAI_API_KEY!,
-  timeout: 25000, // 25s timeout for direct processing
-  maxRetries: 2, // Automatic retries
-});
-
-const MODEL = "gpt-4o-2024-08-06";
+import { completeBatchForJob } from "@/services/batchService";
+import { TERMINAL_JOB_STATUSES } from "@/schemas/manifest";
+import * as resultCacheService from "@/services/resultCacheService";
+import { refundRequestCount } from "@/middleware/rateLimitParametric";
+import { expireStaleJobs } from "@/services/jobService";
+import { getCustomModelEndpoints } from "@/services/modelProfileService";
+import type { ModelProfile } from "@/schemas/pattern";
+import type { ProviderName, TokenUsage } from "@/llm/providers/types";
+
+// Cache hits are answered without a model call; set to make them not count against the quota
+const CACHE_HITS_FREE = process.env.CACHE_HITS_FREE === "true";
 
 interface ProcessImageParams {
   jobId: string;
   patternId: string;
   imageUrl: string;
+  imageUrls?: string[]; // Multi-image jobs: all images in order (imageUrl is the first)
+  sourcePages?: number[]; // PDF jobs: page number of each image
   userId: string;
+  signal?: AbortSignal; // Queue worker: aborted when another worker took over the job's lease
 }
 
 interface ProcessImageResult {
@@ -43,7 +48,8 @@ interface Pattern {
 export async function processImage(
   params: ProcessImageParams
 ): Promise<ProcessImageResult> {
-  const { jobId, patternId, imageUrl, userId } = params;
+  const { jobId, patternId, imageUrl, sourcePages, userId } = params;
+  const imageUrls = params.imageUrls && params.imageUrls.length > 0 ? params.imageUrls : [imageUrl];
   const startTime = Date.now();
 
   try {
@@ -53,50 +59,155 @@ export async function processImage(
       user_id: userId,
     });
 
+    // 🛑 Skip jobs cancelled while waiting in the queue
+    if (await isJobCancelled(jobId)) {
+      logger.info("Job was cancelled before processing, skipping", { job_id: jobId });
+      return { success: false, error: "Job was cancelled" };
+    }
+
+    // ⌛ Skip (and expire) jobs that waited past their deadline, e.g. after a worker outage
+    if ((await expireStaleJobs(jobId)).length > 0) {
+      logger.info("Job expired before processing, skipping", { job_id: jobId });
+      return { success: false, error: "Job expired" };
+    }
+
+    if (!(await updateJobStatus(jobId, "running"))) {
+      logger.info("Job is no longer active, skipping", { job_id: jobId });
+      return { success: false, error: "Job is no longer active" };
+    }
+
     // Get pattern with CSV schema
-    const { data: pattern, error: patternError } = await supabaseServer
+    const { data: currentPattern, error: patternError } = await supabaseServer
       .from("patterns")
-      .select("id, user_id, format, json_schema, csv_schema, csv_delimiter, yaml_schema, xml_schema, plain_text_schema, instructions, model_profile")
+      .select("id, user_id, format, json_schema, csv_schema, csv_delimiter, yaml_schema, xml_schema, plain_text_schema, instructions, model_profile, fallback_model_profiles, field_confidence, version, cache_mode, retain_images")
       .eq("id", patternId)
       .single();
 
-    if (patternError || !pattern) {
+    if (patternError || !currentPattern) {
       throw new Error(`Pattern not found: ${patternId}`);
     }
 
+    // 📌 Reprocess jobs run with the version they were created for, not the active one
+    const pinnedVersion = await getPinnedPatternVersion(jobId);
+    const pattern =
+      pinnedVersion !== null && pinnedVersion !== currentPattern.version
+        ? {
+            ...currentPattern,
+            ...(await getPatternVersionSnapshot(patternId, pinnedVersion)),
+            version: pinnedVersion,
+          }
+        : currentPattern;
+
     // Import orchestrator for proper format handling
     const { inferManifest: orchestratorInferManifest } = await import("@/llm/orchestrator");
 
     // Extract filename from imageUrl for better AI context
     const imageFilename = imageUrl.split('/').pop() || 'image';
 
+    // ♻️ RESULT CACHE: same image(s) + same pattern configuration → reuse the stored manifest
+    const cacheMode = (pattern.cache_mode || "exact") as resultCacheService.CacheMode;
+    const configHash = resultCacheService.patternConfigHash(pattern);
+    const imageHashes =
+      cacheMode === "off"
+        ? null
+        : await resultCacheService.hashImages(imageUrls, cacheMode === "perceptual");
+    const cached = imageHashes
+      ? await resultCacheService.findCachedManifest({
+          patternId,
+          configHash,
+          hashes: imageHashes,
+        })
+      : null;
+
+    if (cached) {
+      logger.info("Result cache hit, skipping inference", {
+        job_id: jobId,
+        source_job_id: cached.source_job_id,
+        perceptual: cached.content_hash !== imageHashes?.contentHash,
+      });
+    }
+
+    const modelProfile = (pattern.model_profile || "managed-default") as ModelProfile;
+    const fallbackModelProfiles = (pattern.fallback_model_profiles ?? []) as ModelProfile[];
+
     // DIVINE RULE: Infer manifest using ALL format-specific schemas
-    const { manifest, manifestString, latencyMs } = await orchestratorInferManifest({
-      imageUrl,
-      imageFilename,
-      instructions: pattern.instructions,
-      format: pattern.format as any,
-      jsonSchema: pattern.json_schema || undefined,
-      csvSchema: pattern.csv_schema || undefined,
-      csvDelimiter: (pattern.csv_delimiter || "comma") as "comma" | "semicolon",
-      yamlSchema: pattern.yaml_schema || undefined,
-      xmlSchema: pattern.xml_schema || undefined,
-      plainTextSchema: pattern.plain_text_schema || undefined,
-      modelProfile: (pattern.model_profile || "managed-default") as any,
-    });
+    const { manifest, latencyMs, pageSources, confidence, usage, provider, model } = cached
+      ? {
+          manifest: cached.manifest as Record<string, unknown>,
+          latencyMs: Date.now() - startTime,
+          pageSources: (cached.manifest_page_sources ?? undefined) as Record<string, number | null> | undefined,
+          confidence: (cached.manifest_confidence ?? undefined) as Record<string, unknown> | undefined,
+          usage: undefined,
+          provider: undefined,
+          model: undefined,
+        }
+      : await orchestratorInferManifest({
+          imageUrl,
+          additionalImageUrls: imageUrls.slice(1),
+          pageNumbers: sourcePages,
+          imageFilename,
+          instructions: pattern.instructions,
+          format: pattern.format as any,
+          jsonSchema: pattern.json_schema || undefined,
+          csvSchema: pattern.csv_schema || undefined,
+          csvDelimiter: (pattern.csv_delimiter || "comma") as "comma" | "semicolon",
+          yamlSchema: pattern.yaml_schema || undefined,
+          xmlSchema: pattern.xml_schema || undefined,
+          plainTextSchema: pattern.plain_text_schema || undefined,
+          modelProfile,
+          fallbackModelProfiles,
+          customEndpoints: await getCustomModelEndpoints(pattern.user_id, [modelProfile, ...fallbackModelProfiles]),
+          fieldConfidence: pattern.field_confidence,
+        });
 
     logger.info("Manifest inferred successfully", {
       job_id: jobId,
       latency_ms: latencyMs,
+      provider,
       manifest_keys: Object.keys(manifest),
     });
 
+    if (params.signal?.aborted) {
+      logger.warn("Job lease lost during processing, discarding result", { job_id: jobId });
+      return { success: false, error: "Job lease lost" };
+    }
+
     // Update job with success
-    await updateJobStatus(jobId, "succeeded", {
+    const recorded = await updateJobStatus(jobId, "succeeded", {
       manifest,
+      manifestPageSources: pageSources,
+      manifestConfidence: confidence,
       latencyMs,
+      usage,
+      provider: provider && { name: provider, model },
+      imageHashes: imageHashes ?? undefined,
+      cacheHit: cached ? { sourceJobId: cached.source_job_id } : undefined,
     });
 
+    // 🛑 Cancelled while running: the result is discarded, no webhooks
+    if (!recorded) {
+      logger.info("Job was cancelled during processing, discarding result", {
+        job_id: jobId,
+        latency_ms: latencyMs,
+      });
+      return { success: false, error: "Job was cancelled" };
+    }
+
+    if (cached && CACHE_HITS_FREE) {
+      await refundRequestCount(userId, 1);
+    } else if (!cached && imageHashes) {
+      await resultCacheService.storeCachedManifest({
+        patternId,
+        patternVersion: pattern.version,
+        configHash,
+        hashes: imageHashes,
+        manifest,
+        manifestPageSources: pageSources,
+        manifestConfidence: confidence,
+        sourceJobId: jobId,
+      });
+    }
+
     // Send webhook notification
     await sendWebhookNotification(pattern as Pattern, {
       event: "job.succeeded",
@@ -106,10 +217,20 @@ export async function processImage(
       error: null,
     });
 
-    // 🔥 DELETE IMAGE (Privacy & Storage Cost Optimization)
-    console.log("🗑️ ABOUT TO DELETE IMAGE:", { imageUrl, jobId });
-    await deleteImageAfterProcessing(imageUrl, jobId);
-    console.log("✅ DELETE IMAGE COMPLETED");
+    // Batch bookkeeping (fires batch.completed when this was the last job)
+    await completeBatchForJob(jobId);
+
+    // 🔥 DELETE IMAGE (Privacy & Storage Cost Optimization), unless kept for reprocessing
+    if (currentPattern.retain_images) {
+      logger.info("Pattern retains images, skipping deletion", { job_id: jobId });
+    } else {
+      console.log("🗑️ ABOUT TO DELETE IMAGE:", { imageUrls, jobId });
+      for (const url of imageUrls) {
+        await deleteImageAfterProcessing(url, jobId);
+      }
+      await markImagesDeleted(jobId);
+      console.log("✅ DELETE IMAGE COMPLETED");
+    }
 
     const totalLatency = Date.now() - startTime;
     logger.info("Image processing completed successfully", {
@@ -132,12 +253,33 @@ export async function processImage(
       latency_ms: latencyMs,
     });
 
-    // Update job with failure
-    await updateJobStatus(jobId, "failed", {
+    // Another worker owns the job now and records its outcome
+    if (params.signal?.aborted) {
+      logger.warn("Job lease lost during processing, not recording failure", { job_id: jobId });
+      return { success: false, error: "Job lease lost", latencyMs };
+    }
+
+    // Update job with failure; cancellation wins (the write is skipped for inactive jobs)
+    const recorded = await updateJobStatus(jobId, "failed", {
       error: errorMessage,
       latencyMs,
     });
 
+    if (!recorded) {
+      const status = await getJobStatus(jobId);
+      if (status === "cancelled") {
+        logger.info("Job was cancelled, not recording failure", { job_id: jobId });
+        return { success: false, error: "Job was cancelled", latencyMs };
+      }
+
+      // Already finished (e.g. a step after the succeeded write threw): the job keeps its state
+      logger.error("Job failed after it was already finished", error, {
+        job_id: jobId,
+        status,
+      });
+      return { success: false, error: errorMessage, latencyMs };
+    }
+
     // Send failure webhook
     const { data: pattern } = await supabaseServer
       .from("patterns")
@@ -155,6 +297,8 @@ export async function processImage(
       });
     }
 
+    await completeBatchForJob(jobId);
+
     return {
       success: false,
       error: errorMessage,
@@ -244,68 +388,144 @@ async function deleteImageAfterProcessing(
 }
 
 /**
- * Update job status in database with IMMUTABILITY PROTECTION
- * 🔒 CRITICAL: Terminal states (succeeded/failed) cannot be overwritten
+ * Record that a job's images are gone (reprocessing skips such jobs)
  */
-async function updateJobStatus(
-  jobId: string,
-  status: "running" | "succeeded" | "failed",
-  updates: {
-    manifest?: Record<string, unknown>;
-    error?: string;
-    latencyMs?: number;
-  } = {}
-): Promise<void> {
-  const now = new Date().toISOString();
+async function markImagesDeleted(jobId: string): Promise<void> {
+  const { error } = await supabaseServer
+    .from("jobs")
+    .update({ images_deleted_at: new Date().toISOString() })
+    .eq("id", jobId);
 
-  // 🛡️ IMMUTABILITY CHECK: Prevent overwriting terminal states
-  const { data: currentJob, error: fetchError } = await supabaseServer
+  if (error) {
+    logger.warn("Failed to mark job images deleted", {
+      job_id: jobId,
+      error: error.message,
+    });
+  }
+}
+
+/**
+ * Pattern version a reprocess job is pinned to (null for regular jobs)
+ */
+async function getPinnedPatternVersion(jobId: string): Promise<number | null> {
+  const { data, error } = await supabaseServer
     .from("jobs")
-    .select("id, status, error, manifest, completed_at")
+    .select("reprocess_of, pattern_version")
     .eq("id", jobId)
     .single();
 
-  if (fetchError) {
-    logger.error("Failed to fetch current job status", {
-      job_id: jobId,
-      error: fetchError.message,
-    });
-    throw fetchError;
+  if (error) {
+    throw new Error(`Failed to load job ${jobId}: ${error.message}`);
+  }
+
+  return data?.reprocess_of ? data.pattern_version : null;
+}
+
+/**
+ * Instructions and schemas of a published pattern version
+ */
+async function getPatternVersionSnapshot(patternId: string, version: number) {
+  const { data, error } = await supabaseServer
+    .from("pattern_versions")
+    .select("format, instructions, json_schema, yaml_schema, xml_schema, csv_schema, csv_delimiter, plain_text_schema")
+    .eq("pattern_id", patternId)
+    .eq("version", version)
+    .single();
+
+  if (error || !data) {
+    throw new Error(`Pattern version ${version} not found: ${patternId}`);
   }
 
-  // If job is in a terminal state, prevent overwriting
-  const terminalStates = ["succeeded", "failed"];
-  if (currentJob && terminalStates.includes(currentJob.status)) {
-    logger.error("CRITICAL: Attempted to overwrite terminal job status", {
+  // Versions published before formats were versioned have no format: keep the active one
+  const { format, ...snapshot } = data;
+  return format ? { ...snapshot, format } : snapshot;
+}
+
+/**
+ * Current status of a job (null if it cannot be read)
+ */
+async function getJobStatus(jobId: string): Promise<string | null> {
+  const { data, error } = await supabaseServer
+    .from("jobs")
+    .select("status")
+    .eq("id", jobId)
+    .single();
+
+  if (error) {
+    logger.warn("Failed to read job status", {
       job_id: jobId,
-      current_status: currentJob.status,
-      attempted_status: status,
-      current_error: currentJob.error,
-      attempted_error: updates.error,
-      has_manifest: !!currentJob.manifest,
-      completed_at: currentJob.completed_at,
-      violation_type: "status_immutability",
+      error: error.message,
     });
-
-    // 🚨 DO NOT update - throw error to prevent data loss
-    throw new Error(
-      `Job ${jobId} is already in terminal state '${currentJob.status}' and cannot be updated to '${status}'`
-    );
+    return null;
   }
 
+  return data?.status ?? null;
+}
+
+/**
+ * Check whether a job was cancelled by the user
+ */
+async function isJobCancelled(jobId: string): Promise<boolean> {
+  return (await getJobStatus(jobId)) === "cancelled";
+}
+
+/**
+ * Update job status in database with IMMUTABILITY PROTECTION
+ * 🔒 CRITICAL: Terminal states (succeeded/failed/cancelled/expired) cannot be overwritten.
+ * The write is conditional on the job still being active, so a cancel that lands while
+ * the job runs is never overwritten by its result.
+ *
+ * @returns false if the job was no longer active (nothing was written)
+ */
+async function updateJobStatus(
+  jobId: string,
+  status: "running" | "succeeded" | "failed",
+  updates: {
+    manifest?: Record<string, unknown>;
+    manifestPageSources?: Record<string, number | null>;
+    manifestConfidence?: Record<string, unknown>;
+    error?: string;
+    latencyMs?: number;
+    usage?: TokenUsage;
+    provider?: { name: ProviderName; model?: string };
+    imageHashes?: resultCacheService.ImageHashes;
+    cacheHit?: { sourceJobId: string | null };
+  } = {}
+): Promise<boolean> {
+  const now = new Date().toISOString();
+
   const updateData: Record<string, unknown> = {
     status,
     ...(updates.manifest && { manifest: updates.manifest }),
+    ...(updates.manifestPageSources && { manifest_page_sources: updates.manifestPageSources }),
+    ...(updates.manifestConfidence && { manifest_confidence: updates.manifestConfidence }),
     ...(updates.error && { error: updates.error }),
     ...(updates.latencyMs && { latency_ms: updates.latencyMs }),
+    ...(updates.usage && {
+      tokens_input: updates.usage.input,
+      tokens_output: updates.usage.output,
+      tokens_total: updates.usage.total,
+    }),
+    ...(updates.provider && {
+      provider: updates.provider.name,
+      provider_model: updates.provider.model ?? null,
+    }),
+    ...(updates.imageHashes && {
+      content_hash: updates.imageHashes.contentHash,
+      perceptual_hash: updates.imageHashes.perceptualHash,
+    }),
+    ...(updates.cacheHit && { cache_hit: true, cache_source_job_id: updates.cacheHit.sourceJobId }),
     ...(status === "running" && { started_at: now }),
-    ...(["succeeded", "failed"].includes(status) && { completed_at: now }),
+    ...(TERMINAL_JOB_STATUSES.includes(status) && { completed_at: now }),
   };
 
-  const { error } = await supabaseServer
+  // 🛡️ IMMUTABILITY CHECK: only active jobs are updated (atomic, no read-then-write)
+  const { data: updated, error } = await supabaseServer
     .from("jobs")
     .update(updateData)
-    .eq("id", jobId);
+    .eq("id", jobId)
+    .in("status", ["scheduled", "queued", "running"])
+    .select("id");
 
   if (error) {
     logger.error("Failed to update job status", {
@@ -316,13 +536,23 @@ async function updateJobStatus(
     throw error;
   }
 
+  if (!updated || updated.length === 0) {
+    logger.warn("Job is no longer active, status not updated", {
+      job_id: jobId,
+      attempted_status: status,
+      attempted_error: updates.error,
+      has_manifest: !!updates.manifest,
+    });
+    return false;
+  }
+
   logger.info("Job status updated successfully", {
     job_id: jobId,
-    old_status: currentJob.status,
     new_status: status,
     has_error: !!updates.error,
     has_manifest: !!updates.manifest,
   });
+  return true;
 }
 
 /**
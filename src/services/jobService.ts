@@ -4,10 +4,26 @@
 
 import { supabaseServer } from "@/lib/supabase-server";
 import { Database } from "@/lib/database.types";
-import { insertRow, callRpc } from "@/lib/supabase-helpers";
+import { insertRow, updateRowNoReturn, callRpc } from "@/lib/supabase-helpers";
 import { logger } from "@/lib/logger";
-import { Job, JobStatus } from "@/schemas/manifest";
-import { enqueueJob, QueueJobPayload } from "@/queues/pgmq";
+import {
+  Job,
+  JobAttempt,
+  JobPriority,
+  JobStatus,
+  ReprocessFilters,
+  isTerminalJobStatus,
+} from "@/schemas/manifest";
+import {
+  enqueueJob,
+  archiveMessage,
+  deleteMessage,
+  PGMQMessage,
+  QueueJobPayload,
+} from "@/queues/pgmq";
+import { usesNodeWorker } from "@/queues/backend";
+import { sendWebhook } from "@/services/webhookService";
+import { completeBatchForJob } from "@/services/batchService";
 
 /**
  * Create job record only (without enqueueing) - used by hybrid approach
@@ -15,17 +31,40 @@ import { enqueueJob, QueueJobPayload } from "@/queues/pgmq";
 export async function createJobRecord(params: {
   patternId: string;
   imageUrl: string;
+  imageUrls?: string[];
+  sourcePages?: number[];
   userId: string;
   idempotencyKey?: string;
   extras?: Record<string, unknown>;
+  batchId?: string;
+  priority?: JobPriority;
+  scheduledFor?: Date;
+  expiresAt?: Date;
+  reprocess?: { sourceJobId: string; patternVersion: number }; // Pinned to this version
 }): Promise<{ jobId: string }> {
-  const { patternId, imageUrl, userId, idempotencyKey, extras } = params;
+  const {
+    patternId,
+    imageUrl,
+    imageUrls,
+    sourcePages,
+    userId,
+    idempotencyKey,
+    extras,
+    batchId,
+    priority,
+    scheduledFor,
+    expiresAt,
+    reprocess,
+  } = params;
 
   try {
     logger.info("Creating job record", {
       pattern_id: patternId,
       user_id: userId,
       idempotency_key: idempotencyKey,
+      priority,
+      ...(scheduledFor && { scheduled_for: scheduledFor.toISOString() }),
+      ...(expiresAt && { expires_at: expiresAt.toISOString() }),
     });
 
     type JobInsert = Database["public"]["Tables"]["jobs"]["Insert"];
@@ -33,10 +72,18 @@ export async function createJobRecord(params: {
     const jobData: JobInsert = {
       pattern_id: patternId,
       image_url: imageUrl,
-      status: "queued",
+      image_urls: imageUrls && imageUrls.length > 1 ? imageUrls : null,
+      source_pages: sourcePages ?? null,
+      status: scheduledFor ? "scheduled" : "queued",
+      scheduled_for: scheduledFor ? scheduledFor.toISOString() : null,
+      expires_at: expiresAt ? expiresAt.toISOString() : null,
       requested_by: userId,
       idempotency_key: idempotencyKey || null,
       extras: extras ? (extras as any) : null,
+      batch_id: batchId || null,
+      priority: priority ?? "default",
+      reprocess_of: reprocess?.sourceJobId ?? null,
+      pattern_version: reprocess?.patternVersion ?? null,
     };
 
     const { data, error } = await insertRow(supabaseServer, "jobs", jobData);
@@ -64,29 +111,37 @@ export async function createJobRecord(params: {
 
 /**
  * Enqueue an existing job to PGMQ - used by hybrid approach fallback
+ *
+ * @param priority - Queue lane (must match jobs.priority so cancel can find the message)
+ * @param delaySeconds - Delay before the worker can see the job (scheduled jobs)
  */
 export async function enqueueExistingJob(
   jobId: string,
-  queuePayload: QueueJobPayload
+  queuePayload: QueueJobPayload,
+  priority: JobPriority = "default",
+  delaySeconds = 0
 ): Promise<void> {
   try {
-    logger.info("Enqueueing existing job", { job_id: jobId });
+    logger.info("Enqueueing existing job", { job_id: jobId, priority, delay_seconds: delaySeconds });
 
-    const enqueueResult = await enqueueJob(queuePayload);
+    const enqueueResult = await enqueueJob(queuePayload, priority, delaySeconds);
 
     if (!enqueueResult.success) {
       // Mark job as failed if enqueue fails
-      // eslint-disable-next-line @typescript-eslint/no-explicit-any
-      await (supabaseServer.from("jobs") as any)
-        .update({
-          status: "failed",
-          error: `Failed to enqueue: ${enqueueResult.error}`,
-        })
-        .eq("id", jobId);
+      await updateRowNoReturn(
+        supabaseServer,
+        "jobs",
+        { status: "failed", error: `Failed to enqueue: ${enqueueResult.error}` },
+        { column: "id", value: jobId }
+      );
 
       throw new Error(`Failed to enqueue job: ${enqueueResult.error}`);
     }
 
+    if (enqueueResult.msg_id !== undefined) {
+      await recordQueueMessage(jobId, enqueueResult.msg_id);
+    }
+
     logger.info("Job enqueued successfully", {
       job_id: jobId,
       msg_id: enqueueResult.msg_id,
@@ -97,6 +152,99 @@ export async function enqueueExistingJob(
   }
 }
 
+/**
+ * Offer a job's queue message again after delaySeconds without counting a delivery
+ * A fresh copy is sent (read_ct starts over) and the original deleted, so a job that only
+ * waits for a concurrency slot or another worker's lease never reaches QUEUE_MAX_DELIVERIES
+ * and is not dead-lettered. A visibility extension would count as a delivery on the next read.
+ *
+ * @returns false if the copy could not be sent (the original message is left untouched)
+ */
+export async function requeueJobMessage(
+  msg: PGMQMessage<QueueJobPayload>,
+  delaySeconds: number
+): Promise<boolean> {
+  const jobId = msg.message.job_id;
+  const priority = msg.priority ?? "default";
+
+  const enqueueResult = await enqueueJob(msg.message, priority, delaySeconds);
+  if (!enqueueResult.success || enqueueResult.msg_id === undefined) {
+    return false;
+  }
+
+  await recordQueueMessage(jobId, enqueueResult.msg_id);
+  // A leftover original is harmless: the lease and terminal-status checks skip duplicates
+  await deleteMessage(msg.msg_id, priority);
+
+  return true;
+}
+
+/**
+ * Remember the job's queue message so a cancel can archive it before a worker picks it up
+ */
+async function recordQueueMessage(jobId: string, msgId: number): Promise<void> {
+  const { error } = await updateRowNoReturn(
+    supabaseServer,
+    "jobs",
+    { queue_msg_id: msgId },
+    { column: "id", value: jobId }
+  );
+
+  if (error) {
+    logger.warn("Failed to store queue message id", {
+      job_id: jobId,
+      msg_id: msgId,
+      error: error.message,
+    });
+  }
+}
+
+/**
+ * Trigger the Supabase worker immediately (non-blocking, cron is backup)
+ * No-op with WORKER_RUNTIME=node or QUEUE_BACKEND=memory: those workers poll the queue themselves
+ */
+export function triggerWorker(logContext: Record<string, unknown> = {}): void {
+  if (usesNodeWorker()) {
+    return;
+  }
+
+  const supabaseUrl = process.env.NEXT_PUBLIC_SUPABASE_URL;
+  const serviceRoleKey = process.env.SUPABASE_SERVICE_ROLE_KEY;
+
+  if (!supabaseUrl || !serviceRoleKey) {
+    logger.warn("Cannot trigger worker immediately - missing env variables", {
+      ...logContext,
+      has_url: !!supabaseUrl,
+      has_key: !!serviceRoleKey,
+    });
+    return;
+  }
+
+  logger.info("⚡ Triggering worker immediately (non-blocking)", {
+    ...logContext,
+    worker_url: `${supabaseUrl}/functions/v1/worker`,
+  });
+
+  fetch(`${supabaseUrl}/functions/v1/worker`, {
+    method: "POST",
+    headers: {
+      "Authorization": `Bearer ${serviceRoleKey}`,
+      "Content-Type": "application/json",
+    },
+    body: "{}",
+  })
+    .then(() => {
+      logger.info("⚡ Worker triggered successfully", logContext);
+    })
+    .catch((error) => {
+      // Log but don't block - cron will pick it up within 5 seconds
+      logger.warn("Immediate worker trigger failed, cron will handle", {
+        ...logContext,
+        error: error instanceof Error ? error.message : String(error),
+      });
+    });
+}
+
 /**
  * Create and enqueue a new job (legacy/backwards compatibility)
  */
@@ -160,6 +308,297 @@ export async function getJob(
   }
 }
 
+const WAIT_POLL_INTERVAL_MS = 500;
+
+/**
+ * Wait until a job reaches a terminal state or the timeout elapses
+ * Returns the latest job snapshot (still queued/running on timeout)
+ */
+export async function waitForJob(
+  jobId: string,
+  userId: string,
+  timeoutMs: number
+): Promise<Job | null> {
+  const deadline = Date.now() + timeoutMs;
+
+  let job = await getJob(jobId, userId);
+  while (job && !isTerminalJobStatus(job.status) && Date.now() < deadline) {
+    const remaining = deadline - Date.now();
+    await new Promise((resolve) =>
+      setTimeout(resolve, Math.min(WAIT_POLL_INTERVAL_MS, remaining))
+    );
+    job = await getJob(jobId, userId);
+  }
+
+  return job;
+}
+
+/**
+ * Cancel a queued or running job
+ * Queued jobs have their pgmq message archived; running jobs are left to the
+ * worker, which checks for the cancelled status before writing its result
+ *
+ * @returns null if not found / not owned; cancelled=false if the job already finished
+ */
+export async function cancelJob(
+  jobId: string,
+  userId: string
+): Promise<{ cancelled: boolean; previousStatus: JobStatus; job: Job } | null> {
+  try {
+    const job = await getJob(jobId, userId);
+    if (!job) {
+      return null;
+    }
+
+    if (isTerminalJobStatus(job.status)) {
+      return { cancelled: false, previousStatus: job.status, job };
+    }
+
+    // Atomic transition: only flips jobs that are still scheduled/queued/running
+    const { data: updated, error } = await supabaseServer
+      .from("jobs")
+      .update({
+        status: "cancelled",
+        error: "Cancelled by user",
+        completed_at: new Date().toISOString(),
+      })
+      .eq("id", jobId)
+      .in("status", ["scheduled", "queued", "running"])
+      .select("id, queue_msg_id");
+
+    if (error) {
+      logger.error("Failed to cancel job", error, { job_id: jobId });
+      throw error;
+    }
+
+    if (!updated || updated.length === 0) {
+      // Worker finished the job between our read and the update
+      const latest = await getJob(jobId, userId);
+      return { cancelled: false, previousStatus: latest?.status ?? job.status, job: latest ?? job };
+    }
+
+    // Drop the queue message so no worker picks the job up
+    const msgId = (updated[0] as { queue_msg_id: number | null }).queue_msg_id;
+    if ((job.status === "scheduled" || job.status === "queued") && msgId !== null) {
+      await archiveMessage(msgId, job.priority ?? "default");
+    }
+
+    logger.info("Job cancelled", {
+      job_id: jobId,
+      previous_status: job.status,
+      msg_id: msgId,
+    });
+
+    return {
+      cancelled: true,
+      previousStatus: job.status,
+      job: { ...job, status: "cancelled", error: "Cancelled by user" },
+    };
+  } catch (error) {
+    logger.error("Exception cancelling job", error, { job_id: jobId });
+    throw error;
+  }
+}
+
+/**
+ * Expire jobs that are still waiting after their deadline (expires_at)
+ * The database refunds their request (also when the expiry cron got there first);
+ * this archives their queue message and fires job.expired once per job
+ *
+ * @param jobId - Only check this job (worker pickup); omit to sweep all stale jobs
+ * @returns IDs of the expired jobs notified by this call
+ */
+export async function expireStaleJobs(jobId?: string): Promise<string[]> {
+  try {
+    const { error } = await supabaseServer.rpc("expire_stale_jobs", {
+      ...(jobId && { p_job_id: jobId }),
+    });
+
+    if (error) {
+      logger.error("Failed to expire stale jobs", error, { job_id: jobId });
+      throw error;
+    }
+
+    const { data: expired, error: claimError } = await supabaseServer.rpc(
+      "claim_expired_job_notifications",
+      { ...(jobId && { p_job_id: jobId }) }
+    );
+
+    if (claimError) {
+      logger.error("Failed to claim expired job notifications", claimError, { job_id: jobId });
+      throw claimError;
+    }
+
+    for (const job of expired || []) {
+      if (job.queue_msg_id !== null) {
+        await archiveMessage(job.queue_msg_id, job.priority as JobPriority);
+      }
+
+      await sendWebhook({
+        userId: job.user_id,
+        event: "job.expired",
+        jobId: job.id,
+        patternId: job.pattern_id,
+        error: "Job expired before processing started",
+      });
+
+      if (job.batch_id) {
+        await completeBatchForJob(job.id);
+      }
+
+      logger.info("Job expired", {
+        job_id: job.id,
+        pattern_id: job.pattern_id,
+        msg_id: job.queue_msg_id,
+      });
+    }
+
+    return (expired || []).map((job) => job.id);
+  } catch (error) {
+    logger.error("Exception expiring stale jobs", error, { job_id: jobId });
+    throw error;
+  }
+}
+
+/**
+ * Outcome of a lease claim: held = another worker has an unexpired lease,
+ * at_capacity = the job owner is at their concurrency cap, finished = job is terminal
+ */
+export type JobLeaseClaim = "claimed" | "held" | "at_capacity" | "finished";
+
+/**
+ * Take or renew the processing lease of a job (worker heartbeat)
+ * New claims respect the owner's max_concurrent_jobs; renewals always succeed for the holder
+ */
+export async function claimJobLease(
+  jobId: string,
+  owner: string,
+  leaseSeconds: number
+): Promise<JobLeaseClaim> {
+  try {
+    const { data: claimed, error } = await supabaseServer.rpc("claim_job_lease", {
+      p_job_id: jobId,
+      p_owner: owner,
+      p_lease_seconds: leaseSeconds,
+    });
+
+    if (error) {
+      logger.error("Failed to claim job lease", error, { job_id: jobId, owner });
+      throw error;
+    }
+
+    return claimed as JobLeaseClaim;
+  } catch (error) {
+    logger.error("Exception claiming job lease", error, { job_id: jobId });
+    throw error;
+  }
+}
+
+/**
+ * Give a job lease back once the worker is done with the job
+ */
+export async function releaseJobLease(jobId: string, owner: string): Promise<void> {
+  const { error } = await supabaseServer.rpc("release_job_lease", {
+    p_job_id: jobId,
+    p_owner: owner,
+  });
+
+  if (error) {
+    // The lease runs out on its own; nothing else to do
+    logger.warn("Failed to release job lease", { job_id: jobId, owner, error: error.message });
+  }
+}
+
+/**
+ * Base select over jobs (with exact count) for list endpoints
+ * With a manifest filter path (see lib/manifestFilters) only matching jobs are selected;
+ * callers chain ownership, status and pagination filters as usual.
+ */
+export function selectJobs(columns: string, manifestPath: string | null = null) {
+  const query = supabaseServer.from("jobs").select(columns, { count: "exact" });
+
+  if (!manifestPath) {
+    return query;
+  }
+
+  return supabaseServer
+    .rpc("search_jobs_by_manifest", { p_path: manifestPath }, { count: "exact" })
+    .select(columns) as unknown as typeof query;
+}
+
+/**
+ * Original job selected for reprocessing
+ */
+export interface ReprocessSourceJob {
+  id: string;
+  image_url: string;
+  image_urls: string[] | null;
+  source_pages: number[] | null;
+  extras: Record<string, unknown> | null;
+}
+
+/**
+ * Jobs of a pattern that can be reprocessed (originals whose images are still stored)
+ * Fetches up to limit + 1 rows so callers can tell when the selection is too large;
+ * also counts the matching jobs that were skipped because their images are gone.
+ */
+export async function listReprocessableJobs(
+  patternId: string,
+  filters: ReprocessFilters,
+  limit: number
+): Promise<{ jobs: ReprocessSourceJob[]; imagesDeleted: number }> {
+  const select = (columns: string, options?: { count: "exact"; head: true }) => {
+    let query = supabaseServer
+      .from("jobs")
+      .select(columns, options)
+      .eq("pattern_id", patternId)
+      .is("reprocess_of", null)
+      .in("status", filters.status);
+
+    if (filters.created_after) {
+      query = query.gte("created_at", filters.created_after);
+    }
+    if (filters.created_before) {
+      query = query.lt("created_at", filters.created_before);
+    }
+    if (filters.pattern_version !== undefined) {
+      query = query.eq("pattern_version", filters.pattern_version);
+    }
+    if (filters.job_ids) {
+      query = query.in("id", filters.job_ids);
+    }
+
+    return query;
+  };
+
+  try {
+    const [eligible, deleted] = await Promise.all([
+      select("id, image_url, image_urls, source_pages, extras")
+        .is("images_deleted_at", null)
+        .order("created_at", { ascending: true })
+        .limit(limit + 1),
+      select("id", { count: "exact", head: true }).not("images_deleted_at", "is", null),
+    ]);
+
+    if (eligible.error) {
+      logger.error("Failed to list reprocessable jobs", eligible.error, { pattern_id: patternId });
+      throw eligible.error;
+    }
+    if (deleted.error) {
+      logger.error("Failed to count jobs without images", deleted.error, { pattern_id: patternId });
+      throw deleted.error;
+    }
+
+    return {
+      jobs: (eligible.data || []) as unknown as ReprocessSourceJob[],
+      imagesDeleted: deleted.count ?? 0,
+    };
+  } catch (error) {
+    logger.error("Exception listing reprocessable jobs", error, { pattern_id: patternId });
+    throw error;
+  }
+}
+
 /**
  * List user's jobs
  */
@@ -201,6 +640,110 @@ export async function listJobs(
   }
 }
 
+/**
+ * Re-enqueue a failed job as a new attempt
+ * The failed attempt is kept in job_attempts (recorded by DB trigger)
+ *
+ * @returns null if not found / not owned; retried=false if the job is not failed
+ */
+export async function retryJob(
+  jobId: string,
+  userId: string
+): Promise<{ retried: boolean; status: JobStatus; attemptNumber: number } | null> {
+  try {
+    const job = await getJob(jobId, userId);
+    if (!job) {
+      return null;
+    }
+
+    const retryCount = job.retry_count ?? 0;
+
+    if (job.status !== "failed") {
+      return { retried: false, status: job.status, attemptNumber: retryCount + 1 };
+    }
+
+    logger.info("Retrying failed job", {
+      job_id: jobId,
+      retry_count: retryCount,
+    });
+
+    const updateData: Database["public"]["Tables"]["jobs"]["Update"] = {
+      status: "queued",
+      retry_count: retryCount + 1,
+      last_error: job.error,
+      error: null,
+      error_code: null,
+      manifest: null,
+      latency_ms: null,
+      started_at: null,
+      completed_at: null,
+      expires_at: null, // A retry is an explicit request, the original deadline no longer applies
+    };
+
+    // Optimistic concurrency: only one retry request wins per attempt
+    const { data: updated, error } = await supabaseServer
+      .from("jobs")
+      .update(updateData)
+      .eq("id", jobId)
+      .eq("status", "failed")
+      .eq("retry_count", retryCount)
+      .select("id");
+
+    if (error) {
+      logger.error("Failed to reset job for retry", error, { job_id: jobId });
+      throw error;
+    }
+
+    if (!updated || updated.length === 0) {
+      const latest = await getJob(jobId, userId);
+      return {
+        retried: false,
+        status: latest?.status ?? job.status,
+        attemptNumber: (latest?.retry_count ?? retryCount) + 1,
+      };
+    }
+
+    await enqueueExistingJob(jobId, {
+      job_id: jobId,
+      pattern_id: job.pattern_id,
+      image_url: job.image_url,
+      image_urls: job.image_urls ?? undefined,
+      source_pages: job.source_pages ?? undefined,
+      extras: job.extras ?? undefined,
+    }, job.priority ?? "default");
+
+    return { retried: true, status: "queued", attemptNumber: retryCount + 2 };
+  } catch (error) {
+    logger.error("Exception retrying job", error, { job_id: jobId });
+    throw error;
+  }
+}
+
+/**
+ * List finished attempts of a job (oldest first)
+ */
+export async function listJobAttempts(jobId: string): Promise<JobAttempt[]> {
+  try {
+    const { data, error } = await supabaseServer
+      .from("job_attempts")
+      .select(
+        "attempt_number, status, error, latency_ms, tokens_input, tokens_output, tokens_total, pattern_version, started_at, completed_at"
+      )
+      .eq("job_id", jobId)
+      .order("attempt_number", { ascending: true });
+
+    if (error) {
+      logger.error("Failed to list job attempts", error, { job_id: jobId });
+      throw error;
+    }
+
+    return data || [];
+  } catch (error) {
+    logger.error("Exception listing job attempts", error);
+    throw error;
+  }
+}
+
 /**
  * Reset job status to 'queued' for timeout fallback retry
  * ONLY used when direct processing times out (not errors)
@@ -216,10 +759,10 @@ export async function resetJobToQueued(jobId: string): Promise<void> {
       completed_at: null,
     };
 
-    // eslint-disable-next-line @typescript-eslint/no-explicit-any
-    const { error } = await (supabaseServer.from("jobs") as any)
-      .update(updateData)
-      .eq("id", jobId);
+    const { error } = await updateRowNoReturn(supabaseServer, "jobs", updateData, {
+      column: "id",
+      value: jobId,
+    });
 
     if (error) {
       logger.error("Failed to reset job to queued", error, { job_id: jobId });
@@ -255,13 +798,13 @@ export async function updateJobStatus(
       ...(updates.error && { error: updates.error }),
       ...(updates.latencyMs && { latency_ms: updates.latencyMs }),
       ...(status === "running" && { started_at: now }),
-      ...(["succeeded", "failed"].includes(status) && { completed_at: now }),
+      ...(isTerminalJobStatus(status) && { completed_at: now }),
     };
 
-    // eslint-disable-next-line @typescript-eslint/no-explicit-any
-    const { error } = await (supabaseServer.from("jobs") as any)
-      .update(updateData)
-      .eq("id", jobId);
+    const { error } = await updateRowNoReturn(supabaseServer, "jobs", updateData, {
+      column: "id",
+      value: jobId,
+    });
 
     if (error) {
       logger.error("Failed to update job status", error, {
@@ -0,0 +1,309 @@
+/**
+ * Model Profile Service - Custom model profiles (OpenAI-compatible endpoints)
+ * A workspace registers self-hosted endpoints (vLLM, Ollama, LM Studio, ...) and
+ * patterns use them as model_profile "custom:<name>". API keys never leave the server.
+ */
+
+import { supabaseServer } from "@/lib/supabase-server";
+import { Database } from "@/lib/database.types";
+import { insertRow, updateRow, deleteRow } from "@/lib/supabase-helpers";
+import { logger } from "@/lib/logger";
+import { isPublicHost } from "@/lib/publicFetch";
+import {
+  CustomModelProfile,
+  CustomModelProfileCreateInput,
+  CustomModelProfileUpdateInput,
+  isCustomModelProfile,
+  ModelProfile,
+} from "@/schemas/pattern";
+import type { OpenAICompatibleEndpoint } from "@/llm/providers/openai";
+
+type CustomModelProfileRow = Database["public"]["Tables"]["custom_model_profiles"]["Row"];
+
+// Optional allowlist of endpoint hosts (comma-separated); unset allows any public host
+const ALLOWED_HOSTS = (process.env.CUSTOM_MODEL_ALLOWED_HOSTS || "")
+  .split(",")
+  .map((host) => host.trim().toLowerCase())
+  .filter(Boolean);
+
+function toCustomModelProfile(row: CustomModelProfileRow): CustomModelProfile {
+  return {
+    id: row.id,
+    name: row.name,
+    model_profile: `custom:${row.name}`,
+    base_url: row.base_url,
+    model: row.model,
+    has_api_key: row.api_key !== null,
+    supports_json_schema: row.supports_json_schema,
+    max_image_dimension: row.max_image_dimension,
+    created_at: row.created_at,
+    updated_at: row.updated_at,
+  };
+}
+
+/**
+ * Whether the worker may call this base URL
+ * With CUSTOM_MODEL_ALLOWED_HOSTS only the listed hosts are allowed; without it any host
+ * whose addresses are all public (internal addresses would let users probe our network)
+ */
+export async function isAllowedBaseUrl(baseUrl: string): Promise<boolean> {
+  const host = new URL(baseUrl).hostname.toLowerCase().replace(/^\[(.*)\]$/, "$1");
+
+  if (ALLOWED_HOSTS.length > 0) {
+    return ALLOWED_HOSTS.includes(host);
+  }
+
+  try {
+    return await isPublicHost(host);
+  } catch (error) {
+    logger.warn("Could not resolve custom model endpoint host", {
+      host,
+      error: error instanceof Error ? error.message : String(error),
+    });
+    return false;
+  }
+}
+
+/**
+ * Create custom model profile
+ */
+export async function createCustomModelProfile(
+  userId: string,
+  input: CustomModelProfileCreateInput
+): Promise<CustomModelProfile> {
+  try {
+    const { data, error } = await insertRow(supabaseServer, "custom_model_profiles", {
+      user_id: userId,
+      name: input.name,
+      base_url: input.base_url.replace(/\/+$/, ""),
+      model: input.model,
+      api_key: input.api_key ?? null,
+      supports_json_schema: input.supports_json_schema ?? false,
+      max_image_dimension: input.max_image_dimension ?? null,
+    });
+
+    if (error) {
+      logger.error("Failed to create custom model profile", error, { user_id: userId });
+      throw new Error(`Failed to create custom model profile: ${error.message}`);
+    }
+
+    if (!data) {
+      throw new Error("No data returned from custom model profile creation");
+    }
+
+    logger.info("Custom model profile created", {
+      model_profile_id: data.id,
+      user_id: userId,
+      name: data.name,
+    });
+
+    return toCustomModelProfile(data);
+  } catch (error) {
+    logger.error("Exception creating custom model profile", error);
+    throw error;
+  }
+}
+
+/**
+ * List user's custom model profiles
+ */
+export async function listCustomModelProfiles(userId: string): Promise<CustomModelProfile[]> {
+  try {
+    const { data, error } = await supabaseServer
+      .from("custom_model_profiles")
+      .select("*")
+      .eq("user_id", userId)
+      .order("name", { ascending: true });
+
+    if (error) {
+      logger.error("Failed to list custom model profiles", error);
+      throw error;
+    }
+
+    return (data || []).map(toCustomModelProfile);
+  } catch (error) {
+    logger.error("Exception listing custom model profiles", error);
+    throw error;
+  }
+}
+
+/**
+ * Get custom model profile by ID
+ */
+export async function getCustomModelProfile(
+  profileId: string,
+  userId: string
+): Promise<CustomModelProfile | null> {
+  try {
+    const { data, error } = await supabaseServer
+      .from("custom_model_profiles")
+      .select("*")
+      .eq("id", profileId)
+      .eq("user_id", userId)
+      .maybeSingle();
+
+    if (error) throw error;
+
+    return data ? toCustomModelProfile(data) : null;
+  } catch (error) {
+    logger.error("Exception getting custom model profile", error, { model_profile_id: profileId });
+    throw error;
+  }
+}
+
+/**
+ * Update custom model profile (api_key null removes the key)
+ */
+export async function updateCustomModelProfile(
+  profileId: string,
+  userId: string,
+  input: CustomModelProfileUpdateInput
+): Promise<CustomModelProfile> {
+  try {
+    const updateData: Record<string, unknown> = {};
+    if (input.base_url !== undefined) updateData.base_url = input.base_url.replace(/\/+$/, "");
+    if (input.model !== undefined) updateData.model = input.model;
+    if (input.api_key !== undefined) updateData.api_key = input.api_key;
+    if (input.supports_json_schema !== undefined) updateData.supports_json_schema = input.supports_json_schema;
+    if (input.max_image_dimension !== undefined) updateData.max_image_dimension = input.max_image_dimension;
+
+    const existing = await getCustomModelProfile(profileId, userId);
+    if (!existing) {
+      throw new Error("Custom model profile not found or access denied");
+    }
+
+    const { data, error } = await updateRow(
+      supabaseServer,
+      "custom_model_profiles",
+      updateData,
+      { column: "id", value: profileId }
+    );
+
+    if (error) {
+      logger.error("Failed to update custom model profile", error, { model_profile_id: profileId });
+      throw error;
+    }
+
+    if (!data) {
+      throw new Error("No data returned from custom model profile update");
+    }
+
+    return toCustomModelProfile(data);
+  } catch (error) {
+    logger.error("Exception updating custom model profile", error);
+    throw error;
+  }
+}
+
+/**
+ * Delete custom model profile
+ */
+export async function deleteCustomModelProfile(profileId: string, userId: string): Promise<void> {
+  try {
+    const existing = await getCustomModelProfile(profileId, userId);
+    if (!existing) {
+      throw new Error("Custom model profile not found or access denied");
+    }
+
+    const { error } = await deleteRow(supabaseServer, "custom_model_profiles", {
+      column: "id",
+      value: profileId,
+    });
+
+    if (error) {
+      logger.error("Failed to delete custom model profile", error);
+      throw error;
+    }
+
+    logger.info("Custom model profile deleted", { model_profile_id: profileId, user_id: userId });
+  } catch (error) {
+    logger.error("Exception deleting custom model profile", error);
+    throw error;
+  }
+}
+
+/**
+ * Names of the user's patterns that run on a model profile (primary or fallback)
+ */
+export async function listPatternsUsingModelProfile(
+  userId: string,
+  modelProfile: ModelProfile
+): Promise<string[]> {
+  try {
+    const { data, error } = await supabaseServer
+      .from("patterns")
+      .select("name")
+      .eq("user_id", userId)
+      .or(`model_profile.eq.${modelProfile},fallback_model_profiles.cs.{${modelProfile}}`);
+
+    if (error) {
+      logger.error("Failed to list patterns using model profile", error);
+      throw error;
+    }
+
+    return (data || []).map((pattern) => pattern.name);
+  } catch (error) {
+    logger.error("Exception listing patterns using model profile", error);
+    throw error;
+  }
+}
+
+/**
+ * Custom profiles among the given model profiles that the user has not registered
+ */
+export async function findUnknownCustomModelProfiles(
+  userId: string,
+  modelProfiles: ModelProfile[]
+): Promise<ModelProfile[]> {
+  const custom = modelProfiles.filter(isCustomModelProfile);
+  if (custom.length === 0) return [];
+
+  const endpoints = await getCustomModelEndpoints(userId, custom);
+  return custom.filter((profile) => !endpoints.some((endpoint) => endpoint.profile === profile));
+}
+
+/**
+ * Endpoint configs (with API keys) of the custom profiles used by a job - worker only
+ */
+export async function getCustomModelEndpoints(
+  userId: string,
+  modelProfiles: ModelProfile[]
+): Promise<OpenAICompatibleEndpoint[]> {
+  const names = modelProfiles
+    .filter(isCustomModelProfile)
+    .map((profile) => profile.slice("custom:".length));
+  if (names.length === 0) return [];
+
+  try {
+    const { data, error } = await supabaseServer
+      .from("custom_model_profiles")
+      .select("*")
+      .eq("user_id", userId)
+      .in("name", names);
+
+    if (error) {
+      logger.error("Failed to load custom model endpoints", error, { user_id: userId });
+      throw error;
+    }
+
+    // Checked again before each call: the host may resolve elsewhere than at registration
+    for (const row of data || []) {
+      if (!(await isAllowedBaseUrl(row.base_url))) {
+        throw new Error(`Base URL of model profile custom:${row.name} is not allowed`);
+      }
+    }
+
+    return (data || []).map((row) => ({
+      id: row.id,
+      profile: `custom:${row.name}` as const,
+      baseUrl: row.base_url,
+      model: row.model,
+      apiKey: row.api_key,
+      supportsJsonSchema: row.supports_json_schema,
+      maxImageDimension: row.max_image_dimension,
+    }));
+  } catch (error) {
+    logger.error("Exception loading custom model endpoints", error);
+    throw error;
+  }
+}
@@ -141,6 +141,12 @@ export async function createPattern(
       plain_text_schema: input.plain_text_schema || null,
       format_metadata: (format_metadata || null) as Database["public"]["Tables"]["patterns"]["Insert"]["format_metadata"],
       model_profile: input.model_profile,
+      fallback_model_profiles: input.fallback_model_profiles ?? [],
+      preprocessing: (input.preprocessing ?? null) as Database["public"]["Tables"]["patterns"]["Insert"]["preprocessing"],
+      cache_mode: input.cache_mode,
+      job_ttl_seconds: input.job_ttl_seconds ?? null,
+      retain_images: input.retain_images ?? false,
+      field_confidence: input.field_confidence ?? false,
       version: input.version ?? 1, // Use input version (0 for drafts, 1+ for published)
       is_active: input.is_active ?? true, // Use input is_active (false for drafts, true for published)
       parent_pattern_id: input.parent_pattern_id || null, // Link to parent pattern for draft versioning
@@ -287,6 +293,13 @@ export async function updatePattern(
     if (input.csv_schema !== undefined) updateData.csv_schema = input.csv_schema;
     if (input.csv_delimiter !== undefined) updateData.csv_delimiter = input.csv_delimiter;
     if (input.plain_text_schema !== undefined) updateData.plain_text_schema = input.plain_text_schema;
+    if (input.model_profile !== undefined) updateData.model_profile = input.model_profile;
+    if (input.fallback_model_profiles !== undefined) updateData.fallback_model_profiles = input.fallback_model_profiles;
+    if (input.preprocessing !== undefined) updateData.preprocessing = input.preprocessing;
+    if (input.cache_mode !== undefined) updateData.cache_mode = input.cache_mode;
+    if (input.job_ttl_seconds !== undefined) updateData.job_ttl_seconds = input.job_ttl_seconds;
+    if (input.retain_images !== undefined) updateData.retain_images = input.retain_images;
+    if (input.field_confidence !== undefined) updateData.field_confidence = input.field_confidence;
     if (input.is_active !== undefined) updateData.is_active = input.is_active;
 
     // If format or any schema changed, regenerate JSON Schema + metadata
@@ -0,0 +1,153 @@
+/**
+ * PDF Service - Rasterize PDF pages to images for ingest
+ * Pages are rendered locally (MuPDF, WASM) and then handled like multi-image jobs
+ */
+
+import { logger } from "@/lib/logger";
+import { MAX_IMAGES_PER_JOB } from "@/schemas/manifest";
+
+export const PDF_MIME_TYPE = "application/pdf";
+export const MAX_PDF_SIZE_BYTES = 20 * 1024 * 1024; // 20MB
+
+const RENDER_DPI = 150; // Readable text without huge images
+const JPEG_QUALITY = 85;
+
+/**
+ * Check whether an uploaded file is a PDF (MIME type or extension)
+ */
+export function isPdfFile(file: File): boolean {
+  return file.type === PDF_MIME_TYPE || file.name.toLowerCase().endsWith(".pdf");
+}
+
+/**
+ * Resolve the page selection from extras.pdf_pages
+ * Accepts "1-3,5", [1, 2, 5] or nothing (all pages). Pages are 1-based.
+ */
+export function resolvePdfPages(
+  selection: unknown,
+  pageCount: number
+): { pages: number[]; error: null } | { pages: null; error: string } {
+  let pages: number[] = [];
+
+  if (selection === undefined || selection === null || selection === "") {
+    pages = Array.from({ length: pageCount }, (_, i) => i + 1);
+  } else if (Array.isArray(selection)) {
+    if (!selection.every((p) => Number.isInteger(p))) {
+      return { pages: null, error: "pdf_pages must contain whole page numbers" };
+    }
+    pages = selection as number[];
+  } else if (typeof selection === "string") {
+    for (const part of selection.split(",")) {
+      const match = part.trim().match(/^(\d+)(?:\s*-\s*(\d+))?$/);
+      if (!match) {
+        return { pages: null, error: `Invalid pdf_pages range: "${part.trim()}"` };
+      }
+      const start = Number(match[1]);
+      const end = match[2] ? Number(match[2]) : start;
+      if (end < start) {
+        return { pages: null, error: `Invalid pdf_pages range: "${part.trim()}"` };
+      }
+      for (let page = start; page <= end && pages.length <= MAX_IMAGES_PER_JOB; page++) {
+        pages.push(page);
+      }
+    }
+  } else {
+    return { pages: null, error: "pdf_pages must be a range string like \"1-3,5\" or an array of page numbers" };
+  }
+
+  // Keep order of first appearance, drop duplicates
+  pages = pages.filter((page, index) => pages.indexOf(page) === index);
+
+  const outOfRange = pages.find((page) => page < 1 || page > pageCount);
+  if (outOfRange !== undefined) {
+    return { pages: null, error: `Page ${outOfRange} does not exist (document has ${pageCount} pages)` };
+  }
+
+  if (pages.length === 0) {
+    return { pages: null, error: "No PDF pages selected" };
+  }
+
+  if (pages.length > MAX_IMAGES_PER_JOB) {
+    return {
+      pages: null,
+      error: `A job can process at most ${MAX_IMAGES_PER_JOB} PDF pages (document has ${pageCount}). Select pages with extras.pdf_pages, e.g. "1-${MAX_IMAGES_PER_JOB}"`,
+    };
+  }
+
+  return { pages, error: null };
+}
+
+/**
+ * Render the selected pages of a PDF to JPEG files
+ *
+ * @param file - Uploaded PDF
+ * @param selection - Page selection (see resolvePdfPages)
+ */
+export async function rasterizePdf(
+  file: File,
+  selection: unknown
+): Promise<
+  | { pages: Array<{ page: number; file: File }>; error: null }
+  | { pages: null; error: string }
+> {
+  if (file.size > MAX_PDF_SIZE_BYTES) {
+    return { pages: null, error: "PDF too large (max 20MB)" };
+  }
+
+  // ESM + WASM: load lazily so routes without PDFs don't pay for it
+  const mupdf = await import("mupdf");
+
+  let document: InstanceType<typeof mupdf.Document>;
+  try {
+    document = mupdf.Document.openDocument(
+      new Uint8Array(await file.arrayBuffer()),
+      PDF_MIME_TYPE
+    );
+  } catch (error) {
+    logger.warn("Failed to open PDF", {
+      filename: file.name,
+      error: error instanceof Error ? error.message : String(error),
+    });
+    return { pages: null, error: "Invalid or corrupted PDF" };
+  }
+
+  try {
+    const pageCount = document.countPages();
+    const resolved = resolvePdfPages(selection, pageCount);
+    if (resolved.error !== null) {
+      return { pages: null, error: resolved.error };
+    }
+
+    const scale = RENDER_DPI / 72;
+    const baseName = file.name.replace(/\.pdf$/i, "") || "document";
+
+    const rendered = resolved.pages.map((pageNumber) => {
+      const page = document.loadPage(pageNumber - 1);
+      const pixmap = page.toPixmap(
+        mupdf.Matrix.scale(scale, scale),
+        mupdf.ColorSpace.DeviceRGB,
+        false,
+        true
+      );
+      const jpeg = pixmap.asJPEG(JPEG_QUALITY);
+      pixmap.destroy();
+      page.destroy();
+
+      return {
+        page: pageNumber,
+        file: new File([new Uint8Array(jpeg)], `${baseName}_page${pageNumber}.jpg`, { type: "image/jpeg" }),
+      };
+    });
+
+    logger.info("PDF rasterized", {
+      filename: file.name,
+      page_count: pageCount,
+      rendered_pages: resolved.pages,
+      dpi: RENDER_DPI,
+    });
+
+    return { pages: rendered, error: null };
+  } finally {
+    document.destroy();
+  }
+}
@@ -9,6 +9,7 @@
 
 import { supabaseServer } from "@/lib/supabase-server";
 import { logger } from "@/lib/logger";
+import type { JobPriority } from "@/schemas/manifest";
 
 // ============================================================================
 // TYPES
@@ -29,6 +30,8 @@ export interface Plan {
   max_api_keys: number;  // -1 = unlimited
   max_patterns: number;  // -1 = unlimited
   max_webhooks: number;  // -1 = unlimited
+  max_priority: JobPriority;  // Highest queue lane jobs may use
+  max_concurrent_jobs: number;  // -1 = unlimited (user_plans.max_concurrent_jobs overrides)
   features: Record<string, unknown>;
   is_highlighted: boolean;
   sort_order: number;
@@ -200,6 +203,25 @@ export async function getPlanById(planId: string): Promise<Plan | null> {
   }
 }
 
+/**
+ * Get the highest queue priority the user's plan allows
+ * Falls back to 'default' when the plan cannot be loaded (never blocks ingest)
+ *
+ * @param userId - User ID
+ */
+export async function getMaxJobPriority(userId: string): Promise<JobPriority> {
+  try {
+    const userPlan = await getUserPlan(userId);
+    return userPlan.plan.max_priority ?? "default";
+  } catch (error) {
+    logger.warn("Could not resolve plan priority, using default lane", {
+      user_id: userId,
+      error: error instanceof Error ? error.message : String(error),
+    });
+    return "default";
+  }
+}
+
 // ============================================================================
 // FEATURE LIMIT CHECKS
 // ============================================================================
@@ -0,0 +1,222 @@
+/**
+ * Result Cache Service - Reuse manifests for identical images
+ * Keyed by pattern configuration + content hash (SHA-256), optionally a perceptual hash (dHash)
+ */
+
+import { createHash } from "crypto";
+import sharp from "sharp";
+import { supabaseServer } from "@/lib/supabase-server";
+import { logger } from "@/lib/logger";
+import { fetchPublicUrl, readBodyWithLimit } from "@/lib/publicFetch";
+import type { Database, Json } from "@/lib/database.types";
+
+export type CacheMode = "off" | "exact" | "perceptual";
+
+// Max Hamming distance (of 64 bits) for a perceptual match
+const PERCEPTUAL_MAX_DISTANCE = 4;
+const FETCH_TIMEOUT_MS = 10000;
+const MAX_HASH_BYTES = 25 * 1024 * 1024;
+
+type ManifestCacheRow = Database["public"]["Tables"]["manifest_cache"]["Row"];
+
+export interface ImageHashes {
+  contentHash: string;
+  perceptualHash: string | null;
+}
+
+/**
+ * Pattern settings that shape the manifest (the version as processed, incl. pinned snapshots)
+ */
+export interface CachedPatternConfig {
+  format: string;
+  instructions: string;
+  json_schema?: unknown;
+  csv_schema?: string | null;
+  csv_delimiter?: string | null;
+  yaml_schema?: string | null;
+  xml_schema?: string | null;
+  plain_text_schema?: string | null;
+  model_profile?: string | null;
+  field_confidence?: boolean | null;
+}
+
+/**
+ * Hash of the pattern configuration, part of the cache key
+ * Pattern edits (PATCH) change instructions, schemas or the model profile without a new
+ * version, so the version alone would keep serving manifests of the old configuration.
+ */
+export function patternConfigHash(config: CachedPatternConfig): string {
+  const key = {
+    format: config.format,
+    instructions: config.instructions,
+    json_schema: config.json_schema ?? null,
+    csv_schema: config.csv_schema ?? null,
+    csv_delimiter: config.csv_delimiter ?? null,
+    yaml_schema: config.yaml_schema ?? null,
+    xml_schema: config.xml_schema ?? null,
+    plain_text_schema: config.plain_text_schema ?? null,
+    model_profile: config.model_profile ?? null,
+    field_confidence: config.field_confidence ?? false,
+  };
+
+  return sha256(Buffer.from(stableStringify(key)));
+}
+
+/**
+ * Hash the job's image(s)
+ * Multi-image jobs hash the ordered per-image hashes; perceptual hashes are single-image only
+ * Returns null when an image cannot be downloaded (the job then runs uncached)
+ */
+export async function hashImages(
+  imageUrls: string[],
+  perceptual: boolean
+): Promise<ImageHashes | null> {
+  try {
+    const buffers = await Promise.all(imageUrls.map(fetchImageBytes));
+    const hashes = buffers.map((buffer) => sha256(buffer));
+
+    const contentHash = hashes.length === 1 ? hashes[0]! : sha256(Buffer.from(hashes.join(":")));
+    const perceptualHash =
+      perceptual && buffers.length === 1 ? await differenceHash(buffers[0]!) : null;
+
+    return { contentHash, perceptualHash };
+  } catch (error) {
+    logger.warn("Could not hash images, skipping result cache", {
+      image_count: imageUrls.length,
+      error: error instanceof Error ? error.message : String(error),
+    });
+    return null;
+  }
+}
+
+/**
+ * Find a cached manifest for this pattern configuration (exact hash first, then perceptual)
+ */
+export async function findCachedManifest(params: {
+  patternId: string;
+  configHash: string;
+  hashes: ImageHashes;
+}): Promise<ManifestCacheRow | null> {
+  const { patternId, configHash, hashes } = params;
+
+  const { data, error } = await supabaseServer.rpc("find_cached_manifest", {
+    p_pattern_id: patternId,
+    p_config_hash: configHash,
+    p_content_hash: hashes.contentHash,
+    p_perceptual_hash: hashes.perceptualHash,
+    p_max_distance: PERCEPTUAL_MAX_DISTANCE,
+  });
+
+  if (error) {
+    // A broken cache must never fail the job
+    logger.warn("Result cache lookup failed", {
+      pattern_id: patternId,
+      error: error.message,
+    });
+    return null;
+  }
+
+  return data?.[0] ?? null;
+}
+
+/**
+ * Store the manifest of a succeeded job (first writer wins)
+ */
+export async function storeCachedManifest(params: {
+  patternId: string;
+  patternVersion: number;
+  configHash: string;
+  hashes: ImageHashes;
+  manifest: Record<string, unknown>;
+  manifestPageSources?: Record<string, number | null>;
+  manifestConfidence?: Record<string, unknown>;
+  sourceJobId: string;
+}): Promise<void> {
+  const {
+    patternId,
+    patternVersion,
+    configHash,
+    hashes,
+    manifest,
+    manifestPageSources,
+    manifestConfidence,
+    sourceJobId,
+  } = params;
+
+  const { error } = await supabaseServer.from("manifest_cache").upsert(
+    {
+      pattern_id: patternId,
+      pattern_version: patternVersion,
+      config_hash: configHash,
+      content_hash: hashes.contentHash,
+      perceptual_hash: hashes.perceptualHash,
+      manifest: manifest as Json,
+      manifest_page_sources: (manifestPageSources ?? null) as Json,
+      manifest_confidence: (manifestConfidence ?? null) as Json,
+      source_job_id: sourceJobId,
+    },
+    { onConflict: "pattern_id,config_hash,content_hash", ignoreDuplicates: true }
+  );
+
+  if (error) {
+    logger.warn("Failed to store manifest in result cache", {
+      pattern_id: patternId,
+      job_id: sourceJobId,
+      error: error.message,
+    });
+  }
+}
+
+async function fetchImageBytes(url: string): Promise<Buffer> {
+  const response = await fetchPublicUrl(url, AbortSignal.timeout(FETCH_TIMEOUT_MS));
+  if (!response.ok) {
+    await response.body?.cancel();
+    throw new Error(`Image download failed with HTTP ${response.status}`);
+  }
+
+  return readBodyWithLimit(response, MAX_HASH_BYTES);
+}
+
+function sha256(buffer: Buffer): string {
+  return createHash("sha256").update(buffer).digest("hex");
+}
+
+/**
+ * JSON with object keys sorted, so equal schemas hash equally whatever their key order
+ */
+function stableStringify(value: unknown): string {
+  if (Array.isArray(value)) {
+    return `[${value.map(stableStringify).join(",")}]`;
+  }
+  if (value && typeof value === "object") {
+    const entries = Object.entries(value as Record<string, unknown>)
+      .filter(([, child]) => child !== undefined)
+      .sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0));
+    return `{${entries.map(([key, child]) => `${JSON.stringify(key)}:${stableStringify(child)}`).join(",")}}`;
+  }
+  return JSON.stringify(value) ?? "null";
+}
+
+/**
+ * 64-bit difference hash: 9x8 grayscale thumbnail, one bit per horizontal neighbour pair
+ * Survives re-encoding and resizing, so re-uploads of the same photo still match
+ */
+async function differenceHash(buffer: Buffer): Promise<string> {
+  const pixels = await sharp(buffer)
+    .autoOrient()
+    .grayscale()
+    .resize(9, 8, { fit: "fill" })
+    .raw()
+    .toBuffer();
+
+  let hash = 0n;
+  for (let row = 0; row < 8; row++) {
+    for (let col = 0; col < 8; col++) {
+      const left = pixels[row * 9 + col]!;
+      const right = pixels[row * 9 + col + 1]!;
+      hash = (hash << 1n) | (left > right ? 1n : 0n);
+    }
+  }
+
+  return hash.toString(16).padStart(16, "0");
+}
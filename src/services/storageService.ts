@@ -7,6 +7,107 @@ import { logger } from "@/lib/logger";
 
 const BUCKET_NAME = process.env.SUPABASE_STORAGE_BUCKET || "images";
 const SIGNED_URL_EXPIRY = 3600; // 1 hour
+const EXPORTS_BUCKET_NAME = process.env.SUPABASE_EXPORTS_BUCKET || "exports";
+
+// HEIC/HEIF and BMP are converted during preprocessing (see imagePreprocessingService)
+export const ALLOWED_IMAGE_EXTENSIONS = [".jpg", ".jpeg", ".png", ".gif", ".webp", ".bmp", ".heic", ".heif"];
+export const MAX_IMAGE_SIZE_BYTES = 10 * 1024 * 1024; // 10MB
+
+/**
+ * Validate an uploaded image file (MIME type, extension, size)
+ * Returns an error message, or null if the file is acceptable
+ */
+export function validateImageFile(file: File): string | null {
+  // Validate file type (MIME)
+  if (!file.type.startsWith("image/")) {
+    return "File must be an image";
+  }
+
+  // Validate file extension (defense in depth)
+  const filename = file.name.toLowerCase();
+  const hasValidExtension = ALLOWED_IMAGE_EXTENSIONS.some((ext) => filename.endsWith(ext));
+
+  if (!hasValidExtension) {
+    return `Invalid file extension. Allowed: ${ALLOWED_IMAGE_EXTENSIONS.join(", ")}`;
+  }
+
+  if (file.size > MAX_IMAGE_SIZE_BYTES) {
+    return "Image too large (max 10MB)";
+  }
+
+  return null;
+}
+
+// Magic bytes of the image formats we accept (base64 input carries no trustworthy filename)
+const IMAGE_SIGNATURES: Array<{ mime: string; ext: string; matches: (b: Buffer) => boolean }> = [
+  { mime: "image/jpeg", ext: ".jpg", matches: (b) => b[0] === 0xff && b[1] === 0xd8 && b[2] === 0xff },
+  { mime: "image/png", ext: ".png", matches: (b) => b.subarray(0, 4).toString("hex") === "89504e47" },
+  { mime: "image/gif", ext: ".gif", matches: (b) => b.subarray(0, 4).toString("ascii") === "GIF8" },
+  {
+    mime: "image/webp",
+    ext: ".webp",
+    matches: (b) => b.subarray(0, 4).toString("ascii") === "RIFF" && b.subarray(8, 12).toString("ascii") === "WEBP",
+  },
+  { mime: "image/bmp", ext: ".bmp", matches: (b) => b[0] === 0x42 && b[1] === 0x4d },
+  {
+    mime: "image/heic",
+    ext: ".heic",
+    matches: (b) =>
+      b.subarray(4, 8).toString("ascii") === "ftyp" &&
+      ["heic", "heix", "hevc", "heim", "heis", "hevx"].includes(b.subarray(8, 12).toString("ascii")),
+  },
+];
+
+/**
+ * Decode a base64 string or `data:image/...;base64,` URI into a File
+ * The MIME type is detected from the content, then validated like a multipart upload
+ */
+export function decodeBase64Image(
+  input: string
+): { file: File; error: null } | { file: null; error: string } {
+  let base64 = input.trim();
+
+  if (base64.startsWith("data:")) {
+    const match = base64.match(/^data:([^;,]+)((?:;[^;,]+)*),/);
+    if (!match) {
+      return { file: null, error: "Invalid data URI" };
+    }
+    if (!match[1]!.startsWith("image/")) {
+      return { file: null, error: "Data URI must contain an image" };
+    }
+    if (!match[2]!.split(";").includes("base64")) {
+      return { file: null, error: "Data URI must be base64 encoded" };
+    }
+    base64 = base64.slice(match[0].length);
+  }
+
+  base64 = base64.replace(/\s/g, "");
+  if (!/^[A-Za-z0-9+/_-]+={0,2}$/.test(base64)) {
+    return { file: null, error: "Invalid base64 image data" };
+  }
+
+  // Reject before decoding (base64 is ~4/3 of the binary size)
+  if (Math.floor((base64.length * 3) / 4) > MAX_IMAGE_SIZE_BYTES) {
+    return { file: null, error: "Image too large (max 10MB)" };
+  }
+
+  const buffer = Buffer.from(base64, "base64");
+  const signature = IMAGE_SIGNATURES.find((sig) => sig.matches(buffer));
+  if (!signature) {
+    return {
+      file: null,
+      error: `Unsupported image data. Allowed: ${ALLOWED_IMAGE_EXTENSIONS.join(", ")}`,
+    };
+  }
+
+  const file = new File([buffer], `upload${signature.ext}`, { type: signature.mime });
+  const validationError = validateImageFile(file);
+  if (validationError) {
+    return { file: null, error: validationError };
+  }
+
+  return { file, error: null };
+}
 
 /**
  * Create signed upload URL for TUS upload
@@ -169,6 +270,46 @@ export async function getSignedUrl(
   }
 }
 
+/**
+ * Upload a generated export file to the private exports bucket (path: userId/exportId.ext)
+ */
+export async function uploadExportFile(params: {
+  path: string;
+  data: Buffer;
+  contentType: string;
+}): Promise<void> {
+  const { path, data, contentType } = params;
+
+  const { error } = await supabaseServer.storage
+    .from(EXPORTS_BUCKET_NAME)
+    .upload(path, data, { contentType, upsert: true });
+
+  if (error) {
+    logger.error("Failed to upload export file", error, { path, size: data.length });
+    throw new Error(`Failed to upload export file: ${error.message}`);
+  }
+}
+
+/**
+ * Signed download URL of an export file
+ */
+export async function getExportDownloadUrl(
+  path: string,
+  fileName: string,
+  expiresIn = SIGNED_URL_EXPIRY
+): Promise<string> {
+  const { data, error } = await supabaseServer.storage
+    .from(EXPORTS_BUCKET_NAME)
+    .createSignedUrl(path, expiresIn, { download: fileName });
+
+  if (error) {
+    logger.error("Failed to create export download URL", error, { path });
+    throw error;
+  }
+
+  return data.signedUrl;
+}
+
 /**
  * Delete file from storage
  */
@@ -6,14 +6,101 @@ import { supabaseServer } from "@/lib/supabase-server";
 import { logger } from "@/lib/logger";
 import { insertRow, updateRowNoReturn, deleteRow } from "@/lib/supabase-helpers";
 import { signWebhookPayload } from "@/lib/crypto";
-import { WebhookPayload } from "@/schemas/manifest";
+import {
+  WebhookPayload,
+  BatchWebhookPayload,
+  BatchJobCounts,
+  ExportWebhookPayload,
+} from "@/schemas/manifest";
+import { WebhookEvent } from "@/schemas/api";
+
+/**
+ * Deliver a signed payload to every active webhook subscribed to the event
+ */
+async function deliverToSubscribers(
+  userId: string,
+  event: WebhookEvent,
+  payload: WebhookPayload | BatchWebhookPayload | ExportWebhookPayload,
+  logContext: Record<string, unknown>
+): Promise<void> {
+  // Get active webhooks for this user and event
+  const { data: webhooks, error: fetchError } = await supabaseServer
+    .from("webhooks")
+    .select("id, url, secret")
+    .eq("user_id", userId)
+    .eq("is_active", true)
+    .contains("events", [event]);
+
+  if (fetchError) {
+    logger.error("Failed to fetch webhooks", fetchError, {
+      user_id: userId,
+    });
+    return;
+  }
+
+  if (!webhooks || webhooks.length === 0) {
+    logger.debug("No webhooks configured", {
+      user_id: userId,
+      event,
+    });
+    return;
+  }
+
+  // Send to each webhook
+  await Promise.allSettled(
+    webhooks.map(async (webhook) => {
+      try {
+        // Type assertion needed because select with specific columns returns partial type
+        const webhookData = webhook as { id: string; url: string; secret: string };
+        const signature = signWebhookPayload(payload, webhookData.secret);
+
+        const response = await fetch(webhookData.url, {
+          method: "POST",
+          headers: {
+            "Content-Type": "application/json",
+            "X-ImgGo-Signature": signature,
+            "User-Agent": "ImgGo-Webhook/1.0",
+          },
+          body: JSON.stringify(payload),
+          signal: AbortSignal.timeout(30000), // 30s timeout
+        });
+
+        if (!response.ok) {
+          logger.warn("Webhook delivery failed", {
+            webhook_id: webhookData.id,
+            status: response.status,
+            ...logContext,
+          });
+        } else {
+          logger.info("Webhook delivered", {
+            webhook_id: webhookData.id,
+            ...logContext,
+          });
+
+          // Update last triggered timestamp
+          await updateRowNoReturn(
+            supabaseServer,
+            "webhooks",
+            { last_triggered_at: new Date().toISOString() },
+            { column: "id", value: webhookData.id }
+          );
+        }
+      } catch (err) {
+        logger.error("Webhook delivery exception", err, {
+          webhook_id: (webhook as { id: string }).id,
+          ...logContext,
+        });
+      }
+    })
+  );
+}
 
 /**
  * Send webhook notification
  */
 export async function sendWebhook(params: {
   userId: string;
-  event: "job.succeeded" | "job.failed";
+  event: "job.succeeded" | "job.failed" | "job.cancelled" | "job.expired";
   jobId: string;
   patternId: string;
   manifest?: Record<string, unknown>;
@@ -28,29 +115,6 @@ export async function sendWebhook(params: {
       job_id: jobId,
     });
 
-    // Get active webhooks for this user and event
-    const { data: webhooks, error: fetchError } = await supabaseServer
-      .from("webhooks")
-      .select("id, url, secret")
-      .eq("user_id", userId)
-      .eq("is_active", true)
-      .contains("events", [event]);
-
-    if (fetchError) {
-      logger.error("Failed to fetch webhooks", fetchError, {
-        user_id: userId,
-      });
-      return;
-    }
-
-    if (!webhooks || webhooks.length === 0) {
-      logger.debug("No webhooks configured", {
-        user_id: userId,
-        event,
-      });
-      return;
-    }
-
     // Prepare payload
     const payload: WebhookPayload = {
       event,
@@ -61,58 +125,75 @@ export async function sendWebhook(params: {
       timestamp: new Date().toISOString(),
     };
 
-    // Send to each webhook
-    await Promise.allSettled(
-      webhooks.map(async (webhook) => {
-        try {
-          // Type assertion needed because select with specific columns returns partial type
-          const webhookData = webhook as { id: string; url: string; secret: string };
-          const signature = signWebhookPayload(payload, webhookData.secret);
-
-          const response = await fetch(webhookData.url, {
-            method: "POST",
-            headers: {
-              "Content-Type": "application/json",
-              "X-ImgGo-Signature": signature,
-              "User-Agent": "ImgGo-Webhook/1.0",
-            },
-            body: JSON.stringify(payload),
-            signal: AbortSignal.timeout(30000), // 30s timeout
-          });
-
-          if (!response.ok) {
-            logger.warn("Webhook delivery failed", {
-              webhook_id: webhookData.id,
-              status: response.status,
-              job_id: jobId,
-            });
-          } else {
-            logger.info("Webhook delivered", {
-              webhook_id: webhookData.id,
-              job_id: jobId,
-            });
-
-            // Update last triggered timestamp
-            await updateRowNoReturn(
-              supabaseServer,
-              "webhooks",
-              { last_triggered_at: new Date().toISOString() },
-              { column: "id", value: webhookData.id }
-            );
-          }
-        } catch (err) {
-          logger.error("Webhook delivery exception", err, {
-            webhook_id: (webhook as { id: string }).id,
-            job_id: jobId,
-          });
-        }
-      })
-    );
+    await deliverToSubscribers(userId, event, payload, { job_id: jobId });
   } catch (error) {
     logger.error("Exception in webhook service", error);
   }
 }
 
+/**
+ * Send batch.completed webhook notification
+ */
+export async function sendBatchWebhook(params: {
+  userId: string;
+  batchId: string;
+  patternId: string;
+  counts: BatchJobCounts;
+}): Promise<void> {
+  const { userId, batchId, patternId, counts } = params;
+
+  try {
+    logger.info("Sending batch webhook", {
+      user_id: userId,
+      event: "batch.completed",
+      batch_id: batchId,
+    });
+
+    const payload: BatchWebhookPayload = {
+      event: "batch.completed",
+      batch_id: batchId,
+      pattern_id: patternId,
+      counts,
+      timestamp: new Date().toISOString(),
+    };
+
+    await deliverToSubscribers(userId, "batch.completed", payload, {
+      batch_id: batchId,
+    });
+  } catch (error) {
+    logger.error("Exception in batch webhook service", error);
+  }
+}
+
+/**
+ * Send export.ready webhook notification
+ */
+export async function sendExportWebhook(
+  params: { userId: string } & Omit<ExportWebhookPayload, "event" | "timestamp">
+): Promise<void> {
+  const { userId, ...exportInfo } = params;
+
+  try {
+    logger.info("Sending export webhook", {
+      user_id: userId,
+      event: "export.ready",
+      export_id: exportInfo.export_id,
+    });
+
+    const payload: ExportWebhookPayload = {
+      event: "export.ready",
+      ...exportInfo,
+      timestamp: new Date().toISOString(),
+    };
+
+    await deliverToSubscribers(userId, "export.ready", payload, {
+      export_id: exportInfo.export_id,
+    });
+  } catch (error) {
+    logger.error("Exception in export webhook service", error);
+  }
+}
+
 /**
  * Create webhook
  */
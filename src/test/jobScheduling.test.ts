@@ -0,0 +1,63 @@
+/**
+ * Job priority caps and deferred execution (ingest)
+ */
+
+import { describe, it, expect } from "vitest";
+import {
+  MAX_SCHEDULE_DELAY_SECONDS,
+  capJobPriority,
+  resolveJobSchedule,
+} from "@/schemas/manifest";
+
+describe("capJobPriority", () => {
+  it("should keep priorities the plan allows", () => {
+    expect(capJobPriority("interactive", "interactive")).toBe("interactive");
+    expect(capJobPriority("default", "interactive")).toBe("default");
+    expect(capJobPriority("bulk", "default")).toBe("bulk");
+  });
+
+  it("should lower priorities above the plan maximum", () => {
+    expect(capJobPriority("interactive", "default")).toBe("default");
+    expect(capJobPriority("interactive", "bulk")).toBe("bulk");
+    expect(capJobPriority("default", "bulk")).toBe("bulk");
+  });
+});
+
+describe("resolveJobSchedule", () => {
+  const now = Date.parse("2026-01-01T12:00:00Z");
+
+  it("should run now when nothing is requested", () => {
+    expect(resolveJobSchedule({}, now)).toEqual({ schedule: null, error: null });
+  });
+
+  it("should schedule delay_seconds from now", () => {
+    expect(resolveJobSchedule({ delay_seconds: 90 }, now)).toEqual({
+      schedule: { scheduledFor: new Date("2026-01-01T12:01:30Z"), delaySeconds: 90 },
+      error: null,
+    });
+  });
+
+  it("should round process_at up to whole seconds", () => {
+    const { schedule } = resolveJobSchedule({ process_at: "2026-01-01T12:00:10.200Z" }, now);
+
+    expect(schedule).toEqual({
+      scheduledFor: new Date("2026-01-01T12:00:11Z"),
+      delaySeconds: 11,
+    });
+  });
+
+  it("should run now when process_at has already passed", () => {
+    expect(resolveJobSchedule({ process_at: "2026-01-01T11:00:00Z" }, now)).toEqual({
+      schedule: null,
+      error: null,
+    });
+  });
+
+  it("should reject schedules more than 7 days ahead", () => {
+    expect(resolveJobSchedule({ delay_seconds: MAX_SCHEDULE_DELAY_SECONDS }, now).error).toBeNull();
+    expect(resolveJobSchedule({ process_at: "2026-01-08T12:00:01Z" }, now)).toEqual({
+      schedule: null,
+      error: "process_at cannot be more than 7 days in the future",
+    });
+  });
+});
@@ -0,0 +1,89 @@
+/**
+ * Manifest search filters (GET /api/jobs, GET /api/logs)
+ */
+
+import { describe, it, expect } from "vitest";
+import {
+  MAX_MANIFEST_FILTERS,
+  buildManifestPath,
+  parseManifestFilters,
+} from "@/lib/manifestFilters";
+
+describe("parseManifestFilters", () => {
+  it("should parse equality, comparison and exists filters and ignore other parameters", () => {
+    const result = parseManifestFilters(
+      "?page=2&manifest.brand=Logitech&manifest.price%3E=10&exists:manifest.barcode&status=succeeded"
+    );
+
+    expect(result).toEqual({
+      filters: [
+        { path: ["brand"], operator: "eq", value: "Logitech" },
+        { path: ["price"], operator: "gte", value: 10 },
+        { path: ["barcode"], operator: "exists" },
+      ],
+      error: null,
+    });
+  });
+
+  it("should type equality values", () => {
+    const { filters } = parseManifestFilters(
+      "manifest.a=10&manifest.b=true&manifest.c=null&manifest.d=%2210%22&manifest.e=Big+Box"
+    );
+
+    expect(filters!.map((filter) => filter.value)).toEqual([10, true, null, "10", "Big Box"]);
+  });
+
+  it("should parse nested paths and inequality", () => {
+    const { filters } = parseManifestFilters("manifest.shelf.products.brand!=Acme");
+
+    expect(filters).toEqual([
+      { path: ["shelf", "products", "brand"], operator: "neq", value: "Acme" },
+    ]);
+  });
+
+  it("should reject comparisons without a number", () => {
+    expect(parseManifestFilters("manifest.price>cheap")).toEqual({
+      filters: null,
+      error: "Comparison needs a number: manifest.price>cheap",
+    });
+    expect(parseManifestFilters("manifest.price<").error).toContain("Comparison needs a number");
+  });
+
+  it("should reject keys outside the whitelist", () => {
+    expect(parseManifestFilters('manifest.a"b=1').error).toContain("Invalid manifest path");
+    expect(parseManifestFilters("manifest.a..b=1").error).toContain("Invalid manifest path");
+  });
+
+  it("should reject malformed filters and encodings", () => {
+    expect(parseManifestFilters("manifest.brand").error).toBe("Invalid manifest filter: manifest.brand");
+    expect(parseManifestFilters("manifest.brand=%E0%A4%A").error).toContain("Malformed query parameter");
+  });
+
+  it("should limit the number of filters", () => {
+    const search = Array.from({ length: MAX_MANIFEST_FILTERS + 1 }, (_, i) => `manifest.f${i}=1`).join("&");
+
+    expect(parseManifestFilters(search).error).toBe(
+      `At most ${MAX_MANIFEST_FILTERS} manifest filters are allowed`
+    );
+  });
+});
+
+describe("buildManifestPath", () => {
+  it("should build one jsonpath predicate with quoted keys and JSON literals", () => {
+    const path = buildManifestPath([
+      { path: ["brand"], operator: "eq", value: 'Say "hi"' },
+      { path: ["shelf", "price"], operator: "lt", value: 9.5 },
+      { path: ["barcode"], operator: "exists" },
+    ]);
+
+    expect(path).toBe(
+      '$ ? (@."brand" == "Say \\"hi\\"" && @."shelf"."price" < 9.5 && exists(@."barcode"))'
+    );
+  });
+
+  it("should compare with null when an equality filter has no value", () => {
+    expect(buildManifestPath([{ path: ["note"], operator: "eq", value: null }])).toBe(
+      '$ ? (@."note" == null)'
+    );
+  });
+});
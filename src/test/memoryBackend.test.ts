@@ -0,0 +1,131 @@
+/**
+ * In-memory queue backend (QUEUE_BACKEND=memory): pgmq semantics
+ */
+
+import { describe, it, expect, beforeEach, afterEach, vi } from "vitest";
+import { MemoryQueueBackend } from "@/queues/memoryBackend";
+
+describe("MemoryQueueBackend", () => {
+  let backend: MemoryQueueBackend;
+
+  beforeEach(() => {
+    vi.useFakeTimers();
+    vi.setSystemTime(new Date("2026-01-01T00:00:00Z"));
+    backend = new MemoryQueueBackend();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it("should read messages in order and hide them for the visibility timeout", async () => {
+    await backend.send("jobs", { job_id: "a" });
+    await backend.send("jobs", { job_id: "b" });
+
+    const first = await backend.read("jobs", 30, 1);
+    expect(first.map((msg) => msg.message)).toEqual([{ job_id: "a" }]);
+    expect(first[0]!.read_ct).toBe(1);
+
+    // "a" is invisible until its timeout, so the next read gets "b"
+    const second = await backend.read("jobs", 30, 10);
+    expect(second.map((msg) => msg.message)).toEqual([{ job_id: "b" }]);
+    expect(await backend.read("jobs", 30, 10)).toEqual([]);
+
+    vi.advanceTimersByTime(30_000);
+    const redelivered = await backend.read("jobs", 30, 10);
+    expect(redelivered.map((msg) => msg.message)).toEqual([{ job_id: "a" }, { job_id: "b" }]);
+    expect(redelivered[0]!.read_ct).toBe(2);
+  });
+
+  it("should keep delayed messages invisible until their delay has passed", async () => {
+    await backend.send("jobs", { job_id: "later" }, 60);
+
+    expect(await backend.read("jobs", 30, 10)).toEqual([]);
+    vi.advanceTimersByTime(60_000);
+    expect(await backend.read("jobs", 30, 10)).toHaveLength(1);
+  });
+
+  it("should extend and reset the visibility timeout", async () => {
+    const msgId = await backend.send("jobs", { job_id: "a" });
+    await backend.read("jobs", 10, 1);
+
+    expect(await backend.setVisibility("jobs", msgId, 120)).toBe(true);
+    vi.advanceTimersByTime(60_000);
+    expect(await backend.read("jobs", 10, 1)).toEqual([]);
+
+    expect(await backend.setVisibility("jobs", msgId, 0)).toBe(true);
+    expect(await backend.read("jobs", 10, 1)).toHaveLength(1);
+
+    expect(await backend.setVisibility("jobs", 999, 0)).toBe(false);
+  });
+
+  it("should archive and delete messages", async () => {
+    const archived = await backend.send("jobs", { job_id: "a" });
+    const deleted = await backend.send("jobs", { job_id: "b" });
+
+    expect(await backend.archive("jobs", archived)).toBe(true);
+    expect(await backend.delete("jobs", deleted)).toBe(true);
+
+    expect(await backend.peek("jobs")).toEqual([]);
+    expect(backend.getArchive("jobs").map((msg) => msg.message)).toEqual([{ job_id: "a" }]);
+
+    // Gone messages report false, like pgmq
+    expect(await backend.archive("jobs", archived)).toBe(false);
+    expect(await backend.delete("jobs", deleted)).toBe(false);
+  });
+
+  it("should peek without changing visibility or read count", async () => {
+    const msgId = await backend.send("jobs", { job_id: "a" });
+    await backend.send("jobs", { job_id: "b" });
+
+    expect(await backend.peek("jobs", { msgId })).toHaveLength(1);
+    expect((await backend.peek("jobs", { offset: 1 })).map((msg) => msg.message)).toEqual([
+      { job_id: "b" },
+    ]);
+
+    const read = await backend.read("jobs", 30, 10);
+    expect(read.every((msg) => msg.read_ct === 1)).toBe(true);
+  });
+
+  it("should not share message objects with callers", async () => {
+    const payload = { job_id: "a" };
+    await backend.send("jobs", payload);
+    payload.job_id = "changed";
+
+    const [msg] = await backend.peek("jobs");
+    expect(msg!.message).toEqual({ job_id: "a" });
+  });
+
+  it("should report queue metrics", async () => {
+    expect(await backend.metrics("jobs")).toEqual({
+      queue_length: 0,
+      oldest_msg_age_sec: null,
+      newest_msg_age_sec: null,
+      total_messages: 0,
+    });
+
+    const first = await backend.send("jobs", { job_id: "a" });
+    vi.advanceTimersByTime(20_000);
+    await backend.send("jobs", { job_id: "b" });
+    vi.advanceTimersByTime(5_000);
+    await backend.archive("jobs", first);
+    await backend.send("jobs", { job_id: "c" });
+
+    expect(await backend.metrics("jobs")).toEqual({
+      queue_length: 2,
+      oldest_msg_age_sec: 5,
+      newest_msg_age_sec: 0,
+      total_messages: 3,
+    });
+  });
+
+  it("should purge a queue and keep queues apart", async () => {
+    await backend.send("jobs", { job_id: "a" });
+    await backend.send("jobs", { job_id: "b" });
+    await backend.send("jobs_dlq", { job_id: "c" });
+
+    expect(await backend.purge("jobs")).toBe(2);
+    expect(await backend.peek("jobs")).toEqual([]);
+    expect(await backend.peek("jobs_dlq")).toHaveLength(1);
+  });
+});
@@ -0,0 +1,132 @@
+/**
+ * OSS detector output → pattern manifest mapping
+ */
+
+import { describe, it, expect } from "vitest";
+import { collectSchemaLabels, mapDetectionsToSchema } from "@/llm/providers/ossMapping";
+import type { OSSDetectorResponse } from "@/llm/providers/ossContract";
+
+const detections: OSSDetectorResponse = {
+  objects: [
+    { label: "bottle", confidence: 0.92, bbox: [10, 20, 50, 120] },
+    { label: "Bottle", confidence: 0.4, bbox: [60, 20, 100, 120] },
+    { label: "person", confidence: 0.88, bbox: [200, 0, 320, 400] },
+  ],
+  captions: ["Two bottles on a shelf next to a person"],
+  ocr_text: ["ACME Market", "Invoice No: 4711", "Total: 1,234.50 EUR"],
+};
+
+describe("mapDetectionsToSchema", () => {
+  it("should count labels and set flags from the field names", () => {
+    const manifest = mapDetectionsToSchema(detections, {
+      type: "object",
+      properties: {
+        bottle_count: { type: "integer" },
+        num_people: { type: "integer" },
+        cans: { type: "integer" },
+        has_person: { type: "boolean" },
+        dog_visible: { type: "boolean" },
+      },
+    });
+
+    expect(manifest).toEqual({
+      bottle_count: 2,
+      num_people: 1,
+      cans: 0,
+      has_person: true,
+      dog_visible: false,
+    });
+  });
+
+  it("should apply label and min_confidence hints", () => {
+    const manifest = mapDetectionsToSchema(detections, {
+      type: "object",
+      properties: {
+        drinks: { type: "integer", description: "Drinks [label: bottle, can] [min_confidence: 0.5]" },
+      },
+    });
+
+    expect(manifest).toEqual({ drinks: 1 });
+  });
+
+  it("should bind OCR lines by keyword and regex", () => {
+    const manifest = mapDetectionsToSchema(detections, {
+      type: "object",
+      properties: {
+        invoice_number: { type: "string", description: "[keyword: Invoice No]" },
+        total: { type: "number", description: "[regex: /Total:\\s*([\\d,.]+)/]" },
+        store_name: { type: "string", description: "[source: ocr]" },
+      },
+    });
+
+    expect(manifest).toEqual({
+      invoice_number: "4711",
+      total: 1234.5,
+      store_name: "ACME Market\nInvoice No: 4711\nTotal: 1,234.50 EUR",
+    });
+  });
+
+  it("should fill captions and box lists", () => {
+    const manifest = mapDetectionsToSchema(detections, {
+      type: "object",
+      properties: {
+        caption: { type: "string" },
+        bottles: {
+          type: "array",
+          items: {
+            type: "object",
+            properties: {
+              label: { type: "string" },
+              confidence: { type: "number" },
+              x: { type: "number" },
+              width: { type: "number" },
+            },
+          },
+        },
+      },
+    });
+
+    expect(manifest).toEqual({
+      caption: "Two bottles on a shelf next to a person",
+      bottles: [
+        { label: "bottle", confidence: 0.92, x: 10, width: 40 },
+        { label: "Bottle", confidence: 0.4, x: 60, width: 40 },
+      ],
+    });
+  });
+
+  it("should use empty values for fields nothing was found for", () => {
+    const manifest = mapDetectionsToSchema(
+      { objects: [], captions: [], ocr_text: [] },
+      {
+        type: "object",
+        properties: {
+          brand: { type: "string" },
+          note: { type: ["string", "null"] },
+          price: { type: "number" },
+          tags: { type: "array", items: { type: "string" } },
+        },
+      }
+    );
+
+    expect(manifest).toEqual({ brand: "", note: null, price: 0, tags: [] });
+  });
+});
+
+describe("collectSchemaLabels", () => {
+  it("should collect counted, flagged, listed and hinted labels", () => {
+    const labels = collectSchemaLabels({
+      type: "object",
+      properties: {
+        bottle_count: { type: "integer" },
+        has_logo: { type: "boolean" },
+        drinks: { type: "integer", description: "[labels: can, cup]" },
+        people: { type: "array", items: { type: "object", properties: { label: { type: "string" } } } },
+        objects: { type: "array", items: { type: "object", properties: { label: { type: "string" } } } },
+        invoice_number: { type: "string", description: "[keyword: Invoice No]" },
+      },
+    });
+
+    expect(labels).toEqual(["bottle", "logo", "can", "cup", "person"]);
+  });
+});
@@ -0,0 +1,67 @@
+/**
+ * Fetching user-supplied URLs: internal hosts and oversized bodies
+ */
+
+import { describe, it, expect } from "vitest";
+import { fetchPublicUrl, isInternalAddress, readBodyWithLimit } from "@/lib/publicFetch";
+
+function streamedResponse(chunks: number[], headers?: HeadersInit): Response {
+  const stream = new ReadableStream<Uint8Array>({
+    start(controller) {
+      chunks.forEach((size) => controller.enqueue(new Uint8Array(size)));
+      controller.close();
+    },
+  });
+  return new Response(stream, { headers });
+}
+
+describe("isInternalAddress", () => {
+  it("should flag loopback, private, link-local and mapped addresses", () => {
+    expect(isInternalAddress("127.0.0.1")).toBe(true);
+    expect(isInternalAddress("10.1.2.3")).toBe(true);
+    expect(isInternalAddress("169.254.169.254")).toBe(true);
+    expect(isInternalAddress("::1")).toBe(true);
+    expect(isInternalAddress("fd00::1")).toBe(true);
+    expect(isInternalAddress("::ffff:192.168.1.1")).toBe(true);
+  });
+
+  it("should allow public addresses", () => {
+    expect(isInternalAddress("8.8.8.8")).toBe(false);
+    expect(isInternalAddress("2606:4700:4700::1111")).toBe(false);
+  });
+});
+
+describe("fetchPublicUrl", () => {
+  it("should refuse internal hosts without a request", async () => {
+    const signal = AbortSignal.timeout(1000);
+    await expect(fetchPublicUrl("http://169.254.169.254/latest/meta-data", signal)).rejects.toThrow(
+      "not publicly reachable"
+    );
+    await expect(fetchPublicUrl("http://[::1]:8080/", signal)).rejects.toThrow("not publicly reachable");
+  });
+
+  it("should refuse other protocols", async () => {
+    await expect(fetchPublicUrl("file:///etc/passwd", AbortSignal.timeout(1000))).rejects.toThrow(
+      "Unsupported URL protocol"
+    );
+  });
+});
+
+describe("readBodyWithLimit", () => {
+  it("should read a body within the limit", async () => {
+    const body = await readBodyWithLimit(streamedResponse([4, 4]), 10);
+    expect(body.length).toBe(8);
+  });
+
+  it("should abort a streamed body that passes the limit", async () => {
+    await expect(readBodyWithLimit(streamedResponse([6, 6, 6]), 10)).rejects.toThrow(
+      "exceeds 10 bytes"
+    );
+  });
+
+  it("should reject a declared Content-Length over the limit", async () => {
+    await expect(
+      readBodyWithLimit(streamedResponse([1], { "content-length": "11" }), 10)
+    ).rejects.toThrow("exceeds 10 bytes");
+  });
+});
@@ -0,0 +1,78 @@
+/**
+ * Plan-based rate limiting: status handed to routes after a request is allowed
+ */
+
+import { describe, it, expect, beforeEach, vi } from "vitest";
+import type { AuthContext } from "@/lib/auth-unified";
+
+const userPlan = vi.hoisted(() => ({ current: {} as Record<string, unknown> }));
+
+vi.mock("@/lib/supabase-server", () => {
+  const query = {
+    select: () => query,
+    eq: () => query,
+    single: async () => ({ data: userPlan.current, error: null }),
+    insert: () => Promise.resolve({ error: null }),
+  };
+  return {
+    supabaseServer: {
+      from: () => query,
+      rpc: async () => ({ error: null }),
+    },
+  };
+});
+
+import { enforceRateLimit, RateLimitStatus } from "@/middleware/rateLimitParametric";
+
+const authContext = { userId: "user-1", authType: "api_key" } as AuthContext;
+
+function planWithLimit(requestsPerMonth: number, used: number) {
+  return {
+    user_id: "user-1",
+    requests_used_current_period: used,
+    current_period_end: "2026-02-01T00:00:00Z",
+    last_burst_request_at: null,
+    plans: { name: "test", requests_per_month: requestsPerMonth, burst_rate_limit_seconds: null },
+  };
+}
+
+async function allowedStatus(): Promise<RateLimitStatus> {
+  const statusRef: { current?: RateLimitStatus } = {};
+  const limited = await enforceRateLimit("user-1", authContext, "/api/test", "127.0.0.1", { statusRef });
+
+  expect(limited).toBeNull();
+  return statusRef.current!;
+}
+
+describe("enforceRateLimit", () => {
+  beforeEach(() => {
+    userPlan.current = {};
+  });
+
+  it("should count the allowed request against the remaining quota", async () => {
+    userPlan.current = planWithLimit(500, 100);
+
+    const status = await allowedStatus();
+    expect(status.monthly_remaining).toBe(399);
+    expect(status.remaining).toBe(399);
+  });
+
+  it("should keep -1 (unlimited) for plans without a monthly limit", async () => {
+    userPlan.current = planWithLimit(-1, 100000);
+
+    const status = await allowedStatus();
+    expect(status.monthly_limit).toBe(-1);
+    expect(status.monthly_remaining).toBe(-1);
+    expect(status.remaining).toBe(-1);
+  });
+
+  it("should reject requests once the monthly quota is used up", async () => {
+    userPlan.current = planWithLimit(50, 50);
+    const statusRef: { current?: RateLimitStatus } = {};
+
+    const limited = await enforceRateLimit("user-1", authContext, "/api/test", "127.0.0.1", { statusRef });
+
+    expect(limited?.status).toBe(429);
+    expect(statusRef.current?.monthly_remaining).toBe(0);
+  });
+});
@@ -0,0 +1,52 @@
+/**
+ * XLSX writer round trip (read back with ExcelJS)
+ */
+
+import { describe, it, expect } from "vitest";
+import ExcelJS from "exceljs";
+import { createXlsx } from "@/lib/xlsx";
+
+async function readWorkbook(file: Buffer): Promise<ExcelJS.Worksheet> {
+  const workbook = new ExcelJS.Workbook();
+  await workbook.xlsx.load(new Uint8Array(file).buffer);
+  return workbook.worksheets[0]!;
+}
+
+describe("createXlsx", () => {
+  it("should round-trip headers, strings, numbers and booleans", async () => {
+    const sheet = await readWorkbook(
+      createXlsx("Results", ["id", "name", "price", "in_stock"], [
+        ["job-1", "Apfel & Birne <Bio>", 1.99, true],
+        ["job-2", "Milch \"frisch\"", 0, false],
+      ])
+    );
+
+    expect(sheet.name).toBe("Results");
+    expect(sheet.getRow(1).values).toEqual([undefined, "id", "name", "price", "in_stock"]);
+    expect(sheet.getRow(2).values).toEqual([undefined, "job-1", "Apfel & Birne <Bio>", 1.99, true]);
+    expect(sheet.getRow(3).values).toEqual([undefined, "job-2", "Milch \"frisch\"", 0, false]);
+  });
+
+  it("should leave null and empty cells blank", async () => {
+    const sheet = await readWorkbook(createXlsx("Sheet", ["a", "b", "c"], [[null, "", "x"]]));
+
+    expect(sheet.getCell("A2").value).toBeNull();
+    expect(sheet.getCell("B2").value).toBeNull();
+    expect(sheet.getCell("C2").value).toBe("x");
+  });
+
+  it("should use column letters beyond Z", async () => {
+    const headers = Array.from({ length: 28 }, (_, i) => `col${i + 1}`);
+    const sheet = await readWorkbook(createXlsx("Wide", headers, [headers.map((_, i) => i + 1)]));
+
+    expect(sheet.getCell("AA1").value).toBe("col27");
+    expect(sheet.getCell("AB2").value).toBe(28);
+  });
+
+  it("should strip characters that are invalid in XML and sanitize the sheet name", async () => {
+    const sheet = await readWorkbook(createXlsx("Q1/Q2: [draft]", ["text"], [["a\u0000b\u0008c"]]));
+
+    expect(sheet.name).toBe("Q1 Q2   draft ");
+    expect(sheet.getCell("A2").value).toBe("abc");
+  });
+});
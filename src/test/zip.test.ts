@@ -0,0 +1,61 @@
+/**
+ * ZIP writer round trip (read back with fflate and, where installed, `unzip -t`)
+ */
+
+import { describe, it, expect } from "vitest";
+import { execFileSync } from "child_process";
+import { mkdtempSync, rmSync, writeFileSync } from "fs";
+import { tmpdir } from "os";
+import path from "path";
+import { strFromU8, unzipSync } from "fflate";
+import { createZip } from "@/lib/zip";
+
+function hasUnzip(): boolean {
+  try {
+    execFileSync("unzip", ["-v"], { stdio: "ignore" });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+describe("createZip", () => {
+  const binary = Buffer.from(Array.from({ length: 4096 }, (_, i) => (i * 31) % 256));
+  const entries = [
+    { name: "manifests/job-1.json", data: JSON.stringify({ shelf: "A1", items: [1, 2, 3] }) },
+    { name: "manifests/Übersicht.txt", data: "Grüße aus dem Lager" },
+    { name: "empty.txt", data: "" },
+    { name: "image.bin", data: binary },
+  ];
+
+  it("should round-trip names and contents", () => {
+    const files = unzipSync(new Uint8Array(createZip(entries)));
+
+    expect(Object.keys(files)).toEqual(entries.map((entry) => entry.name));
+    expect(strFromU8(files["manifests/job-1.json"]!)).toBe(entries[0]!.data);
+    expect(strFromU8(files["manifests/Übersicht.txt"]!)).toBe("Grüße aus dem Lager");
+    expect(files["empty.txt"]!.length).toBe(0);
+    expect(Buffer.from(files["image.bin"]!).equals(binary)).toBe(true);
+  });
+
+  it("should produce an empty archive without entries", () => {
+    expect(Object.keys(unzipSync(new Uint8Array(createZip([]))))).toEqual([]);
+  });
+
+  it("should reject more than 65,535 entries", () => {
+    const tooMany = Array.from({ length: 0x10000 }, (_, i) => ({ name: `${i}.txt`, data: "" }));
+    expect(() => createZip(tooMany)).toThrow("65535 entries");
+  });
+
+  it.skipIf(!hasUnzip())("should pass unzip -t (CRCs and sizes)", () => {
+    const dir = mkdtempSync(path.join(tmpdir(), "zip-test-"));
+    try {
+      const file = path.join(dir, "archive.zip");
+      writeFileSync(file, createZip(entries));
+      const output = execFileSync("unzip", ["-t", file], { encoding: "utf8" });
+      expect(output).toContain("No errors detected");
+    } finally {
+      rmSync(dir, { recursive: true, force: true });
+    }
+  });
+});